@@ -29,6 +29,7 @@ const AgentStopTool = createTool({
     reason: z.string().describe('Reason for stopping the agent. Example: "Task completed successfully" or "User request fulfilled"')
   }),
   async: false,
+  riskLevel: 'read-only',
   execute: async (args, agent) => {
     const { reason } = args;
     
@@ -72,6 +73,7 @@ const TodoUpdateTool = createTool({
     todos: z.string().describe('Todos in markdown format. Example: "- [ ] task1\\n- [ ] task2\\n- [x] completed_task". Use "EMPTY" to clear all todos.')
   }),
   async: false,
+  riskLevel: 'read-only',
   execute: async (args, agent) => {
     const { todos } = args;
     
@@ -211,6 +213,7 @@ function createWorkspaceTools(context: ICodingContext): ITool<any, any, IAgent>[
       workspacePath: z.string().describe('The absolute or relative path to the workspace directory to switch to')
     }),
     async: true,
+    riskLevel: 'read-only',
     execute: async (args, agent) => {
       try {
         const { workspacePath } = args;
@@ -21,6 +21,7 @@ export interface ExecutionOptions {
   timeout?: number;
   writablePaths?: string[];
   env?: Record<string, string>;
+  signal?: AbortSignal; // Kills the child process when aborted (e.g. the agent is stopped)
   
   // Network-related options
   allowNetwork?: boolean;
@@ -20,6 +20,7 @@ export class NoSandbox implements ISandbox {
       timeout: options?.timeout || 60000,
       shell: process.env.SHELL || undefined,
       env: options?.env ? { ...process.env, ...options.env } : process.env,
+      signal: options?.signal,
     };
 
     try {
@@ -30,11 +31,13 @@ export class NoSandbox implements ISandbox {
         stdout: error.stdout || '',
         stderr: error.stderr || '',
         exitCode: typeof error.code === 'number' ? error.code : null,
-        error: error.signal
-          ? new Error(`Command killed by signal: ${error.signal}`)
-          : error.killed
-            ? new Error('Command was killed.')
-            : new Error(`Command failed with exit code ${error.code}: ${error.stderr || error.stdout || 'No output'}`),
+        error: error.name === 'AbortError'
+          ? new Error('Command was cancelled.')
+          : error.signal
+            ? new Error(`Command killed by signal: ${error.signal}`)
+            : error.killed
+              ? new Error('Command was killed.')
+              : new Error(`Command failed with exit code ${error.code}: ${error.stderr || error.stdout || 'No output'}`),
       };
     }
   }
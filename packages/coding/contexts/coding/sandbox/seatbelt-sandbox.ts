@@ -66,6 +66,7 @@ export class SeatbeltSandbox implements ISandbox {
         cwd: effectiveCwd, 
         timeout: options?.timeout || 60000,
         env: options?.env ? { ...process.env, ...options.env } : process.env,
+        signal: options?.signal,
       };
       const { stdout, stderr } = await execAsync(sandboxedCommand, execOptions);
       return { stdout, stderr, exitCode: 0 };
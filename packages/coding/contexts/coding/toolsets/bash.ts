@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { createTool } from '@continue-reasoning/core';
-import { IAgent } from '@continue-reasoning/core';
+import { IAgent, ToolExecuteOptions } from '@continue-reasoning/core';
 import { ShellExecutionResult, ExecutionOptions } from '../sandbox/index.js';
 import { IRuntime } from '../runtime/interface.js';
 import { logger } from '@continue-reasoning/core';
@@ -28,7 +28,8 @@ export const BashCommandTool = createTool({
   inputSchema: BashCommandParamsSchema,
   outputSchema: BashCommandReturnsSchema,
   async: false,
-  execute: async (params, agent?: IAgent) => {
+  riskLevel: 'shell',
+  execute: async (params, agent?: IAgent, options?: ToolExecuteOptions) => {
     const codingContext = agent?.contextManager.findContextById('coding-context');
     if (!codingContext) {
       throw new Error('Coding context not found');
@@ -53,6 +54,7 @@ export const BashCommandTool = createTool({
       timeout: timeout,
       writablePaths: params.writable_paths,
       allowNetwork: allowNetwork,
+      signal: options?.signal,
       // We assume IRuntime's execute method can take these ISandbox ExecutionOptions
       // or that the IRuntime implementation will correctly pass them to its ISandbox.
     };
@@ -39,6 +39,7 @@ export const ApplyWholeFileEditTool = createTool({
   `,
   inputSchema: ApplyWholeFileEditParamsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
@@ -186,6 +187,7 @@ export const ApplyUnifiedDiffTool = createTool({
   inputSchema: ApplyUnifiedDiffParamsSchema,
   outputSchema: ApplyUnifiedDiffReturnsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
@@ -256,6 +258,7 @@ export const ApplyEditBlockTool = createTool({
   `,
   inputSchema: ApplyEditBlockParamsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
@@ -333,6 +336,7 @@ export const ApplyRangedEditTool = createTool({
   `,
   inputSchema: ApplyRangedEditParamsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
@@ -405,6 +409,7 @@ export const DeleteTool = createTool({
   `,
   inputSchema: DeleteParamsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
@@ -658,6 +663,7 @@ export const ReverseDiffTool = createTool({
   inputSchema: ReverseDiffParamsSchema,
   outputSchema: ReverseDiffReturnsSchema,
   async: true,
+  riskLevel: 'write',
   execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
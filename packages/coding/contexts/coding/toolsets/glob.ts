@@ -77,6 +77,7 @@ export const GlobTool = createTool({
   inputSchema: GlobParamsSchema,
   outputSchema: GlobReturnsSchema,
   async: false,
+  riskLevel: 'read-only',
   execute: async (params, agent?: IAgent) => {
     const codingContext = agent?.contextManager.findContextById('coding-context');
     if (!codingContext) {
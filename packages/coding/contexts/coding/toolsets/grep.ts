@@ -55,6 +55,7 @@ export const GrepTool = createTool({
   inputSchema: GrepParamsSchema,
   outputSchema: GrepReturnsSchema,
   async: false,
+  riskLevel: 'read-only',
   execute: async (params, agent?: IAgent) => {
     const codingContext = agent?.contextManager.findContextById('coding-context');
     if (!codingContext) {
@@ -29,6 +29,7 @@ Example:
 `,
 inputSchema: ReadFileParamsSchema,
 async: true,
+riskLevel: 'read-only',
 execute: async (params, agent?: IAgent) => {
     // Get the coding context
     const codingContext = agent?.contextManager.findContextById('coding-context');
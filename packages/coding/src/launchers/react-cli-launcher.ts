@@ -1,10 +1,33 @@
 #!/usr/bin/env node
 
 import { ReactCLIClient, ReactCLIConfig } from '@continue-reasoning/react-cli';
-import { ANTHROPIC_MODELS, EventBus, logger, LogLevel } from '@continue-reasoning/core';
+import { ANTHROPIC_MODELS, EventBus, logger, LogLevel, OpenAICompatibleConfig } from '@continue-reasoning/core';
 import { CodingAgent } from '../../coding-agent.js';
 import * as path from 'path';
 
+/**
+ * 从环境变量读取 OpenAI 兼容端点（Ollama、vLLM、llama.cpp server）配置
+ * 未设置 OPENAI_COMPATIBLE_BASE_URL 和 OPENAI_COMPATIBLE_MODEL 时使用托管模型
+ */
+function getOpenAICompatibleEndpointFromEnv(): OpenAICompatibleConfig | undefined {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const model = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (!baseURL || !model) {
+    return undefined;
+  }
+  const contextWindow = Number(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW);
+  return {
+    baseURL,
+    model,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    contextWindow: contextWindow > 0 ? contextWindow : undefined,
+    capabilities: {
+      // 设为 prompt 时通过 prompt 描述工具，适用于没有原生工具调用的模型
+      nativeToolCalls: process.env.OPENAI_COMPATIBLE_TOOL_CALLS !== 'prompt',
+    },
+  };
+}
+
 /**
  * React CLI 启动器 - 专门用于启动带React界面的Coding Agent
  * 使用简化架构，直接在Client中管理Agent实例
@@ -40,6 +63,7 @@ export class ReactCLILauncher {
       LogLevel.NONE,
       {
         model: ANTHROPIC_MODELS.CLAUDE_3_7_SONNET_LATEST,
+        openaiCompatible: getOpenAICompatibleEndpointFromEnv(),
         enableParallelToolCalls: true,
         temperature: 0.1,
       },
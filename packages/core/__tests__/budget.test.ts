@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StreamAgent } from '../stream-agent';
+import { StandardPromptProcessor } from '../prompts/standard-prompt-processor';
+import { EventBus } from '../event-bus/event-bus';
+import { AgentBudget } from '../base-agent';
+import { ILLM, LLMStreamChunk, LLMUsage } from '../interfaces/agent';
+import { OPENAI_MODELS } from '../models';
+import { logger, LogLevel } from '../utils/logger';
+import { createFakeLLM } from './helpers/fake-llm';
+
+/**
+ * 每个步骤返回固定用量的 LLM
+ */
+function createUsageLLM(model: string, usage: LLMUsage) {
+    return createFakeLLM({
+        model,
+        callStream: vi.fn(async function* (): AsyncIterable<LLMStreamChunk> {
+            yield { type: 'text-done', content: '<interactive><response>Working</response></interactive>' };
+            yield { type: 'usage', usage };
+        }),
+    });
+}
+
+function createAgent(llm: ILLM, budget: AgentBudget) {
+    const eventBus = new EventBus();
+    const exceeded: any[] = [];
+    eventBus.subscribe('agent.budget.exceeded', event => { exceeded.push(event.data.budget); });
+    const agent = new StreamAgent(
+        'budget-agent', 'Budget Agent', 'Stops on budget', 10,
+        new StandardPromptProcessor('You are a test assistant.'),
+        LogLevel.NONE, { model: llm, budget, toolOutput: false }, [], eventBus
+    );
+    return { agent, exceeded };
+}
+
+describe('Agent budget', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should stop the steps loop once the run token budget is used up', async () => {
+        const llm = createUsageLLM('fake-model', { promptTokens: 1000, completionTokens: 50, totalTokens: 1050 });
+        const { agent, exceeded } = createAgent(llm, { maxTokensPerRun: 2000 });
+
+        await agent.startWithUserInput('Hello', 10, 'session-tokens');
+
+        expect(llm.callStream).toHaveBeenCalledTimes(2);
+        expect(exceeded).toEqual([{ kind: 'tokens', scope: 'run', limit: 2000, used: 2100 }]);
+    });
+
+    it('should price usage with the model that served the call and stop on the cost budget', async () => {
+        // gpt-4o: 100k prompt * $2.5/M + 10k completion * $10/M = $0.35 per step
+        const llm = createUsageLLM(OPENAI_MODELS.GPT_4O, { promptTokens: 100000, completionTokens: 10000, totalTokens: 110000 });
+        const { agent, exceeded } = createAgent(llm, { maxCostPerRun: 0.5 });
+
+        await agent.startWithUserInput('Hello', 10, 'session-cost');
+
+        expect(llm.callStream).toHaveBeenCalledTimes(2);
+        expect(exceeded).toHaveLength(1);
+        expect(exceeded[0]).toMatchObject({ kind: 'cost', scope: 'run', limit: 0.5 });
+        expect(exceeded[0].used).toBeCloseTo(0.7);
+        expect(agent.agentStorage.totalCostUSD).toBeCloseTo(0.7);
+    });
+
+    it('should warn once per model without pricing', async () => {
+        const warn = vi.spyOn(logger, 'warn');
+        const llm = createUsageLLM('fake-model', { promptTokens: 100, completionTokens: 10, totalTokens: 110 });
+        const { agent, exceeded } = createAgent(llm, { maxCostPerSession: 1 });
+
+        await agent.startWithUserInput('Hello', 3, 'session-unpriced');
+
+        expect(llm.callStream).toHaveBeenCalledTimes(3);
+        expect(exceeded).toEqual([]);
+        expect(warn.mock.calls.filter(([message]) => String(message).startsWith('No pricing registered'))).toEqual([
+            ['No pricing registered for model fake-model, cost budget cannot be enforced'],
+        ]);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getEventListeners } from 'events';
+import { z } from 'zod';
+import { ToolExecutor } from '../tool-executor';
+import { TaskQueue } from '../taskQueue';
+import { EventBus } from '../event-bus/event-bus';
+import { AbortError } from '../utils/abort';
+import { createTool } from '../utils';
+import { ToolExecuteOptions } from '../interfaces/tool';
+
+/**
+ * 一直运行直到被取消的工具，模拟长时间的 BashCommand
+ */
+function createLongRunningTool(respectSignal: boolean) {
+    const received: ToolExecuteOptions[] = [];
+    const tool = createTool({
+        name: 'LongRunning',
+        description: 'Runs until cancelled',
+        inputSchema: z.object({}),
+        async: true,
+        riskLevel: 'shell',
+        execute: (_params, _agent, options) => {
+            received.push(options ?? {});
+            return new Promise<{ success: boolean }>((resolve, reject) => {
+                if (respectSignal) {
+                    options?.signal?.addEventListener('abort', () => reject(new Error('killed')));
+                }
+            });
+        },
+    });
+    return { tool, received };
+}
+
+const toolCall = (call_id: string) => ({ type: 'function' as const, name: 'LongRunning', call_id, parameters: {} });
+
+describe('Cancellation', () => {
+    it('should pass the signal to the tool and return a cancelled result on abort', async () => {
+        const executor = new ToolExecutor(new TaskQueue(2));
+        const agent = { id: 'agent', executionMode: 'auto' };
+        const { tool, received } = createLongRunningTool(true);
+        const controller = new AbortController();
+
+        const pending = executor.executeToolCall(toolCall('call_1'), tool, agent, undefined, 5, controller.signal);
+        await vi.waitFor(() => expect(executor.getRunningToolCalls()).toHaveLength(1));
+
+        controller.abort('User requested stop');
+        const result = await pending;
+
+        expect(received[0].signal).toBe(controller.signal);
+        expect(result.status).toBe('failed');
+        expect(result.message).toBe('Tool execution cancelled: User requested stop');
+        expect(executor.getRunningToolCalls()).toHaveLength(0);
+    });
+
+    it('should not wait for tools that ignore the signal', async () => {
+        const executor = new ToolExecutor(new TaskQueue(2));
+        const { tool } = createLongRunningTool(false);
+        const controller = new AbortController();
+
+        const pending = executor.executeToolCall(toolCall('call_1'), tool, { id: 'agent' }, undefined, 5, controller.signal);
+        await vi.waitFor(() => expect(executor.getRunningToolCalls()).toHaveLength(1));
+        controller.abort();
+
+        expect((await pending).status).toBe('failed');
+    });
+
+    it('should drop queued tasks without running them', async () => {
+        const queue = new TaskQueue(1);
+        const controller = new AbortController();
+        const first = queue.addToolCallTask(() => new Promise(resolve => setTimeout(() => resolve('first'), 20)), 5, 'first');
+        const secondFn = vi.fn(async () => 'second');
+        const second = queue.addToolCallTask(secondFn, 5, 'second', controller.signal);
+
+        controller.abort();
+
+        await expect(second).rejects.toBeInstanceOf(AbortError);
+        expect(await first).toBe('first');
+        expect(secondFn).not.toHaveBeenCalled();
+        expect(queue.taskCount()).toBe(0);
+    });
+
+    it('should remove the abort listener once a task starts', async () => {
+        const queue = new TaskQueue(2);
+        const controller = new AbortController();
+
+        for (let i = 0; i < 20; i++) {
+            await queue.addToolCallTask(async () => i, 5, `task_${i}`, controller.signal);
+        }
+        await expect(queue.addToolCallTask(async () => { throw new Error('failed'); }, 5, 'failing', controller.signal)).rejects.toThrow('failed');
+
+        expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    });
+
+    it('should stop waiting for approval when cancelled', async () => {
+        const eventBus = new EventBus();
+        const executor = new ToolExecutor(new TaskQueue(2));
+        const agent = { id: 'agent', executionMode: 'supervised', eventBus };
+        const { tool } = createLongRunningTool(true);
+        const controller = new AbortController();
+        const requested = vi.fn();
+        eventBus.subscribe('approval.requested', requested);
+
+        const pending = executor.executeToolCall(toolCall('call_1'), tool, agent, eventBus, 5, controller.signal);
+        await vi.waitFor(() => expect(requested).toHaveBeenCalled());
+        controller.abort('User requested stop');
+
+        const result = await pending;
+        expect(result.status).toBe('failed');
+        expect(result.message).toContain('cancelled');
+    });
+});
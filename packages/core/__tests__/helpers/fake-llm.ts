@@ -0,0 +1,31 @@
+import { vi } from 'vitest';
+import { ILLM, LLMStreamChunk } from '../../interfaces/agent';
+import { SupportedModel } from '../../models/models-list';
+
+export type FakeLLMOptions = Partial<Omit<ILLM, 'model'>> & { model?: string };
+
+/**
+ * 测试用假 LLM：默认不输出任何 chunk，传入的字段覆盖默认实现，额外字段（如调用计数）原样保留
+ * model 可以是任意字符串，只在这里转换为 SupportedModel
+ */
+export function createFakeLLM<T extends FakeLLMOptions>(options: T = {} as T): ILLM & Omit<T, 'model'> {
+    const { model = 'fake-model', ...overrides } = options;
+    return {
+        streaming: true,
+        parallelToolCall: false,
+        temperature: 0,
+        maxTokens: 1000,
+        callStream: vi.fn(async function* (): AsyncIterable<LLMStreamChunk> {}),
+        callAsync: vi.fn(async () => ({ text: '' })),
+        ...overrides,
+        model: model as SupportedModel,
+    } as ILLM & Omit<T, 'model'>;
+}
+
+export async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
@@ -0,0 +1,55 @@
+/**
+ * provider SDK 的共享测试替身：在测试文件中通过 vi.mock 引用
+ *
+ *   vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+ *
+ * 所有请求记录在 sdk.requests；responses 非空时按顺序返回（Error 表示该次请求失败，函数按请求生成响应），
+ * 否则返回依次输出 sdk.events 的流
+ */
+export const sdk = {
+    clients: [] as any[],
+    requests: [] as any[],
+    responses: [] as any[],
+    events: [] as any[],
+};
+
+export function resetSdk(): void {
+    sdk.clients.length = 0;
+    sdk.requests.length = 0;
+    sdk.responses = [];
+    sdk.events = [];
+}
+
+export async function respond(request: any): Promise<any> {
+    sdk.requests.push(request);
+    if (sdk.responses.length > 0) {
+        const response = sdk.responses.shift();
+        if (response instanceof Error) {
+            throw response;
+        }
+        return typeof response === 'function' ? response(request) : response;
+    }
+    const events = sdk.events;
+    return (async function* () { yield* events; })();
+}
+
+class FakeOpenAI {
+    chat = { completions: { create: respond } };
+    responses = { create: respond };
+    embeddings = { create: respond };
+
+    constructor(options?: any) {
+        sdk.clients.push(options);
+    }
+}
+
+class FakeAnthropic {
+    messages = { create: respond };
+
+    constructor(options?: any) {
+        sdk.clients.push(options);
+    }
+}
+
+export const openaiModule = { default: FakeOpenAI, OpenAI: FakeOpenAI };
+export const anthropicModule = { default: FakeAnthropic };
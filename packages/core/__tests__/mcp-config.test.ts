@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { connectMcpServer, connectMcpServers, interpolateEnv, loadMcpConfig } from '../contexts/mcp-config';
+import { AddStdioMcpServer, MCPContextId } from '../contexts/mcp';
+import { createTool } from '../utils';
+import { logger } from '../utils/logger';
+
+const mcp = vi.hoisted(() => ({
+    connectDelay: 0,
+    closed: 0,
+}));
+
+// 不启动真实进程：connect 延迟 connectDelay 毫秒后成功，close 记录次数（真实 stdio 传输在 close 时结束子进程）
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+    StdioClientTransport: class {
+        constructor(public options: any) {}
+    },
+}));
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+    Client: class {
+        connect = () => new Promise<void>(resolve => setTimeout(resolve, mcp.connectDelay));
+        close = async () => { mcp.closed++; };
+        listTools = async () => ({ tools: [{ name: 'search', description: 'Search', inputSchema: { type: 'object', properties: {} } }] });
+    },
+}));
+
+function fakeAgent(connect: (params: any) => Promise<any>) {
+    const addStdio = createTool({
+        name: 'add_stdio_mcp_server',
+        description: 'Connect a stdio MCP server',
+        inputSchema: z.object({ name: z.string() }).passthrough(),
+        async: false,
+        execute: vi.fn(async (params: any) => connect(params)),
+    });
+    return {
+        listToolSets: () => [{ name: 'MCPTools', description: '', tools: [addStdio], active: true }],
+        deactivateToolSets: vi.fn(),
+        addStdio,
+    };
+}
+
+describe('MCP server configuration', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-config-'));
+        vi.spyOn(logger, 'error').mockImplementation(() => {});
+        vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should load the Claude desktop mcpServers format', async () => {
+        const configPath = path.join(tmpDir, 'mcp.json');
+        fs.writeFileSync(configPath, JSON.stringify({
+            mcpServers: {
+                github: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: '${GITHUB_TOKEN}' } },
+                docs: { url: 'https://example.com/mcp', type: 'streamableHttp', autoActivate: false },
+            },
+        }));
+
+        expect(await loadMcpConfig(configPath)).toEqual([
+            { name: 'github', command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: '${GITHUB_TOKEN}' } },
+            { name: 'docs', url: 'https://example.com/mcp', type: 'streamableHttp', autoActivate: false },
+        ]);
+        expect(await loadMcpConfig(path.join(tmpDir, 'missing.json'))).toEqual([]);
+
+        fs.writeFileSync(configPath, JSON.stringify({ mcpServers: { broken: { args: 'not-an-array' } } }));
+        await expect(loadMcpConfig(configPath)).rejects.toThrow(`Invalid MCP config ${configPath}: mcpServers.broken.args: Expected array, received string`);
+    });
+
+    it('should interpolate environment variables with defaults', () => {
+        const env = { TOKEN: 'secret', EMPTY: '' };
+
+        expect(interpolateEnv('Bearer ${TOKEN}', env)).toBe('Bearer secret');
+        expect(interpolateEnv('${EMPTY:-fallback}/${MISSING:-}', env)).toBe('fallback/');
+        expect(interpolateEnv('${workspaceRoot}/data', env)).toBe(`${process.cwd()}/data`);
+    });
+
+    it('should connect servers in parallel and report failures per server', async () => {
+        process.env.MCP_CONFIG_TEST_TOKEN = 'token-123';
+        const agent = fakeAgent(async params => {
+            if (params.name === 'slow') return new Promise(() => {});
+            if (params.name === 'broken') return { success: false, error: 'spawn ENOENT' };
+            return { success: true, toolCount: 3 };
+        });
+
+        const results = await connectMcpServers(agent as any, [
+            { name: 'github', command: 'npx', env: { TOKEN: '${MCP_CONFIG_TEST_TOKEN}' }, autoActivate: false },
+            { name: 'slow', command: 'node', timeout: 20 },
+            { name: 'broken', command: 'missing-binary' },
+            { name: 'remote', url: 'https://example.com/sse' },
+            { name: 'off', command: 'npx', disabled: true },
+        ], 1000);
+        delete process.env.MCP_CONFIG_TEST_TOKEN;
+
+        expect(results.map(({ name, success, error }) => ({ name, success, error }))).toEqual([
+            { name: 'github', success: true, error: undefined },
+            { name: 'slow', success: false, error: 'Timed out after 20ms' },
+            { name: 'broken', success: false, error: 'spawn ENOENT' },
+            { name: 'remote', success: false, error: 'Tool add_sse_or_http_mcp_client not found, is MCPContext registered?' },
+        ]);
+        expect(agent.addStdio.execute).toHaveBeenCalledWith(
+            expect.objectContaining({ name: 'github', command: 'npx', args: [], env: { TOKEN: 'token-123' } }),
+            agent,
+            { signal: expect.any(AbortSignal) }
+        );
+        expect(agent.deactivateToolSets).toHaveBeenCalledWith(['github']);
+        expect(agent.addStdio.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should close the client and skip registration when the connection succeeds after the timeout', async () => {
+        mcp.connectDelay = 50;
+        mcp.closed = 0;
+        const clients: any[] = [];
+        const agent = {
+            toolSets: [] as any[],
+            listToolSets: () => [{ name: 'MCPTools', description: '', tools: [AddStdioMcpServer], active: true }],
+            activateToolSets: vi.fn(),
+            deactivateToolSets: vi.fn(),
+            contextManager: { findContextById: (id: string) => id === MCPContextId ? { data: { clients } } : undefined },
+        };
+
+        const result = await connectMcpServer(agent as any, { name: 'late', command: 'node', timeout: 10 });
+        await new Promise(resolve => setTimeout(resolve, 80));
+
+        expect(result).toMatchObject({ name: 'late', success: false, error: 'Timed out after 10ms' });
+        expect(mcp.closed).toBeGreaterThan(0);
+        expect(clients).toEqual([]);
+        expect(agent.toolSets).toEqual([]);
+        expect(agent.activateToolSets).not.toHaveBeenCalled();
+    });
+});
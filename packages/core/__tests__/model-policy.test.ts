@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ILLM, LLMStreamChunk } from '../interfaces/agent';
+import { LLMEvent } from '../interfaces/events';
+import { StreamAgent } from '../stream-agent';
+import { ModelPolicy } from '../base-agent';
+import { StandardPromptProcessor } from '../prompts/standard-prompt-processor';
+import { EventBus } from '../event-bus/event-bus';
+import { LogLevel } from '../utils/logger';
+import { createTool } from '../utils';
+import { ANTHROPIC_MODELS, OPENAI_MODELS } from '../models/models-list';
+import { registerModelInfo } from '../models/model-registry';
+import { createFakeLLM } from './helpers/fake-llm';
+
+function createScriptedLLM(model: string, script: LLMStreamChunk[][]) {
+    const llm = createFakeLLM({
+        model,
+        calls: 0,
+        setParallelToolCall: vi.fn(),
+        callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+            yield* script[llm.calls++] || [];
+        },
+    });
+    return llm;
+}
+
+const usage = { promptTokens: 1000000, completionTokens: 0, totalTokens: 1000000 };
+const toolCall = { type: 'function' as const, name: 'GetWeather', call_id: 'call_1', parameters: { city: 'Paris' } };
+
+function createAgent(planner: ILLM, modelPolicy: ModelPolicy, eventBus = new EventBus(), options: Record<string, unknown> = {}): StreamAgent {
+    const agent = new StreamAgent(
+        'policy-agent', 'Policy Agent', 'Uses a model policy', 5,
+        new StandardPromptProcessor('You are a weather assistant.'),
+        LogLevel.NONE, { model: planner, modelPolicy, ...options }, [], eventBus
+    );
+    agent.addToolSet({
+        name: 'weather',
+        description: 'Weather tools',
+        active: true,
+        tools: [createTool({
+            name: 'GetWeather',
+            description: 'Get the weather for a city',
+            inputSchema: z.object({ city: z.string() }),
+            async: false,
+            riskLevel: 'read-only',
+            execute: async (params: { city: string }) => ({ city: params.city, forecast: 'sunny' }),
+        })],
+    });
+    return agent;
+}
+
+describe('ModelPolicy', () => {
+    it('should use the model chosen for each step and record it', async () => {
+        const planner = createScriptedLLM(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, [
+            [{ type: 'tool-call-done', toolCall, result: null }, { type: 'usage', usage }],
+        ]);
+        const worker = createScriptedLLM(OPENAI_MODELS.GPT_4O_MINI, [
+            [{ type: 'text-done', content: '<interactive><response>Sunny in Paris</response></interactive>' }, { type: 'usage', usage }],
+        ]);
+        const policy = vi.fn<ModelPolicy>(({ lastToolResults }) => lastToolResults.length > 0 ? worker : undefined);
+        const eventBus = new EventBus();
+        const selected: LLMEvent[] = [];
+        eventBus.subscribe<LLMEvent>('llm.model.selected', event => { selected.push(event); });
+        const agent = createAgent(planner, policy, eventBus);
+
+        await agent.startWithUserInput('What is the weather in Paris?', 2, 'session-1');
+
+        expect(planner.calls).toBe(1);
+        expect(worker.calls).toBe(1);
+        expect(policy.mock.calls[0][0]).toMatchObject({ stepIndex: 0, lastToolResults: [], status: 'running', defaultModel: planner });
+        expect(policy.mock.calls[1][0].lastToolResults).toEqual([expect.objectContaining({ name: 'GetWeather', status: 'succeed' })]);
+        expect(agent.agentStorage.agentSteps.map(step => step.model)).toEqual([ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, OPENAI_MODELS.GPT_4O_MINI]);
+        expect(selected.map(event => [event.data.model, event.data.isDefault])).toEqual([
+            [ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true],
+            [OPENAI_MODELS.GPT_4O_MINI, false],
+        ]);
+        // 3 + 0.15 美元：每步按实际使用的模型计价
+        expect(agent.agentStorage.totalCostUSD).toBeCloseTo(3.15);
+        expect(worker.setParallelToolCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the default model when the policy throws', async () => {
+        const planner = createScriptedLLM(OPENAI_MODELS.GPT_4O, [
+            [{ type: 'text-done', content: '<interactive><response>Done</response></interactive>' }],
+        ]);
+        const agent = createAgent(planner, () => { throw new Error('policy failed'); });
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(planner.calls).toBe(1);
+        expect(agent.agentStorage.agentSteps[0].model).toBe(OPENAI_MODELS.GPT_4O);
+    });
+
+    it('should compact the prompt against the context window of the model chosen for the step', async () => {
+        registerModelInfo('tiny-context-model', { contextWindow: 400, maxOutputTokens: 100, pricing: { input: 0, output: 0 } });
+        const planner = createScriptedLLM(OPENAI_MODELS.GPT_4O, [
+            [{ type: 'tool-call-done', toolCall, result: null }],
+        ]);
+        planner.callAsync = vi.fn(async () => ({ text: 'Looked up the weather in Paris.' }));
+        const worker = createScriptedLLM('tiny-context-model', [
+            [{ type: 'text-done', content: '<interactive><response>Sunny in Paris</response></interactive>' }],
+        ]);
+        const agent = createAgent(planner, ({ stepIndex }) => stepIndex > 0 ? worker : undefined, new EventBus(), {
+            contextCompaction: { enabled: true, keepRecentSteps: 0 },
+        });
+
+        await agent.startWithUserInput('What is the weather in Paris?', 2, 'session-1');
+
+        // 第 1 步使用小窗口模型，构建 prompt 前已按它的上限压缩第 0 步
+        expect(planner.callAsync).toHaveBeenCalledTimes(1);
+        expect(worker.calls).toBe(1);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { MemoryRAG, createMemoryRAG } from '../../rag';
+import { RAGBuilder } from '../../rag/ragBuilder';
+import { LocalEmbeddingProvider } from '../../models/embeddings';
+import { ContextHelper } from '../../utils';
+import { RAGDocument } from '../../interfaces';
+
+const documents: RAGDocument[] = [
+  { id: 'python', content: 'Python list comprehensions and sorting arrays', metadata: { source: 'docs', category: 'coding', created: new Date('2024-01-10'), tags: ['python'] } },
+  { id: 'marketing', content: 'Writing marketing copy for a product launch', metadata: { source: 'blog', category: 'marketing', created: new Date('2024-03-05'), tags: ['copywriting'] } },
+  { id: 'typescript', content: 'TypeScript generics and sorting arrays of objects', metadata: { source: 'docs', category: 'coding', created: new Date('2024-06-20'), tags: ['typescript', 'generics'] } },
+];
+
+function createStore(storePath?: string, metric: 'cosine' | 'dot' | 'euclidean' = 'cosine'): MemoryRAG {
+  return new RAGBuilder()
+    .setName('test-memory', 'In-process test store')
+    .setVectorStore('memory', { path: storePath })
+    .setEmbeddingModel('local', { dimensions: 256 })
+    .setIndexConfig({ dimension: 256, metric })
+    .setChunkingStrategy({ method: 'paragraph' })
+    .build() as MemoryRAG;
+}
+
+describe('MemoryRAG', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'memory-rag-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should rank documents by similarity for every metric', async () => {
+    for (const metric of ['cosine', 'dot', 'euclidean'] as const) {
+      const rag = createStore(undefined, metric);
+      expect(await rag.upsert(documents)).toEqual(['python-chunk-0', 'marketing-chunk-0', 'typescript-chunk-0']);
+
+      const results = await rag.query('sorting arrays in python', { limit: 2 });
+
+      expect(results.map(result => result.id)).toEqual(['python-chunk-0', 'typescript-chunk-0']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    }
+  });
+
+  it('should filter by metadata, tags and date range', async () => {
+    const rag = createStore();
+    await rag.upsert(documents);
+
+    const byCategory = await rag.queryWithFilter('sorting arrays', { metadata: { category: 'coding', tags: 'generics' } });
+    const byDate = await rag.queryWithFilter('sorting arrays', { dateRange: { start: new Date('2024-02-01'), end: new Date('2024-12-31') } });
+
+    expect(byCategory.map(result => result.id)).toEqual(['typescript-chunk-0']);
+    expect(byDate.map(result => result.id).sort()).toEqual(['marketing-chunk-0', 'typescript-chunk-0']);
+    expect(await rag.query('sorting arrays', { similarity_threshold: 0.99 })).toEqual([]);
+  });
+
+  it('should persist to disk and replace all chunks of an updated document', async () => {
+    const storePath = path.join(tmpDir, 'nested', 'store.json');
+    const rag = createStore(storePath);
+    await rag.upsert([{ ...documents[0], content: 'First paragraph\n\nSecond paragraph' }]);
+    await rag.upsert([documents[0], documents[1]]);
+
+    const reloaded = createStore(storePath);
+    const results = await reloaded.query('python sorting');
+
+    expect(reloaded.size).toBe(2);
+    expect(results[0]).toMatchObject({ id: 'python-chunk-0', metadata: { created: new Date('2024-01-10'), originalDocId: 'python' } });
+
+    expect(await reloaded.delete(['marketing'])).toBe(true);
+    await expect(createStore(storePath).query('marketing')).resolves.toHaveLength(1);
+  });
+
+  it('should refuse a store built with a different embedding provider', async () => {
+    const storePath = path.join(tmpDir, 'store.json');
+    await createStore(storePath).upsert(documents);
+
+    const rag = createMemoryRAG('other', 'Different dimensions', storePath, new LocalEmbeddingProvider({ dimensions: 64 }));
+
+    await expect(rag.query('python')).rejects.toThrow('local-hashing (256 dimensions)');
+  });
+
+  it('should take the index dimension from the embedding provider and reject mismatched vectors', async () => {
+    const rag = createMemoryRAG('local', 'Default local embeddings');
+    await expect(rag.upsert(documents)).resolves.toHaveLength(3);
+
+    await expect(rag.upsert([{ id: 'precomputed', content: 'Vector from elsewhere', embedding: [0.1, 0.2, 0.3], metadata: { source: 'test', category: 'test', created: new Date('2024-01-01') } }]))
+      .rejects.toThrow('Embedding for precomputed-chunk-0 has 3 dimensions, but the index expects 512');
+
+    const mismatched = new RAGBuilder()
+      .setVectorStore('memory', {})
+      .setEmbeddingModel('local', { dimensions: 256 })
+      .setIndexConfig({ dimension: 1536 })
+      .build();
+    await expect(mismatched.upsert(documents)).rejects.toThrow('has 256 dimensions, but the index expects 1536');
+  });
+
+  it('should serve knowledge to a RAG-enabled context without external services', async () => {
+    const rag = createMemoryRAG('kb', 'Knowledge base');
+    await rag.upsert(documents);
+    const context = ContextHelper.createRAGContext({
+      id: 'coding-context',
+      description: 'Coding help',
+      dataSchema: z.object({ topic: z.string() }),
+      initialData: { topic: 'TypeScript generics' },
+      renderPromptFn: data => `Topic: ${data.topic}`,
+      ragConfigs: { kb: { rag, queryTemplate: '{{topic}}', maxResults: 1 } },
+    });
+
+    const prompt = await context.renderPrompt();
+
+    expect(prompt).toContain('--- kb Knowledge ---\n[1] TypeScript generics and sorting arrays of objects');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ToolExecutor, requiresApproval } from '../tool-executor';
+import { TaskQueue } from '../taskQueue';
+import { EventBus } from '../event-bus/event-bus';
+import { ApprovalEvent } from '../interfaces/events';
+import { ToolRiskLevel } from '../interfaces/tool';
+import { createTool } from '../utils';
+
+function createWriteTool(riskLevel?: ToolRiskLevel) {
+    const execute = vi.fn(async (params: { path: string }) => ({ success: true, path: params.path }));
+    const tool = createTool({
+        name: 'WriteFile',
+        description: 'Write a file',
+        inputSchema: z.object({ path: z.string() }),
+        async: true,
+        riskLevel,
+        execute,
+    });
+    return { tool, execute };
+}
+
+function setup(executionMode: 'auto' | 'manual' | 'supervised', riskLevel?: ToolRiskLevel) {
+    const eventBus = new EventBus();
+    const executor = new ToolExecutor(new TaskQueue(2));
+    const agent = { id: 'agent', sessionId: 'session', executionMode, eventBus };
+    const { tool, execute } = createWriteTool(riskLevel);
+    const toolCall = { type: 'function' as const, name: 'WriteFile', call_id: 'call_1', parameters: { path: 'a.txt' } };
+    return { eventBus, executor, agent, tool, execute, toolCall };
+}
+
+/**
+ * 模拟客户端：收到审批请求后给出固定回复
+ */
+function respondWith(eventBus: EventBus, data: Partial<ApprovalEvent['data']>) {
+    const requests: ApprovalEvent[] = [];
+    eventBus.subscribe<ApprovalEvent>('approval.requested', (event) => {
+        requests.push(event);
+        eventBus.publish({
+            type: 'approval.responded',
+            timestamp: Date.now(),
+            source: 'test-client',
+            data: { requestId: event.data.requestId, ...data },
+        });
+    });
+    return requests;
+}
+
+describe('Tool call approval', () => {
+    it('should decide which calls need approval from the execution mode and risk level', () => {
+        const { tool: readTool } = createWriteTool('read-only');
+        const { tool: undeclared } = createWriteTool();
+
+        expect(requiresApproval('auto', undeclared)).toBe(false);
+        expect(requiresApproval('supervised', readTool)).toBe(false);
+        expect(requiresApproval('supervised', undeclared)).toBe(true);
+        expect(requiresApproval('manual', readTool)).toBe(true);
+    });
+
+    it('should execute the tool once approved', async () => {
+        const { eventBus, executor, agent, tool, execute, toolCall } = setup('supervised', 'write');
+        const requests = respondWith(eventBus, { decision: 'approve' });
+
+        const result = await executor.executeToolCall(toolCall, tool, agent, eventBus);
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].data.riskLevel).toBe('write');
+        expect(requests[0].data.toolCall?.parameters).toEqual({ path: 'a.txt' });
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(result.status).toBe('succeed');
+    });
+
+    it('should return a failed result with the reason when denied', async () => {
+        const { eventBus, executor, agent, tool, execute, toolCall } = setup('supervised', 'shell');
+        respondWith(eventBus, { decision: 'deny', reason: 'do not touch a.txt' });
+
+        const result = await executor.executeToolCall(toolCall, tool, agent, eventBus);
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(result.status).toBe('failed');
+        expect(result.call_id).toBe('call_1');
+        expect(result.message).toContain('do not touch a.txt');
+    });
+
+    it('should run the tool with edited parameters', async () => {
+        const { eventBus, executor, agent, tool, execute, toolCall } = setup('manual', 'read-only');
+        respondWith(eventBus, { decision: 'edit', parameters: { path: 'b.txt' } });
+
+        const result = await executor.executeToolCall(toolCall, tool, agent, eventBus);
+
+        expect(execute).toHaveBeenCalledWith({ path: 'b.txt' }, agent, { signal: undefined });
+        expect(result.params).toEqual({ path: 'b.txt' });
+    });
+
+    it('should not ask for approval in auto mode or for read-only tools in supervised mode', async () => {
+        for (const [mode, riskLevel] of [['auto', 'shell'], ['supervised', 'read-only']] as const) {
+            const { eventBus, executor, agent, tool, execute, toolCall } = setup(mode, riskLevel);
+            const requests = respondWith(eventBus, { decision: 'deny' });
+
+            const result = await executor.executeToolCall(toolCall, tool, agent, eventBus);
+
+            expect(requests).toHaveLength(0);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(result.status).toBe('succeed');
+        }
+    });
+
+    it('should deny and publish the denial when no response arrives before the approval timeout', async () => {
+        const eventBus = new EventBus();
+        const requests: ApprovalEvent[] = [];
+        const responses: ApprovalEvent[] = [];
+        eventBus.subscribe<ApprovalEvent>('approval.requested', event => { requests.push(event); });
+        eventBus.subscribe<ApprovalEvent>('approval.responded', event => { responses.push(event); });
+        const executor = new ToolExecutor(new TaskQueue(2), { approvalTimeout: 20 });
+        const agent = { id: 'agent', sessionId: 'session', executionMode: 'supervised', eventBus };
+        const { tool, execute } = createWriteTool('network');
+
+        const result = await executor.executeToolCall(
+            { type: 'function', name: 'WriteFile', call_id: 'call_2', parameters: { path: 'a.txt' } },
+            tool,
+            agent,
+            eventBus
+        );
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(result.status).toBe('failed');
+        expect(requests).toHaveLength(1);
+        expect(result.message).toContain('No approval response');
+        expect(responses).toHaveLength(1);
+        expect(responses[0].data).toMatchObject({ requestId: requests[0].data.requestId, decision: 'deny', reason: 'No approval response within 20ms' });
+    });
+
+    it('should deny right away when no client listens for approval requests', async () => {
+        const { eventBus, executor, agent, tool, execute, toolCall } = setup('manual', 'read-only');
+
+        const result = await executor.executeToolCall(toolCall, tool, agent, eventBus);
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(result.status).toBe('failed');
+        expect(result.message).toContain('No client is listening for approval requests');
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { ToolExecutor, ToolTimeoutError } from '../tool-executor';
+import { TaskQueue } from '../taskQueue';
+import { createTool } from '../utils';
+import { mcpToolPolicy } from '../contexts/mcp';
+import { logger } from '../utils/logger';
+
+function flakyTool(options: { idempotent?: boolean; riskLevel?: 'read-only' | 'write'; failures: number }) {
+    let calls = 0;
+    const execute = vi.fn(async () => {
+        calls++;
+        if (calls <= options.failures) {
+            throw new Error(`attempt ${calls} failed`);
+        }
+        return { success: true, calls };
+    });
+    const tool = createTool({
+        name: 'Flaky',
+        description: 'Fails a few times before succeeding',
+        inputSchema: z.object({}),
+        async: false,
+        riskLevel: options.riskLevel,
+        idempotent: options.idempotent,
+        retry: { maxRetries: 2, backoffMs: 1 },
+        execute,
+    });
+    return { tool, execute };
+}
+
+const call = (executor: ToolExecutor, tool: any, id = 'call_1') =>
+    executor.executeToolCall({ type: 'function', name: tool.name, call_id: id, parameters: {} }, tool, { id: 'agent' });
+
+describe('Tool execution policy', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should fail a tool that exceeds its timeout and abort its signal', async () => {
+        let received: AbortSignal | undefined;
+        const tool = createTool({
+            name: 'Slow',
+            description: 'Never finishes',
+            inputSchema: z.object({}),
+            async: false,
+            timeout: 20,
+            execute: async (_params, _agent, options) => {
+                received = options?.signal;
+                return new Promise<{ success: boolean }>(() => {});
+            },
+        });
+
+        const result = await call(new ToolExecutor(new TaskQueue(2)), tool);
+
+        expect(result.status).toBe('failed');
+        expect(result.message).toBe('Tool Slow timed out after 20ms');
+        expect(received?.aborted).toBe(true);
+        expect(received?.reason).toBeInstanceOf(ToolTimeoutError);
+    });
+
+    it('should retry idempotent tools with backoff but not tools with side effects', async () => {
+        vi.spyOn(logger, 'warn').mockImplementation(() => {});
+        const executor = new ToolExecutor(new TaskQueue(2));
+        const readOnly = flakyTool({ riskLevel: 'read-only', failures: 2 });
+        const write = flakyTool({ riskLevel: 'write', failures: 1 });
+        const exhausted = flakyTool({ idempotent: true, failures: 5 });
+
+        expect(await call(executor, readOnly.tool)).toMatchObject({ status: 'succeed', result: { calls: 3 } });
+        expect(await call(executor, write.tool)).toMatchObject({ status: 'failed', message: 'attempt 1 failed' });
+        expect(await call(executor, exhausted.tool)).toMatchObject({ status: 'failed', message: 'attempt 3 failed' });
+        expect(write.execute).toHaveBeenCalledTimes(1);
+        expect(exhausted.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should limit concurrency per tool group', async () => {
+        const running = { browser: 0, other: 0 };
+        const peak = { browser: 0, other: 0 };
+        const makeTool = (name: string, group: 'browser' | 'other') => createTool({
+            name,
+            description: `${group} tool`,
+            inputSchema: z.object({}),
+            async: false,
+            riskLevel: 'read-only',
+            concurrencyGroup: group,
+            execute: async () => {
+                running[group]++;
+                peak[group] = Math.max(peak[group], running[group]);
+                await new Promise(resolve => setTimeout(resolve, 10));
+                running[group]--;
+                return { success: true };
+            },
+        });
+        const tools = [makeTool('Click', 'browser'), makeTool('Type', 'browser'), makeTool('Fetch', 'other'), makeTool('Grep', 'other')];
+        const executor = new ToolExecutor(new TaskQueue(4), { enableParallelExecution: true, concurrencyGroups: { other: 2 } });
+
+        const results = await executor.executeToolCalls(
+            tools.map((tool, i) => ({ type: 'function', name: tool.name, call_id: `call_${i}`, parameters: {} })),
+            tools,
+            { id: 'agent' }
+        );
+
+        expect(results.every(result => result.status === 'succeed')).toBe(true);
+        expect(peak).toEqual({ browser: 1, other: 2 });
+    });
+
+    it('should map MCP annotations onto tool policy', () => {
+        expect(mcpToolPolicy({ readOnlyHint: true })).toEqual({ riskLevel: 'read-only', idempotent: true });
+        expect(mcpToolPolicy({ openWorldHint: true, idempotentHint: true })).toEqual({ riskLevel: 'network', idempotent: true });
+        expect(mcpToolPolicy({ destructiveHint: true })).toEqual({ riskLevel: 'write', idempotent: undefined });
+        expect(mcpToolPolicy(undefined)).toEqual({ riskLevel: 'write', idempotent: undefined });
+    });
+});
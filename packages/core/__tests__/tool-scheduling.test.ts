@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ToolExecutor } from '../tool-executor';
+import { TaskQueue } from '../taskQueue';
+import { createTool } from '../utils';
+import { getToolCallAccess, planToolCallDependencies } from '../utils/tool-scheduling';
+import { LLMStreamChunk, ToolRiskLevel } from '../interfaces';
+import { StreamAgent } from '../stream-agent';
+import { StandardPromptProcessor } from '../prompts/standard-prompt-processor';
+import { EventBus } from '../event-bus/event-bus';
+import { LogLevel } from '../utils/logger';
+import { createFakeLLM } from './helpers/fake-llm';
+
+function recordingTools(log: string[]) {
+    const make = (name: string, riskLevel: ToolRiskLevel, inputSchema: z.ZodObject<any>) => createTool({
+        name,
+        description: name,
+        inputSchema,
+        async: false,
+        riskLevel,
+        execute: async (params: any) => {
+            log.push(`start ${name} ${params.path ?? params.command}`);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            log.push(`end ${name} ${params.path ?? params.command}`);
+            return { success: true };
+        },
+    });
+    return [
+        make('ReadFile', 'read-only', z.object({ path: z.string() })),
+        make('ApplyEditBlock', 'write', z.object({ path: z.string(), searchBlock: z.string(), replaceBlock: z.string() })),
+        make('BashCommand', 'shell', z.object({ command: z.string() })),
+    ];
+}
+
+const call = (name: string, parameters: Record<string, unknown>, index: number) =>
+    ({ type: 'function' as const, name, call_id: `call_${index}`, parameters });
+
+describe('Dependency-aware tool scheduling', () => {
+    it('should run reads concurrently and order writes after reads of the same file', async () => {
+        const log: string[] = [];
+        const tools = recordingTools(log);
+        const executor = new ToolExecutor(new TaskQueue(5), { enableParallelExecution: true });
+        const calls = [
+            call('ReadFile', { path: 'src/a.ts' }, 0),
+            call('ReadFile', { path: 'src/b.ts' }, 1),
+            call('ApplyEditBlock', { path: './src/a.ts', searchBlock: 'x', replaceBlock: 'y' }, 2),
+            call('ReadFile', { path: 'src/a.ts' }, 3),
+            call('ReadFile', { path: 'src/c.ts' }, 4),
+        ];
+
+        const results = await executor.executeToolCalls(calls, tools, { id: 'agent' });
+
+        expect(results.map(result => result.call_id)).toEqual(['call_0', 'call_1', 'call_2', 'call_3', 'call_4']);
+        expect(log.slice(0, 3)).toEqual(['start ReadFile src/a.ts', 'start ReadFile src/b.ts', 'start ReadFile src/c.ts']);
+        expect(log.indexOf('start ApplyEditBlock ./src/a.ts')).toBeGreaterThan(log.indexOf('end ReadFile src/a.ts'));
+        expect(log.lastIndexOf('start ReadFile src/a.ts')).toBeGreaterThan(log.indexOf('end ApplyEditBlock ./src/a.ts'));
+    });
+
+    it('should treat shell commands as barriers', async () => {
+        const log: string[] = [];
+        const tools = recordingTools(log);
+        const executor = new ToolExecutor(new TaskQueue(5), { enableParallelExecution: true });
+
+        await executor.executeToolCalls([
+            call('ReadFile', { path: 'a.ts' }, 0),
+            call('BashCommand', { command: 'npm test' }, 1),
+            call('ReadFile', { path: 'b.ts' }, 2),
+        ], tools, { id: 'agent' });
+
+        expect(log).toEqual([
+            'start ReadFile a.ts', 'end ReadFile a.ts',
+            'start BashCommand npm test', 'end BashCommand npm test',
+            'start ReadFile b.ts', 'end ReadFile b.ts',
+        ]);
+    });
+
+    it('should plan dependencies from paths, directories and side-effect groups', () => {
+        const [read, edit] = recordingTools([]);
+        const grep = createTool({
+            name: 'Grep', description: 'Grep', inputSchema: z.object({ pattern: z.string(), paths: z.array(z.string()).optional() }),
+            async: false, riskLevel: 'read-only', execute: async () => ({ success: true }),
+        });
+        const notify = createTool({
+            name: 'Notify', description: 'Notify', inputSchema: z.object({ message: z.string() }),
+            async: false, riskLevel: 'network', execute: async () => ({ success: true }),
+        });
+
+        const dependencies = planToolCallDependencies([
+            getToolCallAccess(edit, { path: 'src/a.ts', searchBlock: '', replaceBlock: '' }),
+            getToolCallAccess(grep, { pattern: 'foo', paths: '["lib"]' }),
+            getToolCallAccess(grep, { pattern: 'foo', paths: ['src/'] }),
+            getToolCallAccess(grep, { pattern: 'foo' }),
+            getToolCallAccess(notify, { message: 'a' }),
+            getToolCallAccess(read, { path: 'lib/x.ts' }),
+            getToolCallAccess(notify, { message: 'b' }),
+        ]);
+
+        expect(dependencies).toEqual([[], [], [0], [0], [], [], [4]]);
+    });
+
+    it('should schedule the tool calls of a streamed agent step and keep results in call order', async () => {
+        const files = new Map<string, string>();
+        const write = createTool({
+            name: 'Write', description: 'Write a file', inputSchema: z.object({ path: z.string(), content: z.string(), delay: z.number() }),
+            async: false, riskLevel: 'write',
+            execute: async (params) => {
+                await new Promise(resolve => setTimeout(resolve, params.delay));
+                files.set(params.path, params.content);
+                return { success: true };
+            },
+        });
+        const read = createTool({
+            name: 'Read', description: 'Read a file', inputSchema: z.object({ path: z.string() }),
+            async: false, riskLevel: 'read-only',
+            execute: async (params) => ({ success: true, content: files.get(params.path) }),
+        });
+        const llm = createFakeLLM({
+            parallelToolCall: true,
+            callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+                const calls = [
+                    call('Write', { path: 'notes.md', content: 'first', delay: 30 }, 0),
+                    call('Write', { path: 'notes.md', content: 'second', delay: 0 }, 1),
+                    call('Read', { path: 'notes.md' }, 2),
+                ];
+                for (const toolCall of calls) {
+                    yield { type: 'tool-call-done', toolCall, result: { parameters: toolCall.parameters } };
+                }
+            },
+        });
+        const eventBus = new EventBus();
+        const steps: any[] = [];
+        eventBus.subscribe('agent.step.completed', event => { steps.push(event.data.step); });
+        const agent = new StreamAgent(
+            'scheduling-agent', 'Scheduling Agent', 'Writes files', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, enableParallelToolExecution: true, toolOutput: false }, [], eventBus
+        );
+        agent.addToolSet({ name: 'files', description: 'File tools', tools: [write, read], active: true });
+
+        await agent.startWithUserInput('Update the notes', 1, 'session-scheduling');
+
+        const results = steps[0].toolExecutionResults;
+        expect(results.map((result: any) => result.call_id)).toEqual(['call_0', 'call_1', 'call_2']);
+        expect(files.get('notes.md')).toBe('second');
+        expect(results[2].result).toEqual({ success: true, content: 'second' });
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { ToolExecutor } from '../tool-executor';
+import { TaskQueue } from '../taskQueue';
+import { EventBus } from '../event-bus/event-bus';
+import { ApprovalEvent, ToolEvent } from '../interfaces/events';
+import { createTool } from '../utils';
+import { coerceToolParams } from '../utils/tool-params';
+import { LogLevel, Logger, logger } from '../utils/logger';
+
+const paramsSchema = z.object({
+    path: z.string(),
+    line: z.number().int(),
+    recursive: z.boolean().optional(),
+    options: z.object({ encoding: z.enum(['utf-8', 'base64']) }).optional(),
+    tags: z.array(z.string()).default([]),
+});
+
+function setup(executionMode: 'auto' | 'manual' = 'auto') {
+    const eventBus = new EventBus();
+    const executor = new ToolExecutor(new TaskQueue(2));
+    const agent = { id: 'agent', sessionId: 'session', executionMode, eventBus };
+    const execute = vi.fn(async (params: z.infer<typeof paramsSchema>) => ({ success: true, path: params.path }));
+    const tool = createTool({ name: 'ReadLine', description: 'Read a line', inputSchema: paramsSchema, async: false, execute });
+    const call = (parameters: unknown) => executor.executeToolCall(
+        { type: 'function', name: 'ReadLine', call_id: 'call_1', parameters },
+        tool, agent, eventBus
+    );
+    return { eventBus, executor, agent, execute, call };
+}
+
+describe('Tool parameter validation', () => {
+    afterEach(() => {
+        Logger.setLevel(LogLevel.NONE);
+        vi.restoreAllMocks();
+    });
+
+    it('should coerce common model mistakes before executing the tool', async () => {
+        const { execute, call } = setup();
+
+        const result = await call({ path: 42, line: '7', recursive: 'TRUE', options: '{"encoding": "UTF-8"}', tags: null });
+
+        const expected = { path: '42', line: 7, recursive: true, options: { encoding: 'utf-8' }, tags: [] };
+        expect(execute).toHaveBeenCalledWith(expected, expect.anything(), expect.anything());
+        expect(result).toMatchObject({ status: 'succeed', params: expected });
+    });
+
+    it('should accept stringified JSON for the whole argument object', () => {
+        expect(coerceToolParams(paramsSchema, '{"path": "a.ts", "line": "3"}')).toEqual({ path: 'a.ts', line: 3 });
+    });
+
+    it('should return a failed result naming the invalid fields without running the tool', async () => {
+        const { eventBus, execute, call } = setup();
+        const failed: ToolEvent[] = [];
+        eventBus.subscribe<ToolEvent>('tool.execution.failed', event => { failed.push(event); });
+
+        const result = await call({ line: 'seven', options: { encoding: 'hex' } });
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(result.status).toBe('failed');
+        expect(result.message).toMatch(/^Invalid parameters for ReadLine: path: Required; line: Expected number/);
+        expect(result.result.validationErrors.map((issue: { path: string }) => issue.path)).toEqual(['path', 'line', 'options.encoding']);
+        expect(failed).toHaveLength(1);
+    });
+
+    it('should validate before asking for approval and again after edits', async () => {
+        const { eventBus, execute, call } = setup('manual');
+        const requests: ApprovalEvent[] = [];
+        eventBus.subscribe<ApprovalEvent>('approval.requested', event => {
+            requests.push(event);
+            eventBus.publish({
+                type: 'approval.responded',
+                timestamp: Date.now(),
+                source: 'test-client',
+                data: { requestId: event.data.requestId, decision: 'edit', parameters: { path: 'b.ts', line: 'x' } },
+            });
+        });
+
+        const invalid = await call({ path: 'a.ts' });
+        const edited = await call({ path: 'a.ts', line: 1 });
+
+        expect(invalid.status).toBe('failed');
+        expect(requests).toHaveLength(1);
+        expect(edited.message).toContain('line: Expected number');
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should warn about results that do not match the output schema in debug mode', async () => {
+        Logger.setLevel(LogLevel.DEBUG);
+        const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+        const executor = new ToolExecutor(new TaskQueue(2));
+        const tool = createTool({
+            name: 'Broken',
+            description: 'Returns the wrong shape',
+            inputSchema: z.object({}),
+            outputSchema: z.object({ success: z.boolean(), count: z.number() }),
+            async: false,
+            execute: async () => ({ success: true, count: 'many' }) as any,
+        });
+
+        const result = await executor.executeToolCall({ type: 'function', name: 'Broken', call_id: 'call_2', parameters: undefined }, tool, { id: 'agent' });
+
+        expect(result.status).toBe('succeed');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Tool Broken returned a result that does not match its output schema: count: Expected number'));
+    });
+});
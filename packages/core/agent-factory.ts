@@ -59,6 +59,9 @@ export class AgentFactory {
         // 根据模式决定创建哪种Agent
         const selectedMode = this.determineAgentMode(mode, llm);
 
+        // 将 LLM 实例作为 model 传入 Agent（如 RecordingLLM / ReplayLLM），不再按模型名重新创建
+        const effectiveOptions = { ...agentOptions, model: llm };
+
         logger.info(`Creating Agent with mode: ${selectedMode}`, {
             id,
             hasCallStream: typeof llm.callStream === 'function',
@@ -75,7 +78,7 @@ export class AgentFactory {
                 maxSteps,
                 promptProcessor,
                 logLevel,
-                agentOptions,
+                effectiveOptions,
                 contexts,
                 effectiveEventBus
             );
@@ -87,7 +90,7 @@ export class AgentFactory {
                 maxSteps,
                 promptProcessor,
                 logLevel,
-                agentOptions,
+                effectiveOptions,
                 contexts,
                 effectiveEventBus
             );
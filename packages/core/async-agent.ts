@@ -1,5 +1,7 @@
 import { BaseAgent } from "./base-agent.js";
-import { AgentStep } from "./interfaces/index.js";
+import { AgentStep, LLMMessage, LLMStreamChunk, ToolCallDefinition } from "./interfaces/index.js";
+import { flattenLLMMessages } from "./models/llm-messages.js";
+import { foldChunks, LLMCallResult } from "./models/recording-llm.js";
 import { logger } from "./utils/logger.js";
 import { 
     EventBus, 
@@ -76,8 +78,16 @@ export class AsyncAgent extends BaseAgent {
         // 步骤开始事件由 BaseAgent 统一发布，避免重复
 
         try {
-            // 生成prompt
-            const prompt = await this.promptProcessor.formatPrompt(stepIndex);
+            // 先选择本步骤的模型，prompt 按该模型的上下文窗口压缩
+            const llm = await this.selectStepModel(stepIndex);
+            if (!llm.callAsync || typeof llm.callAsync !== 'function') {
+                throw new Error('AsyncAgentV2 requires LLM with callAsync support. Use StreamAgentV2 for streaming LLMs.');
+            }
+
+            // 生成prompt（promptFormat 为 messages 时生成结构化消息）
+            const prompt = this.promptFormat === 'messages'
+                ? await this.promptProcessor.formatMessages(stepIndex)
+                : await this.promptProcessor.formatPrompt(stepIndex);
             logger.debug('Generated prompt', { length: prompt.length });
 
             // 获取工具定义
@@ -90,11 +100,6 @@ export class AsyncAgent extends BaseAgent {
                 toolDefs: toolDefs.map(t => t.name) 
             });
 
-            // 检查LLM是否支持异步调用
-            if (!this.llm.callAsync || typeof this.llm.callAsync !== 'function') {
-                throw new Error('AsyncAgentV2 requires LLM with callAsync support. Use StreamAgentV2 for streaming LLMs.');
-            }
-
             // 执行异步调用
             await this.processAsyncResponse(prompt, toolDefs, stepIndex);
             
@@ -126,7 +131,8 @@ export class AsyncAgent extends BaseAgent {
                     call_id: call.call_id,
                     params: call.params
                 })) || [],
-                toolExecutionResults: this.currentStepData?.toolExecutionResults || []
+                toolExecutionResults: this.currentStepData?.toolExecutionResults || [],
+                cancelled: this.currentStepData?.cancelled
             };
 
             // 事件发布由 BaseAgent 统一处理，避免重复发布
@@ -139,32 +145,39 @@ export class AsyncAgent extends BaseAgent {
         } catch (error) {
             logger.error('Error in AsyncAgentV2 step:', error);
 
-            // 步骤失败事件由 BaseAgent 统一发布，避免重复
-
-            // add error to prompt
-            this.promptProcessor.renderErrorToPrompt(
-                error instanceof Error ? error.message : String(error), 
-                stepIndex
-            );
-
-            // 创建错误步骤
-            const errorStep: AgentStep = {
-                stepIndex: stepIndex,
-                error: error instanceof Error ? error.message : String(error)
-            };
+            // 步骤失败事件和错误恢复（重试、跳过、中止）由 BaseAgent.stepsLoop 统一处理
+            throw error;
+        }
+    }
 
-            return {
-                continueProcessing: false,
-                agentStep: errorStep
-            };
+    /**
+     * 结构化消息没有对应的 callAsync，使用 callStreamMessages 并折叠为完整结果；LLM 未实现时展开为字符串
+     */
+    private async callLLMAsync(prompt: string | LLMMessage[], toolDefs: ToolCallDefinition[], stepIndex: number): Promise<LLMCallResult> {
+        const options = { stepIndex, signal: this.abortSignal };
+        if (typeof prompt === 'string') {
+            return this.stepLLM.callAsync(prompt, toolDefs, options);
+        }
+        if (!this.stepLLM.callStreamMessages) {
+            return this.stepLLM.callAsync(flattenLLMMessages(prompt), toolDefs, options);
+        }
+        const chunks: LLMStreamChunk[] = [];
+        for await (const chunk of this.stepLLM.callStreamMessages(prompt, toolDefs, options)) {
+            chunks.push(chunk);
         }
+        // 多数 LLM 在 error chunk 之后直接抛出原始错误，只输出 error chunk 时在这里抛出
+        const errorChunk = chunks.find(chunk => chunk.type === 'error');
+        if (errorChunk?.type === 'error') {
+            throw new Error(errorChunk.message);
+        }
+        return foldChunks(chunks);
     }
 
     /**
      * 处理异步响应 - 专注于批量处理和完整结果事件
      */
     private async processAsyncResponse(
-        prompt: string,
+        prompt: string | LLMMessage[],
         toolDefs: any[],
         stepIndex: number
     ): Promise<void> {
@@ -186,12 +199,17 @@ export class AsyncAgent extends BaseAgent {
                 rawText: '',
                 toolCalls: [],
                 toolExecutionResults: [],
-                toolExecutionPromises: [],
+                pendingToolCalls: [],
                 isComplete: false
             };
 
             // 调用异步LLM方法
-            const result = await this.llm.callAsync(prompt, toolDefs, { stepIndex });
+            this.llmCallInProgress = true;
+            const result = await this.callLLMAsync(prompt, toolDefs, stepIndex)
+                .finally(() => { this.llmCallInProgress = false; });
+            if (result.usage) {
+                this.recordTokenUsage(result.usage, stepIndex, this.stepLLM.model);
+            }
 
             // 发布文本完成事件
             if (result.text) {
@@ -212,21 +230,15 @@ export class AsyncAgent extends BaseAgent {
                         name: toolCall.name,
                         params: toolCall.parameters
                     });
-                    
-                    // 执行工具调用
-                    const toolPromise = this.handleToolCallExecution(toolCall, stepIndex);
-                    this.currentStepData.toolExecutionPromises.push(toolPromise);
                 }
 
-                // 等待所有工具调用完成
-                if (this.currentStepData.toolExecutionPromises.length > 0) {
-                    logger.debug(`[AsyncAgentV2] 等待 ${this.currentStepData.toolExecutionPromises.length} 个工具调用完成...`);
-                    await Promise.all(this.currentStepData.toolExecutionPromises);
-                    logger.debug(`[AsyncAgentV2] 所有工具调用已完成`);
-                }
+                // 执行本步骤的所有工具调用，结果按调用顺序保存
+                this.currentStepData.toolExecutionResults = await this.executeStepToolCalls(result.toolCalls, stepIndex);
+                logger.debug(`[AsyncAgentV2] 所有工具调用已完成`);
             }
 
             // 处理步骤完成
+            this.currentStepData.cancelled = this.abortSignal?.aborted || undefined;
             await this.handleStepCompletion();
 
             // 发布LLM调用完成事件
@@ -235,6 +247,15 @@ export class AsyncAgent extends BaseAgent {
             logger.debug(`[AsyncAgentV2] async异步处理完成步骤 ${stepIndex}`);
 
         } catch (error) {
+            // 被 stop() 中断：LLM 调用没有返回，记录为已取消的空步骤
+            if (this.abortSignal?.aborted && this.currentStepData) {
+                logger.info(`🛑 [AsyncAgentV2] 步骤 ${stepIndex} LLM 调用被中断`);
+                this.currentStepData.cancelled = true;
+                await this.handleStepCompletion();
+                return;
+            }
+
+
             logger.error(`[AsyncAgentV2] async异步处理失败步骤 ${stepIndex}:`, error);
             
             await this.eventPublisher.publishErrorEvent(
@@ -293,66 +314,6 @@ export class AsyncAgent extends BaseAgent {
         logger.debug(`[AsyncAgentV2] 步骤 ${stepIndex} 处理完成`);
     }
 
-    /**
-     * 执行工具调用并发布相关事件
-     */
-    private async handleToolCallExecution(
-        toolCall: any,
-        stepIndex: number
-    ): Promise<void> {
-        try {
-            // 工具执行事件由 BaseAgent 统一发布，避免重复
-
-            // 找到对应的工具
-            const tool = this.getActiveTools().find(t => t.name === toolCall.name);
-            if (!tool) {
-                throw new Error(`Tool not found: ${toolCall.name}`);
-            }
-
-            // 执行工具调用（使用父类的工具执行器）
-            const result = await this.toolExecutor.executeToolCall(
-                toolCall,
-                tool,
-                this,
-                this.eventBus, // 不再需要回调
-                this.toolExecutionPriority
-            );
-
-            // 保存结果到当前步骤数据
-            if (this.currentStepData) {
-                if (!this.currentStepData.toolExecutionResults) {
-                    this.currentStepData.toolExecutionResults = [];
-                }
-                this.currentStepData.toolExecutionResults.push(result);
-            }
-
-            // 工具执行完成和失败事件由 BaseAgent 统一发布，避免重复
-
-        } catch (error) {
-            // 工具执行失败事件由 BaseAgent 统一发布，避免重复
-
-            // 重新抛出错误以保持原有的错误处理逻辑
-            throw error;
-        }
-    }
-
-    /**
-     * 停止Agent并发布相关事件
-     */
-    stop(): void {
-        super.stop();
-        
-        // 发布Agent停止事件
-        this.eventPublisher.publishAgentEvent(
-            'agent.stopped',
-            this.currentStep || 0,
-            this.currentSessionId,
-            { reason: 'Manual stop requested' }
-        ).catch(error => {
-            logger.error('Failed to publish agent stopped event:', error);
-        });
-    }
-
     /**
      * 获取事件总线实例（用于外部订阅）
      */
@@ -1,4 +1,4 @@
-import { AnyTool, IContextManager, IAgent, ILLM, IContext, ToolCallDefinition, ToolCallParams, ToolExecutionResult, IRAGEnabledContext, asRAGEnabledContext, AgentStatus, AgentStep, ChatMessage, ToolSet, AgentStorage, MessageType, BasePromptProcessor } from "./interfaces/index.js";
+import { AnyTool, IContextManager, IAgent, ILLM, IContext, ToolCallDefinition, ToolCallParams, ToolExecutionResult, IRAGEnabledContext, asRAGEnabledContext, AgentStatus, AgentStep, ChatMessage, ToolSet, AgentStorage, MessageType, BasePromptProcessor, LLMUsage, addLLMUsage, BudgetStatus, CancelledWork, ReasoningOptions, MCPServerConfig } from "./interfaces/index.js";
 import { IEventBus, EventBus, EventPublisher } from "./event-bus/index.js";
 
 /**
@@ -9,25 +9,26 @@ class AgentEventPublisher extends EventPublisher {
         super(eventBus, componentName);
     }
 }
-import { ToolExecutor } from "./tool-executor.js";
+import { ToolExecutor, DENIED_RESULT_PREFIX } from "./tool-executor.js";
+import { ClaudeErrorHandler, ErrorRecoveryOptions, RecoveryStrategy } from "./utils/error-handler.js";
 import { DeepWikiContext, FireCrawlContext } from "./contexts/index.js";
 import { TaskQueue } from "./taskQueue.js";
+import { ToolOutputStore, ToolOutputStoreConfig } from "./session/tool-output-store.js";
+import { ReadToolOutputTool } from "./tools/read-tool-output.js";
 import { ITaskQueue } from "./interfaces/tool.js";
 import dotenv from "dotenv";
 import { PlanContext } from "./contexts/plan.js";
-import { MCPContext } from "./contexts/mcp.js";
+import { MCPContext, MCPContextId } from "./contexts/mcp.js";
+import { loadMcpConfig, connectMcpServers, DEFAULT_MCP_CONNECT_TIMEOUT, MCPServerConnectionResult } from "./contexts/mcp-config.js";
 import { WebSearchContext } from "./contexts/web-search.js";
-import { OpenAIWrapper } from "./models/openai.js";
-import { AnthropicWrapper } from "./models/anthropic.js";
-import { GeminiWrapper } from "./models/gemini.js";
-import { SupportedModel, getModelProvider, OPENAI_MODELS } from "./models/index.js";
+import { SupportedModel, OPENAI_MODELS, estimateCost, getModelInfo, OpenAICompatibleConfig, llmProviderRegistry, FallbackLLM, FallbackLLMOptions, ModelFallbackInfo, ToolCallProtocol, applyToolCallProtocol } from "./models/index.js";
 import path from "path";
 import { LogLevel, Logger } from "./utils/logger.js";
 import { ToolSetContext } from "./contexts/toolset.js";
 import { logger } from "./utils/logger.js";
 import { ContextManager } from "./context.js";
 import { getSystemPromptForMode } from "./prompts/system-prompt.js";
-import { OpenAIChatWrapper } from "./models/openai-chat.js";
+import { ContextCompactor } from "./prompts/context-compactor.js";
 import { randomUUID } from "crypto";
 
 dotenv.config();
@@ -58,13 +59,65 @@ const DEFAULT_AGENT_OPTIONS: AgentOptions = {
     },
 }
 
+// 连续跳过的失败步骤达到该数量时中止，避免模型在同一个错误上反复消耗步骤
+const MAX_CONSECUTIVE_STEP_ERRORS = 3;
+
+/**
+ * Agent 预算配置 - 超出任一限制时 stepsLoop 会停止
+ * Session 限制按会话累计，Run 限制按单次 startWithUserInput 计算
+ */
+export interface AgentBudget {
+    maxCostPerSession?: number;   // 美元
+    maxCostPerRun?: number;       // 美元
+    maxTokensPerSession?: number;
+    maxTokensPerRun?: number;
+}
+
+/**
+ * 上下文压缩配置 - prompt 接近上下文窗口时将较早的步骤总结为一条摘要
+ */
+export interface ContextCompactionOptions {
+    enabled?: boolean;
+    summaryModel?: SupportedModel;  // 用于生成摘要的模型（可选更便宜的模型），默认使用 Agent 自身的模型
+    maxPromptTokens?: number;       // 默认为模型上下文窗口减去输出预留
+    triggerRatio?: number;
+    keepRecentSteps?: number;
+}
+
+/**
+ * 模型选择策略的输入，每个步骤开始时提供
+ */
+export interface ModelPolicyContext {
+    stepIndex: number;
+    lastToolResults: ToolExecutionResult[];  // 上一步的工具执行结果，没有时为空数组
+    status: AgentStatus;
+    defaultModel: ILLM;                      // AgentOptions.model 创建的模型（含降级链）
+}
+
+/**
+ * 按步骤选择模型：例如规划步骤使用强模型，处理工具结果的后续步骤使用便宜的模型
+ * 返回 undefined 时使用默认模型
+ */
+export type ModelPolicy = (context: ModelPolicyContext) => ILLM | undefined | Promise<ILLM | undefined>;
+
 export interface AgentOptions {
-    model?: SupportedModel;
+    model?: SupportedModel | ILLM;  // 模型名，或直接传入 LLM 实例（代理、缓存层、ReplayLLM 等）
+    /** @deprecated 使用 model 传入 LLM 实例；设置后忽略 model */
+    llm?: ILLM;
+    provider?: string;              // 指定 llmProviderRegistry 中的 provider，未指定时按模型名匹配
+    providerOptions?: Record<string, any>;  // 传给 provider 的额外参数
+    openaiCompatible?: OpenAICompatibleConfig;  // 使用 OpenAI 兼容端点（Ollama、vLLM、llama.cpp server），等价于 provider: 'openai-compatible'
     enableParallelToolCalls?: boolean;
     temperature?: number;
     taskConcurency?: number;
     mcpConfigPath?: string;
-    executionMode?: 'auto' | 'manual' | 'supervised';
+    mcpAutoConnect?: boolean;     // setup 时连接 mcpConfigPath 和各 context 的 mcpServers，默认 true
+    mcpConnectTimeout?: number;   // 每个 MCP 服务器的连接超时时间（毫秒），默认 30000
+    executionMode?: 'auto' | 'manual' | 'supervised'; // supervised: 有风险的工具调用需审批；manual: 所有工具调用需审批
+    approvalTimeout?: number;  // 等待工具调用审批的超时时间（毫秒），默认一直等待；没有客户端订阅审批请求时直接拒绝
+    validateToolResults?: boolean | 'debug';  // 按 outputSchema 校验工具返回值并记录警告，默认仅在 DEBUG 日志级别下校验
+    toolConcurrencyGroups?: Record<string, number>;  // 工具并发组（ITool.concurrencyGroup）的并发上限，未配置的组默认 1
+    toolOutput?: ToolOutputStoreConfig | false;  // 超过阈值的工具输出随会话保存（文件会话写入会话目录，内存会话只在内存中），prompt 中只保留头尾预览，模型通过 ReadToolOutput 分页读取；false 表示不截断
     enableParallelToolExecution?: boolean;
     toolExecutionPriority?: number;
     promptOptimization?: {
@@ -72,13 +125,22 @@ export interface AgentOptions {
         customSystemPrompt?: string;
         maxTokens?: number;
     };
+    budget?: AgentBudget;
+    contextCompaction?: ContextCompactionOptions;
+    errorRecovery?: ErrorRecoveryOptions;  // 步骤出错时的重试退避和人工决定配置
+    fallbackModels?: Array<SupportedModel | ILLM>;  // 主模型限流、过载或 5xx 时按顺序切换的模型
+    fallback?: FallbackLLMOptions;  // 降级链的重试和冷却配置
+    reasoning?: ReasoningOptions;   // 推理模型配置（Anthropic extended thinking、OpenAI o 系列 effort、Gemini 2.5 thinking）
+    promptFormat?: 'string' | 'messages';  // messages: 以结构化消息调用 LLM（原生角色、system 消息和工具调用配对），默认 string
+    toolCallProtocol?: ToolCallProtocol;   // text: 工具写入 system prompt 并从文本中解析 <tool_call>；默认 auto，按模型的 tools 能力逐个选择
+    modelPolicy?: ModelPolicy;             // 每个步骤开始时选择本步骤使用的模型，默认所有步骤使用 model
 }
 
 /**
  * 当前步骤数据接口 - 扩展AgentStep，包含执行时所需的额外字段
  */
 interface CurrentStepData extends AgentStep {
-    toolExecutionPromises: Array<Promise<void>>;
+    pendingToolCalls: ToolCallParams[];  // 本步骤 LLM 返回的工具调用，步骤完成时一起执行
     isComplete: boolean;
 }
 
@@ -98,8 +160,11 @@ export abstract class BaseAgent implements IAgent {
     toolExecutionPriority: number = 5;
     toolSets: ToolSet[] = [];
     mcpConfigPath: string;
-    executionMode: 'auto' | 'manual' | 'supervised' = 'manual';
+    private mcpAutoConnect: boolean;
+    private mcpConnectTimeout: number;
+    executionMode: 'auto' | 'manual' | 'supervised' = 'auto';
     toolExecutor: ToolExecutor;
+    toolOutputStore?: ToolOutputStore;
 
     isRunning: boolean;
     shouldStop: boolean;
@@ -127,9 +192,35 @@ export abstract class BaseAgent implements IAgent {
     
     // Event Publisher for unified event publishing
     protected eventPublisher: EventPublisher;
+
+    // 步骤和工具错误的分类与恢复
+    protected errorHandler: ClaudeErrorHandler;
+
+    // LLM 调用的 prompt 形式
+    protected promptFormat: 'string' | 'messages';
+    // 按步骤选择模型的策略及当前步骤使用的模型
+    protected modelPolicy?: ModelPolicy;
+    protected stepLLM: ILLM;
+    // 策略返回的模型按 Agent 配置（工具协议、并行工具调用、推理）设置后缓存
+    private policyModels = new Map<ILLM, ILLM>();
+    private reasoning?: ReasoningOptions;
+    private toolCallProtocol?: ToolCallProtocol;
     
     // 当前正在处理的步骤数据
     protected currentStepData: CurrentStepData | null = null;
+    // 当前步骤累计的 token 用量（一个步骤可能包含多次 LLM 调用）
+    protected currentStepUsage?: LLMUsage;
+    protected contextCompactor?: ContextCompactor;
+    private contextCompactionOptions?: ContextCompactionOptions;
+    // 预算配置及本次运行的用量
+    budget?: AgentBudget;
+    protected runTokensUsed: number = 0;
+    protected runCostUSD: number = 0;
+    // 没有价格信息的模型，每个模型只警告一次
+    private unpricedModels = new Set<string>();
+    // 每次运行创建新的 AbortController，stop() 时中断进行中的 LLM 调用和工具执行
+    protected abortController: AbortController | null = null;
+    protected llmCallInProgress: boolean = false;
 
     constructor(
         id: string,
@@ -157,7 +248,7 @@ export abstract class BaseAgent implements IAgent {
         this.description = description;
         this.contextManager = new ContextManager(id, name);
         this.toolSets = [];
-        this.executionMode = agentOptions?.executionMode || 'manual';
+        this.executionMode = agentOptions?.executionMode || 'auto';
         logger.info(`Agent initialized with execution mode: ${this.executionMode}`);
 
         // LLM configuration options
@@ -166,30 +257,41 @@ export abstract class BaseAgent implements IAgent {
         this.enableParallelToolCalls = agentOptions?.enableParallelToolCalls ?? false;
         this.enableParallelToolExecution = agentOptions?.enableParallelToolExecution ?? false;
         this.toolExecutionPriority = agentOptions?.toolExecutionPriority ?? 5;
+        this.budget = agentOptions?.budget;
+        this.promptFormat = agentOptions?.promptFormat ?? 'string';
 
         // 初始化 LLM
-        const selectedModel: SupportedModel = agentOptions?.model || OPENAI_MODELS.GPT_4O;
-        const provider = getModelProvider(selectedModel);
-        logger.info(`getModelProvider model: ${selectedModel}, provider: ${provider}`);
-
-        if (provider === 'openai') {
-            this.llm = new OpenAIWrapper(selectedModel, false, temperature, maxTokens);
-            (this.llm as any).modelName = selectedModel;
-            logger.info(`Using OpenAI model: ${selectedModel}`);
-        } else if (provider === 'anthropic') {
-            this.llm = new AnthropicWrapper(selectedModel, false, temperature, maxTokens);
-            (this.llm as any).modelName = selectedModel;
-            logger.info(`Using Anthropic model: ${selectedModel}`);
-        } else if (provider === 'google') {
-            this.llm = new GeminiWrapper(selectedModel, false, temperature, maxTokens);
-            (this.llm as any).modelName = selectedModel;
-            logger.info(`Using Google model: ${selectedModel}`);
-        } else if (provider === 'deepseek') {
-            this.llm = new OpenAIChatWrapper(selectedModel, false, temperature, maxTokens);
-            (this.llm as any).modelName = selectedModel;
-            logger.info(`Using DeepSeek model: ${selectedModel}`);
+        const selectedModel = agentOptions?.llm || agentOptions?.model || OPENAI_MODELS.GPT_4O;
+        if (typeof selectedModel === 'object') {
+            this.llm = selectedModel;
+        } else if (agentOptions?.openaiCompatible) {
+            this.llm = llmProviderRegistry.createLLM(agentOptions.openaiCompatible.model, {
+                temperature,
+                maxTokens,
+                providerOptions: { ...agentOptions.providerOptions, endpoint: agentOptions.openaiCompatible },
+            }, 'openai-compatible');
         } else {
-            throw new Error(`Unsupported LLM provider: ${provider}`);
+            this.llm = llmProviderRegistry.createLLM(selectedModel, {
+                temperature,
+                maxTokens,
+                providerOptions: agentOptions?.providerOptions,
+            }, agentOptions?.provider);
+        }
+        this.llm = applyToolCallProtocol(this.llm, agentOptions?.toolCallProtocol);
+
+        // 降级链：主模型不可用时同一步骤在下一个模型上继续
+        if (agentOptions?.fallbackModels?.length) {
+            const fallbackLLMs = agentOptions.fallbackModels.map(model => applyToolCallProtocol(typeof model === 'object'
+                ? model
+                : llmProviderRegistry.createLLM(model, { temperature, maxTokens }), agentOptions.toolCallProtocol));
+            this.llm = new FallbackLLM([this.llm, ...fallbackLLMs], {
+                ...agentOptions.fallback,
+                onFallback: info => {
+                    this.publishModelFallback(info);
+                    agentOptions.fallback?.onFallback?.(info);
+                }
+            });
+            logger.info(`🔀 Model fallback chain: ${(this.llm as FallbackLLM).chain.join(' → ')}`);
         }
 
         // Set LLM parallel tool calling
@@ -198,23 +300,43 @@ export abstract class BaseAgent implements IAgent {
         } else {
             this.llm.parallelToolCall = this.enableParallelToolCalls;
         }
+        if (agentOptions?.reasoning) {
+            this.llm.setReasoning?.(agentOptions.reasoning);
+        }
+        this.reasoning = agentOptions?.reasoning;
+        this.toolCallProtocol = agentOptions?.toolCallProtocol;
+        this.modelPolicy = agentOptions?.modelPolicy;
+        this.stepLLM = this.llm;
 
         // Set the provided PromptProcessor
         this.promptProcessor = promptProcessor;
         this.promptProcessor.setContextManager(this.contextManager);
 
+        // 上下文压缩
+        this.contextCompactionOptions = agentOptions?.contextCompaction;
+        this.contextCompactor = this.createContextCompactor(agentOptions?.contextCompaction, temperature, maxTokens);
+        this.promptProcessor.setContextCompactor(this.contextCompactor);
+
         // Set MCP config path
         this.mcpConfigPath = agentOptions?.mcpConfigPath || path.join(process.cwd(), 'config', 'mcp.json');
         logger.info(`MCP config path: ${this.mcpConfigPath}`);
+        this.mcpAutoConnect = agentOptions?.mcpAutoConnect ?? true;
+        this.mcpConnectTimeout = agentOptions?.mcpConnectTimeout ?? DEFAULT_MCP_CONNECT_TIMEOUT;
 
         let taskConcurency = agentOptions?.taskConcurency ? agentOptions?.taskConcurency : 5;
         this.taskQueue = new TaskQueue(taskConcurency);
         
+        this.toolOutputStore = agentOptions?.toolOutput === false ? undefined : new ToolOutputStore(agentOptions?.toolOutput);
+
         // 初始化 ToolExecutor
         this.toolExecutor = new ToolExecutor(this.taskQueue, {
             maxConcurrency: taskConcurency,
             defaultPriority: this.toolExecutionPriority,
-            enableParallelExecution: this.enableParallelToolExecution
+            enableParallelExecution: this.enableParallelToolExecution,
+            approvalTimeout: agentOptions?.approvalTimeout,
+            validateResults: agentOptions?.validateToolResults,
+            concurrencyGroups: agentOptions?.toolConcurrencyGroups,
+            outputStore: this.toolOutputStore
         });
         
         // 初始化 EventBus（使用传入的或创建新的）
@@ -223,6 +345,9 @@ export abstract class BaseAgent implements IAgent {
         // 初始化 EventPublisher
         this.eventPublisher = new AgentEventPublisher(this.eventBus, `agent.${this.id}`);
 
+        // 错误分类与恢复，恢复决定通过 eventBus 发布给客户端
+        this.errorHandler = new ClaudeErrorHandler(this.eventBus, agentOptions?.errorRecovery);
+
         this.maxSteps = maxSteps;
         this.isRunning = false;
         this.shouldStop = false;
@@ -240,6 +365,71 @@ export abstract class BaseAgent implements IAgent {
         return systemPrompt;
     }
 
+    setModelPolicy(policy: ModelPolicy | undefined): void {
+        this.modelPolicy = policy;
+    }
+
+    /**
+     * 由 processStep 在调用 LLM 之前调用：通过 modelPolicy 选择本步骤的模型并发布 llm.model.selected
+     * 策略出错时使用默认模型
+     */
+    protected async selectStepModel(stepIndex: number): Promise<ILLM> {
+        let selected = this.llm;
+        if (this.modelPolicy) {
+            const steps = this.agentStorage.agentSteps;
+            try {
+                const chosen = await this.modelPolicy({
+                    stepIndex,
+                    lastToolResults: steps[steps.length - 1]?.toolExecutionResults ?? [],
+                    status: this.currentState,
+                    defaultModel: this.llm
+                });
+                if (chosen) {
+                    selected = this.preparePolicyModel(chosen);
+                }
+            } catch (error) {
+                logger.error(`Model policy failed at step ${stepIndex}, using ${this.llm.model}:`, error);
+            }
+        }
+
+        this.stepLLM = selected;
+        // 未显式配置 maxPromptTokens 时，压缩上限随本步骤的模型变化
+        if (this.contextCompactor && !this.contextCompactionOptions?.maxPromptTokens) {
+            this.contextCompactor.setMaxPromptTokens(this.getMaxPromptTokens(selected));
+        }
+        this.eventBus.publish({
+            type: 'llm.model.selected',
+            timestamp: Date.now(),
+            source: `agent.${this.id}`,
+            sessionId: this.sessionId,
+            stepIndex,
+            data: {
+                model: selected.model,
+                isDefault: selected === this.llm,
+                stepIndex
+            }
+        });
+        return selected;
+    }
+
+    private preparePolicyModel(llm: ILLM): ILLM {
+        if (llm === this.llm) return llm;
+        let prepared = this.policyModels.get(llm);
+        if (!prepared) {
+            prepared = applyToolCallProtocol(llm, this.toolCallProtocol);
+            if (prepared.setParallelToolCall) {
+                prepared.setParallelToolCall(this.enableParallelToolCalls);
+            } else {
+                prepared.parallelToolCall = this.enableParallelToolCalls;
+            }
+            if (this.reasoning) {
+                prepared.setReasoning?.(this.reasoning);
+            }
+            this.policyModels.set(llm, prepared);
+        }
+        return prepared;
+    }
+
     // 抽象方法，由子类实现
     protected abstract processStep(
         userInput: string,
@@ -249,62 +439,28 @@ export abstract class BaseAgent implements IAgent {
         agentStep: AgentStep;
     }>;
 
-    // 工具调用执行方法
-    protected async executeToolCall(toolCall: import('./interfaces/tool.js').ToolCallParams, _stepIndex: number): Promise<void> {
-        const startTime = Date.now();
-        
-        // 发布工具调用开始事件
-        await this.eventPublisher.publishToolExecutionStarted(toolCall, _stepIndex, this.sessionId);
-
-        logger.info(`🔧 [Step ${_stepIndex}] Executing tool: ${toolCall.name}`);
-
-        try {
-            // 使用ToolExecutor执行工具调用
-            const result = await this.toolExecutor.execute(
-                toolCall,
-                this
-            );
-
-            const endTime = Date.now();
-            
-            // 发布工具执行完成事件
-            this.eventBus.publish({
-                type: 'tool.execution.completed',
-                timestamp: endTime,
-                source: `agent.${this.id}`,
-                stepIndex: _stepIndex,
-                sessionId: this.sessionId,
-                data: {
-                    toolCall,
-                    result
-                }
-            });
+    /**
+     * 执行一个步骤的全部工具调用：由 ToolExecutor 按文件和副作用依赖调度，结果保持调用顺序。
+     * 结果交给各 context 的 onToolCall，失败的结果再做错误分类和上报
+     */
+    protected async executeStepToolCalls(toolCalls: ToolCallParams[], stepIndex: number): Promise<ToolExecutionResult[]> {
+        logger.info(`🔧 [Step ${stepIndex}] Executing ${toolCalls.length} tool call(s): ${toolCalls.map(call => call.name).join(', ')}`);
+        const results = await this.toolExecutor.executeToolCalls(
+            toolCalls,
+            this.getActiveTools(),
+            this,
+            this.eventBus,
+            this.toolExecutionPriority,
+            this.abortSignal
+        );
 
-            logger.info(`✅ [Step ${_stepIndex}] Tool ${toolCall.name} executed successfully in ${endTime - startTime}ms`);
-            
-            // 处理工具调用结果
+        for (const result of results) {
             this.processToolCallResult(result);
-
-        } catch (error) {
-            const endTime = Date.now();
-            
-            // 发布工具执行错误事件
-            this.eventBus.publish({
-                type: 'tool.execution.error',
-                timestamp: endTime,
-                source: `agent.${this.id}`,
-                stepIndex: _stepIndex,
-                sessionId: this.sessionId,
-                data: {
-                    toolCall,
-                    error: error instanceof Error ? error.message : String(error),
-                    executionTime: endTime - startTime
-                }
-            });
-
-            logger.error(`❌ [Step ${_stepIndex}] Tool ${toolCall.name} execution failed:`, error);
-            throw error;
+            if (result.status === 'failed') {
+                await this.handleToolFailure(result, stepIndex);
+            }
         }
+        return results;
     }
 
     async setup(): Promise<void> {
@@ -330,6 +486,22 @@ export abstract class BaseAgent implements IAgent {
         // 从 contexts 中提取 toolSets 并添加到 agent
         await this.initializeToolSetsFromContexts();
 
+        // 开启输出截断时注册 ReadToolOutput，否则模型拿到的 handle 无法读取
+        if (this.toolOutputStore) {
+            this.addToolSet({
+                name: 'ToolOutputTools',
+                description: 'Page through or search tool outputs that were too large for the context.',
+                tools: [ReadToolOutputTool],
+                active: true,
+                source: 'local'
+            });
+        }
+
+        // 连接配置文件和 contexts 中声明的 MCP 服务器
+        if (this.mcpAutoConnect) {
+            await this.connectConfiguredMcpServers();
+        }
+
         // 初始化 Task Queue
         await this.taskQueue.start();
         logger.info(`✅ Task Queue started with concurrency: ${this.taskQueue.getConcurrency()}`);
@@ -356,6 +528,47 @@ export abstract class BaseAgent implements IAgent {
         logger.info(`✅ Agent setup completed for ${this.name}`);
     }
 
+    /**
+     * 并行连接 mcpConfigPath 和各 context 的 mcpServers 中的服务器，同名时配置文件优先。
+     * 单个服务器连接失败只记录错误，不影响 Agent 启动
+     */
+    protected async connectConfiguredMcpServers(names?: string[]): Promise<MCPServerConnectionResult[]> {
+        let fileServers: MCPServerConfig[] = [];
+        try {
+            fileServers = await loadMcpConfig(this.mcpConfigPath);
+        } catch (error) {
+            logger.error(`Failed to load MCP config:`, error);
+        }
+
+        const servers = new Map<string, MCPServerConfig>();
+        for (const context of this.contextManager.contextList()) {
+            for (const server of context.mcpServers || []) {
+                const name = server.name || context.id;
+                servers.set(name, { ...server, name });
+            }
+        }
+        for (const server of fileServers) {
+            servers.set(server.name, server);
+        }
+        // 只连接指定名称的服务器（恢复会话时重新连接快照中激活的 MCP 工具集）
+        if (names) {
+            for (const name of [...servers.keys()]) {
+                if (!names.includes(name)) servers.delete(name);
+            }
+        }
+        if (servers.size === 0) {
+            return [];
+        }
+
+        // 连接依赖 MCPContext 提供的工具，未注册时自动添加
+        if (!this.contextManager.findContextById(MCPContextId)) {
+            this.contextManager.registerContext(MCPContext);
+            this.addToolSet(MCPContext.toolSet() as ToolSet);
+        }
+
+        return connectMcpServers(this, [...servers.values()], this.mcpConnectTimeout);
+    }
+
     /**
      * 从 contexts 中提取 toolSet 并添加到 agent
      */
@@ -430,10 +643,23 @@ export abstract class BaseAgent implements IAgent {
             promptSaveFormat?: 'markdown' | 'json' | 'both';
         }
     ): Promise<void> {
+        // 同一会话（包括通过 loadAgentStorage 恢复的会话）继续之前的对话，否则开启新会话
+        const isContinuation = !!sessionId && this.agentStorage.sessionId === sessionId;
+
         this.sessionId = sessionId;
         this.maxSteps = maxSteps;
-        this.agentStorage.sessionId = sessionId;
-        this.agentStorage.sessionStartTime = Date.now();
+        if (!isContinuation) {
+            this.agentStorage = {
+                sessionId,
+                agentId: this.id,
+                currentStep: 0,
+                contexts: this.contexts,
+                agentSteps: [],
+                totalTokensUsed: 0,
+                sessionStartTime: Date.now(),
+                lastActiveTime: Date.now(),
+            };
+        }
         this.agentStorage.lastActiveTime = Date.now();
 
         // 发布会话开始事件
@@ -454,23 +680,22 @@ export abstract class BaseAgent implements IAgent {
         logger.info(`📝 User input: "${userInput}"`);
         logger.info(`🔢 Max steps: ${maxSteps}`);
 
-        // 重置步骤计数器
-        this.currentStep = 0;
+        // 新会话重置步骤计数器和 promptProcessor；继续会话时从聊天历史的下一步开始
+        if (isContinuation) {
+            this.currentStep = this.getNextStepIndex();
+            this.promptProcessor.resetStopSignal();
+            logger.info(`♻️ Continuing session ${sessionId} from step ${this.currentStep}`);
+        } else {
+            this.currentStep = 0;
+            this.promptProcessor.resetPromptProcessor();
+        }
         this.currentStepData = null;
+        const stepLimit = this.currentStep + maxSteps;
+        this.runTokensUsed = 0;
+        this.runCostUSD = 0;
 
         // 检查是否需要保存到存储
-        this.eventBus.publish({
-            type: 'storage.save.requested',
-            timestamp: Date.now(),
-            source: `agent.${this.id}`,
-            data: {
-                sessionId,
-                storage: this.agentStorage
-            }
-        });
-
-        // 重置 promptProcessor
-        this.promptProcessor.resetPromptProcessor();
+        this.requestStorageSave();
         
         // 设置系统提示 - 这是关键的修复！
         const tools = this.getActiveTools();
@@ -490,6 +715,7 @@ export abstract class BaseAgent implements IAgent {
         await this.changeState('running', 'Starting task processing');
 
         this.shouldStop = false;
+        this.abortController = new AbortController();
 
         logger.info(`🚀 Starting agent execution with maxSteps: ${maxSteps}, currentStep: ${this.currentStep}`);
 
@@ -503,9 +729,10 @@ export abstract class BaseAgent implements IAgent {
 
         try {
             // 开始执行步骤循环
-            await this.stepsLoop(userInput, maxSteps, options);
+            await this.stepsLoop(userInput, stepLimit, options);
         } catch (error) {
             logger.error('❌ Agent execution failed:', error);
+            await this.changeState('error', `Agent execution failed: ${error instanceof Error ? error.message : String(error)}`);
             
             // 发布错误事件
             if (this.eventPublisher) {
@@ -549,7 +776,18 @@ export abstract class BaseAgent implements IAgent {
         promptSaveFormat?: 'markdown' | 'json' | 'both';
     }): Promise<void> {
         let agentSteps: AgentStep[] = [];
+        let budgetExceeded: BudgetStatus | null = null;
+        let consecutiveStepErrors = 0;
+        // 上一次运行中止时重试计数没有清零，每次运行重新开始计算
+        this.errorHandler.resetRetryCounter('agent', 'processStep');
         while (this.currentStep < maxSteps && !this.shouldStop) {
+            // 超出预算时优雅停止，而不是继续运行到 maxSteps
+            budgetExceeded = this.checkBudget();
+            if (budgetExceeded) {
+                await this.handleBudgetExceeded(budgetExceeded);
+                break;
+            }
+
             logger.info(`\n🔄 --- Step ${this.currentStep}/${maxSteps} ---`);
             
             // 发布步骤开始事件
@@ -562,11 +800,19 @@ export abstract class BaseAgent implements IAgent {
             
             // 使用PromptProcessor处理此步骤
             try {
+                this.currentStepUsage = undefined;
                 const result = await this.processStep(
                     userInput,
                     this.currentStep,
                 );
+                if (this.currentStepUsage) {
+                    result.agentStep.usage = this.currentStepUsage;
+                }
+                if (!result.agentStep.model) {
+                    result.agentStep.model = this.stepLLM.model;
+                }
                 agentSteps.push(result.agentStep);
+                this.agentStorage.agentSteps.push(result.agentStep);
 
                 // 发布Agent步骤完成事件
                 this.eventBus.publish({
@@ -580,11 +826,17 @@ export abstract class BaseAgent implements IAgent {
                     }
                 });
 
+                // 每步结束后保存会话快照，支持中断后恢复
+                this.requestStorageSave();
+
+                consecutiveStepErrors = 0;
+                this.errorHandler.resetRetryCounter('agent', 'processStep');
                 if (!result.continueProcessing) {
                     logger.info(`✅ Agent decided to stop at step ${this.currentStep}`);
                     break;
                 }
             } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
                 logger.error(`❌ Step ${this.currentStep} failed:`, error);
                 
                 // 发布步骤失败事件
@@ -592,7 +844,7 @@ export abstract class BaseAgent implements IAgent {
                     await this.eventPublisher.publishStepFailed(
                         this.currentStep,
                         this.sessionId,
-                        error instanceof Error ? error.message : String(error)
+                        message
                     );
                 }
                 
@@ -603,34 +855,81 @@ export abstract class BaseAgent implements IAgent {
                         `Step ${this.currentStep} processing failed`
                     );
                 }
+
+                // 被 stop() 中断时不做恢复
+                if (this.abortSignal?.aborted) {
+                    break;
+                }
                 
                 // 根据错误类型决定是否继续
-                throw error;
+                let strategy = await this.recoverFromStepError(error, this.currentStep);
+                if (strategy === RecoveryStrategy.RETRY) {
+                    continue;
+                }
+                if (++consecutiveStepErrors >= MAX_CONSECUTIVE_STEP_ERRORS) {
+                    logger.error(`❌ ${consecutiveStepErrors} consecutive step failures, aborting`);
+                    strategy = RecoveryStrategy.ABORT;
+                }
+
+                // 错误写入 prompt，继续执行时模型可以看到
+                this.promptProcessor.renderErrorToPrompt(message, this.currentStep);
+                const errorStep: AgentStep = { stepIndex: this.currentStep, error: message };
+                agentSteps.push(errorStep);
+                this.agentStorage.agentSteps.push(errorStep);
+                this.requestStorageSave();
+
+                // 中止时抛出最后的错误，由 startWithUserInput 发布失败事件并以该错误结束本次运行
+                if (strategy !== RecoveryStrategy.SKIP && strategy !== RecoveryStrategy.FALLBACK) {
+                    logger.info(`🛑 Agent execution aborted at step ${this.currentStep}: ${message}`);
+                    throw error instanceof Error ? error : new Error(message);
+                }
+                // 跳过出错的步骤，下一步重新计算重试次数
+                this.errorHandler.resetRetryCounter('agent', 'processStep');
             }
 
             this.currentStep++;
         }
 
-        if (this.shouldStop) {
+        if (budgetExceeded) {
+            logger.info(`💸 Agent execution stopped: ${budgetExceeded.scope} ${budgetExceeded.kind} budget exceeded`);
+        } else if (this.shouldStop) {
             logger.info('🛑 Agent execution stopped by user request');
         } else if (this.currentStep >= maxSteps) {
             logger.info(`🏁 Agent execution completed after ${maxSteps} steps`);
         }
     }
 
+    /**
+     * 当前运行的取消信号，传给 LLM 调用和工具执行
+     */
+    get abortSignal(): AbortSignal | undefined {
+        return this.abortController?.signal;
+    }
+
     stop(): void {
+        // 在中断前记录进行中的工作，用于 agent.stopped 事件
+        const cancelled = this.abortController && !this.abortController.signal.aborted
+            ? this.getInFlightWork()
+            : undefined;
+
         this.shouldStop = true;
+        this.abortController?.abort('User requested stop');
         logger.info("Agent Stop has been called");
+        if (cancelled && (cancelled.llmCall || cancelled.toolCalls.length > 0)) {
+            logger.info(`🛑 Cancelled step ${cancelled.stepIndex}: llmCall=${cancelled.llmCall}, tools=[${cancelled.toolCalls.map(call => call.name).join(', ')}]`);
+        }
 
         // 发布Agent停止事件
         this.eventBus.publish({
             type: 'agent.stopped',
             timestamp: Date.now(),
             source: `agent.${this.id}`,
+            stepIndex: this.currentStep,
             data: {
                 agentId: this.id,
                 sessionId: this.sessionId,
-                reason: 'User requested stop'
+                reason: 'User requested stop',
+                cancelled
             }
         });
 
@@ -639,6 +938,20 @@ export abstract class BaseAgent implements IAgent {
         });
     }
 
+    /**
+     * 当前正在进行的 LLM 调用和工具调用
+     */
+    protected getInFlightWork(): CancelledWork {
+        return {
+            stepIndex: this.currentStep,
+            llmCall: this.llmCallInProgress,
+            toolCalls: this.toolExecutor.getRunningToolCalls().map(toolCall => ({
+                name: toolCall.name,
+                call_id: toolCall.call_id
+            }))
+        };
+    }
+
     // Tool set management methods
     addToolSet(toolSet: ToolSet) {
         if (this.toolSets.find(ts => ts.name === toolSet.name)) return;
@@ -668,13 +981,186 @@ export abstract class BaseAgent implements IAgent {
     }
 
     getActiveTools(): AnyTool[] {
-        const allTools = this.toolSets.filter(ts => ts.active).flatMap(ts => ts.tools);
+        return this.toolSets.filter(ts => ts.active).flatMap(ts => ts.tools);
+    }
+
+    /**
+     * 记录一次 LLM 调用的 token 用量，累加到当前步骤和会话；费用按实际完成该调用的模型计算
+     */
+    protected recordTokenUsage(usage: LLMUsage, stepIndex: number, model: SupportedModel): void {
+        this.currentStepUsage = addLLMUsage(this.currentStepUsage, usage);
+        this.agentStorage.tokenUsage = addLLMUsage(this.agentStorage.tokenUsage, usage);
+        this.agentStorage.totalTokensUsed += usage.totalTokens;
+        this.runTokensUsed += usage.totalTokens;
+
+        const cost = estimateCost(model, usage);
+        if (cost !== undefined) {
+            this.agentStorage.totalCostUSD = (this.agentStorage.totalCostUSD || 0) + cost;
+            this.runCostUSD += cost;
+        } else if ((this.budget?.maxCostPerSession !== undefined || this.budget?.maxCostPerRun !== undefined) && !this.unpricedModels.has(model)) {
+            this.unpricedModels.add(model);
+            logger.warn(`No pricing registered for model ${model}, cost budget cannot be enforced`);
+        }
+
+        logger.debug(`📊 Step ${stepIndex} token usage: prompt=${usage.promptTokens}, completion=${usage.completionTokens}, cached=${usage.cachedTokens || 0}, cacheWrite=${usage.cacheCreationTokens || 0}, session total=${this.agentStorage.totalTokensUsed}`);
+    }
+
+    /**
+     * 默认 prompt 上限为模型上下文窗口减去输出预留
+     */
+    private getMaxPromptTokens(llm: ILLM, maxTokens: number = llm.maxTokens): number {
+        const info = getModelInfo(llm.model);
+        const contextWindow = info?.contextWindow ?? 128000;
+        return contextWindow - Math.min(maxTokens, info?.maxOutputTokens ?? maxTokens);
+    }
+
+    private createContextCompactor(
+        options: ContextCompactionOptions | undefined,
+        temperature: number,
+        maxTokens: number
+    ): ContextCompactor | undefined {
+        if (!options?.enabled) return undefined;
+
+        const summaryLLM = options.summaryModel
+            ? llmProviderRegistry.createLLM(options.summaryModel, { temperature, maxTokens })
+            : this.llm;
+
+        const maxPromptTokens = options.maxPromptTokens || this.getMaxPromptTokens(this.llm, maxTokens);
+
+        logger.info(`🗜️ Context compaction enabled (maxPromptTokens: ${maxPromptTokens}, summary model: ${summaryLLM.model})`);
+        return new ContextCompactor(
+            summaryLLM,
+            {
+                maxPromptTokens,
+                triggerRatio: options.triggerRatio,
+                keepRecentSteps: options.keepRecentSteps
+            },
+            usage => this.recordTokenUsage(usage, this.currentStep, summaryLLM.model)
+        );
+    }
+
+    /**
+     * 检查是否超出预算，返回第一个超出的限制
+     */
+    protected checkBudget(): BudgetStatus | null {
+        if (!this.budget) return null;
+
+        const checks: BudgetStatus[] = [
+            { kind: 'cost', scope: 'session', limit: this.budget.maxCostPerSession ?? Infinity, used: this.agentStorage.totalCostUSD || 0 },
+            { kind: 'cost', scope: 'run', limit: this.budget.maxCostPerRun ?? Infinity, used: this.runCostUSD },
+            { kind: 'tokens', scope: 'session', limit: this.budget.maxTokensPerSession ?? Infinity, used: this.agentStorage.totalTokensUsed },
+            { kind: 'tokens', scope: 'run', limit: this.budget.maxTokensPerRun ?? Infinity, used: this.runTokensUsed },
+        ];
+        return checks.find(check => check.used >= check.limit) || null;
+    }
+
+    /**
+     * 发布模型降级事件，客户端据此提示当前步骤改由哪个模型完成
+     */
+    private publishModelFallback(info: ModelFallbackInfo): void {
+        this.eventBus.publish({
+            type: 'llm.model.fallback',
+            timestamp: Date.now(),
+            source: `agent.${this.id}`,
+            sessionId: this.sessionId,
+            stepIndex: info.stepIndex,
+            data: {
+                fromModel: info.fromModel,
+                toModel: info.toModel,
+                error: info.error,
+                stepIndex: info.stepIndex
+            }
+        });
+    }
+
+    /**
+     * 通过 ClaudeErrorHandler 分类步骤错误并执行恢复策略（重试退避、等待人工决定等）
+     * @returns 最终动作：RETRY 重试当前步骤，SKIP/FALLBACK 继续下一步，其余中止
+     */
+    private async recoverFromStepError(error: unknown, stepIndex: number): Promise<RecoveryStrategy> {
+        try {
+            const structuredError = await this.errorHandler.handleError(
+                error instanceof Error ? error : String(error),
+                {
+                    component: 'agent',
+                    operation: 'processStep',
+                    stepIndex,
+                    sessionId: this.sessionId,
+                    agentId: this.id,
+                    signal: this.abortSignal
+                }
+            );
+            return structuredError.recovery.strategy;
+        } catch (recoveryError) {
+            // 等待重试或人工决定时被 stop() 中断
+            logger.info(`🛑 Error recovery interrupted: ${recoveryError instanceof Error ? recoveryError.message : recoveryError}`);
+            return RecoveryStrategy.ABORT;
+        }
+    }
 
-        if (this.executionMode === 'auto') {
-            return allTools.filter(tool => tool.name !== 'approval_request');
+    /**
+     * 工具失败已作为失败结果反馈给模型，这里只做分类和上报；系统性错误（磁盘满、内存不足等）在本步结束后停止
+     */
+    private async handleToolFailure(result: ToolExecutionResult, stepIndex: number): Promise<void> {
+        if (this.abortSignal?.aborted || result.message?.startsWith(DENIED_RESULT_PREFIX)) {
+            return;
+        }
+
+        let strategy: RecoveryStrategy;
+        try {
+            const structuredError = await this.errorHandler.handleError(result.message || `Tool ${result.name} failed`, {
+                component: 'tool',
+                operation: result.name,
+                stepIndex,
+                sessionId: this.sessionId,
+                agentId: this.id,
+                parameters: result.params,
+                signal: this.abortSignal
+            });
+            strategy = structuredError.recovery.strategy;
+        } catch (recoveryError) {
+            // 等待人工决定时被 stop() 中断
+            logger.info(`🛑 Tool error recovery interrupted: ${recoveryError instanceof Error ? recoveryError.message : recoveryError}`);
+            return;
+        }
+        if (strategy === RecoveryStrategy.ABORT) {
+            logger.error(`🛑 Tool ${result.name} hit an unrecoverable error, stopping after step ${stepIndex}`);
+            this.shouldStop = true;
         }
+    }
+
+    private async handleBudgetExceeded(budget: BudgetStatus): Promise<void> {
+        const used = budget.kind === 'cost' ? `$${budget.used.toFixed(4)}` : `${budget.used} tokens`;
+        const limit = budget.kind === 'cost' ? `$${budget.limit}` : `${budget.limit} tokens`;
+        const reason = `Budget exceeded: ${budget.scope} ${budget.kind} ${used} >= ${limit}`;
+        logger.warn(`💸 ${reason}`);
 
-        return allTools;
+        await this.eventBus.publish({
+            type: 'agent.budget.exceeded',
+            timestamp: Date.now(),
+            source: `agent.${this.id}`,
+            sessionId: this.sessionId,
+            stepIndex: this.currentStep,
+            data: {
+                agentId: this.id,
+                sessionId: this.sessionId,
+                reason,
+                budget
+            }
+        });
+
+        await this.eventBus.publish({
+            type: 'agent.stopped',
+            timestamp: Date.now(),
+            source: `agent.${this.id}`,
+            sessionId: this.sessionId,
+            stepIndex: this.currentStep,
+            data: {
+                agentId: this.id,
+                sessionId: this.sessionId,
+                reason
+            }
+        });
     }
 
     protected processToolCallResult(toolCallResult: ToolExecutionResult): void {
@@ -734,6 +1220,7 @@ export abstract class BaseAgent implements IAgent {
     public setPromptProcessor(processor: BasePromptProcessor<any>): void {
         this.promptProcessor = processor;
         this.promptProcessor.setContextManager(this.contextManager);
+        this.promptProcessor.setContextCompactor(this.contextCompactor);
         logger.info(`PromptProcessor updated to: ${processor.constructor.name}`);
     }
 
@@ -764,12 +1251,106 @@ export abstract class BaseAgent implements IAgent {
         return this.eventBus;
     }
 
+    /**
+     * 加载会话状态并恢复聊天历史、context 数据和激活的工具集
+     * 之后以相同 sessionId 调用 startWithUserInput 会继续该会话而不是重新开始
+     */
     async loadAgentStorage(state: AgentStorage): Promise<void> {
         state.agentId = this.id;
+        state.contexts = this.contexts;
         this.sessionId = state.sessionId;
         this.currentStep = state.currentStep;
         this.agentStorage = state;
 
-        logger.debug(`Agent ${this.id}: Loaded session state for ${state.sessionId}, currentStep: ${state.currentStep}`);
+        // 恢复聊天历史
+        this.promptProcessor.resetPromptProcessor();
+        const chatHistoryManager = this.promptProcessor.getChatHistoryManager();
+        for (const message of state.chatHistory || []) {
+            chatHistoryManager.addCompleteMessage(message);
+        }
+
+        // 恢复 context 数据
+        if (state.contextData) {
+            for (const context of this.contextManager.contextList()) {
+                const data = state.contextData[context.id];
+                if (data === undefined) continue;
+                try {
+                    context.setData(this.snapshotContextData(context, data));
+                } catch (error) {
+                    logger.warn(`Agent ${this.id}: Failed to restore data for context ${context.id}:`, error);
+                }
+            }
+        }
+
+        // 恢复激活的工具集：快照不包含 MCP 连接，尚未注册的工具集先尝试按配置重新连接同名的 MCP 服务器，仍不存在的会被跳过
+        if (state.activeToolSets) {
+            const activeNames = new Set(state.activeToolSets);
+            const isMissing = (name: string) => !this.toolSets.some(ts => ts.name === name);
+            if (this.mcpAutoConnect && state.activeToolSets.some(isMissing)) {
+                await this.connectConfiguredMcpServers(state.activeToolSets.filter(isMissing));
+            }
+            const missing = state.activeToolSets.filter(isMissing);
+            this.deactivateToolSets(this.toolSets.filter(ts => !activeNames.has(ts.name)).map(ts => ts.name));
+            this.activateToolSets(state.activeToolSets);
+            if (missing.length > 0) {
+                logger.warn(`Agent ${this.id}: Tool sets not available for resume: ${missing.join(', ')}`);
+            }
+        }
+
+        logger.debug(`Agent ${this.id}: Loaded session state for ${state.sessionId}, currentStep: ${state.currentStep}, messages: ${state.chatHistory?.length || 0}`);
+    }
+
+    /**
+     * 将聊天历史、context 数据和激活的工具集写入 agentStorage
+     */
+    captureAgentStorage(): AgentStorage {
+        const contextData: Record<string, any> = {};
+        for (const context of this.contextManager.contextList()) {
+            try {
+                contextData[context.id] = this.snapshotContextData(context, context.getData());
+            } catch (error) {
+                logger.warn(`Agent ${this.id}: Failed to snapshot data for context ${context.id}:`, error);
+            }
+        }
+
+        this.agentStorage.agentId = this.id;
+        this.agentStorage.currentStep = this.currentStep;
+        this.agentStorage.chatHistory = this.promptProcessor.getChatHistory();
+        this.agentStorage.contextData = contextData;
+        this.agentStorage.activeToolSets = this.toolSets.filter(ts => ts.active).map(ts => ts.name);
+        this.agentStorage.lastActiveTime = Date.now();
+        return this.agentStorage;
+    }
+
+    /**
+     * context 数据的可持久化副本：去掉 runtimeDataKeys 中的运行时对象并深拷贝，快照与 context 不共享引用
+     */
+    private snapshotContextData(context: IContext<any>, data: Record<string, any>): Record<string, any> {
+        const persistent = { ...data };
+        for (const key of context.runtimeDataKeys || []) {
+            delete persistent[key];
+        }
+        return JSON.parse(JSON.stringify(persistent));
+    }
+
+    private requestStorageSave(): void {
+        if (!this.sessionId) return;
+
+        this.eventBus.publish({
+            type: 'storage.save.requested',
+            timestamp: Date.now(),
+            source: `agent.${this.id}`,
+            sessionId: this.sessionId,
+            data: {
+                sessionId: this.sessionId,
+                storage: this.captureAgentStorage()
+            }
+        });
+    }
+
+    // 聊天历史中最后一步的下一步
+    private getNextStepIndex(): number {
+        const steps = this.promptProcessor.getChatHistory().map(message => message.step ?? -1);
+        return steps.length > 0 ? Math.max(...steps) + 1 : 0;
     }
 }
\ No newline at end of file
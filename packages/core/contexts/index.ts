@@ -18,4 +18,6 @@ export enum BasicToolNames {
 export { DeepWikiContext, DeepWikiContextId } from './deepwiki.js';
 export { FireCrawlContext, FireCrawlContextId } from './firecrawl.js';
 export { PlanContext, PlanContextId } from './plan.js';
-export { WebSearchContext, WebSearchContextId,WebSearchTool } from './web-search.js';
\ No newline at end of file
+export { WebSearchContext, WebSearchContextId,WebSearchTool } from './web-search.js';
+export { loadMcpConfig, connectMcpServers, connectMcpServer, interpolateEnv, resolveMcpServerConfig, DEFAULT_MCP_CONNECT_TIMEOUT } from './mcp-config.js';
+export type { MCPServerConnectionResult } from './mcp-config.js';
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import { z } from "zod";
+import { IAgent, MCPServerConfig } from "../interfaces/index.js";
+import { logger } from "../utils/logger.js";
+
+export const DEFAULT_MCP_CONNECT_TIMEOUT = 30000;
+
+// Claude desktop 兼容格式：{ "mcpServers": { "<name>": { "command", "args", "env", ... } } }
+const MCPConfigFileSchema = z.object({
+    mcpServers: z.record(z.string(), z.object({
+        type: z.enum(["stdio", "sse", "streamableHttp"]).optional(),
+        command: z.string().optional(),
+        args: z.array(z.string()).optional(),
+        cwd: z.string().optional(),
+        env: z.record(z.string(), z.string()).optional(),
+        url: z.string().optional(),
+        autoActivate: z.boolean().optional(),
+        timeout: z.number().positive().optional(),
+        disabled: z.boolean().optional(),
+    }).passthrough()).default({}),
+}).passthrough();
+
+export interface MCPServerConnectionResult {
+    name: string;
+    success: boolean;
+    toolCount?: number;
+    error?: string;
+    duration: number;
+}
+
+/**
+ * 替换字符串中的 ${VAR} 和 ${VAR:-default}；${workspaceRoot} 未设置时为当前工作目录
+ */
+export function interpolateEnv(value: string, env: NodeJS.ProcessEnv = process.env): string {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+        const resolved = env[name] || (name === 'workspaceRoot' ? process.cwd() : undefined);
+        if (resolved) {
+            return resolved;
+        }
+        if (fallback === undefined) {
+            logger.warn(`MCP config references unset environment variable ${name}`);
+        }
+        return fallback ?? '';
+    });
+}
+
+/**
+ * 对服务器配置中的 command、args、cwd、url 和 env 做环境变量替换
+ */
+export function resolveMcpServerConfig(config: MCPServerConfig, env: NodeJS.ProcessEnv = process.env): MCPServerConfig {
+    const interpolate = (value?: string) => value === undefined ? undefined : interpolateEnv(value, env);
+    return {
+        ...config,
+        command: interpolate(config.command),
+        args: config.args?.map(arg => interpolateEnv(arg, env)),
+        cwd: interpolate(config.cwd),
+        url: interpolate(config.url),
+        env: config.env && Object.fromEntries(
+            Object.entries(config.env).map(([key, value]) => [key, interpolateEnv(value, env)])
+        ),
+    };
+}
+
+/**
+ * 读取 MCP 配置文件，文件不存在时返回空列表，格式错误时抛出异常
+ */
+export async function loadMcpConfig(configPath: string): Promise<MCPServerConfig[]> {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(configPath, 'utf-8');
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            logger.debug(`MCP config ${configPath} not found, skipping`);
+            return [];
+        }
+        throw error;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid MCP config ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const result = MCPConfigFileSchema.safeParse(parsed);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new Error(`Invalid MCP config ${configPath}: ${issues}`);
+    }
+    return Object.entries(result.data.mcpServers).map(([name, server]) => ({ ...server, name }));
+}
+
+// 超时后取消 controller：连接工具据此关闭 client（结束 stdio 子进程），迟到的连接也不再注册工具
+function withTimeout<T>(promise: Promise<T>, timeout: number, message: string, controller: AbortController): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error(message);
+            controller.abort(error);
+            reject(error);
+        }, timeout);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 通过 MCPContext 的 add_stdio_mcp_server / add_sse_or_http_mcp_client 工具连接一个服务器，
+ * 服务器的工具注册为以服务器名命名的 toolSet
+ */
+export async function connectMcpServer(
+    agent: IAgent,
+    config: MCPServerConfig,
+    defaultTimeout: number = DEFAULT_MCP_CONNECT_TIMEOUT
+): Promise<MCPServerConnectionResult> {
+    const startTime = Date.now();
+    const server = resolveMcpServerConfig(config);
+    const type = server.type ?? (server.url ? 'sse' : server.command ? 'stdio' : undefined);
+    const timeout = server.timeout ?? defaultTimeout;
+    const fail = (error: string): MCPServerConnectionResult => {
+        logger.error(`Failed to connect MCP server ${server.name}: ${error}`);
+        return { name: server.name, success: false, error, duration: Date.now() - startTime };
+    };
+
+    if (!type) {
+        return fail('Either "command" (stdio) or "url" (sse/streamableHttp) is required');
+    }
+
+    const toolName = type === 'stdio' ? 'add_stdio_mcp_server' : 'add_sse_or_http_mcp_client';
+    const connectTool = agent.listToolSets().flatMap(ts => ts.tools).find(tool => tool.name === toolName);
+    if (!connectTool) {
+        return fail(`Tool ${toolName} not found, is MCPContext registered?`);
+    }
+
+    const params = type === 'stdio'
+        ? { name: server.name, command: server.command, args: server.args || [], cwd: server.cwd || process.cwd(), env: server.env || {} }
+        : { name: server.name, type, url: server.url };
+
+    try {
+        logger.info(`Connecting to MCP server ${server.name} (${type})...`);
+        const controller = new AbortController();
+        const result = await withTimeout(
+            Promise.resolve(connectTool.execute(params, agent, { signal: controller.signal })),
+            timeout,
+            `Timed out after ${timeout}ms`,
+            controller
+        );
+        if (!result?.success) {
+            return fail(result?.error || 'Unknown error');
+        }
+
+        if (server.autoActivate === false) {
+            agent.deactivateToolSets([server.name]);
+        }
+        logger.info(`Connected to MCP server ${server.name}: ${result.toolCount ?? 0} tools${server.autoActivate === false ? ' (inactive)' : ''}`);
+        return { name: server.name, success: true, toolCount: result.toolCount, duration: Date.now() - startTime };
+    } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * 并行连接多个服务器，跳过 disabled 的配置；单个服务器失败只记录在结果中，不影响其他服务器
+ */
+export async function connectMcpServers(
+    agent: IAgent,
+    configs: MCPServerConfig[],
+    defaultTimeout: number = DEFAULT_MCP_CONNECT_TIMEOUT
+): Promise<MCPServerConnectionResult[]> {
+    const enabled = configs.filter(config => !config.disabled);
+    if (enabled.length === 0) {
+        return [];
+    }
+
+    const results = await Promise.all(enabled.map(config => connectMcpServer(agent, config, defaultTimeout)));
+    const connected = results.filter(result => result.success).length;
+    logger.info(`Connected ${connected}/${results.length} MCP servers${connected < results.length
+        ? `, failed: ${results.filter(result => !result.success).map(result => result.name).join(', ')}`
+        : ''}`);
+    return results;
+}
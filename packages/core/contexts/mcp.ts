@@ -3,10 +3,12 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { any, z } from "zod";
-import { IAgent, ToolSet, IRAGEnabledContext } from "../interfaces/index.js";
+import { IAgent, ITool, ToolSet, ToolRiskLevel, IRAGEnabledContext } from "../interfaces/index.js";
 import { zodToJson, jsonToZodStrict, jsonToZodNostrict } from "../utils/jsonHelper.js";
 import { logger } from "../utils/logger.js";
+import { throwIfAborted } from "../utils/abort.js";
 import { exec } from "child_process";
 import { promisify } from "util";
 import path from "path";
@@ -46,6 +48,20 @@ export const MCPToolCallSchema = MCPToolSchema.omit({
 export type MCPTool = z.infer<typeof MCPToolSchema>;
 export type MCPToolCall = z.infer<typeof MCPToolCallSchema>;
 
+/**
+ * 将 MCP 工具的 annotations 映射为本地工具的执行策略。
+ * destructiveHint 的工具保持 'write'，supervised 模式下需要审批
+ */
+export function mcpToolPolicy(annotations?: MCPTool['annotations']): Pick<ITool<any, any, any>, 'riskLevel' | 'idempotent'> {
+    const riskLevel: ToolRiskLevel = annotations?.readOnlyHint
+        ? 'read-only'
+        : annotations?.openWorldHint ? 'network' : 'write';
+    return {
+        riskLevel,
+        idempotent: annotations?.idempotentHint ?? (annotations?.readOnlyHint ? true : undefined)
+    };
+}
+
 
 export const MCPContextId = "mcp-context";
 export const MCPContext = ContextHelper.createContext({
@@ -56,6 +72,8 @@ export const MCPContext = ContextHelper.createContext({
     initialData: {
         clients: [],
     },
+    // Client 是进程内的连接对象，不写入会话快照；恢复会话时按配置重新连接
+    runtimeDataKeys: ["clients"],
     // Add all MCP tools to the context
     toolSetFn: () => ({
         name: "MCPTools",
@@ -159,20 +177,40 @@ async function findNpxPath(): Promise<string> {
     }
 }
 
-// --- Dynamic registration of MCP tools helper function ---
-function registerMcpToolsForClient(client: Client, serverId: number, agent: IAgent, context: any, toolsetName?: string) {
-    if (!client || !client.listTools) return [];
-
-    // Create toolset for this mcp server
-    const mcpToolSet: ToolSet = {
-        name: toolsetName || `MCPServer_${serverId}`,
-        description: `Collection of tools provided by MCP server ${toolsetName || `#${serverId}`}. These tools are dynamically discovered from the external MCP endpoint and provide extended capabilities such as specialized APIs, integrations, and domain-specific functions.`,
-        tools: [],
-        active: true,
-        source: "mcp"
+/**
+ * 连接 MCP client；signal 取消（连接超时）时关闭 client，stdio 传输随之结束子进程
+ */
+async function connectMcpClient(client: Client, transport: Transport, signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    const onAbort = () => {
+        client.close().catch(error => logger.warn(`Failed to close MCP client: ${error}`));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        await client.connect(transport);
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
     }
+    throwIfAborted(signal);
+}
 
+// --- Dynamic registration of MCP tools helper function ---
+// 列出工具后才加入 clients 并注册 toolSet；signal 已取消时不做任何修改
+function registerMcpToolsForClient(client: Client, agent: IAgent, context: any, toolsetName?: string, signal?: AbortSignal): Promise<{ serverId: number; toolIds: string[] }> {
     return client.listTools().then((listToolsResult: any) => {
+        throwIfAborted(signal);
+        context.data.clients.push(client);
+        const serverId = context.data.clients.length - 1;
+
+        // Create toolset for this mcp server
+        const mcpToolSet: ToolSet = {
+            name: toolsetName || `MCPServer_${serverId}`,
+            description: `Collection of tools provided by MCP server ${toolsetName || `#${serverId}`}. These tools are dynamically discovered from the external MCP endpoint and provide extended capabilities such as specialized APIs, integrations, and domain-specific functions.`,
+            tools: [],
+            active: true,
+            source: "mcp"
+        }
+
         const tools = listToolsResult?.tools ?? [];
         const toolIds: string[] = [];
         
@@ -246,6 +284,7 @@ function registerMcpToolsForClient(client: Client, serverId: number, agent: IAge
                 description: tool.description || `${normalizedToolName} tool from MCP server #${serverId}`,
                 inputSchema,
                 async: true,
+                ...mcpToolPolicy(tool.annotations),
                 execute: async (params) => {
                     // Note: Use the original tool name when calling
                     try {
@@ -325,7 +364,7 @@ function registerMcpToolsForClient(client: Client, serverId: number, agent: IAge
         
         // Record toolIds to client object for potential later cleanup
         context.data.clients[serverId]._mcpToolIds = toolIds;
-        return toolIds;
+        return { serverId, toolIds };
     });
 }
 
@@ -343,7 +382,7 @@ export const AddStdioMcpServer = createTool({
         error: z.string().optional(),
     }),
     async: false,
-    execute: async (params, agent) => {
+    execute: async (params, agent, options) => {
         if (!agent) {
             return { success: false, error: "Agent instance not available." };
         }
@@ -353,6 +392,7 @@ export const AddStdioMcpServer = createTool({
             return { success: false, error: "MCP context not found." };
         }
         
+        let client: Client | undefined;
         try {
             // 获取npx的完整路径
             const command = params.command;
@@ -387,22 +427,19 @@ export const AddStdioMcpServer = createTool({
                 env: env as Record<string, string>,
             });
             
-            const client = new Client(
+            client = new Client(
                 { name: `mcp-client-${context.data.clients.length}`, version: "1.0.0" },
                 { capabilities: { prompts: {}, resources: {}, tools: {} } }
             );
             
             logger.info(`Connecting to MCP client using args: ${finalArgs.join(' ')}...`);
-            await client.connect(transport);
+            await connectMcpClient(client, transport, options?.signal);
             logger.info(`Successfully connected to MCP client.`);
             
-            context.data.clients.push(client);
-            const newClientId = context.data.clients.length - 1;
-            
             // Dynamic registration of MCP tools - using custom name if provided
-            logger.info(`Registering tools for MCP client ${params.name} (ID: ${newClientId})...`);
-            const toolIds = await registerMcpToolsForClient(client, newClientId, agent, context, params.name);
-            logger.info(`Added ${toolIds.length} tools for ${params.name}`);
+            logger.info(`Registering tools for MCP client ${params.name}...`);
+            const { serverId: newClientId, toolIds } = await registerMcpToolsForClient(client, agent, context, params.name, options?.signal);
+            logger.info(`Added ${toolIds.length} tools for ${params.name} (ID: ${newClientId})`);
             
             // Get tool category information to return more detailed results
             const categories = new Set<string>();
@@ -424,6 +461,7 @@ export const AddStdioMcpServer = createTool({
             if (error.stderr) {
                 logger.error(`stderr: ${error.stderr}`);
             }
+            await client?.close().catch(() => {});
             return { 
                 success: false, 
                 error: error.message || "Failed to connect MCP client." 
@@ -453,7 +491,7 @@ export const AddSseOrHttpMcpServer = createTool({
         error: z.string().optional(),
     }),
     async: true,
-    execute: async (params, agent) => {
+    execute: async (params, agent, options) => {
         if (!agent) {
             return { success: false, error: "Agent instance not available." };
         }
@@ -464,6 +502,7 @@ export const AddSseOrHttpMcpServer = createTool({
         }
         
         let transport;
+        let client: Client | undefined;
         try {
             if (params.type === "sse") {
                 transport = new SSEClientTransport(new URL(params.url));
@@ -471,17 +510,15 @@ export const AddSseOrHttpMcpServer = createTool({
                 transport = new StreamableHTTPClientTransport(new URL(params.url));
             }
             
-            const client = new Client(
+            client = new Client(
                 { name: `mcp-client-${context.data.clients.length}`, version: "1.0.0" },
                 { capabilities: { prompts: {}, resources: {}, tools: {} } }
             );
             
-            await client.connect(transport);
-            context.data.clients.push(client);
-            const newClientId = context.data.clients.length - 1;
+            await connectMcpClient(client, transport, options?.signal);
             
             // Dynamic registration of MCP tools - using custom name if provided
-            const toolIds = await registerMcpToolsForClient(client, newClientId, agent, context, params.name);
+            const { serverId: newClientId, toolIds } = await registerMcpToolsForClient(client, agent, context, params.name, options?.signal);
             console.log(`Added ${toolIds.length} tools for ${params.name}`);
             
             // Get tool category information to return more detailed results
@@ -500,6 +537,7 @@ export const AddSseOrHttpMcpServer = createTool({
                 categories: Array.from(categories)
             };
         } catch (error: any) {
+            await client?.close().catch(() => {});
             return { 
                 success: false, 
                 error: error.message || "Failed to connect MCP client." 
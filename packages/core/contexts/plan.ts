@@ -55,6 +55,7 @@ export const CreatePlanTool = createTool({
     description: "Create a new plan with steps",
     inputSchema: CreatePlanInputSchema,
     async: false,
+    riskLevel: "read-only",
     execute: (params: z.infer<typeof CreatePlanInputSchema>, agent?: IAgent) => {
         const now = Date.now();
         const planId = `plan_${now}`;
@@ -100,6 +101,7 @@ export const UpdateStepTool = createTool({
     description: "Update the status of a plan step",
     inputSchema: UpdateStepInputSchema,
     async: false,
+    riskLevel: "read-only",
     execute: (params: z.infer<typeof UpdateStepInputSchema>, agent?: IAgent) => {
         const now = Date.now();
         
@@ -125,6 +127,7 @@ export const GetPlanStatusTool = createTool({
     description: "Get the current status of a plan and its steps",
     inputSchema: GetPlanStatusInputSchema,
     async: false,
+    riskLevel: "read-only",
     execute: (params: z.infer<typeof GetPlanStatusInputSchema>, agent?: IAgent) => {
         return {
             success: true,
@@ -57,6 +57,7 @@ export const ListToolSetTool = createTool({
     message: z.string().optional()
   }),
   async: false,
+  riskLevel: "read-only",
   execute: async (_params, agent?: IAgent) => {
     if (!agent || !('listToolSets' in agent)) return { toolSets: [], success: false};
     // @ts-ignore
@@ -76,6 +77,7 @@ export const ActivateToolSetTool = createTool({
     success: z.boolean()
   }),
   async: false,
+  riskLevel: "read-only",
   execute: async (params, agent?: IAgent) => {
     if (!agent || !('activateToolSets' in agent)) return { success: false };
     // @ts-ignore
@@ -95,6 +97,7 @@ export const DeactivateToolSetTool = createTool({
     success: z.boolean()
   }),
   async: false,
+  riskLevel: "read-only",
   execute: async (params, agent?: IAgent) => {
     if (!agent || !('deactivateToolSets' in agent)) return { success: false };
     // @ts-ignore
@@ -23,6 +23,7 @@ export const WebSearchTool = createTool({
     description: "Search the web for information",
     inputSchema: querySchema,
     async: true,
+    riskLevel: "network",
     execute: async (parameters: z.infer<typeof querySchema>, agent?: IAgent) => {
         const response = await openaiWebSearch(parameters.query);
         return {
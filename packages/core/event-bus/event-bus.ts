@@ -92,6 +92,18 @@ export class EventBus implements IEventBus {
         }
     }
 
+    /**
+     * 是否有订阅了该类型事件的处理器
+     */
+    hasSubscribers(eventType: AppEvent['type']): boolean {
+        for (const subscription of this.subscriptions.values()) {
+            if (this.matchesEventType(eventType, subscription.eventTypes)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     /**
      * 批量取消订阅
      */
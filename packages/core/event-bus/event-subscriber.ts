@@ -6,8 +6,10 @@ import {
     AgentEvent, 
     LLMEvent, 
     ToolEvent, 
+    ApprovalEvent,
     UIEvent, 
     ErrorEvent, 
+    ErrorRecoveryEvent,
     StorageEvent,
     EventHandler, 
     EventFilter 
@@ -69,7 +71,7 @@ export abstract class EventSubscriber implements IEventSubscriber {
         filter?: EventFilter
     ): void {
         this.subscribeToEvent(
-            ['agent.step.started', 'agent.step.completed', 'agent.step.failed', 'agent.stopped'],
+            ['agent.step.started', 'agent.step.completed', 'agent.step.failed', 'agent.stopped', 'agent.budget.exceeded'],
             handler,
             filter
         );
@@ -91,7 +93,10 @@ export abstract class EventSubscriber implements IEventSubscriber {
                 'llm.tool.call.started',
                 'llm.tool.call.completed',
                 'llm.thinking.started',
-                'llm.thinking.completed'
+                'llm.thinking.progress',
+                'llm.thinking.completed',
+                'llm.model.fallback',
+                'llm.model.selected'
             ],
             handler,
             filter
@@ -112,6 +117,16 @@ export abstract class EventSubscriber implements IEventSubscriber {
         );
     }
 
+    /**
+     * 订阅审批事件
+     */
+    subscribeToApprovalEvents(
+        handler: EventHandler<ApprovalEvent>,
+        filter?: EventFilter
+    ): void {
+        this.subscribeToEvent(['approval.requested', 'approval.responded'], handler, filter);
+    }
+
     /**
      * 订阅UI事件
      */
@@ -136,6 +151,16 @@ export abstract class EventSubscriber implements IEventSubscriber {
         this.subscribeToEvent(['error.occurred'], handler, filter);
     }
 
+    /**
+     * 订阅错误恢复事件
+     */
+    subscribeToErrorRecoveryEvents(
+        handler: EventHandler<ErrorRecoveryEvent>,
+        filter?: EventFilter
+    ): void {
+        this.subscribeToEvent(['error.recovery.decided', 'error.recovery.responded'], handler, filter);
+    }
+
     /**
      * 订阅存储事件
      */
@@ -406,17 +431,19 @@ export abstract class EventSubscriber implements IEventSubscriber {
                 // Session events
                 'session.started', 'session.ended', 'session.switched',
                 // Agent events
-                'agent.step.started', 'agent.step.completed', 'agent.step.failed', 'agent.stopped',
+                'agent.step.started', 'agent.step.completed', 'agent.step.failed', 'agent.stopped', 'agent.budget.exceeded',
                 // LLM events
                 'llm.call.started', 'llm.call.completed', 'llm.text.delta', 'llm.text.completed',
                 'llm.tool.call.started', 'llm.tool.call.completed', 'llm.tool.call.delta',
-                'llm.thinking.started', 'llm.thinking.progress', 'llm.thinking.completed',
+                'llm.thinking.started', 'llm.thinking.progress', 'llm.thinking.completed', 'llm.model.fallback', 'llm.model.selected',
                 // Tool events
                 'tool.call.started', 'tool.execution.started', 'tool.execution.completed', 'tool.execution.failed',
+                // Approval events
+                'approval.requested', 'approval.responded',
                 // UI events
                 'ui.message.added', 'ui.state.changed', 'ui.input.received',
                 // Error events
-                'error.occurred',
+                'error.occurred', 'error.recovery.decided', 'error.recovery.responded',
                 // Storage events
                 'storage.save.requested', 'storage.load.requested', 'storage.updated'
             ] as any,
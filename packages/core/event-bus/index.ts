@@ -18,8 +18,12 @@ export type {
     AgentEvent,
     LLMEvent,
     ToolEvent,
+    ApprovalEvent,
+    ApprovalDecision,
     UIEvent,
     ErrorEvent,
+    ErrorRecoveryEvent,
+    RecoveryDecision,
     StorageEvent,
     EventHandler,
     EventFilter,
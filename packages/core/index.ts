@@ -5,7 +5,7 @@ export * from './interfaces/index.js';
 export * from './agent.js';
 export * from './context.js';
 export { BaseAgent } from './base-agent.js';
-export type { AgentOptions } from './base-agent.js';
+export type { AgentOptions, AgentBudget, ContextCompactionOptions, ModelPolicy, ModelPolicyContext } from './base-agent.js';
 export { LogLevel } from './utils/logger.js';
 
 // Event-driven Agents (New architecture)
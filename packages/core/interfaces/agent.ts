@@ -1,3 +1,4 @@
+import { z } from "zod";
 import { SupportedModel } from "../models/index.js";
 import { logger } from "../utils/logger.js";
 import { IContextManager } from './context.js';
@@ -21,9 +22,16 @@ export type AgentStorage = {
 
     // Context information
     contexts?: IRAGEnabledContext<any>[];
+
+    // Resume snapshot - restored by loadAgentStorage before the next startWithUserInput
+    chatHistory?: ChatMessage[];
+    contextData?: Record<string, any>; // keyed by context id, value is context.getData()
+    activeToolSets?: string[];
     
     // Token usage statistics
     totalTokensUsed: number;
+    tokenUsage?: LLMUsage; // 会话累计的 prompt/completion/cached 明细
+    totalCostUSD?: number; // 按模型价格估算的会话累计费用
     
     // Session metadata
     sessionStartTime: number;
@@ -66,6 +74,9 @@ export interface IAgent{
 
     // agentStorage
     agentStorage: AgentStorage;
+
+    // 大体积工具输出的存储，ReadToolOutput 工具通过它读取被截断的输出
+    toolOutputStore?: import('./tool.js').IToolOutputStore;
     
     // Context collection
     contexts: IRAGEnabledContext<any>[];
@@ -116,6 +127,49 @@ export interface IAgent{
     afterStop?(): Promise<void>;
 }
 
+/**
+ * LLM token 用量
+ */
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cachedTokens?: number;       // prompt 中命中缓存的 token 数
+    cacheCreationTokens?: number; // prompt 中写入缓存的 token 数
+}
+
+/**
+ * 预算超限信息 - 由 AgentOptions.budget 触发
+ */
+export interface BudgetStatus {
+    kind: 'cost' | 'tokens';
+    scope: 'session' | 'run';
+    limit: number;
+    used: number;
+}
+
+/**
+ * Agent 停止时被中断的工作 - 随 agent.stopped 事件发布
+ */
+export interface CancelledWork {
+    stepIndex: number;
+    llmCall: boolean;                                   // 是否中断了进行中的 LLM 调用
+    toolCalls: Array<{ name: string; call_id: string }>; // 被取消的工具调用
+}
+
+/**
+ * 累加两次调用的 token 用量
+ */
+export function addLLMUsage(base: LLMUsage | undefined, usage: LLMUsage): LLMUsage {
+    return {
+        promptTokens: (base?.promptTokens || 0) + usage.promptTokens,
+        completionTokens: (base?.completionTokens || 0) + usage.completionTokens,
+        totalTokens: (base?.totalTokens || 0) + usage.totalTokens,
+        cachedTokens: (base?.cachedTokens || 0) + (usage.cachedTokens || 0),
+        cacheCreationTokens: (base?.cacheCreationTokens || 0) + (usage.cacheCreationTokens || 0),
+    };
+}
+
 /**
  * LLM流式数据块类型
  */
@@ -130,8 +184,58 @@ export type LLMStreamChunk =
   | { type: 'thinking-complete'; finalThought: string; stepIndex?: number }
   | { type: 'step-start'; stepIndex: number }
   | { type: 'step-complete'; stepIndex: number; result: any }
+  | { type: 'usage'; usage: LLMUsage; stepIndex?: number }
   | { type: 'error'; errorCode: string; message: string,  stepIndex?: number }
 
+/**
+ * 与 provider 无关的消息内容块
+ * tool_use 和 tool_result 通过 id 配对，各 wrapper 转换为原生的工具调用消息
+ */
+export type LLMContentBlock =
+  | { type: 'text'; text: string; cache?: boolean }  // cache: 作为 provider 端 prompt 缓存的断点（Anthropic cache_control）
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; toolUseId: string; name: string; content: string; isError?: boolean };
+
+/**
+ * 结构化消息：system 消息由 wrapper 放到 provider 的 system 参数中
+ */
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | LLMContentBlock[];
+}
+
+/**
+ * 推理模型配置，各 wrapper 映射为 provider 参数：
+ * Anthropic extended thinking 和 Gemini thinkingConfig 使用 budgetTokens，OpenAI o 系列使用 effort
+ */
+export interface ReasoningOptions {
+    effort?: 'low' | 'medium' | 'high';
+    budgetTokens?: number;  // 思考 token 预算，未设置时按 effort 估算
+}
+
+/**
+ * LLM 调用选项
+ */
+export interface LLMCallOptions {
+    stepIndex?: number;
+    signal?: AbortSignal; // 取消信号，Agent 停止时中断进行中的请求
+}
+
+/**
+ * 结构化输出调用选项
+ */
+export interface StructuredCallOptions extends LLMCallOptions {
+    schemaName?: string;   // 原生 JSON schema 模式中的 schema 名称（Anthropic 中为强制调用的工具名），默认 response
+    description?: string;  // schema 的用途说明
+    maxRetries?: number;   // 解析或校验失败后的修复重试次数，默认 2
+}
+
+export interface StructuredCallResult<T> {
+    data: T;               // 通过 schema 校验的结果
+    usage?: LLMUsage;      // 所有尝试的累计用量
+    attempts: number;      // 尝试次数，1 表示首次即通过
+}
+
 /**
  * LLM interface supporting mainstream LLM models like openai, anthropic, google, etc. and also support streaming output
  * 仅支持新的stream模式
@@ -143,13 +247,20 @@ export interface ILLM{
     temperature: number;
     maxTokens: number;
     setParallelToolCall?: (enabled: boolean) => void;
+    setReasoning?: (reasoning: ReasoningOptions | undefined) => void;  // 不支持推理的模型忽略该配置
     
     // 新的stream方法（必须实现）
-    callStream: (messages: string, tools: ToolCallDefinition[], options?: { stepIndex?: number }) => AsyncIterable<LLMStreamChunk>;
-    callAsync: (messages: string, tools: ToolCallDefinition[], options?: { stepIndex?: number }) => Promise<{ text: string; toolCalls?: ToolCallParams[] }>;
+    callStream: (messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions) => AsyncIterable<LLMStreamChunk>;
+    callAsync: (messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions) => Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }>;
+
+    // 结构化消息的流式调用，保留原生角色、system 消息和工具调用配对；未实现时调用方将消息展开为字符串
+    callStreamMessages?: (messages: LLMMessage[], tools: ToolCallDefinition[], options?: LLMCallOptions) => AsyncIterable<LLMStreamChunk>;
+
+    // 结构化输出：使用 provider 的原生 JSON schema 模式或强制工具调用，校验失败时修复重试；未实现时使用 models/structured-output.ts 的 callStructured
+    callStructured?: <T>(prompt: string, schema: z.ZodType<T>, options?: StructuredCallOptions) => Promise<StructuredCallResult<T>>;
     
     // 可选的传统调用方法（向后兼容）
-    call?: (messages: string, tools: ToolCallDefinition[], options?: { stepIndex?: number }) => Promise<{ text: string; toolCalls?: ToolCallParams[] }>;
+    call?: (messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions) => Promise<{ text: string; toolCalls?: ToolCallParams[] }>;
 }
 
 // Import forward references
@@ -9,6 +9,15 @@ import { AgentStep } from "./prompt.js";
 import { logger } from "../utils/logger.js";
 import { PromptCtx } from "./prompt.js";
 import { MessageType } from "./base.js";
+import type { ContextCompactor } from "../prompts/context-compactor.js";
+import type { LLMContentBlock, LLMMessage } from "./agent.js";
+import { flattenLLMMessages } from "../models/llm-messages.js";
+
+const CHAT_HISTORY_GUIDE = `# ChatHistory Context
+
+Each earlier message starts with a header: [id | step | type].
+You have access to the excludeChatHistory tool to manage your ChatHistory context. Use this tool to remove redundant, repetitive, outdated or irrelevant messages that add noise, e.g.
+excludeChatHistory({ messageIds: ["id1", "id2", "id3"], reason: "Outdated implementation attempts" })`;
 
 /**
  * PromptProcessor abstract base
@@ -32,6 +41,7 @@ export abstract class BasePromptProcessor<TExtractorResult extends ExtractorResu
     stepPrompts: string[] = [];
     protected contextManager?: IContextManager;
     protected chatHistoryManager: IChatHistoryManager;
+    protected contextCompactor?: ContextCompactor;
 
     setEnableToolCallsForStep(enableToolCallsForStep: (stepIndex: number) => boolean): void {
         this.enableToolCallsForStep = enableToolCallsForStep;
@@ -84,7 +94,8 @@ export abstract class BasePromptProcessor<TExtractorResult extends ExtractorResu
                 role: 'agent',
                 step: stepIndex,
                 type: MessageType.TOOL_CALL,
-                content: toolResultsText
+                content: toolResultsText,
+                toolResults
             });
         }
         
@@ -160,6 +171,13 @@ export abstract class BasePromptProcessor<TExtractorResult extends ExtractorResu
         this.contextManager = contextManager;
     }
 
+    /**
+     * Set context compactor (token-aware chat history compaction)
+     */
+    setContextCompactor(compactor: ContextCompactor | undefined): void {
+        this.contextCompactor = compactor;
+    }
+
     /**
      * Get current prompt
      */
@@ -172,6 +190,97 @@ export abstract class BasePromptProcessor<TExtractorResult extends ExtractorResu
      * System prompt is now fully managed by Agent.getBaseSystemPrompt()
      */
       async formatPrompt(stepIndex: number): Promise<string> {
+        let prompt = this.buildPrompt(stepIndex);
+
+        if (await this.compactIfNeeded(prompt, stepIndex)) {
+            prompt = this.buildPrompt(stepIndex);
+        }
+
+        this.stepPrompts.push(prompt);
+        this.currentPrompt = prompt;
+        return prompt;
+    }
+
+    /**
+     * Format the prompt as structured messages for ILLM.callStreamMessages
+     * System prompt becomes a cacheable system message, chat history keeps native roles
+     * and tool results become paired tool_use / tool_result blocks
+     */
+    async formatMessages(stepIndex: number): Promise<LLMMessage[]> {
+        let messages = this.buildMessages(stepIndex);
+
+        if (await this.compactIfNeeded(flattenLLMMessages(messages), stepIndex)) {
+            messages = this.buildMessages(stepIndex);
+        }
+
+        // Keep a flattened copy for getStepPrompts / saveAllStepPrompts
+        const prompt = flattenLLMMessages(messages);
+        this.stepPrompts.push(prompt);
+        this.currentPrompt = prompt;
+        return messages;
+    }
+
+    /**
+     * Compact older steps when the prompt is close to the context window
+     * @returns true if the chat history was compacted and the prompt must be rebuilt
+     */
+    private async compactIfNeeded(prompt: string, stepIndex: number): Promise<boolean> {
+        if (!this.contextCompactor?.shouldCompact(prompt)) {
+            return false;
+        }
+        try {
+            return await this.contextCompactor.compact(this.chatHistoryManager, stepIndex);
+        } catch (error) {
+            logger.error('Context compaction failed, using uncompacted prompt:', error);
+            return false;
+        }
+    }
+
+    protected buildMessages(stepIndex: number): LLMMessage[] {
+        const systemText = [this.systemPrompt, CHAT_HISTORY_GUIDE].filter(Boolean).join('\n\n');
+        const messages: LLMMessage[] = [
+            { role: 'system', content: [{ type: 'text', text: systemText, cache: true }] }
+        ];
+
+        for (const message of this.chatHistoryManager.getFilteredChatHistory(stepIndex)) {
+            const header = `[${message.id} | step ${message.step} | ${message.type}]`;
+
+            if (message.type === MessageType.TOOL_CALL && message.toolResults?.length) {
+                messages.push({
+                    role: 'assistant',
+                    content: message.toolResults.map(result => ({
+                        type: 'tool_use', id: result.call_id, name: result.name, input: result.params ?? {}
+                    }))
+                });
+                // tool_result blocks must come before any text in the user turn
+                const toolResults: LLMContentBlock[] = message.toolResults.map(result => ({
+                    type: 'tool_result',
+                    toolUseId: result.call_id,
+                    name: result.name,
+                    content: JSON.stringify({ status: result.status, result: result.result, message: result.message || undefined }),
+                    isError: result.status === 'failed' || undefined
+                }));
+                messages.push({ role: 'user', content: [...toolResults, { type: 'text', text: header }] });
+                continue;
+            }
+
+            // Agent output is the assistant turn; user input, system notices and errors are fed back as user turns
+            const role = message.role === 'agent' && message.type !== MessageType.ERROR ? 'assistant' : 'user';
+            messages.push({ role, content: [{ type: 'text', text: `${header}\n${message.content}` }] });
+        }
+
+        // History only grows between steps, so a breakpoint on the latest turn lets the next step reuse it
+        const latest = messages.length > 1 ? messages[messages.length - 1].content : undefined;
+        const latestBlock = Array.isArray(latest) ? latest[latest.length - 1] : undefined;
+        if (latestBlock?.type === 'text') {
+            latestBlock.cache = true;
+        }
+
+        messages.push({ role: 'user', content: [{ type: 'text', text: `## Current Step: ${stepIndex}` }] });
+        return messages;
+    }
+
+    protected buildPrompt(stepIndex: number): string {
         let prompt = '';
         
         // 1. Add system prompt (now contains everything)
@@ -223,8 +332,6 @@ timestamp: ${message.timestamp}
         // Add current step indicator
         prompt += `\n## Current Step: ${stepIndex}\n\n`;
         
-        this.stepPrompts.push(prompt);
-        this.currentPrompt = prompt;
         return prompt;
     }
 
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { ToolExecutionResult } from "./tool.js";
 
 // Import from agent.ts type definitions
 export type LLMProvider = 'openai' | 'anthropic' | 'google';
@@ -54,7 +55,8 @@ export interface ChatMessage {
     step: number;
     content: string;
     timestamp: string;
-    flag?: 'include' | 'exclude';         // Flag to control message inclusion in history
+    flag?: 'include' | 'exclude';         // Flag to control message inclusion in history ('include' bypasses step filtering)
+    toolResults?: ToolExecutionResult[];  // Structured tool results for TOOL_CALL messages (native tool_use/tool_result messages)
 }
 
 /**
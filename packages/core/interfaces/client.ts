@@ -39,7 +39,7 @@ export interface ClientStatus {
 export interface ClientMessage {
     id: string;
     content: string;
-    type: 'user' | 'agent' | 'agent.response' | 'agent.reasoning' | 'system' | 'tool' | 'tool.start' | 'tool.completed' | 'error';
+    type: 'user' | 'agent' | 'agent.response' | 'agent.reasoning' | 'agent.thinking' | 'system' | 'tool' | 'tool.start' | 'tool.completed' | 'error';
     timestamp: number;
     stepIndex?: number;
     metadata?: Record<string, any>;
@@ -4,6 +4,25 @@ import { PromptCtx, PromptAssemblyStrategy } from './prompt.js';
 import { ToolSet, ToolExecutionResult } from './tool.js';
 import { IAgent } from './agent.js';
 
+/**
+ * MCP server connection settings, shared by Context.mcpServers and the mcpServers entries of the MCP config file.
+ */
+export interface MCPServerConfig {
+    name: string;
+    type?: "stdio" | "sse" | "streamableHttp";
+    // stdio specific
+    command?: string;
+    args?: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+    // sse/http specific
+    url?: string;
+    // General options
+    autoActivate?: boolean;
+    timeout?: number;   // 连接和发现工具的超时时间（毫秒），未设置时使用 Agent 的 mcpConnectTimeout
+    disabled?: boolean;
+}
+
 export interface IContext<T extends z.ZodObject<any>>{
     id: string;
     /**
@@ -20,19 +39,13 @@ export interface IContext<T extends z.ZodObject<any>>{
      * MCP server configuration, defined directly in Context rather than loaded from config files.
      * Each Context can associate with one or more MCP servers, and these servers' tools will be automatically injected into the Context's toolSet.
      */
-    mcpServers?: {
-        name: string;
-        type?: "stdio" | "sse" | "streamableHttp";
-        // stdio specific
-        command?: string;
-        args?: string[];
-        cwd?: string;
-        env?: Record<string, string>;
-        // sse/http specific
-        url?: string;
-        // General options
-        autoActivate?: boolean;
-    }[];
+    mcpServers?: MCPServerConfig[];
+
+    /**
+     * Data fields holding live runtime objects (e.g. MCP clients).
+     * They are left out of session snapshots, and restoring a snapshot keeps their current values.
+     */
+    runtimeDataKeys?: string[];
     
     /**
      * Called during agent setup after context registration.
@@ -1,4 +1,4 @@
-import { AgentStep, ToolCallParams, ToolExecutionResult, AgentStorage } from './index.js';
+import { AgentStep, ToolCallParams, ToolExecutionResult, ToolRiskLevel, AgentStorage, LLMUsage, BudgetStatus, CancelledWork } from './index.js';
 
 /**
  * 事件基类
@@ -40,6 +40,7 @@ export interface AgentEvent extends BaseEvent {
         | 'agent.step.completed'   // Agent步骤完成
         | 'agent.step.failed'      // Agent步骤失败
         | 'agent.stopped'          // Agent停止
+        | 'agent.budget.exceeded'  // 超出预算，Agent 将停止
         | 'agent.setup.started'    // Agent设置开始
         | 'agent.setup.completed'  // Agent设置完成
         | 'agent.state.changed';   // Agent状态变化
@@ -53,6 +54,8 @@ export interface AgentEvent extends BaseEvent {
         previousState?: string;
         newState?: string;
         sessionId?: string;
+        budget?: BudgetStatus;
+        cancelled?: CancelledWork;  // agent.stopped: 停止时被中断的 LLM 调用和工具调用
     };
 }
 
@@ -68,7 +71,10 @@ export interface LLMEvent extends BaseEvent {
         | 'llm.tool.call.started'      // 工具调用开始
         | 'llm.tool.call.completed'    // 工具调用完成
         | 'llm.thinking.started'       // 思考开始
-        | 'llm.thinking.completed';    // 思考完成
+        | 'llm.thinking.progress'      // 思考增量（推理模型）
+        | 'llm.thinking.completed'     // 思考完成
+        | 'llm.model.fallback'         // 模型不可用，切换到降级链中的下一个模型
+        | 'llm.model.selected';        // 步骤开始时 modelPolicy 选择的模型
         
     stepIndex?: number;
     data: {
@@ -85,6 +91,17 @@ export interface LLMEvent extends BaseEvent {
         confidence?: number;           // 置信度
         finalThought?: string;         // 最终思考
         
+        // token 用量（llm.call.completed）
+        usage?: LLMUsage;
+
+        // 模型降级（llm.model.fallback）
+        fromModel?: string;
+        toModel?: string;
+
+        // 步骤模型选择（llm.model.selected）
+        model?: string;
+        isDefault?: boolean;           // 是否为 Agent 的默认模型
+
         // 调用模式标识
         isStreaming?: boolean;         // 是否为流式调用
         callType?: 'async' | 'stream'; // 调用类型
@@ -116,6 +133,31 @@ export interface ToolEvent extends BaseEvent {
     };
 }
 
+/**
+ * 审批决定：批准、拒绝或修改参数后批准
+ */
+export type ApprovalDecision = 'approve' | 'deny' | 'edit';
+
+/**
+ * 审批事件 - supervised/manual 模式下工具调用的审批协议
+ * Agent 发布 approval.requested 后阻塞，直到客户端发布相同 requestId 的 approval.responded
+ * 等待超时时 ToolExecutor 自己发布拒绝的 approval.responded，客户端据此清除失效的请求
+ */
+export interface ApprovalEvent extends BaseEvent {
+    type:
+        | 'approval.requested'         // 工具调用等待审批
+        | 'approval.responded';        // 客户端给出审批结果
+    data: {
+        requestId: string;
+        toolCall?: ToolCallParams;
+        riskLevel?: ToolRiskLevel;
+        agentId?: string;
+        decision?: ApprovalDecision;
+        reason?: string;               // 拒绝原因，会反馈给模型
+        parameters?: any;              // decision 为 edit 时替换的工具参数
+    };
+}
+
 /**
  * UI事件 - 管理用户界面交互
  */
@@ -148,6 +190,38 @@ export interface ErrorEvent extends BaseEvent {
     };
 }
 
+/**
+ * 错误恢复决定：MANUAL 策略下由用户选择
+ */
+export type RecoveryDecision = 'retry' | 'skip' | 'abort';
+
+/**
+ * 错误恢复事件 - 步骤或工具出错后 ClaudeErrorHandler 的分类和恢复决定
+ * strategy 为 manual 时 Agent 阻塞，直到客户端发布相同 errorId 的 error.recovery.responded
+ */
+export interface ErrorRecoveryEvent extends BaseEvent {
+    type:
+        | 'error.recovery.decided'     // 已决定恢复策略（retry 时包含第几次重试和等待时间）
+        | 'error.recovery.responded';  // 客户端对 manual 策略给出决定
+    data: {
+        errorId: string;
+        errorType?: string;            // ErrorType
+        severity?: string;             // ErrorSeverity
+        strategy?: string;             // RecoveryStrategy
+        message?: string;
+        component?: string;            // 'agent' 或 'tool'
+        operation?: string;            // 步骤处理或工具名
+        attempt?: number;              // 第几次重试
+        maxRetries?: number;
+        delayMs?: number;              // 重试前的等待时间
+        title?: string;
+        description?: string;
+        suggestions?: string[];
+        agentId?: string;
+        decision?: RecoveryDecision;
+    };
+}
+
 /**
  * 存储事件 - 管理数据存储操作
  */
@@ -167,7 +241,7 @@ export interface StorageEvent extends BaseEvent {
 /**
  * 联合事件类型
  */
-export type AppEvent = SessionEvent | AgentEvent | LLMEvent | ToolEvent | UIEvent | ErrorEvent | StorageEvent;
+export type AppEvent = SessionEvent | AgentEvent | LLMEvent | ToolEvent | ApprovalEvent | UIEvent | ErrorEvent | ErrorRecoveryEvent | StorageEvent;
 
 /**
  * 事件处理器类型
@@ -201,6 +275,9 @@ export interface IEventBus {
     // 取消订阅
     unsubscribe(subscriptionId: string): void;
     
+    // 是否有处理该类型事件的订阅
+    hasSubscribers?(eventType: AppEvent['type']): boolean;
+    
     // 批量取消订阅
     unsubscribeAll(source?: string): void;
     
@@ -329,7 +406,7 @@ export class LLMEventMapper {
 
             case 'thinking-progress':
                 return {
-                    type: 'llm.thinking.completed',
+                    type: 'llm.thinking.progress',
                     ...baseEvent,
                     data: {
                         thought: chunk.thought,
@@ -366,6 +443,7 @@ export class LLMEventMapper {
                     ...baseEvent,
                     data: {
                         result: chunk.result,
+                        usage: chunk.result?.usage,
                         isStreaming: true,
                         callType: 'stream'
                     }
@@ -422,11 +500,12 @@ export class LLMEventMapper {
                 }
             }),
 
-            completed: (result?: any): LLMEvent => ({
+            completed: (result?: any, usage?: LLMUsage): LLMEvent => ({
                 type: 'llm.call.completed',
                 ...baseEvent,
                 data: {
                     result,
+                    usage: usage ?? result?.usage,
                     isStreaming: false,
                     callType: 'async'
                 }
@@ -501,11 +580,12 @@ export class LLMEventMapper {
                 }
             }),
 
-            completed: (result?: any): LLMEvent => ({
+            completed: (result?: any, usage?: LLMUsage): LLMEvent => ({
                 type: 'llm.call.completed',
                 ...baseEvent,
                 data: {
                     result,
+                    usage: usage ?? result?.usage,
                     isStreaming: true,
                     callType: 'stream'
                 }
@@ -1,8 +1,9 @@
 import { Container, MemoryData } from './base.js';
 
 // RAG related type definitions
-export type VectorStoreType = 'chroma' | 'pinecone' | 'qdrant' | 'weaviate' | 'milvus';
-export type EmbeddingModelType = 'openai' | 'cohere' | 'anthropic' | 'google' | 'local';
+export type VectorStoreType = 'chroma' | 'memory' | 'pinecone' | 'qdrant' | 'weaviate' | 'milvus';
+// 只列出 createEmbeddingProvider 已实现的提供者，其他嵌入服务通过 setEmbeddingProvider 传入
+export type EmbeddingModelType = 'openai' | 'google' | 'local';
 
 export interface VectorStoreConfig {
     url?: string;
@@ -11,6 +12,7 @@ export interface VectorStoreConfig {
     namespace?: string;
     environment?: string;
     index?: string;
+    path?: string;              // memory: persistence file, in-memory only when omitted
     [key: string]: any;
 }
 
@@ -22,6 +24,17 @@ export interface EmbeddingConfig {
     [key: string]: any;
 }
 
+/**
+ * 文本嵌入提供者：RAG 与向量路由共用
+ */
+export interface IEmbeddingProvider {
+    readonly model: string;
+    /** 输出向量的维度 */
+    readonly dimensions: number;
+    /** 批量生成嵌入，返回顺序与输入一致 */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
 export interface IndexConfig {
     dimension: number;
     metric?: 'cosine' | 'euclidean' | 'dot';
@@ -93,6 +106,7 @@ export interface IRAG {
 export interface IRAGBuilder {
     setVectorStore(type: VectorStoreType, config: VectorStoreConfig): IRAGBuilder;
     setEmbeddingModel(model: EmbeddingModelType, config?: EmbeddingConfig): IRAGBuilder;
+    setEmbeddingProvider(provider: IEmbeddingProvider): IRAGBuilder;
     setIndexConfig(config: IndexConfig): IRAGBuilder;
     setChunkingStrategy(strategy: ChunkingStrategy): IRAGBuilder;
     build(): IRAG;
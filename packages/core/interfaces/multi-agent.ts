@@ -1,4 +1,5 @@
 import { IAgent } from './agent.js';
+import { EmbeddingModelType } from './memory.js';
 import { z } from 'zod';
 
 // ===== 路由策略类型 =====
@@ -14,6 +15,8 @@ export interface RoutingConfig {
         maxTokens?: number;
     };
     vectorConfig?: {
+        /** 嵌入提供者，默认 'local'（离线特征哈希） */
+        provider?: EmbeddingModelType;
         embeddingModel?: string;
         similarityThreshold?: number;
         dimensions?: number;
@@ -182,6 +185,7 @@ export const DEFAULT_MULTI_AGENT_CONFIG: MultiAgentConfig = {
             maxTokens: 200
         },
         vectorConfig: {
+            provider: 'local',
             embeddingModel: 'text-embedding-3-small',
             similarityThreshold: 0.7,
             dimensions: 1536
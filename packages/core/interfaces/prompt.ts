@@ -2,6 +2,7 @@ import { logger } from '../utils/logger.js';
 import { ChatMessage, AgentStatus, MessageType } from './base.js';
 import { IContextManager } from './context.js';
 import { ToolExecutionResult } from './tool.js';
+import type { LLMMessage, LLMUsage } from './agent.js';
 
 /**
  * Base extractor result interface
@@ -90,6 +91,10 @@ export interface AgentStep<T extends StandardExtractorResult = StandardExtractor
         params: any;
     }>;
     toolExecutionResults?: ToolExecutionResult[];
+    usage?: LLMUsage;  // 该步骤 LLM 调用的 token 用量
+    model?: string;    // 实际完成该步骤的模型（配置了降级链时可能不是主模型）
+    reasoning?: string; // 推理模型输出的思考内容（thinking 块、reasoning_content），与 extractorResult 中的 <think> 无关
+    cancelled?: boolean; // 步骤被 stop() 中断，rawText 和工具结果为部分输出
 }
 
 /**
@@ -112,6 +117,7 @@ export interface IPromptProcessor<TExtractorResult extends ExtractorResult> {
     renderChatMessageToPrompt(messages: ChatMessage[]): void;
     renderToolCallToPrompt(toolResults: AgentStep['toolExecutionResults'], stepIndex: number): void;
     formatPrompt(stepIndex: number): string | Promise<string>;
+    formatMessages?(stepIndex: number): Promise<LLMMessage[]>;  // Structured messages for ILLM.callStreamMessages
     
     // Context management
     getChatHistory(): ChatMessage[];
@@ -214,6 +220,9 @@ export interface IChatHistoryManager {
     // Exclusion methods
     excludeChatHistory(id: string): void;
     excludeChatHistoryBatch(ids: string[]): void;
+
+    // Compaction - exclude the given messages and insert a summary in their place
+    compactChatHistory(ids: string[], summary: Omit<ChatMessage, 'id' | 'timestamp'>): ChatMessage;
     
     // Filtering methods
     getFilteredChatHistory(currentStep: number): ChatMessage[];
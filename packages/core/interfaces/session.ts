@@ -65,6 +65,45 @@ export interface SessionManagerConfig {
     batchSaveInterval?: number; // 毫秒
 }
 
+/**
+ * 会话索引条目 - 用于在不加载完整会话数据的情况下列出会话
+ */
+export interface SessionIndexEntry {
+    sessionId: string;
+    agentId: string;
+    userId?: string;
+    currentStep: number;
+    totalTokensUsed: number;
+    sessionStartTime: number;
+    lastActiveTime: number;
+}
+
+/**
+ * 会话存储后端接口
+ * SessionManager 通过它持久化 AgentStorage，具体实现由 storageType 决定
+ */
+export interface ISessionStore {
+    save(sessionId: string, storage: AgentStorage): Promise<void>;
+    load(sessionId: string): Promise<AgentStorage | null>;
+    delete(sessionId: string): Promise<void>;
+    list(): Promise<AgentStorage[]>;
+    listIndex(): Promise<SessionIndexEntry[]>;
+
+    /**
+     * 按 autoCleanup 配置清理过期或超出数量上限的会话
+     * @param keepSessionIds 无论如何都要保留的会话（例如当前会话）
+     * @returns 被删除的会话ID
+     */
+    cleanup(keepSessionIds?: string[]): Promise<string[]>;
+
+    // 会话文件所在目录，其他会话数据（如工具输出）可以保存在其中并随会话删除；内存存储不实现
+    getSessionDir?(sessionId: string): string;
+
+    // 将批量保存队列中的会话立即写入存储
+    flush(): Promise<void>;
+    dispose(): Promise<void>;
+}
+
 /**
  * 会话管理器工厂接口
  */
@@ -1,5 +1,23 @@
 import { z } from 'zod';
 
+/**
+ * 工具风险等级，supervised 模式下非 read-only 的工具调用需要用户审批
+ * - read-only: 无外部副作用（读取文件、查询、仅修改 Agent 内部状态）
+ * - write: 修改文件系统或其他持久化数据
+ * - shell: 执行任意命令
+ * - network: 访问外部网络服务
+ */
+export type ToolRiskLevel = 'read-only' | 'write' | 'shell' | 'network';
+
+/**
+ * 工具失败后的重试策略，仅对幂等工具生效；等待时间从 backoffMs 开始指数增长，不超过 maxBackoffMs
+ */
+export interface ToolRetryPolicy {
+    maxRetries: number;
+    backoffMs?: number;    // 默认 500
+    maxBackoffMs?: number; // 默认 10000
+}
+
 /**
  * Tool interface supporting create a new agent and invoke this agent and also integrate the mcp-client
  */
@@ -11,11 +29,23 @@ export interface ITool<Args extends z.AnyZodObject, Result extends z.ZodType<any
     description: string;
     params: Args;
     async: boolean;
-    execute: (params: z.infer<Args>, agent?: Agent) => Promise<z.infer<Result>> | z.infer<Result>;
+    riskLevel?: ToolRiskLevel; // 未声明时按 write 处理
+    timeout?: number;          // 单次执行超时（毫秒），超时后取消并视为失败
+    retry?: ToolRetryPolicy;   // 抛出异常或超时后重试
+    idempotent?: boolean;      // 重复执行没有额外副作用；未声明时 read-only 工具视为幂等
+    concurrencyGroup?: string; // 同组工具共享并发上限（ToolExecutorOptions.concurrencyGroups，默认 1）
+    execute: (params: z.infer<Args>, agent?: Agent, options?: ToolExecuteOptions) => Promise<z.infer<Result>> | z.infer<Result>;
     toCallParams: () => ToolCallDefinition;
 }
 export type AnyTool = ITool<any, any, any>;
 
+/**
+ * 工具执行选项，由 ToolExecutor 传入
+ */
+export interface ToolExecuteOptions {
+    signal?: AbortSignal; // Agent 停止时取消，长时间运行的工具应据此中断（如结束子进程）
+}
+
 /**
  * ToolSet.description best practices:
  * - Clearly state the usage scenario or purpose for this tool set (e.g., "For multi-step plan management").
@@ -68,6 +98,19 @@ export interface ToolExecutionResult {
     executionTime?: number;
 }
 
+/**
+ * 大体积工具输出的存储：超过阈值的结果随会话保存，prompt 中只保留头尾预览和 handle
+ */
+export interface IToolOutputStore {
+    readonly maxResultSize: number;
+    spill(result: ToolExecutionResult, sessionId?: string): Promise<ToolExecutionResult>;
+    read(handle: string, sessionId?: string): Promise<string | null>;
+    // 跟随会话存储保存输出：文件存储写入会话目录，内存存储只保存在内存中
+    useSessionStore(store: import('./session.js').ISessionStore): void;
+    // 删除会话的所有输出
+    delete(sessionId: string): Promise<void>;
+}
+
 /**
  * Task queue related interfaces
  */
@@ -76,6 +119,7 @@ export interface ITask{
     execute: () => Promise<any>;
     priority: number;
     type: 'processStep' | 'toolCall' | 'custom';
+    group?: string;
     resolve: (value: any) => void;
     reject: (reason: any) => void;
     createdAt: number;
@@ -86,13 +130,14 @@ export interface ITaskQueue{
     runningTasks: Set<string>;
     concurrency: number;
     isRunning: boolean;
-    addTask<T>(taskFn: () => Promise<T>, priority: number, type?: 'processStep' | 'toolCall' | 'custom', id?: string): Promise<T>;
+    addTask<T>(taskFn: () => Promise<T>, priority: number, type?: 'processStep' | 'toolCall' | 'custom', id?: string, signal?: AbortSignal, group?: string): Promise<T>;
     taskCount(): number;
     runningTaskCount(): number;
     taskStatus(id: string): {id: string, status: string, type?: string} | 'not found';
     run(): Promise<void>;
-    addProcessStepTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string): Promise<T>;
-    addToolCallTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string): Promise<T>;
+    addProcessStepTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string, signal?: AbortSignal): Promise<T>;
+    addToolCallTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string, signal?: AbortSignal, group?: string): Promise<T>;
+    setGroupConcurrency(group: string, concurrency: number): void;
     getTasksByType(type: 'processStep' | 'toolCall' | 'custom'): ITask[];
     clearTasks(type?: 'processStep' | 'toolCall' | 'custom'): number;
     
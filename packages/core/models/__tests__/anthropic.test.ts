@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { AnthropicWrapper } from '../anthropic';
+import { ANTHROPIC_MODELS } from '../models-list';
+import { LLMMessage } from '../../interfaces/agent';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { MessageType } from '../../interfaces/base';
+import { collect } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('@anthropic-ai/sdk', async () => (await import('../../__tests__/helpers/provider-sdk')).anthropicModule);
+
+const readTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'read_file',
+    description: 'Read a file',
+    paramSchema: z.object({ path: z.string() }),
+    strict: false,
+};
+
+const cached = (text: string) => ({ type: 'text' as const, text, cache: true });
+
+describe('Anthropic prompt caching', () => {
+    beforeEach(() => {
+        resetSdk();
+        sdk.events = [
+            { type: 'message_start', message: { usage: { input_tokens: 100, cache_read_input_tokens: 3000, cache_creation_input_tokens: 500, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_delta', usage: { output_tokens: 20 } },
+            { type: 'message_stop' },
+        ];
+    });
+
+    it('should place breakpoints on the last tool, the system prompt and cached message blocks', async () => {
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true);
+        const messages: LLMMessage[] = [
+            { role: 'system', content: [cached('You are a coding agent.')] },
+            { role: 'user', content: [cached('Fix the bug')] },
+            { role: 'user', content: '## Current Step: 1' },
+        ];
+
+        await collect(llm.callStreamMessages(messages, [readTool, { ...readTool, name: 'write_file' }]));
+
+        const request = sdk.requests[0];
+        expect(request.tools[0].cache_control).toBeUndefined();
+        expect(request.tools[1].cache_control).toEqual({ type: 'ephemeral' });
+        expect(request.system).toEqual([{ type: 'text', text: 'You are a coding agent.', cache_control: { type: 'ephemeral' } }]);
+        expect(request.messages[0].content[0].cache_control).toEqual({ type: 'ephemeral' });
+        expect(request.messages[0].content[1].cache_control).toBeUndefined();
+    });
+
+    it('should keep at most four breakpoints, dropping the oldest message breakpoints', async () => {
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true);
+        const messages: LLMMessage[] = [
+            { role: 'system', content: [cached('system')] },
+            { role: 'user', content: [cached('one')] },
+            { role: 'assistant', content: [cached('two')] },
+            { role: 'user', content: [cached('three')] },
+            { role: 'assistant', content: [cached('four')] },
+        ];
+
+        await collect(llm.callStreamMessages(messages, [readTool]));
+
+        const request = sdk.requests[0];
+        const messageBreakpoints = request.messages.map((message: any) => message.content[0].cache_control !== undefined);
+        expect(messageBreakpoints).toEqual([false, false, true, true]);
+        expect(request.system[0].cache_control).toBeDefined();
+        expect(request.tools[0].cache_control).toBeDefined();
+    });
+
+    it('should not send breakpoints when prompt caching is disabled', async () => {
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true);
+        llm.setPromptCaching(false);
+
+        await collect(llm.callStreamMessages([{ role: 'system', content: [cached('system')] }, { role: 'user', content: 'hi' }], [readTool]));
+
+        expect(JSON.stringify(sdk.requests[0])).not.toContain('cache_control');
+    });
+
+    it('should report cache hit and cache creation tokens', async () => {
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true);
+
+        const chunks = await collect(llm.callStream('hi', []));
+
+        const usage = chunks.find(chunk => chunk.type === 'usage');
+        expect(usage).toMatchObject({ usage: { promptTokens: 3600, completionTokens: 20, cachedTokens: 3000, cacheCreationTokens: 500 } });
+    });
+
+    it('should tag the system prompt and the latest history turn as cacheable', async () => {
+        const processor = new StandardPromptProcessor('You are a test assistant.');
+        processor.getChatHistoryManager().addMessage({ role: 'user', type: MessageType.MESSAGE, step: 0, content: 'first' });
+        processor.getChatHistoryManager().addMessage({ role: 'agent', type: MessageType.MESSAGE, step: 0, content: 'second' });
+
+        const messages = await processor.formatMessages(1);
+
+        const cacheFlags = messages.map(message => (message.content as any[]).map(block => block.cache === true));
+        expect(cacheFlags).toEqual([[true], [false], [true], [false]]);
+    });
+});
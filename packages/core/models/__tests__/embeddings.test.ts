@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CachedEmbeddingProvider, LocalEmbeddingProvider, OpenAIEmbeddingProvider, cosineSimilarity, createEmbeddingProvider } from '../embeddings';
+import { EmbeddingModelType, IEmbeddingProvider } from '../../interfaces/memory';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+// 倒序返回，验证按 index 还原顺序
+const reversedEmbeddings = (request: any) => ({
+    data: request.input.map((text: string, index: number) => ({ index, embedding: [text.length, index] })).reverse(),
+});
+
+describe('embedding providers', () => {
+    beforeEach(() => {
+        resetSdk();
+    });
+
+    it('should embed related texts closer than unrelated ones offline', async () => {
+        const provider = new LocalEmbeddingProvider({ dimensions: 256 });
+
+        const [task, coder, writer, zhTask, zhCoder] = await provider.embed([
+            'Write a Python function to sort an array',
+            'Coding agent: writes Python functions and fixes code',
+            'Writing agent: drafts blog posts and marketing copy',
+            '修复数据库连接错误',
+            '后端开发：负责数据库和接口开发',
+        ]);
+
+        expect(task).toHaveLength(256);
+        expect(cosineSimilarity(task, task)).toBeCloseTo(1);
+        expect(cosineSimilarity(task, coder)).toBeGreaterThan(cosineSimilarity(task, writer));
+        expect(cosineSimilarity(zhTask, zhCoder)).toBeGreaterThan(cosineSimilarity(zhTask, writer));
+    });
+
+    it('should batch OpenAI requests and keep the input order', async () => {
+        const provider = new OpenAIEmbeddingProvider({ apiKey: 'test', batchSize: 2, dimensions: 2 });
+        sdk.responses = [reversedEmbeddings, reversedEmbeddings];
+
+        const embeddings = await provider.embed(['a', 'bb', 'ccc']);
+
+        expect(embeddings).toEqual([[1, 0], [2, 1], [3, 0]]);
+        expect(sdk.requests.map(request => request.input)).toEqual([['a', 'bb'], ['ccc']]);
+        expect(sdk.requests[0]).toMatchObject({ model: 'text-embedding-3-small', dimensions: 2 });
+    });
+
+    it('should only embed cache misses and evict the least recently used entries', async () => {
+        const inner: IEmbeddingProvider = {
+            model: 'fake',
+            dimensions: 1,
+            embed: vi.fn(async (texts: string[]) => texts.map(text => [text.length])),
+        };
+        const provider = new CachedEmbeddingProvider(inner, 2);
+
+        expect(await provider.embed(['a', 'bb', 'a'])).toEqual([[1], [2], [1]]);
+        await provider.embed(['a', 'ccc']);
+        await provider.embed(['a', 'bb']);
+
+        expect(vi.mocked(inner.embed).mock.calls).toEqual([[['a', 'bb']], [['ccc']], [['bb']]]);
+    });
+
+    it('should create providers by model type', () => {
+        expect(createEmbeddingProvider('local', { dimensions: 64 })).toMatchObject({ model: 'local-hashing', dimensions: 64 });
+        expect(createEmbeddingProvider('google')).toMatchObject({ model: 'text-embedding-004', dimensions: 768 });
+        // 类型来自配置文件时仍可能是未实现的提供者
+        const configured: string = 'cohere';
+        expect(() => createEmbeddingProvider(configured as EmbeddingModelType)).toThrow('Unsupported embedding model type: cohere');
+    });
+});
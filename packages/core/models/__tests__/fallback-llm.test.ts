@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackLLM, ModelFallbackInfo, isFallbackError } from '../fallback-llm';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { OPENAI_MODELS } from '../models-list';
+import { ILLM, LLMStreamChunk } from '../../interfaces/agent';
+import { LLMEvent } from '../../interfaces/events';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { EventBus } from '../../event-bus/event-bus';
+import { LogLevel } from '../../utils/logger';
+import { collect, createFakeLLM } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+/**
+ * 按调用顺序执行脚本的假 LLM：Error 表示该次调用失败（先输出 error chunk 再抛出，与各 wrapper 一致）
+ */
+function createScriptedLLM(model: string, script: Array<LLMStreamChunk[] | Error>) {
+    const llm = createFakeLLM({
+        model,
+        calls: 0,
+        callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+            const step = script[Math.min(llm.calls++, script.length - 1)];
+            if (step instanceof Error) {
+                yield { type: 'error', errorCode: 'TEST_ERROR', message: step.message };
+                throw step;
+            }
+            yield* step;
+        },
+        callAsync: async () => {
+            const step = script[Math.min(llm.calls++, script.length - 1)];
+            if (step instanceof Error) throw step;
+            return { text: step.map(chunk => chunk.type === 'text-done' ? chunk.content : '').join('') };
+        },
+    });
+    return llm;
+}
+
+const answer = (content: string): LLMStreamChunk[] => [{ type: 'text-done', content }];
+const overloaded = () => new Error('529 Overloaded');
+
+describe('FallbackLLM', () => {
+    it('should retry the primary model, then continue the call on the next model', async () => {
+        const primary = createScriptedLLM('claude-sonnet', [overloaded()]);
+        const secondary = createScriptedLLM('gpt-4.1', [answer('from gpt')]);
+        const fallbacks: ModelFallbackInfo[] = [];
+        const llm = new FallbackLLM([primary, secondary], { retriesPerModel: 1, baseDelayMs: 1, onFallback: info => fallbacks.push(info) });
+
+        const chunks = await collect(llm.callStream('prompt', [], { stepIndex: 3 }));
+
+        expect(chunks).toEqual(answer('from gpt'));
+        expect(primary.calls).toBe(2);
+        expect(llm.model).toBe('gpt-4.1');
+        expect(fallbacks).toHaveLength(1);
+        expect(fallbacks[0]).toMatchObject({ fromModel: 'claude-sonnet', toModel: 'gpt-4.1', stepIndex: 3 });
+        expect(fallbacks[0].error.message).toBe('529 Overloaded');
+    });
+
+    it('should fall back when a wrapper fails after emitting step-start', async () => {
+        // 第一次请求返回 429，之后返回一段文本
+        resetSdk();
+        sdk.responses = [Object.assign(new Error('429 Too Many Requests'), { status: 429 })];
+        sdk.events = [
+            { choices: [{ index: 0, delta: { content: 'from gpt' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+        ];
+        const primary = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, true, 0, 1000);
+        const secondary = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4_1, true, 0, 1000);
+        const secondaryStream = vi.spyOn(secondary, 'callStream');
+        const llm = new FallbackLLM([primary, secondary], { retriesPerModel: 0 });
+
+        const chunks = await collect(llm.callStream('prompt', [], { stepIndex: 2 }));
+
+        expect(secondaryStream).toHaveBeenCalledTimes(1);
+        expect(chunks.filter(chunk => chunk.type === 'step-start')).toEqual([{ type: 'step-start', stepIndex: 2 }]);
+        expect(chunks.some(chunk => chunk.type === 'error')).toBe(false);
+        expect(chunks.find(chunk => chunk.type === 'text-done')).toMatchObject({ content: 'from gpt' });
+        expect(llm.model).toBe(OPENAI_MODELS.GPT_4_1);
+    });
+
+    it('should skip a failed model while it is cooling down', async () => {
+        const primary = createScriptedLLM('claude-sonnet', [overloaded(), answer('from claude')]);
+        const secondary = createScriptedLLM('gpt-4.1', [answer('from gpt')]);
+        const llm = new FallbackLLM([primary, secondary], { retriesPerModel: 0, cooldownMs: 60000 });
+
+        expect((await llm.callAsync('first', [])).text).toBe('from gpt');
+        expect((await llm.callAsync('second', [])).text).toBe('from gpt');
+        expect(primary.calls).toBe(1);
+    });
+
+    it('should not fall back on errors that a different model would not fix', async () => {
+        const primary = createScriptedLLM('claude-sonnet', [new Error('400 invalid request: prompt is too long')]);
+        const secondary = createScriptedLLM('gpt-4.1', [answer('from gpt')]);
+        const llm = new FallbackLLM([primary, secondary], { retriesPerModel: 0 });
+
+        const chunks: LLMStreamChunk[] = [];
+        await expect(async () => {
+            for await (const chunk of llm.callStream('prompt', [])) chunks.push(chunk);
+        }).rejects.toThrow('prompt is too long');
+
+        expect(chunks).toEqual([{ type: 'error', errorCode: 'TEST_ERROR', message: '400 invalid request: prompt is too long' }]);
+        expect(secondary.calls).toBe(0);
+    });
+
+    it('should not fall back once the stream has produced output', async () => {
+        const primary: ILLM = {
+            ...createScriptedLLM('claude-sonnet', []),
+            callStream: async function* () {
+                yield { type: 'text-delta', content: 'partial' } as LLMStreamChunk;
+                throw new Error('503 Service Unavailable');
+            },
+        };
+        const secondary = createScriptedLLM('gpt-4.1', [answer('from gpt')]);
+        const llm = new FallbackLLM([primary, secondary], { retriesPerModel: 0 });
+
+        await expect(collect(llm.callStream('prompt', []))).rejects.toThrow('503');
+        expect(secondary.calls).toBe(0);
+    });
+
+    it('should classify rate limits, overloads and 5xx as fallback errors', () => {
+        expect(isFallbackError(Object.assign(new Error('Request failed'), { status: 429 }))).toBe(true);
+        expect(isFallbackError(Object.assign(new Error('Request failed'), { status: 502 }))).toBe(true);
+        expect(isFallbackError(Object.assign(new Error('Request failed'), { status: 400 }))).toBe(false);
+        expect(isFallbackError(new Error('Rate limit reached for requests'))).toBe(true);
+        expect(isFallbackError(new Error('Invalid API key'))).toBe(false);
+    });
+
+    it('should record the serving model on the step and publish the fallback', async () => {
+        const primary = createScriptedLLM('claude-sonnet', [overloaded()]);
+        const secondary = createScriptedLLM('gpt-4.1', [answer('<interactive><response>Done</response></interactive>')]);
+        const eventBus = new EventBus();
+        const fallbackEvents: LLMEvent[] = [];
+        eventBus.subscribe<LLMEvent>('llm.model.fallback', event => { fallbackEvents.push(event); });
+        const agent = new StreamAgent(
+            'fallback-agent', 'Fallback Agent', 'Falls back between models', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: primary, fallbackModels: [secondary], fallback: { retriesPerModel: 0 } }, [], eventBus
+        );
+        const steps: any[] = [];
+        eventBus.subscribe('agent.step.completed', event => { steps.push(event.data.step); });
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(steps).toHaveLength(1);
+        expect(steps[0].model).toBe('gpt-4.1');
+        expect(fallbackEvents).toHaveLength(1);
+        expect(fallbackEvents[0]).toMatchObject({ stepIndex: 0, data: { fromModel: 'claude-sonnet', toModel: 'gpt-4.1' } });
+    });
+});
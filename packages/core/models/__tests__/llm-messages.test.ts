@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { flattenLLMMessages, normalizeConversation } from '../llm-messages';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { OPENAI_MODELS } from '../models-list';
+import { LLMMessage, LLMStreamChunk } from '../../interfaces/agent';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { StreamAgent } from '../../stream-agent';
+import { AsyncAgent } from '../../async-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { LogLevel } from '../../utils/logger';
+import { collect, createFakeLLM } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+const weatherTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    paramSchema: z.object({ city: z.string() }),
+    strict: true,
+};
+
+const conversation: LLMMessage[] = [
+    { role: 'system', content: [{ type: 'text', text: 'You are a weather assistant.', cache: true }] },
+    { role: 'user', content: 'Weather in Paris?' },
+    { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }] },
+    { role: 'user', content: [
+        { type: 'tool_result', toolUseId: 'call_1', name: 'get_weather', content: '{"temp":18}' },
+        { type: 'text', text: 'Anything else?' },
+    ] },
+];
+
+describe('structured LLM messages', () => {
+    beforeEach(() => {
+        resetSdk();
+        sdk.events = [{ choices: [{ index: 0, delta: { content: 'Sunny' }, finish_reason: 'stop' }] }];
+    });
+
+    it('should flatten a single user string to the identical prompt', () => {
+        expect(flattenLLMMessages([{ role: 'user', content: 'plain prompt' }])).toBe('plain prompt');
+    });
+
+    it('should flatten tool blocks to text for models without structured messages', () => {
+        const text = flattenLLMMessages(conversation);
+
+        expect(text).toContain('You are a weather assistant.');
+        expect(text).toContain('<tool_call name="get_weather">\n<param name="city">Paris</param>\n</tool_call>');
+        expect(text).toContain('<tool_result name="get_weather" call_id="call_1">\n{"temp":18}\n</tool_result>');
+    });
+
+    it('should merge neighbouring turns and start the conversation with a user turn', () => {
+        const normalized = normalizeConversation([
+            { role: 'system', content: 'system' },
+            { role: 'assistant', content: 'first' },
+            { role: 'assistant', content: 'second' },
+            { role: 'user', content: 'question' },
+        ]);
+
+        expect(normalized.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+        expect(normalized[2].content).toEqual([{ type: 'text', text: 'first' }, { type: 'text', text: 'second' }]);
+    });
+
+    it('should send native tool_calls and tool messages to the Chat Completions API', async () => {
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, true, 0.2, 512, false);
+
+        await collect(llm.callStreamMessages(conversation, [weatherTool]));
+
+        const request = sdk.requests[0];
+        expect(request.tools).toEqual([{ type: 'function', function: expect.objectContaining({ name: 'get_weather' }) }]);
+        expect(request.messages).toEqual([
+            { role: 'system', content: 'You are a weather assistant.' },
+            { role: 'user', content: 'Weather in Paris?' },
+            { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] },
+            { role: 'tool', tool_call_id: 'call_1', content: '{"temp":18}' },
+            { role: 'user', content: 'Anything else?' },
+        ]);
+    });
+
+    it('should pair tool calls with their results when formatting messages', async () => {
+        const processor = new StandardPromptProcessor('You are a test assistant.');
+        processor.renderChatMessageToPrompt([{ role: 'user', step: 0, content: 'Weather in Paris?' } as any]);
+        processor.renderToolCallToPrompt([
+            { name: 'get_weather', call_id: 'call_1', params: { city: 'Paris' }, status: 'failed', message: 'timeout' }
+        ], 0);
+
+        const messages = await processor.formatMessages(1);
+
+        expect(messages[0]).toMatchObject({ role: 'system', content: [{ type: 'text', cache: true }] });
+        const toolUse = messages.findIndex(message => message.role === 'assistant');
+        expect(messages[toolUse].content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }]);
+        expect(messages[toolUse + 1].content[0]).toMatchObject({ type: 'tool_result', toolUseId: 'call_1', isError: true });
+        expect(messages[messages.length - 1]).toEqual({ role: 'user', content: [{ type: 'text', text: '## Current Step: 1' }] });
+        expect(processor.getCurrentPrompt()).toBe(flattenLLMMessages(messages));
+    });
+
+    it('should call callStreamMessages when the agent uses the messages prompt format', async () => {
+        const received: LLMMessage[][] = [];
+        const llm = createFakeLLM({
+            callStreamMessages: async function* (messages: LLMMessage[]): AsyncIterable<LLMStreamChunk> {
+                received.push(messages);
+                yield { type: 'text-done', content: '<interactive><response>Done</response></interactive>' };
+            },
+        });
+        const agent = new StreamAgent(
+            'messages-agent', 'Messages Agent', 'Uses structured messages', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, promptFormat: 'messages' }, []
+        );
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(llm.callStream).not.toHaveBeenCalled();
+        expect(received).toHaveLength(1);
+        expect(received[0][0].role).toBe('system');
+        expect(flattenLLMMessages(received[0])).toContain('Hello');
+    });
+
+    it('should fold callStreamMessages into the step result when an AsyncAgent uses the messages prompt format', async () => {
+        const received: LLMMessage[][] = [];
+        const llm = createFakeLLM({
+            streaming: false,
+            callStreamMessages: async function* (messages: LLMMessage[]): AsyncIterable<LLMStreamChunk> {
+                received.push(messages);
+                yield { type: 'text-done', content: '<interactive><response>Done</response></interactive>' };
+                yield { type: 'usage', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+            },
+        });
+        const agent = new AsyncAgent(
+            'messages-agent', 'Messages Agent', 'Uses structured messages', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, promptFormat: 'messages' }, []
+        );
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(llm.callAsync).not.toHaveBeenCalled();
+        expect(received).toHaveLength(1);
+        expect(received[0][0].role).toBe('system');
+        expect(agent.agentStorage.agentSteps[0].rawText).toContain('Done');
+        expect(agent.agentStorage.totalTokensUsed).toBe(15);
+    });
+});
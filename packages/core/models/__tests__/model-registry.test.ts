@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCost, getModelInfo, registerModelInfo } from '../model-registry';
+import { ANTHROPIC_MODELS, OPENAI_MODELS } from '../models-list';
+
+describe('Model Registry', () => {
+    it('should expose context window and pricing for known models', () => {
+        const info = getModelInfo(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514);
+        expect(info?.contextWindow).toBe(200000);
+        expect(info?.pricing.input).toBe(3);
+        expect(info?.capabilities?.promptCaching).toBe(true);
+    });
+
+    it('should return undefined for unknown models', () => {
+        expect(getModelInfo('unknown-model')).toBeUndefined();
+        expect(estimateCost('unknown-model', { promptTokens: 10, completionTokens: 10, totalTokens: 20 })).toBeUndefined();
+    });
+
+    it('should price cached prompt tokens separately', () => {
+        // gpt-4o: $2.5 input, $1.25 cached input, $10 output per 1M tokens
+        const cost = estimateCost(OPENAI_MODELS.GPT_4O, {
+            promptTokens: 1_000_000,
+            completionTokens: 100_000,
+            totalTokens: 1_100_000,
+            cachedTokens: 400_000,
+        });
+        expect(cost).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10);
+    });
+
+    it('should price cache writes separately from cache hits', () => {
+        // claude-sonnet-4: $3 input, $0.3 cache hit, $3.75 cache write, $15 output per 1M tokens
+        const cost = estimateCost(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, {
+            promptTokens: 1_000_000,
+            completionTokens: 0,
+            totalTokens: 1_000_000,
+            cachedTokens: 500_000,
+            cacheCreationTokens: 200_000,
+        });
+        expect(cost).toBeCloseTo(0.3 * 3 + 0.5 * 0.3 + 0.2 * 3.75);
+    });
+
+    it('should allow registering custom models', () => {
+        registerModelInfo('my-local-model', {
+            contextWindow: 8192,
+            maxOutputTokens: 2048,
+            pricing: { input: 0, output: 0 },
+        });
+        expect(estimateCost('my-local-model', { promptTokens: 100, completionTokens: 100, totalTokens: 200 })).toBe(0);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { OpenAICompatibleConfig } from '../openai-compatible';
+import { llmProviderRegistry } from '../provider-registry';
+import { TextToolCallLLM, applyToolCallProtocol } from '../text-tool-calls';
+import { OPENAI_MODELS } from '../models-list';
+import { LLMMessage } from '../../interfaces/agent';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { collect } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+const weatherTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    paramSchema: z.object({ city: z.string() }),
+    strict: true,
+};
+
+const endpoint: OpenAICompatibleConfig = { baseURL: 'http://localhost:11434/v1', model: 'qwen2.5-coder:7b' };
+
+function delta(content: any, finish_reason: string | null = null) {
+    return { choices: [{ index: 0, delta: content, finish_reason }] };
+}
+
+describe('OpenAI-compatible endpoint', () => {
+    beforeEach(() => {
+        resetSdk();
+    });
+
+    it('should send requests to the configured base URL with the endpoint model name', async () => {
+        sdk.events = [delta({ content: 'Hello' }), delta({}, 'stop')];
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, false, 0.2, 512, false, endpoint);
+
+        const result = await llm.callAsync('Hi', []);
+
+        expect(llm.model).toBe('qwen2.5-coder:7b');
+        expect(sdk.clients[0]).toEqual({ baseURL: 'http://localhost:11434/v1', apiKey: 'not-needed' });
+        expect(sdk.requests[0]).toMatchObject({ model: 'qwen2.5-coder:7b', stream: true, stream_options: { include_usage: true } });
+        expect(sdk.requests[0].functions).toBeUndefined();
+        expect(sdk.requests[0].parallel_tool_calls).toBeUndefined();
+        expect(result.text).toBe('Hello');
+    });
+
+    it('should send tools and parse streamed tool_calls deltas', async () => {
+        sdk.events = [
+            delta({ tool_calls: [{ index: 0, id: 'call_a', function: { name: 'get_weather', arguments: '{"ci' } }] }),
+            delta({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Paris"}' } }] }),
+            delta({}, 'tool_calls'),
+        ];
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, false, 0.2, 512, false, { ...endpoint, capabilities: { streamUsage: false } });
+
+        const result = await llm.callAsync('weather?', [weatherTool]);
+
+        expect(sdk.requests[0].tools).toEqual([{ type: 'function', function: expect.objectContaining({ name: 'get_weather' }) }]);
+        expect(sdk.requests[0].stream_options).toBeUndefined();
+        expect(result.toolCalls).toEqual([{ type: 'function', call_id: 'call_a', name: 'get_weather', parameters: { city: 'Paris' } }]);
+    });
+
+    it('should use the text tool-call protocol for endpoints without native tool calling, including history', async () => {
+        sdk.events = [
+            delta({ content: 'Let me check. <tool_call name="get_weather">' }),
+            delta({ content: '<param name="city">Paris</param></tool_call>' }),
+            delta({}, 'stop'),
+        ];
+        const llm = applyToolCallProtocol(llmProviderRegistry.createLLM('qwen2.5-coder:14b', {
+            streaming: true,
+            providerOptions: { endpoint: { ...endpoint, model: 'qwen2.5-coder:14b', capabilities: { nativeToolCalls: false } } },
+        }, 'openai-compatible'));
+        const history: LLMMessage[] = [
+            { role: 'system', content: 'You are a test assistant.' },
+            { role: 'user', content: 'weather in Rome?' },
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Rome' } }] },
+            { role: 'user', content: [{ type: 'tool_result', toolUseId: 'call_1', name: 'get_weather', content: 'sunny' }, { type: 'text', text: 'and Paris?' }] },
+        ];
+
+        const chunks = await collect(llm.callStreamMessages!(history, [weatherTool]));
+
+        expect(llm).toBeInstanceOf(TextToolCallLLM);
+        expect(sdk.requests[0].tools).toBeUndefined();
+        expect(sdk.requests[0].functions).toBeUndefined();
+        expect(sdk.requests[0].messages[0].content).toContain('<tool_call name="tool_name">');
+        expect(sdk.requests[0].messages[2]).toEqual({ role: 'assistant', content: '<tool_call name="get_weather">\n<param name="city">Rome</param>\n</tool_call>' });
+        expect(sdk.requests[0].messages[3].content).toContain('<tool_result name="get_weather" call_id="call_1">');
+        expect(chunks.find(chunk => chunk.type === 'text-done')).toMatchObject({ content: 'Let me check.' });
+        const done = chunks.filter(chunk => chunk.type === 'tool-call-done');
+        expect(done).toHaveLength(1);
+        expect(done[0]).toMatchObject({ toolCall: { name: 'get_weather', parameters: { city: 'Paris' } } });
+    });
+});
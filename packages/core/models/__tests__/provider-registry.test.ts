@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMProviderRegistry, llmProviderRegistry } from '../provider-registry';
+import { ANTHROPIC_MODELS, DEEPSEEK_MODELS, OPENAI_MODELS } from '../models-list';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { AnthropicWrapper } from '../anthropic';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { EventBus } from '../../event-bus/event-bus';
+import { LogLevel } from '../../utils/logger';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+const options = { temperature: 0.2, maxTokens: 512 };
+
+describe('LLMProviderRegistry', () => {
+    it('should resolve the built-in providers from the model name', () => {
+        const registry = new LLMProviderRegistry();
+
+        expect(registry.resolve(OPENAI_MODELS.GPT_4O)?.name).toBe('openai');
+        expect(registry.resolve(DEEPSEEK_MODELS.CHAT)?.name).toBe('deepseek');
+        expect(registry.createLLM(ANTHROPIC_MODELS.CLAUDE_3_7_SONNET_LATEST, options)).toBeInstanceOf(AnthropicWrapper);
+        expect(registry.createLLM(DEEPSEEK_MODELS.CHAT, options)).toMatchObject({ temperature: 0.2, maxTokens: 512 });
+    });
+
+    it('should let a later registration override a built-in provider', () => {
+        const registry = new LLMProviderRegistry();
+        const create = vi.fn((model: string) => createFakeLLM({ model, streaming: false }));
+        registry.register({ name: 'caching-proxy', matches: model => model.startsWith('gpt-'), create });
+
+        const llm = registry.createLLM(OPENAI_MODELS.GPT_4O, options);
+
+        expect(create).toHaveBeenCalledWith(OPENAI_MODELS.GPT_4O, options);
+        expect(llm.model).toBe(OPENAI_MODELS.GPT_4O);
+        expect(registry.resolve(ANTHROPIC_MODELS.CLAUDE_3_7_SONNET_LATEST)?.name).toBe('anthropic');
+
+        registry.unregister('caching-proxy');
+        expect(registry.resolve(OPENAI_MODELS.GPT_4O)?.name).toBe('openai');
+    });
+
+    it('should create providers selected by name with provider options', () => {
+        const registry = new LLMProviderRegistry();
+        const llm = registry.createLLM('llama3.1:8b', {
+            ...options,
+            providerOptions: { endpoint: { baseURL: 'http://localhost:11434/v1', model: 'llama3.1:8b' } },
+        }, 'openai-compatible');
+
+        expect(llm).toBeInstanceOf(OpenAIChatWrapper);
+        expect(llm.model).toBe('llama3.1:8b');
+        expect(() => registry.createLLM('x', options, 'missing')).toThrow(/Unknown LLM provider: missing/);
+        expect(() => registry.createLLM('x', options, 'openai-compatible')).toThrow(/baseURL/);
+    });
+
+    it('should be used by agents, which also accept a pre-built LLM instance or the deprecated llm option', () => {
+        const create = vi.fn((model: string) => createFakeLLM({ model, streaming: false }));
+        llmProviderRegistry.register({ name: 'test-double', matches: () => false, create });
+        try {
+            const createAgent = (agentOptions: any) => new StreamAgent(
+                'agent', 'Agent', 'Test agent', 1,
+                new StandardPromptProcessor(''), LogLevel.NONE, agentOptions, [], new EventBus()
+            );
+
+            const fromProvider = createAgent({ model: OPENAI_MODELS.GPT_4O_MINI, provider: 'test-double', providerOptions: { cache: true } });
+            expect(create).toHaveBeenCalledWith(OPENAI_MODELS.GPT_4O_MINI, expect.objectContaining({ providerOptions: { cache: true } }));
+            expect(fromProvider.llm.model).toBe(OPENAI_MODELS.GPT_4O_MINI);
+
+            const instance = createFakeLLM({ model: 'custom', streaming: false });
+            expect(createAgent({ model: instance }).llm).toBe(instance);
+            expect(createAgent({ model: OPENAI_MODELS.GPT_4O, llm: instance }).llm).toBe(instance);
+        } finally {
+            llmProviderRegistry.unregister('test-double');
+        }
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { AnthropicWrapper } from '../anthropic';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { ThinkingStream, resolveThinkingBudget } from '../reasoning';
+import { ANTHROPIC_MODELS, DEEPSEEK_MODELS, OPENAI_MODELS } from '../models-list';
+import { LLMMessage, LLMStreamChunk } from '../../interfaces/agent';
+import { LLMEvent } from '../../interfaces/events';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { EventBus } from '../../event-bus/event-bus';
+import { LogLevel } from '../../utils/logger';
+import { collect, createFakeLLM } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('@anthropic-ai/sdk', async () => (await import('../../__tests__/helpers/provider-sdk')).anthropicModule);
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+const readTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'read_file',
+    description: 'Read a file',
+    paramSchema: z.object({ path: z.string() }),
+    strict: false,
+};
+
+const thinkingChunks = (chunks: LLMStreamChunk[]) => chunks.filter(chunk => chunk.type.startsWith('thinking-'));
+
+describe('reasoning models', () => {
+    beforeEach(() => {
+        resetSdk();
+    });
+
+    it('should emit thinking chunks only after the first delta', () => {
+        const stream = new ThinkingStream(2);
+
+        expect([...stream.complete()]).toEqual([]);
+        expect([...stream.delta('Let me '), ...stream.delta('check.'), ...stream.complete()]).toEqual([
+            { type: 'thinking-start', stepIndex: 2 },
+            { type: 'thinking-progress', thought: 'Let me ', stepIndex: 2 },
+            { type: 'thinking-progress', thought: 'check.', stepIndex: 2 },
+            { type: 'thinking-complete', finalThought: 'Let me check.', stepIndex: 2 },
+        ]);
+        expect(resolveThinkingBudget({ effort: 'high' })).toBe(16384);
+        expect(resolveThinkingBudget({ effort: 'low', budgetTokens: 2000 })).toBe(2000);
+    });
+
+    it('should enable Anthropic extended thinking and stream thinking blocks', async () => {
+        sdk.events = [
+            { type: 'content_block_start', index: 0, content_block: { type: 'thinking' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'The user wants ' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'a file.' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'content_block_start', index: 1, content_block: { type: 'text' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Reading it.' } },
+            { type: 'content_block_stop', index: 1 },
+            { type: 'message_stop' },
+        ];
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true, 0.2, 8000);
+        llm.setToolChoice({ type: 'any' });
+        llm.setReasoning({ budgetTokens: 10000 });
+        const messages: LLMMessage[] = [
+            { role: 'user', content: 'Read a.txt' },
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.txt' } }] },
+            { role: 'user', content: [{ type: 'tool_result', toolUseId: 'call_1', name: 'read_file', content: 'hello' }] },
+        ];
+
+        const chunks = await collect(llm.callStreamMessages(messages, [readTool]));
+
+        const request = sdk.requests[0];
+        expect(request).toMatchObject({ thinking: { type: 'enabled', budget_tokens: 10000 }, temperature: 1, max_tokens: 11024, tool_choice: { type: 'auto' } });
+        expect(JSON.stringify(request.messages)).not.toContain('"tool_use"');
+        expect(request.messages[1].content[0].text).toBe('<tool_call name="read_file">\n<param name="path">a.txt</param>\n</tool_call>');
+        expect(thinkingChunks(chunks).map(chunk => chunk.type)).toEqual(['thinking-start', 'thinking-progress', 'thinking-progress', 'thinking-complete']);
+        expect(chunks.find(chunk => chunk.type === 'thinking-complete')).toMatchObject({ finalThought: 'The user wants a file.' });
+        expect(chunks.filter(chunk => chunk.type === 'text-done')).toEqual([expect.objectContaining({ content: 'Reading it.' })]);
+    });
+
+    it('should ignore reasoning options for models without reasoning support', async () => {
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_3_5_HAIKU_LATEST, true);
+        llm.setReasoning({ effort: 'high' });
+
+        expect(llm.reasoning).toBeUndefined();
+    });
+
+    it('should map DeepSeek reasoning_content to thinking chunks', async () => {
+        sdk.events = [
+            { choices: [{ index: 0, delta: { reasoning_content: 'Two plus two ' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: { reasoning_content: 'is four.' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: { content: '4' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+        ];
+        const llm = new OpenAIChatWrapper(DEEPSEEK_MODELS.REASONER, true, 0.7, 1000);
+        llm.setReasoning({ effort: 'high' });
+
+        const chunks = await collect(llm.callStream('2+2?', []));
+
+        expect(sdk.requests[0].reasoning_effort).toBeUndefined();
+        expect(chunks.find(chunk => chunk.type === 'thinking-complete')).toMatchObject({ finalThought: 'Two plus two is four.' });
+        const types = chunks.map(chunk => chunk.type);
+        expect(types.indexOf('thinking-complete')).toBeLessThan(types.indexOf('text-delta'));
+    });
+
+    it('should send reasoning_effort instead of temperature for OpenAI reasoning models', async () => {
+        sdk.events = [{ choices: [{ index: 0, delta: { content: 'ok' }, finish_reason: 'stop' }] }];
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.O3_PRO, true, 0.7, 1000);
+        llm.setReasoning({ effort: 'low' });
+
+        await collect(llm.callStream('hi', []));
+
+        expect(sdk.requests[0]).toMatchObject({ reasoning_effort: 'low', max_completion_tokens: 1000 });
+        expect(sdk.requests[0].temperature).toBeUndefined();
+        expect(sdk.requests[0].max_tokens).toBeUndefined();
+    });
+
+    it('should record model reasoning on the step and apply AgentOptions.reasoning', async () => {
+        const setReasoning = vi.fn();
+        const llm = createFakeLLM({
+            setReasoning,
+            callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+                yield { type: 'thinking-start' };
+                yield { type: 'thinking-progress', thought: 'Greeting back.' };
+                yield { type: 'thinking-complete', finalThought: 'Greeting back.' };
+                yield { type: 'text-done', content: '<interactive><response>Hi</response></interactive>' };
+            },
+        });
+        const eventBus = new EventBus();
+        const progress: LLMEvent[] = [];
+        eventBus.subscribe<LLMEvent>('llm.thinking.progress', event => { progress.push(event); });
+        const steps: any[] = [];
+        eventBus.subscribe('agent.step.completed', event => { steps.push(event.data.step); });
+        const agent = new StreamAgent(
+            'reasoning-agent', 'Reasoning Agent', 'Uses a reasoning model', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, reasoning: { effort: 'medium' } }, [], eventBus
+        );
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(setReasoning).toHaveBeenCalledWith({ effort: 'medium' });
+        expect(progress).toHaveLength(1);
+        expect(progress[0].data.thought).toBe('Greeting back.');
+        expect(steps[0].reasoning).toBe('Greeting back.');
+    });
+});
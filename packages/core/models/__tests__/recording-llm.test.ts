@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { RecordingLLM, ReplayLLM, hashLLMRequest, loadCassette } from '../recording-llm';
+import { ILLM, LLMStreamChunk } from '../../interfaces/agent';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { EventBus } from '../../event-bus/event-bus';
+import { LogLevel } from '../../utils/logger';
+import { createTool } from '../../utils';
+import { AbortError } from '../../utils/abort';
+import { collect, createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+/**
+ * 按调用顺序返回脚本中 chunk 序列的假 LLM
+ */
+function createScriptedLLM(script: LLMStreamChunk[][]) {
+    const calls: string[] = [];
+    return createFakeLLM({
+        calls,
+        callStream: async function* (messages: string) {
+            const chunks = script[calls.length] || [];
+            calls.push(messages);
+            yield* chunks;
+        },
+        callAsync: vi.fn(async (messages: string) => {
+            calls.push(messages);
+            return { text: 'async answer', usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 } };
+        }),
+    });
+}
+
+const weatherTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'GetWeather',
+    description: 'Get the weather for a city',
+    paramSchema: z.object({ city: z.string() }),
+    strict: true,
+};
+
+const toolCall = { type: 'function' as const, name: 'GetWeather', call_id: 'call_1', parameters: { city: 'Paris' } };
+
+describe('RecordingLLM / ReplayLLM', () => {
+    let dir: string;
+    let cassettePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+        cassettePath = path.join(dir, 'nested', 'cassette.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should hash the prompt together with the tool definitions', () => {
+        expect(hashLLMRequest('prompt', [])).toBe(hashLLMRequest('prompt', []));
+        expect(hashLLMRequest('id: 8a26e832-3cb1-4cb6-b3d0-f12aecabd9a7\ntimestamp: 2025-01-01T10:00:00.123Z', []))
+            .toBe(hashLLMRequest('id: 5bfb7601-ad04-4a66-84bb-8c6d8876b8b3\ntimestamp: 2025-01-01T10:00:00.456Z', []));
+        expect(hashLLMRequest('prompt', [weatherTool])).not.toBe(hashLLMRequest('prompt', []));
+        expect(hashLLMRequest('prompt 1', [], text => text.replace(/\d/g, ''))).toBe(hashLLMRequest('prompt 2', [], text => text.replace(/\d/g, '')));
+    });
+
+    it('should record streamed chunks and replay them unchanged', async () => {
+        const chunks: LLMStreamChunk[] = [
+            { type: 'text-delta', content: 'Checking', stepIndex: 0 },
+            { type: 'tool-call-done', toolCall, result: null, stepIndex: 0 },
+            { type: 'usage', usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 }, stepIndex: 0 },
+        ];
+        const recorder = new RecordingLLM(createScriptedLLM([chunks]), cassettePath);
+
+        expect(await collect(recorder.callStream('weather?', [weatherTool], { stepIndex: 0 }))).toEqual(chunks);
+
+        const cassette = loadCassette(cassettePath);
+        expect(cassette.model).toBe('fake-model');
+        expect(cassette.entries).toHaveLength(1);
+        expect(cassette.entries[0].request).toEqual({ messages: 'weather?', tools: ['GetWeather'], stepIndex: 0 });
+
+        const replay = new ReplayLLM(cassettePath);
+        expect(await collect(replay.callStream('weather?', [weatherTool]))).toEqual(chunks);
+        expect(replay.remaining()).toBe(0);
+    });
+
+    it('should serve repeated prompts in recorded order', async () => {
+        const recorder = new RecordingLLM(createScriptedLLM([
+            [{ type: 'text-done', content: 'first' }],
+            [{ type: 'text-done', content: 'second' }],
+        ]), cassettePath);
+        await collect(recorder.callStream('same', []));
+        await collect(recorder.callStream('same', []));
+
+        const replay = new ReplayLLM(cassettePath);
+        expect(await collect(replay.callStream('same', []))).toEqual([{ type: 'text-done', content: 'first' }]);
+        expect(await collect(replay.callStream('same', []))).toEqual([{ type: 'text-done', content: 'second' }]);
+    });
+
+    it('should throw a descriptive error when the prompt was not recorded', async () => {
+        const recorder = new RecordingLLM(createScriptedLLM([[{ type: 'text-done', content: 'hi' }]]), cassettePath);
+        await collect(recorder.callStream('recorded', []));
+
+        const replay = new ReplayLLM(cassettePath);
+        await expect(collect(replay.callStream('changed', []))).rejects.toThrow(/no recorded response for request [0-9a-f]+/);
+
+        const sequential = new ReplayLLM(cassettePath, { sequential: true });
+        expect(await collect(sequential.callStream('changed', []))).toEqual([{ type: 'text-done', content: 'hi' }]);
+    });
+
+    it('should convert between callAsync results and streamed chunks', async () => {
+        const recorder = new RecordingLLM(createScriptedLLM([[
+            { type: 'text-delta', content: 'Hel' },
+            { type: 'text-delta', content: 'lo' },
+            { type: 'tool-call-done', toolCall, result: null },
+        ]]), cassettePath);
+        await collect(recorder.callStream('stream', []));
+        expect(await recorder.callAsync('async', [])).toMatchObject({ text: 'async answer' });
+
+        const replay = new ReplayLLM(cassettePath);
+        expect(await replay.callAsync('stream', [])).toEqual({ text: 'Hello', toolCalls: [toolCall], usage: undefined });
+        expect(await collect(replay.callStream('async', [], { stepIndex: 3 }))).toEqual([
+            { type: 'text-delta', content: 'async answer', stepIndex: 3 },
+            { type: 'text-done', content: 'async answer', stepIndex: 3 },
+            { type: 'usage', usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 }, stepIndex: 3 },
+        ]);
+    });
+
+    it('should forward structured messages, structured output and reasoning settings', async () => {
+        const inner = {
+            ...createScriptedLLM([]),
+            setReasoning: vi.fn(),
+            callStreamMessages: async function* () {
+                yield { type: 'text-done', content: 'from messages' } as LLMStreamChunk;
+            },
+            callStructured: vi.fn(async () => ({ data: { city: 'Paris' }, attempts: 1 })),
+        };
+        const recorder = new RecordingLLM(inner as ILLM, cassettePath);
+        const messages = [{ role: 'user' as const, content: 'weather?' }];
+        const schema = z.object({ city: z.string() });
+
+        recorder.setReasoning({ effort: 'high' });
+        expect(inner.setReasoning).toHaveBeenCalledWith({ effort: 'high' });
+        expect(await collect(recorder.callStreamMessages(messages, [weatherTool]))).toEqual([{ type: 'text-done', content: 'from messages' }]);
+        expect(await recorder.callStructured('where?', schema)).toEqual({ data: { city: 'Paris' }, attempts: 1 });
+        expect(loadCassette(cassettePath).entries.map(entry => entry.method)).toEqual(['callStreamMessages', 'callStructured']);
+
+        const replay = new ReplayLLM(cassettePath);
+        await expect(replay.callAsync('where?', [])).rejects.toThrow(/no recorded response/);
+        expect(await replay.callStructured('where?', schema)).toEqual({ data: { city: 'Paris' }, attempts: 1 });
+        expect(await collect(replay.callStreamMessages(messages, [weatherTool]))).toEqual([{ type: 'text-done', content: 'from messages' }]);
+        expect(replay.remaining()).toBe(0);
+    });
+
+    it('should respect the abort signal', async () => {
+        const replay = new ReplayLLM({ version: 1, model: 'fake-model', entries: [] });
+        const controller = new AbortController();
+        controller.abort('stop');
+
+        await expect(replay.callAsync('prompt', [], { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('should replay a recorded StreamAgent run offline', async () => {
+        const script: LLMStreamChunk[][] = [
+            [{ type: 'tool-call-done', toolCall, result: null }],
+            [{ type: 'text-done', content: '<interactive><response>Sunny in Paris</response></interactive>' }],
+        ];
+
+        const runAgent = async (llm: ILLM) => {
+            const execute = vi.fn(async (params: { city: string }) => ({ city: params.city, forecast: 'sunny' }));
+            const agent = new StreamAgent(
+                'weather-agent', 'Weather Agent', 'Answers weather questions', 5,
+                new StandardPromptProcessor('You are a weather assistant.'),
+                LogLevel.NONE, { model: llm }, [], new EventBus()
+            );
+            agent.addToolSet({
+                name: 'weather',
+                description: 'Weather tools',
+                active: true,
+                tools: [createTool({
+                    name: 'GetWeather',
+                    description: 'Get the weather for a city',
+                    inputSchema: z.object({ city: z.string() }),
+                    async: false,
+                    riskLevel: 'read-only',
+                    execute,
+                })],
+            });
+            // StreamAgent 运行到 maxSteps 为止：第一步调用工具，第二步给出回答
+            await agent.startWithUserInput('What is the weather in Paris?', 2, 'session-1');
+            return { agent, execute };
+        };
+
+        const scripted = createScriptedLLM(script);
+        await runAgent(new RecordingLLM(scripted, cassettePath));
+        expect(scripted.calls).toHaveLength(2);
+
+        const replay = new ReplayLLM(cassettePath);
+        const { agent, execute } = await runAgent(replay);
+
+        expect(replay.remaining()).toBe(0);
+        expect(execute).toHaveBeenCalledWith({ city: 'Paris' }, agent, expect.anything());
+        expect(agent.agentStorage.agentSteps).toHaveLength(2);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { callStructured, extractJsonText, StructuredOutputError } from '../structured-output';
+import { AnthropicWrapper } from '../anthropic';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { OpenAIWrapper } from '../openai';
+import { ANTHROPIC_MODELS, DEEPSEEK_MODELS, OPENAI_MODELS } from '../models-list';
+import { ILLM } from '../../interfaces/agent';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('@anthropic-ai/sdk', async () => (await import('../../__tests__/helpers/provider-sdk')).anthropicModule);
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+
+const planSchema = z.object({
+    title: z.string(),
+    steps: z.array(z.string()).min(1),
+    note: z.string().optional(),
+});
+
+const chatCompletion = (content: string) => ({
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+});
+
+const textLLM = (...texts: string[]): ILLM => createFakeLLM({
+    streaming: false,
+    callAsync: vi.fn(async () => ({ text: texts.shift() ?? '', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } })),
+});
+
+describe('structured output', () => {
+    beforeEach(() => {
+        resetSdk();
+    });
+
+    it('should extract JSON from fenced or surrounded text', () => {
+        expect(extractJsonText('Here you go:\n```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+        expect(extractJsonText('The answer is {"a": [1, 2]}. Done.')).toBe('{"a": [1, 2]}');
+    });
+
+    it('should describe the schema in the prompt and repair invalid answers for models without callStructured', async () => {
+        const llm = textLLM('{"title": "Plan", "steps": []}', '```json\n{"title": "Plan", "steps": ["research"]}\n```');
+
+        const result = await callStructured(llm, 'Make a plan', planSchema);
+
+        expect(result).toEqual({ data: { title: 'Plan', steps: ['research'] }, usage: expect.objectContaining({ totalTokens: 30 }), attempts: 2 });
+        const prompts = vi.mocked(llm.callAsync).mock.calls.map(call => call[0]);
+        expect(prompts[0]).toContain('"steps"');
+        expect(prompts[1]).toContain('The previous answer was rejected: Schema validation failed: steps:');
+    });
+
+    it('should throw StructuredOutputError when retries are exhausted', async () => {
+        const llm = textLLM('not json', 'still not json');
+
+        const error = await callStructured(llm, 'Make a plan', planSchema, { maxRetries: 1 }).catch(error => error);
+
+        expect(error).toBeInstanceOf(StructuredOutputError);
+        expect(error).toMatchObject({ rawText: 'still not json', attempts: 2 });
+    });
+
+    it('should use response_format json_schema on Chat Completions and accept null optional fields', async () => {
+        sdk.responses = [chatCompletion('{"title": "Plan", "steps": ["a"], "note": null}')];
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, false, 0.2, 512);
+
+        const result = await llm.callStructured('Make a plan', planSchema, { schemaName: 'plan' });
+
+        expect(result.data).toEqual({ title: 'Plan', steps: ['a'] });
+        expect(result.usage).toMatchObject({ promptTokens: 50, completionTokens: 10 });
+        expect(sdk.requests[0].response_format).toMatchObject({ type: 'json_schema', json_schema: { name: 'plan', strict: true } });
+        expect(sdk.requests[0].response_format.json_schema.schema.required).toEqual(['title', 'steps', 'note']);
+    });
+
+    it('should fall back to json_object with schema instructions for DeepSeek', async () => {
+        sdk.responses = [chatCompletion('{"title": "Plan", "steps": ["a"]}')];
+        const llm = new OpenAIChatWrapper(DEEPSEEK_MODELS.CHAT, false, 0.2, 512);
+
+        await llm.callStructured('Make a plan', planSchema);
+
+        expect(sdk.requests[0].response_format).toEqual({ type: 'json_object' });
+        expect(sdk.requests[0].messages[0].content).toContain('## Output Format');
+    });
+
+    it('should send a strict json_schema text format to the Responses API', async () => {
+        sdk.responses = [{ output_text: '{"title": "Plan", "steps": ["a"]}', usage: { input_tokens: 20, output_tokens: 5, total_tokens: 25 } }];
+        const llm = new OpenAIWrapper(OPENAI_MODELS.GPT_4O);
+
+        const result = await llm.callStructured('Make a plan', planSchema, { schemaName: 'plan' });
+
+        expect(result.data.steps).toEqual(['a']);
+        expect(sdk.requests[0].text.format).toMatchObject({ type: 'json_schema', name: 'plan', strict: true });
+    });
+
+    it('should force the schema tool on Anthropic and read the tool_use input', async () => {
+        sdk.responses = [{
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'plan', input: { title: 'Plan', steps: ['a', 'b'] } }],
+            usage: { input_tokens: 30, output_tokens: 12 },
+        }];
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514);
+
+        const result = await llm.callStructured('Make a plan', planSchema, { schemaName: 'plan' });
+
+        expect(result.data).toEqual({ title: 'Plan', steps: ['a', 'b'] });
+        expect(sdk.requests[0].tool_choice).toEqual({ type: 'tool', name: 'plan' });
+        expect(sdk.requests[0].tools[0].input_schema.properties).toHaveProperty('steps');
+    });
+});
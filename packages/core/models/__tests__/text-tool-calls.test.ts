@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { TextToolCallLLM, TextToolCallStream, applyToolCallProtocol } from '../text-tool-calls';
+import { formatTextToolCall } from '../llm-messages';
+import { DEEPSEEK_MODELS, OPENAI_MODELS } from '../models-list';
+import { LLMMessage, LLMStreamChunk } from '../../interfaces/agent';
+import { ToolCallDefinition } from '../../interfaces/tool';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { LogLevel } from '../../utils/logger';
+import { collect, createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+const writeTool: ToolCallDefinition = {
+    type: 'function',
+    name: 'write_file',
+    description: 'Write a file',
+    paramSchema: z.object({ path: z.string(), content: z.string(), mode: z.number(), tags: z.array(z.string()).optional() }),
+    strict: false,
+};
+
+function fakeLLM(model: string, deltas: string[]) {
+    const received: any[] = [];
+    const stream = async function* (input: any, tools: ToolCallDefinition[]): AsyncIterable<LLMStreamChunk> {
+        received.push({ input, tools });
+        for (const delta of deltas) {
+            yield { type: 'text-delta', content: delta };
+        }
+        yield { type: 'text-done', content: deltas.join('') };
+    };
+    return createFakeLLM({ model, received, callStream: stream, callStreamMessages: stream });
+}
+
+describe('text tool-calling protocol', () => {
+    it('should parse tool calls split across deltas and coerce values by the parameter schema', () => {
+        const stream = new TextToolCallStream([writeTool], () => 'call_1');
+
+        const chunks = [
+            ...stream.push('Writing it.\n<tool_'),
+            ...stream.push('call name="write_file">\n<param name="path">a.ts</param>\n<param name="content">\nconst a = 1;\n\nexport { a };\n</param>\n'),
+            ...stream.push('<param name="mode">644</param>\n<param name="tags">["x"]</param>\n</tool_call> Done'),
+            ...stream.flush(),
+        ];
+
+        expect(chunks.filter(chunk => chunk.type === 'text-delta').map(chunk => (chunk as any).content).join('')).toBe('Writing it.\n Done');
+        expect(chunks.find(chunk => chunk.type === 'tool-call-done')).toMatchObject({
+            toolCall: { name: 'write_file', call_id: 'call_1', parameters: { path: 'a.ts', content: 'const a = 1;\n\nexport { a };', mode: 644, tags: ['x'] } }
+        });
+    });
+
+    it('should report blocks without a tool name as tool-call errors', () => {
+        const stream = new TextToolCallStream([writeTool], () => 'call_1');
+
+        const chunks = [...stream.push('<tool_call><param name="path">a.ts</param></tool_call>')];
+
+        expect(chunks).toEqual([expect.objectContaining({ type: 'tool-call-error', error: expect.any(Error) })]);
+    });
+
+    it('should leave <tool_call_result> text untouched', () => {
+        const stream = new TextToolCallStream([writeTool], () => 'call_1');
+
+        const chunks = [...stream.push('<tool_call_result name="x">ok</tool_call_result>'), ...stream.flush()];
+
+        expect(chunks).toEqual([{ type: 'text-delta', content: '<tool_call_result name="x">ok</tool_call_result>', stepIndex: undefined }]);
+    });
+
+    it('should render tools into the system message and history tool calls as text', async () => {
+        const inner = fakeLLM(DEEPSEEK_MODELS.REASONER, ['<tool_call name="write_file"><param name="path">b.ts</param></tool_call>']);
+        const llm = new TextToolCallLLM(inner);
+        const messages: LLMMessage[] = [
+            { role: 'system', content: [{ type: 'text', text: 'You are a coding agent.', cache: true }] },
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'call_0', name: 'write_file', input: { path: 'a.ts', mode: 644 } }] },
+            { role: 'user', content: [{ type: 'tool_result', toolUseId: 'call_0', name: 'write_file', content: 'ok' }] },
+        ];
+
+        const chunks = await collect(llm.callStreamMessages(messages, [writeTool]));
+
+        const { input, tools } = inner.received[0];
+        expect(tools).toEqual([]);
+        expect(input[0].content).toEqual([{ type: 'text', text: expect.stringMatching(/^You are a coding agent\.\n\n## Tool Calling/), cache: true }]);
+        expect(input[1].content[0].text).toBe(formatTextToolCall('write_file', { path: 'a.ts', mode: 644 }));
+        expect(input[2].content[0].text).toContain('<tool_result name="write_file" call_id="call_0">');
+        expect(chunks.filter(chunk => chunk.type === 'tool-call-done')).toHaveLength(1);
+        expect(chunks.find(chunk => chunk.type === 'text-done')).toBeUndefined();
+    });
+
+    it('should select the protocol per model', () => {
+        expect(applyToolCallProtocol(fakeLLM(DEEPSEEK_MODELS.REASONER, []))).toBeInstanceOf(TextToolCallLLM);
+        expect(applyToolCallProtocol(fakeLLM(OPENAI_MODELS.GPT_4O, []))).not.toBeInstanceOf(TextToolCallLLM);
+        expect(applyToolCallProtocol(fakeLLM(OPENAI_MODELS.GPT_4O, []), 'text')).toBeInstanceOf(TextToolCallLLM);
+        expect(applyToolCallProtocol(fakeLLM(DEEPSEEK_MODELS.REASONER, []), 'native')).not.toBeInstanceOf(TextToolCallLLM);
+    });
+
+    it('should apply AgentOptions.toolCallProtocol to the agent model', () => {
+        const agent = new StreamAgent(
+            'text-tools-agent', 'Text Tools Agent', 'Uses the text tool protocol', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: fakeLLM('local-model', []), toolCallProtocol: 'text' }, []
+        );
+
+        expect((agent as any).llm).toBeInstanceOf(TextToolCallLLM);
+    });
+});
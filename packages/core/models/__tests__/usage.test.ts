@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAIWrapper } from '../openai';
+import { OpenAIChatWrapper } from '../openai-chat';
+import { AnthropicWrapper } from '../anthropic';
+import { GeminiWrapper } from '../gemini';
+import { ANTHROPIC_MODELS, GOOGLE_MODELS, OPENAI_MODELS } from '../models-list';
+import { ILLM, LLMStreamChunk } from '../../interfaces/agent';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { EventBus } from '../../event-bus/event-bus';
+import { LogLevel } from '../../utils/logger';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+import { sdk, resetSdk } from '../../__tests__/helpers/provider-sdk';
+
+vi.mock('openai', async () => (await import('../../__tests__/helpers/provider-sdk')).openaiModule);
+vi.mock('@anthropic-ai/sdk', async () => (await import('../../__tests__/helpers/provider-sdk')).anthropicModule);
+
+vi.mock('@google/genai', async importOriginal => {
+    const { respond } = await import('../../__tests__/helpers/provider-sdk');
+    class GoogleGenAI {
+        models = { generateContentStream: respond };
+    }
+    return { ...(await importOriginal<typeof import('@google/genai')>()), GoogleGenAI };
+});
+
+async function usageChunks(llm: ILLM): Promise<LLMStreamChunk[]> {
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of llm.callStream('Hi', [])) {
+        if (chunk.type === 'usage') chunks.push(chunk);
+    }
+    return chunks;
+}
+
+describe('LLM usage reporting', () => {
+    beforeEach(() => {
+        resetSdk();
+    });
+
+    it('should report OpenAI Responses usage with cached input tokens', async () => {
+        sdk.events = [
+            { type: 'response.output_text.delta', delta: 'Hello' },
+            { type: 'response.completed', response: { usage: { input_tokens: 1200, output_tokens: 80, total_tokens: 1280, input_tokens_details: { cached_tokens: 1024 } } } },
+        ];
+        const llm = new OpenAIWrapper(OPENAI_MODELS.GPT_4O, true);
+        const expected = { promptTokens: 1200, completionTokens: 80, totalTokens: 1280, cachedTokens: 1024 };
+
+        expect(await usageChunks(llm)).toEqual([{ type: 'usage', usage: expected, stepIndex: undefined }]);
+        expect((await llm.callAsync('Hi', [])).usage).toEqual(expected);
+    });
+
+    it('should report OpenAI Chat usage from the final include_usage chunk', async () => {
+        sdk.events = [
+            { choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: null }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+            { choices: [], usage: { prompt_tokens: 500, completion_tokens: 40, total_tokens: 540, prompt_tokens_details: { cached_tokens: 256 } } },
+        ];
+        const llm = new OpenAIChatWrapper(OPENAI_MODELS.GPT_4O, true, 0.7, 1000);
+
+        const result = await llm.callAsync('Hi', []);
+
+        expect(result.text).toBe('Hello');
+        expect(result.usage).toEqual({ promptTokens: 500, completionTokens: 40, totalTokens: 540, cachedTokens: 256 });
+    });
+
+    it('should merge Anthropic message_start and message_delta usage including cache tokens', async () => {
+        sdk.events = [
+            { type: 'message_start', message: { usage: { input_tokens: 100, cache_read_input_tokens: 3000, cache_creation_input_tokens: 500, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_delta', usage: { output_tokens: 20 } },
+            { type: 'message_stop' },
+        ];
+        const llm = new AnthropicWrapper(ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, true);
+
+        expect((await llm.callAsync('Hi', [])).usage).toEqual({
+            promptTokens: 3600,
+            completionTokens: 20,
+            totalTokens: 3620,
+            cachedTokens: 3000,
+            cacheCreationTokens: 500,
+        });
+    });
+
+    it('should report the last cumulative Gemini usageMetadata and count thinking tokens as output', async () => {
+        const chunk = (text: string, usageMetadata: any) => ({ text, candidates: [{ content: { parts: [{ text }] } }], usageMetadata });
+        sdk.events = [
+            chunk('Hel', { promptTokenCount: 300, candidatesTokenCount: 2, totalTokenCount: 302 }),
+            chunk('lo', { promptTokenCount: 300, candidatesTokenCount: 5, thoughtsTokenCount: 40, totalTokenCount: 345, cachedContentTokenCount: 128 }),
+        ];
+        const llm = new GeminiWrapper(GOOGLE_MODELS.GEMINI_2_5_FLASH_PREVIEW_05_20, true, 0.7, 1000);
+
+        const usage = await usageChunks(llm);
+
+        expect(usage).toHaveLength(1);
+        expect(usage[0]).toMatchObject({ usage: { promptTokens: 300, completionTokens: 45, totalTokens: 345, cachedTokens: 128 } });
+    });
+
+    it('should record usage on each agent step and accumulate it in agentStorage', async () => {
+        const perStep = [
+            { promptTokens: 1000, completionTokens: 50, totalTokens: 1050, cachedTokens: 0, cacheCreationTokens: 0 },
+            { promptTokens: 1200, completionTokens: 30, totalTokens: 1230, cachedTokens: 900, cacheCreationTokens: 0 },
+        ];
+        let call = 0;
+        const llm = createFakeLLM({
+            callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+                yield { type: 'text-done', content: '<interactive><response>Working</response></interactive>' };
+                yield { type: 'usage', usage: perStep[call++] };
+            },
+        });
+        const eventBus = new EventBus();
+        const steps: any[] = [];
+        eventBus.subscribe('agent.step.completed', event => { steps.push(event.data.step); });
+        const agent = new StreamAgent(
+            'usage-agent', 'Usage Agent', 'Reports token usage', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, toolOutput: false }, [], eventBus
+        );
+
+        await agent.startWithUserInput('Hello', 2, 'session-usage');
+
+        expect(steps.map(step => step.usage)).toEqual(perStep);
+        expect(agent.agentStorage.totalTokensUsed).toBe(2280);
+        expect(agent.agentStorage.tokenUsage).toEqual({ promptTokens: 2200, completionTokens: 80, totalTokens: 2280, cachedTokens: 900, cacheCreationTokens: 0 });
+    });
+});
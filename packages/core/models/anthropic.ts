@@ -1,10 +1,13 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
-import { ILLM, LLMModel, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { ILLM, LLMCallOptions, LLMContentBlock, LLMMessage, LLMModel, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
 import * as dotenv from "dotenv";
 import { zodToJsonNostrict, zodToJsonStrict } from "../utils/jsonHelper.js";
 import { SupportedModel } from "../models/index.js";
 import { logger } from "../utils/logger.js";
+import { formatContentBlockAsText, normalizeConversation, toContentBlocks } from "./llm-messages.js";
+import { resolveThinkingBudget, supportsReasoning, ThinkingStream } from "./reasoning.js";
+import { callWithRepair, formatStructuredOutputInstructions, getSchemaName, isObjectSchema } from "./structured-output.js";
 
 dotenv.config();
 
@@ -16,6 +19,7 @@ interface AnthropicTool {
     name: string;
     description: string;
     input_schema: Record<string, any>;
+    cache_control?: { type: "ephemeral" };
 }
 
 // Tool choice types
@@ -35,6 +39,7 @@ interface MessageContent {
     tool_use_id?: string;
     content?: string | any[];
     is_error?: boolean;
+    cache_control?: { type: "ephemeral" };
 }
 
 interface AnthropicMessage {
@@ -80,6 +85,103 @@ function convertToAnthropicTool(tool: ToolCallDefinition, strict: boolean = fals
     };
 }
 
+const DEFAULT_SYSTEM_PROMPT = "You are a helpful assistant that provides accurate and useful responses.";
+
+// Anthropic 每个请求最多允许 4 个 cache_control 断点
+const MAX_CACHE_BREAKPOINTS = 4;
+
+// extended thinking 的最小预算
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * extended thinking 要求 tool_use 之前带有签名的 thinking 块，历史中没有保存这些块，
+ * 开启思考时历史中的工具调用以文本形式发送
+ */
+function toTextToolBlocks(messages: LLMMessage[]): LLMMessage[] {
+    return messages.map(message => ({
+        role: message.role,
+        content: toContentBlocks(message.content).map(block => block.type === 'text'
+            ? block
+            : { type: 'text' as const, text: formatContentBlockAsText(block) })
+    }));
+}
+
+function convertToAnthropicContent(block: LLMContentBlock, cache: boolean): MessageContent {
+    switch (block.type) {
+        case 'text':
+            return { type: "text", text: block.text, ...(cache && block.cache ? { cache_control: { type: "ephemeral" as const } } : {}) };
+        case 'tool_use':
+            return { type: "tool_use", id: block.id, name: block.name, input: block.input ?? {} };
+        case 'tool_result':
+            return { type: "tool_result", tool_use_id: block.toolUseId, content: block.content, is_error: block.isError || undefined };
+    }
+}
+
+/**
+ * 将结构化消息转换为 Anthropic 的 system 参数和 messages
+ * cache 为 true 时标记了 cache 的文本块带上 cache_control，作为 prompt 缓存断点
+ */
+function convertToAnthropicMessages(messages: LLMMessage[], cache: boolean): { system: string | MessageContent[]; messages: AnthropicMessage[] } {
+    const normalized = normalizeConversation(messages);
+    const systemBlocks = normalized
+        .filter(message => message.role === 'system')
+        .flatMap(message => toContentBlocks(message.content))
+        .map(block => convertToAnthropicContent(block, cache));
+
+    const anthropicMessages: AnthropicMessage[] = normalized
+        .filter((message): message is LLMMessage & { role: 'user' | 'assistant' } => message.role !== 'system')
+        .map(message => ({
+            role: message.role,
+            content: typeof message.content === 'string'
+                ? message.content
+                : message.content.map(block => convertToAnthropicContent(block, cache))
+        }));
+
+    return {
+        system: systemBlocks.length > 0 ? systemBlocks : DEFAULT_SYSTEM_PROMPT,
+        messages: anthropicMessages
+    };
+}
+
+/**
+ * 断点超出上限时保留 system 中的断点，消息中只保留最靠后的断点（缓存前缀最长）
+ */
+function limitCacheBreakpoints(system: string | MessageContent[], messages: AnthropicMessage[], available: number): void {
+    const systemBreakpoints = typeof system === 'string' ? [] : system.filter(block => block.cache_control);
+    const messageBreakpoints = messages.flatMap(message =>
+        typeof message.content === 'string' ? [] : message.content.filter(block => block.cache_control));
+
+    const keptSystem = Math.min(systemBreakpoints.length, available);
+    const keptMessages = Math.min(messageBreakpoints.length, available - keptSystem);
+    const dropped = [
+        ...systemBreakpoints.slice(keptSystem),
+        ...messageBreakpoints.slice(0, messageBreakpoints.length - keptMessages)
+    ];
+    for (const block of dropped) {
+        delete block.cache_control;
+    }
+}
+
+/**
+ * 合并 Anthropic 流式用量：message_start 携带输入 token，message_delta 携带累计输出 token
+ * 缓存读取和缓存写入的 token 不包含在 input_tokens 中，需要计入 prompt
+ */
+function mergeAnthropicUsage(base: LLMUsage | undefined, usage: any): LLMUsage {
+    const cacheRead = usage.cache_read_input_tokens ?? 0;
+    const cacheCreation = usage.cache_creation_input_tokens ?? 0;
+    const promptTokens = usage.input_tokens !== undefined && usage.input_tokens !== null
+        ? usage.input_tokens + cacheRead + cacheCreation
+        : base?.promptTokens || 0;
+    const completionTokens = usage.output_tokens ?? base?.completionTokens ?? 0;
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        cachedTokens: usage.cache_read_input_tokens ?? base?.cachedTokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? base?.cacheCreationTokens ?? 0,
+    };
+}
+
 export class AnthropicWrapper implements ILLM {
     model: SupportedModel;
     streaming: boolean;
@@ -88,6 +190,8 @@ export class AnthropicWrapper implements ILLM {
     maxTokens: number;
     toolChoice: ToolChoice;
     enableTokenEfficientTools: boolean;
+    promptCaching: boolean;
+    reasoning?: ReasoningOptions;
 
     constructor(
         model: SupportedModel, 
@@ -102,6 +206,7 @@ export class AnthropicWrapper implements ILLM {
         this.maxTokens = maxTokens;
         this.toolChoice = { type: "auto" };
         this.enableTokenEfficientTools = false;
+        this.promptCaching = true;
     }
 
     setParallelToolCall(enabled: boolean): void {
@@ -134,13 +239,27 @@ export class AnthropicWrapper implements ILLM {
         this.enableTokenEfficientTools = enabled;
     }
 
+    /**
+     * 开启 extended thinking，思考内容以 thinking-* chunk 输出
+     */
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.reasoning = reasoning && supportsReasoning(this.model) ? reasoning : undefined;
+    }
+
+    /**
+     * 开启时在工具定义末尾和标记了 cache 的文本块上放置 cache_control 断点，默认开启
+     */
+    setPromptCaching(enabled: boolean): void {
+        this.promptCaching = enabled;
+    }
+
     /**
      * 向后兼容的call方法 - 调用callAsync
      */
     async call(
         messages: string | AnthropicMessage[],
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
+        options?: LLMCallOptions
     ): Promise<{ text: string; toolCalls: ToolCallParams[]; stopReason?: string }> {
         const messageStr = typeof messages === 'string' 
             ? messages 
@@ -160,7 +279,18 @@ export class AnthropicWrapper implements ILLM {
     async* callStream(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
+        options?: LLMCallOptions
+    ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+        yield* this.callStreamMessages([{ role: "user", content: messages }], tools, options);
+    }
+
+    /**
+     * 结构化消息的流式调用：system 消息写入 system 参数，tool_use / tool_result 使用原生内容块
+     */
+    async* callStreamMessages(
+        messages: LLMMessage[],
+        tools: ToolCallDefinition[] = [],
+        options?: LLMCallOptions
     ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
         const stepIndex = options?.stepIndex;
         
@@ -176,8 +306,17 @@ export class AnthropicWrapper implements ILLM {
 
             const anthropicTools = tools.map(tool => convertToAnthropicTool(tool, false));
             
-            // Convert string messages to proper format
-            const formattedMessages: AnthropicMessage[] = [{ role: "user", content: messages }];
+            const thinkingBudget = this.reasoning ? Math.max(resolveThinkingBudget(this.reasoning), MIN_THINKING_BUDGET) : undefined;
+            const { system, messages: formattedMessages } = convertToAnthropicMessages(
+                thinkingBudget ? toTextToolBlocks(messages) : messages,
+                this.promptCaching
+            );
+
+            // 工具定义在每一步都相同，最后一个工具上的断点缓存全部工具定义
+            if (this.promptCaching && anthropicTools.length > 0) {
+                anthropicTools[anthropicTools.length - 1].cache_control = { type: "ephemeral" };
+            }
+            limitCacheBreakpoints(system, formattedMessages, MAX_CACHE_BREAKPOINTS - (this.promptCaching && anthropicTools.length > 0 ? 1 : 0));
             
             logger.debug(`Starting stream-based streaming response with Anthropic...`);
 
@@ -186,7 +325,7 @@ export class AnthropicWrapper implements ILLM {
                 model: this.model,
                 max_tokens: this.maxTokens,
                 temperature: this.temperature,
-                system: "You are a helpful assistant that provides accurate and useful responses.",
+                system,
                 messages: formattedMessages,
                 stream: true
             };
@@ -197,25 +336,46 @@ export class AnthropicWrapper implements ILLM {
                 requestConfig.tool_choice = this.toolChoice;
             }
 
+            // extended thinking 要求 temperature 为 1、max_tokens 大于思考预算，且只支持 auto / none 的 tool_choice
+            if (thinkingBudget) {
+                requestConfig.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+                requestConfig.temperature = 1;
+                requestConfig.max_tokens = Math.max(this.maxTokens, thinkingBudget + MIN_THINKING_BUDGET);
+                if (tools.length > 0 && (this.toolChoice.type === "any" || this.toolChoice.type === "tool")) {
+                    requestConfig.tool_choice = { type: "auto", disable_parallel_tool_use: this.toolChoice.disable_parallel_tool_use };
+                }
+            }
+
             // Add beta headers for token-efficient tools
             const headers: any = {};
             if (this.enableTokenEfficientTools && this.model.includes('claude-3-7-sonnet')) {
                 headers['anthropic-beta'] = 'token-efficient-tools-2025-02-19';
             }
 
-            const streamResponse = await anthropic.messages.create(requestConfig, { headers });
+            const streamResponse = await anthropic.messages.create(requestConfig, { headers, signal: options?.signal });
 
             let currentText = "";
             let currentTextBlockContent = "";
+            let usage: LLMUsage | undefined;
             const toolUsesInProgress: Record<string, any> = {};
+            const thinking = new ThinkingStream(stepIndex);
+            const thinkingBlocks = new Set<number>();
             const completedToolCalls: ToolCallParams[] = [];
             
             // Make sure streamResponse is treated as an AsyncIterable
             const streamIterator = streamResponse as unknown as AsyncIterable<any>;
             
             for await (const chunk of streamIterator) {
+                if (chunk.type === 'message_start' && chunk.message?.usage) {
+                    usage = mergeAnthropicUsage(usage, chunk.message.usage);
+                } else if (chunk.type === 'message_delta' && chunk.usage) {
+                    usage = mergeAnthropicUsage(usage, chunk.usage);
+                }
+
                 if (chunk.type === 'content_block_start') {
-                    if (chunk.content_block?.type === 'tool_use') {
+                    if (chunk.content_block?.type === 'thinking') {
+                        thinkingBlocks.add(chunk.index);
+                    } else if (chunk.content_block?.type === 'tool_use') {
                         const toolKey = chunk.index.toString();
                         toolUsesInProgress[toolKey] = {
                             id: chunk.content_block.id,
@@ -241,7 +401,9 @@ export class AnthropicWrapper implements ILLM {
                 } else if (chunk.type === 'content_block_delta') {
                     const delta = chunk.delta as any;
                     
-                    if (delta.type === 'text_delta') {
+                    if (delta.type === 'thinking_delta') {
+                        yield* thinking.delta(delta.thinking);
+                    } else if (delta.type === 'text_delta') {
                         // 发出文本增量
                         yield {
                             type: 'text-delta',
@@ -268,7 +430,10 @@ export class AnthropicWrapper implements ILLM {
                 } else if (chunk.type === 'content_block_stop') {
                     const toolKey = chunk.index.toString();
                     
-                    if (toolUsesInProgress[toolKey]) {
+                    if (thinkingBlocks.has(chunk.index)) {
+                        thinkingBlocks.delete(chunk.index);
+                        yield* thinking.complete();
+                    } else if (toolUsesInProgress[toolKey]) {
                         // 处理工具调用完成
                         const toolUse = toolUsesInProgress[toolKey];
                         
@@ -320,6 +485,10 @@ export class AnthropicWrapper implements ILLM {
                         };
                     }
                 } else if (chunk.type === 'message_stop') {
+                    if (usage) {
+                        yield { type: 'usage', usage, stepIndex };
+                    }
+
                     // 发出步骤完成事件
                     if (stepIndex !== undefined) {
                         yield {
@@ -327,7 +496,8 @@ export class AnthropicWrapper implements ILLM {
                             stepIndex,
                             result: {
                                 text: currentText,
-                                toolCalls: completedToolCalls
+                                toolCalls: completedToolCalls,
+                                usage
                             }
                         };
                     }
@@ -351,18 +521,55 @@ export class AnthropicWrapper implements ILLM {
         }
     }
 
+    /**
+     * 结构化输出：Anthropic 没有 JSON schema 模式，把 schema 作为唯一工具并强制调用，tool_use 的 input 即结果
+     * 强制 tool_choice 与 extended thinking 不兼容，结构化调用不开启思考
+     */
+    async callStructured<T>(
+        prompt: string,
+        schema: z.ZodType<T>,
+        options?: StructuredCallOptions
+    ): Promise<StructuredCallResult<T>> {
+        const anthropic = new Anthropic({
+            apiKey: process.env.ANTHROPIC_API_KEY,
+        });
+        const name = getSchemaName(options);
+        const tool: Anthropic.Tool | undefined = isObjectSchema(schema)
+            ? { name, description: options?.description || `Return the ${name} result`, input_schema: zodToJsonNostrict(schema) as Anthropic.Tool.InputSchema }
+            : undefined;
+
+        return callWithRepair(async currentPrompt => {
+            const response = await anthropic.messages.create({
+                model: this.model,
+                max_tokens: this.maxTokens,
+                temperature: this.temperature,
+                system: DEFAULT_SYSTEM_PROMPT,
+                messages: [{ role: "user", content: tool ? currentPrompt : currentPrompt + formatStructuredOutputInstructions(schema) }],
+                ...(tool ? { tools: [tool], tool_choice: { type: "tool" as const, name } } : {}),
+            }, { signal: options?.signal });
+            const usage = response.usage ? mergeAnthropicUsage(undefined, response.usage) : undefined;
+            const toolUse = response.content.find(block => block.type === "tool_use");
+            if (toolUse && toolUse.type === "tool_use") {
+                return { data: toolUse.input, usage };
+            }
+            const text = response.content.map(block => block.type === "text" ? block.text : '').join('');
+            return { text, usage };
+        }, prompt, schema, options);
+    }
+
     /**
      * 新的async非流式调用（必须实现）
      */
     async callAsync(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
-    ): Promise<{ text: string; toolCalls?: ToolCallParams[] }> {
+        options?: LLMCallOptions
+    ): Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }> {
         try {
             // 收集流式响应
             let text = '';
             let toolCalls: ToolCallParams[] = [];
+            let usage: LLMUsage | undefined;
             
             for await (const chunk of this.callStream(messages, tools, options)) {
                 switch (chunk.type) {
@@ -381,6 +588,9 @@ export class AnthropicWrapper implements ILLM {
                             }
                         }
                         break;
+                    case 'usage':
+                        usage = chunk.usage;
+                        break;
                     case 'error':
                         throw new Error(chunk.message);
                 }
@@ -388,7 +598,8 @@ export class AnthropicWrapper implements ILLM {
             
             return { 
                 text, 
-                toolCalls: toolCalls.length > 0 ? toolCalls : undefined 
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage
             };
             
         } catch (error) {
@@ -0,0 +1,249 @@
+import OpenAI from "openai";
+import { GoogleGenAI } from "@google/genai";
+import { EmbeddingConfig, EmbeddingModelType, IEmbeddingProvider } from "../interfaces/index.js";
+
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536,
+};
+
+const GEMINI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+    'text-embedding-004': 768,
+    'gemini-embedding-001': 3072,
+};
+
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * 按 batchSize 顺序分批调用，保持输出顺序与输入一致
+ */
+async function embedInBatches(
+    texts: string[],
+    batchSize: number,
+    embedBatch: (batch: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize);
+        const vectors = await embedBatch(batch);
+        if (vectors.length !== batch.length) {
+            throw new Error(`Embedding provider returned ${vectors.length} vectors for ${batch.length} inputs`);
+        }
+        embeddings.push(...vectors);
+    }
+    return embeddings;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+        throw new Error(`Embedding dimensions do not match: ${a.length} vs ${b.length}`);
+    }
+
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dotProduct += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * OpenAI Embeddings API（也适用于兼容 /embeddings 的端点，通过 baseURL 指定）
+ */
+export class OpenAIEmbeddingProvider implements IEmbeddingProvider {
+    readonly model: string;
+    readonly dimensions: number;
+    private batchSize: number;
+
+    constructor(private config: EmbeddingConfig = {}) {
+        this.model = config.modelName || 'text-embedding-3-small';
+        this.dimensions = config.dimensions || OPENAI_EMBEDDING_DIMENSIONS[this.model] || 1536;
+        this.batchSize = config.batchSize || 512;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const openai = new OpenAI({
+            apiKey: this.config.apiKey || process.env.OPENAI_API_KEY,
+            baseURL: this.config.baseURL,
+        });
+        return embedInBatches(texts, this.batchSize, async batch => {
+            const response = await openai.embeddings.create({
+                model: this.model,
+                input: batch,
+                // 仅在显式配置时传 dimensions，ada-002 不支持该参数
+                ...(this.config.dimensions ? { dimensions: this.config.dimensions } : {}),
+            });
+            return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        });
+    }
+}
+
+/**
+ * Gemini embedContent
+ */
+export class GeminiEmbeddingProvider implements IEmbeddingProvider {
+    readonly model: string;
+    readonly dimensions: number;
+    private batchSize: number;
+
+    constructor(private config: EmbeddingConfig = {}) {
+        this.model = config.modelName || 'text-embedding-004';
+        this.dimensions = config.dimensions || GEMINI_EMBEDDING_DIMENSIONS[this.model] || 768;
+        // embedContent 单次最多 100 条
+        this.batchSize = Math.min(config.batchSize || 100, 100);
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+        const genAI = new GoogleGenAI({
+            apiKey: this.config.apiKey || process.env.GEMINI_API_KEY || "",
+        });
+        return embedInBatches(texts, this.batchSize, async batch => {
+            const response = await genAI.models.embedContent({
+                model: this.model,
+                contents: batch,
+                config: this.config.dimensions ? { outputDimensionality: this.config.dimensions } : undefined,
+            });
+            return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+        });
+    }
+}
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * 切分为特征：普通单词 + 相邻词二元组；中日韩文本没有空格，按单字和相邻字二元组切分
+ */
+function tokenize(text: string): string[] {
+    const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    const features: string[] = [];
+    let previous: string | undefined;
+    for (const word of words) {
+        if (CJK_PATTERN.test(word)) {
+            const chars = Array.from(word);
+            chars.forEach((char, index) => {
+                features.push(char);
+                if (index > 0) features.push(chars[index - 1] + char);
+            });
+            previous = undefined;
+            continue;
+        }
+        features.push(word);
+        if (previous) features.push(`${previous} ${word}`);
+        previous = word;
+    }
+    return features;
+}
+
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * 本地离线嵌入：特征哈希 + 对数词频，L2 归一化
+ * 不依赖网络和模型文件，适合隔离网络环境下的路由与检索；语义能力弱于模型嵌入，主要反映词汇重叠
+ */
+export class LocalEmbeddingProvider implements IEmbeddingProvider {
+    readonly model = 'local-hashing';
+    readonly dimensions: number;
+
+    constructor(config: EmbeddingConfig = {}) {
+        this.dimensions = config.dimensions || DEFAULT_LOCAL_DIMENSIONS;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedText(text));
+    }
+
+    private embedText(text: string): number[] {
+        const counts = new Map<string, number>();
+        for (const feature of tokenize(text)) {
+            counts.set(feature, (counts.get(feature) || 0) + 1);
+        }
+
+        const vector = new Array<number>(this.dimensions).fill(0);
+        for (const [feature, count] of counts) {
+            const hash = fnv1a(feature);
+            // 用独立的哈希位决定符号，抵消哈希冲突带来的偏差
+            const sign = fnv1a(`${feature}#`) & 1 ? -1 : 1;
+            vector[hash % this.dimensions] += sign * (1 + Math.log(count));
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+}
+
+/**
+ * 为任意嵌入提供者加上 LRU 缓存，只对未命中的文本发起请求
+ */
+export class CachedEmbeddingProvider implements IEmbeddingProvider {
+    private cache = new Map<string, number[]>();
+
+    constructor(private provider: IEmbeddingProvider, private maxEntries: number = DEFAULT_CACHE_SIZE) {}
+
+    get model(): string {
+        return this.provider.model;
+    }
+
+    get dimensions(): number {
+        return this.provider.dimensions;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const misses = [...new Set(texts.filter(text => !this.cache.has(text)))];
+        const fresh = new Map<string, number[]>();
+        if (misses.length > 0) {
+            const embeddings = await this.provider.embed(misses);
+            misses.forEach((text, index) => fresh.set(text, embeddings[index]));
+        }
+        const result = texts.map(text => fresh.get(text) ?? this.touch(text));
+        fresh.forEach((embedding, text) => this.remember(text, embedding));
+        return result;
+    }
+
+    /**
+     * 读取命中项并重新插入，更新 LRU 顺序
+     */
+    private touch(text: string): number[] {
+        const embedding = this.cache.get(text)!;
+        this.cache.delete(text);
+        this.cache.set(text, embedding);
+        return embedding;
+    }
+
+    private remember(text: string, embedding: number[]): void {
+        this.cache.set(text, embedding);
+        while (this.cache.size > this.maxEntries) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+    }
+}
+
+export function createEmbeddingProvider(type: EmbeddingModelType, config: EmbeddingConfig = {}): IEmbeddingProvider {
+    switch (type) {
+        case 'openai':
+            return new OpenAIEmbeddingProvider(config);
+        case 'google':
+            return new GeminiEmbeddingProvider(config);
+        case 'local':
+            return new LocalEmbeddingProvider(config);
+        default:
+            throw new Error(`Unsupported embedding model type: ${type}`);
+    }
+}
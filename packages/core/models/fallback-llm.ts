@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { ILLM, LLMCallOptions, LLMMessage, LLMStreamChunk, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition } from "../interfaces/index.js";
+import { SupportedModel } from "./models-list.js";
+import { LLMCallResult } from "./recording-llm.js";
+import { flattenLLMMessages } from "./llm-messages.js";
+import { callStructured } from "./structured-output.js";
+import { AbortError, sleep, throwIfAborted } from "../utils/abort.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * 切换到下一个模型时的通知
+ */
+export interface ModelFallbackInfo {
+    fromModel: string;
+    toModel: string;
+    error: Error;
+    stepIndex?: number;
+}
+
+export interface FallbackLLMOptions {
+    retriesPerModel?: number;       // 切换前在当前模型上的重试次数，默认 2
+    baseDelayMs?: number;           // 重试的指数退避初始等待时间，默认 1000
+    maxDelayMs?: number;            // 单次等待上限，默认 30000
+    cooldownMs?: number;            // 失败的模型在此时间内被跳过，默认 60000
+    shouldFallback?: (error: Error) => boolean;  // 默认为 isFallbackError
+    onFallback?: (info: ModelFallbackInfo) => void;
+}
+
+const FALLBACK_ERROR_PATTERN = /rate.limit|too many requests|\b429\b|overloaded|\b5\d\d\b|internal server error|bad gateway|service unavailable|gateway timeout/i;
+
+/**
+ * 判断错误是否应切换模型：限流、过载和 5xx
+ * SDK 错误带有 HTTP status 时按 status 判断，否则按错误信息匹配
+ */
+export function isFallbackError(error: Error): boolean {
+    if (error instanceof AbortError || error.name === 'AbortError') {
+        return false;
+    }
+    const status = (error as any).status ?? (error as any).statusCode;
+    if (typeof status === 'number') {
+        return status === 429 || status >= 500;
+    }
+    return FALLBACK_ERROR_PATTERN.test(error.message);
+}
+
+// 模型实际输出的内容；step-start、usage 等在请求前或结束时发出的 chunk 不算
+const CONTENT_CHUNK_TYPES = new Set<LLMStreamChunk['type']>([
+    'text-delta', 'text-done',
+    'tool-call-start', 'tool-call-done', 'tool-call-error',
+    'thinking-start', 'thinking-progress', 'thinking-complete'
+]);
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * 模型降级链：主模型限流、过载或 5xx 且重试无效时，同一次调用在下一个模型上继续
+ * model 返回最近一次实际完成调用的模型，用于成本统计和步骤记录
+ * 流式调用已经输出内容后出错不会切换，避免重复输出；输出内容前的 step-start、usage 先扣下，切换模型时丢弃
+ */
+export class FallbackLLM implements ILLM {
+    private activeIndex = 0;
+    private unavailableUntil = new Map<number, number>();
+    private options: Required<Omit<FallbackLLMOptions, 'onFallback'>> & Pick<FallbackLLMOptions, 'onFallback'>;
+
+    constructor(private models: ILLM[], options: FallbackLLMOptions = {}) {
+        if (models.length === 0) {
+            throw new Error('FallbackLLM requires at least one model');
+        }
+        this.options = {
+            retriesPerModel: options.retriesPerModel ?? 2,
+            baseDelayMs: options.baseDelayMs ?? 1000,
+            maxDelayMs: options.maxDelayMs ?? 30000,
+            cooldownMs: options.cooldownMs ?? 60000,
+            shouldFallback: options.shouldFallback ?? isFallbackError,
+            onFallback: options.onFallback
+        };
+    }
+
+    private get active(): ILLM { return this.models[this.activeIndex]; }
+
+    get model(): SupportedModel { return this.active.model; }
+    get streaming(): boolean { return this.active.streaming; }
+    get parallelToolCall(): boolean { return this.active.parallelToolCall; }
+    set parallelToolCall(enabled: boolean) { this.setParallelToolCall(enabled); }
+    get temperature(): number { return this.active.temperature; }
+    get maxTokens(): number { return this.active.maxTokens; }
+
+    setParallelToolCall(enabled: boolean): void {
+        for (const llm of this.models) {
+            if (llm.setParallelToolCall) {
+                llm.setParallelToolCall(enabled);
+            } else {
+                llm.parallelToolCall = enabled;
+            }
+        }
+    }
+
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        for (const llm of this.models) {
+            llm.setReasoning?.(reasoning);
+        }
+    }
+
+    /**
+     * 降级链中的模型名，按优先级排列
+     */
+    get chain(): string[] {
+        return this.models.map(llm => llm.model);
+    }
+
+    callStream(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        return this.streamWithFallback(llm => llm.callStream(messages, tools, options), options);
+    }
+
+    /**
+     * 不支持结构化消息的模型收到展开后的字符串
+     */
+    callStreamMessages(messages: LLMMessage[], tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        return this.streamWithFallback(llm => llm.callStreamMessages
+            ? llm.callStreamMessages(messages, tools, options)
+            : llm.callStream(flattenLLMMessages(messages), tools, options), options);
+    }
+
+    private async *streamWithFallback(
+        invoke: (llm: ILLM) => AsyncIterable<LLMStreamChunk>,
+        options?: LLMCallOptions
+    ): AsyncIterable<LLMStreamChunk> {
+        let lastError: Error | undefined;
+        const order = this.callOrder();
+
+        for (let position = 0; position < order.length; position++) {
+            const index = order[position];
+            for (let attempt = 0; attempt <= this.options.retriesPerModel; attempt++) {
+                throwIfAborted(options?.signal);
+                let committed = false;
+                const held: LLMStreamChunk[] = [];
+                let errorChunk: LLMStreamChunk | undefined;
+                try {
+                    this.activeIndex = index;
+                    for await (const chunk of invoke(this.models[index])) {
+                        if (committed) {
+                            yield chunk;
+                            continue;
+                        }
+                        // 还没有输出内容时先扣下 error chunk，切换模型后调用方不会看到它
+                        if (chunk.type === 'error') {
+                            errorChunk = chunk;
+                            continue;
+                        }
+                        if (!CONTENT_CHUNK_TYPES.has(chunk.type)) {
+                            held.push(chunk);
+                            continue;
+                        }
+                        committed = true;
+                        yield* held.splice(0);
+                        yield chunk;
+                    }
+                    if (errorChunk?.type !== 'error') {
+                        yield* held;
+                        return;
+                    }
+                    throw new Error(errorChunk.message);
+                } catch (error) {
+                    lastError = toError(error);
+                    if (committed || !this.options.shouldFallback(lastError)) {
+                        yield* held;
+                        if (errorChunk) yield errorChunk;
+                        throw lastError;
+                    }
+                }
+                await this.beforeNextAttempt(index, attempt, position, order, lastError, options);
+            }
+        }
+
+        throw lastError;
+    }
+
+    callAsync(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): Promise<LLMCallResult> {
+        return this.callWithFallback(llm => llm.callAsync(messages, tools, options), options);
+    }
+
+    /**
+     * 没有实现 callStructured 的模型通过 prompt 描述 schema 并解析文本
+     */
+    callStructured<T>(prompt: string, schema: z.ZodType<T>, options?: StructuredCallOptions): Promise<StructuredCallResult<T>> {
+        return this.callWithFallback(llm => callStructured(llm, prompt, schema, options), options);
+    }
+
+    private async callWithFallback<R>(invoke: (llm: ILLM) => Promise<R>, options?: LLMCallOptions): Promise<R> {
+        let lastError: Error | undefined;
+        const order = this.callOrder();
+
+        for (let position = 0; position < order.length; position++) {
+            const index = order[position];
+            for (let attempt = 0; attempt <= this.options.retriesPerModel; attempt++) {
+                throwIfAborted(options?.signal);
+                try {
+                    this.activeIndex = index;
+                    return await invoke(this.models[index]);
+                } catch (error) {
+                    lastError = toError(error);
+                    if (!this.options.shouldFallback(lastError)) {
+                        throw lastError;
+                    }
+                }
+                await this.beforeNextAttempt(index, attempt, position, order, lastError, options);
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * 本次调用尝试模型的顺序：跳过冷却中的模型，全部在冷却中时按原顺序全部尝试
+     */
+    private callOrder(): number[] {
+        const now = Date.now();
+        const all = this.models.map((_, index) => index);
+        const available = all.filter(index => (this.unavailableUntil.get(index) ?? 0) <= now);
+        return available.length > 0 ? available : all;
+    }
+
+    /**
+     * 当前模型还有重试次数时退避等待；否则标记冷却并通知切换到下一个模型
+     */
+    private async beforeNextAttempt(
+        index: number,
+        attempt: number,
+        position: number,
+        order: number[],
+        error: Error,
+        options?: LLMCallOptions
+    ): Promise<void> {
+        const model = this.models[index].model;
+        if (attempt < this.options.retriesPerModel) {
+            const delay = Math.min(Math.pow(2, attempt) * this.options.baseDelayMs, this.options.maxDelayMs);
+            logger.warn(`⏳ ${model} failed (${error.message}), retrying (${attempt + 1}/${this.options.retriesPerModel}) in ${delay}ms`);
+            await sleep(delay, options?.signal);
+            return;
+        }
+
+        this.unavailableUntil.set(index, Date.now() + this.options.cooldownMs);
+        const next = order[position + 1];
+        if (next === undefined) {
+            logger.error(`❌ All models in the fallback chain failed, last error from ${model}: ${error.message}`);
+            return;
+        }
+
+        const toModel = this.models[next].model;
+        logger.warn(`🔀 ${model} unavailable (${error.message}), falling back to ${toModel}`);
+        this.options.onFallback?.({ fromModel: model, toModel, error, stepIndex: options?.stepIndex });
+    }
+}
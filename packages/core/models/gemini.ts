@@ -1,10 +1,13 @@
-import { GoogleGenAI, FunctionCallingConfigMode, Type } from '@google/genai';
+import { GoogleGenAI, FunctionCallingConfigMode, Type, Content, Part } from '@google/genai';
 import { z } from "zod";
-import { ILLM, LLMModel, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { ILLM, LLMCallOptions, LLMContentBlock, LLMMessage, LLMModel, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
 import dotenv from "dotenv";
 import { zodToJsonNostrict, zodToJsonStrict } from "../utils/jsonHelper.js";
 import { SupportedModel } from '../models/index.js';
 import { logger } from '../utils/logger.js';
+import { getMessageText, normalizeConversation, toContentBlocks } from './llm-messages.js';
+import { resolveThinkingBudget, supportsReasoning, ThinkingStream } from './reasoning.js';
+import { callWithRepair, formatStructuredOutputInstructions, isObjectSchema } from './structured-output.js';
 
 dotenv.config();
 
@@ -65,12 +68,16 @@ function convertToGeminiTool(tool: ToolCallDefinition, strict: boolean = false):
     return {
         name: tool.name,
         description: tool.description || "",
-        parameters: {
-            type: Type.OBJECT,
-            description: parametersSchema.description || "",
-            properties: convertPropertiesToGeminiFormat(parametersSchema.properties || {}),
-            required: parametersSchema.required || []
-        }
+        parameters: convertObjectSchemaToGeminiFormat(parametersSchema)
+    };
+}
+
+function convertObjectSchemaToGeminiFormat(jsonSchema: Record<string, any>): any {
+    return {
+        type: Type.OBJECT,
+        description: jsonSchema.description || "",
+        properties: convertPropertiesToGeminiFormat(jsonSchema.properties || {}),
+        required: jsonSchema.required || []
     };
 }
 
@@ -110,12 +117,61 @@ function convertPropertiesToGeminiFormat(properties: Record<string, any>): Recor
     return geminiProperties;
 }
 
+function toLLMUsage(usage: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number; totalTokenCount?: number; cachedContentTokenCount?: number }): LLMUsage {
+    // thinking 模型的思考 token 也计入输出
+    const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+    return {
+        promptTokens: usage.promptTokenCount || 0,
+        completionTokens,
+        totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + completionTokens,
+        cachedTokens: usage.cachedContentTokenCount || 0,
+    };
+}
+
+function convertToGeminiPart(block: LLMContentBlock): Part {
+    switch (block.type) {
+        case 'text':
+            return { text: block.text };
+        case 'tool_use':
+            return { functionCall: { id: block.id, name: block.name, args: block.input ?? {} } };
+        case 'tool_result':
+            return {
+                functionResponse: {
+                    id: block.toolUseId,
+                    name: block.name,
+                    response: block.isError ? { error: block.content } : { output: block.content }
+                }
+            };
+    }
+}
+
+/**
+ * 将结构化消息转换为 Gemini 的 systemInstruction 和 contents（assistant 对应 model 角色）
+ */
+function convertToGeminiContents(messages: LLMMessage[]): { systemInstruction?: string; contents: Content[] } {
+    const normalized = normalizeConversation(messages);
+    const systemText = normalized
+        .filter(message => message.role === 'system')
+        .map(message => getMessageText(message.content))
+        .join('\n\n');
+
+    const contents: Content[] = normalized
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: toContentBlocks(message.content).map(convertToGeminiPart)
+        }));
+
+    return { systemInstruction: systemText || undefined, contents };
+}
+
 export class GeminiWrapper implements ILLM {
     model: SupportedModel;
     streaming: boolean;
     parallelToolCall: boolean;
     temperature: number;
     maxTokens: number;
+    reasoning?: ReasoningOptions;
     
     constructor(model: SupportedModel, streaming: boolean, temperature: number, maxTokens: number) {
         this.model = model;
@@ -129,8 +185,15 @@ export class GeminiWrapper implements ILLM {
         this.parallelToolCall = enabled;
         logger.info(`Parallel tool calls ${enabled ? 'enabled' : 'disabled'} for Gemini model`);
     }
+
+    /**
+     * Gemini 2.5 的 thinkingConfig，思考摘要（thought part）以 thinking-* chunk 输出
+     */
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.reasoning = reasoning && supportsReasoning(this.model) ? reasoning : undefined;
+    }
     
-    async call(messages: string, tools: ToolCallDefinition[] = [], options?: { stepIndex?: number }): Promise<{text: string, toolCalls: ToolCallParams[]}> {
+    async call(messages: string, tools: ToolCallDefinition[] = [], options?: LLMCallOptions): Promise<{text: string, toolCalls: ToolCallParams[]}> {
         try {
             const genAI = new GoogleGenAI({
                 apiKey: process.env.GEMINI_API_KEY,
@@ -208,7 +271,28 @@ export class GeminiWrapper implements ILLM {
     async* callStream(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
+        options?: LLMCallOptions
+    ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+        yield* this.streamContents(messages || "", undefined, tools, options);
+    }
+
+    /**
+     * 结构化消息的流式调用：system 消息写入 systemInstruction，tool_use / tool_result 转为 functionCall / functionResponse
+     */
+    async* callStreamMessages(
+        messages: LLMMessage[],
+        tools: ToolCallDefinition[] = [],
+        options?: LLMCallOptions
+    ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+        const { systemInstruction, contents } = convertToGeminiContents(messages);
+        yield* this.streamContents(contents, systemInstruction, tools, options);
+    }
+
+    private async* streamContents(
+        contents: string | Content[],
+        systemInstruction: string | undefined,
+        tools: ToolCallDefinition[],
+        options?: LLMCallOptions
     ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
         const stepIndex = options?.stepIndex;
         
@@ -235,8 +319,9 @@ export class GeminiWrapper implements ILLM {
             // Call the streaming model
             const response = await genAI.models.generateContentStream({
                 model: this.model,
-                contents: messages || "",
+                contents,
                 config: {
+                    systemInstruction,
                     temperature: this.temperature,
                     maxOutputTokens: this.maxTokens,
                     toolConfig: {
@@ -246,15 +331,36 @@ export class GeminiWrapper implements ILLM {
                     },
                     tools: tools.length > 0 ? [{
                         functionDeclarations: functionDeclarations
-                    }] : undefined
+                    }] : undefined,
+                    thinkingConfig: this.reasoning
+                        ? { thinkingBudget: resolveThinkingBudget(this.reasoning), includeThoughts: true }
+                        : undefined,
+                    abortSignal: options?.signal
                 }
             });
             
             let currentText = '';
+            const thinking = new ThinkingStream(stepIndex);
             const toolCalls: ToolCallParams[] = [];
+            let usage: LLMUsage | undefined;
             
             // Process streaming response
             for await (const chunk of response) {
+                // usageMetadata 是累计值，以最后一个 chunk 为准
+                if (chunk.usageMetadata) {
+                    usage = toLLMUsage(chunk.usageMetadata);
+                }
+
+                // chunk.text 不包含 thought part，思考摘要单独输出
+                for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+                    if (part.thought && part.text) {
+                        yield* thinking.delta(part.text);
+                    }
+                }
+                if (chunk.text || chunk.functionCalls?.length) {
+                    yield* thinking.complete();
+                }
+
                 // Handle text content
                 if (chunk.text) {
                     // 发出文本增量
@@ -303,6 +409,8 @@ export class GeminiWrapper implements ILLM {
                     }
                 }
             }
+
+            yield* thinking.complete();
             
             // 发出完整文本事件
             if (currentText) {
@@ -314,6 +422,10 @@ export class GeminiWrapper implements ILLM {
                 };
             }
             
+            if (usage) {
+                yield { type: 'usage', usage, stepIndex };
+            }
+            
             // 发出步骤完成事件
             if (stepIndex !== undefined) {
                 yield {
@@ -321,7 +433,8 @@ export class GeminiWrapper implements ILLM {
                     stepIndex,
                     result: {
                         text: currentText,
-                        toolCalls
+                        toolCalls,
+                        usage
                     }
                 };
             }
@@ -338,18 +451,51 @@ export class GeminiWrapper implements ILLM {
         }
     }
     
+    /**
+     * 结构化输出：responseMimeType 为 application/json 并传入 responseSchema
+     */
+    async callStructured<T>(
+        prompt: string,
+        schema: z.ZodType<T>,
+        options?: StructuredCallOptions
+    ): Promise<StructuredCallResult<T>> {
+        const genAI = new GoogleGenAI({
+            apiKey: process.env.GEMINI_API_KEY,
+        });
+        const responseSchema = isObjectSchema(schema) ? convertObjectSchemaToGeminiFormat(zodToJsonNostrict(schema)) : undefined;
+
+        return callWithRepair(async currentPrompt => {
+            const response = await genAI.models.generateContent({
+                model: this.model,
+                contents: responseSchema ? currentPrompt : currentPrompt + formatStructuredOutputInstructions(schema),
+                config: {
+                    temperature: this.temperature,
+                    maxOutputTokens: this.maxTokens,
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                    abortSignal: options?.signal,
+                }
+            });
+            return {
+                text: response.text ?? '',
+                usage: response.usageMetadata ? toLLMUsage(response.usageMetadata) : undefined,
+            };
+        }, prompt, schema, options);
+    }
+    
     /**
      * 新的async非流式调用（必须实现）
      */
     async callAsync(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
-    ): Promise<{ text: string; toolCalls?: ToolCallParams[] }> {
+        options?: LLMCallOptions
+    ): Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }> {
         try {
             // 收集流式响应
             let text = '';
             let toolCalls: ToolCallParams[] = [];
+            let usage: LLMUsage | undefined;
             
             for await (const chunk of this.callStream(messages, tools, options)) {
                 switch (chunk.type) {
@@ -359,6 +505,9 @@ export class GeminiWrapper implements ILLM {
                     case 'tool-call-done':
                         toolCalls.push(chunk.toolCall);
                         break;
+                    case 'usage':
+                        usage = chunk.usage;
+                        break;
                     case 'error':
                         throw chunk.message;
                 }
@@ -366,7 +515,8 @@ export class GeminiWrapper implements ILLM {
             
             return { 
                 text, 
-                toolCalls: toolCalls.length > 0 ? toolCalls : undefined 
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage
             };
             
         } catch (error) {
@@ -3,4 +3,14 @@ export { OpenAIChatWrapper } from './openai-chat.js';
 export { AnthropicWrapper } from './anthropic.js';
 export { GeminiWrapper } from './gemini.js';
 
-export * from './models-list.js';
\ No newline at end of file
+export * from './models-list.js';
+export * from './model-registry.js';
+export * from './recording-llm.js';
+export * from './openai-compatible.js';
+export * from './provider-registry.js';
+export * from './fallback-llm.js';
+export * from './llm-messages.js';
+export * from './reasoning.js';
+export * from './structured-output.js';
+export * from './text-tool-calls.js';
+export * from './embeddings.js';
@@ -0,0 +1,82 @@
+import { LLMContentBlock, LLMMessage } from "../interfaces/index.js";
+
+/**
+ * 结构化消息的公共转换，供各 wrapper 和不支持 callStreamMessages 的调用方使用
+ */
+
+export function toContentBlocks(content: LLMMessage['content']): LLMContentBlock[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * 消息中所有文本块拼接后的文本
+ */
+export function getMessageText(content: LLMMessage['content']): string {
+    if (typeof content === 'string') return content;
+    return content
+        .filter((block): block is Extract<LLMContentBlock, { type: 'text' }> => block.type === 'text')
+        .map(block => block.text)
+        .join('\n\n');
+}
+
+/**
+ * 以文本工具调用协议表示一次工具调用：string 参数原样写入，其他类型写为 JSON
+ */
+export function formatTextToolCall(name: string, input: Record<string, any> | undefined): string {
+    const params = Object.entries(input ?? {}).map(([key, value]) =>
+        `<param name="${key}">${typeof value === 'string' ? value : JSON.stringify(value)}</param>`);
+    return [`<tool_call name="${name}">`, ...params, '</tool_call>'].join('\n');
+}
+
+/**
+ * 工具调用以 <tool_call name="..."> / <tool_result> 文本表示，用于不支持原生工具消息的模型
+ * 与 TextToolCallLLM 要求模型输出的格式一致，历史中的调用可以作为示例
+ */
+export function formatContentBlockAsText(block: LLMContentBlock): string {
+    switch (block.type) {
+        case 'text':
+            return block.text;
+        case 'tool_use':
+            return formatTextToolCall(block.name, block.input);
+        case 'tool_result':
+            return `<tool_result name="${block.name}" call_id="${block.toolUseId}"${block.isError ? ' status="failed"' : ''}>\n${block.content}\n</tool_result>`;
+    }
+}
+
+/**
+ * 将结构化消息展开为单个字符串，用于只实现了 callStream 的 LLM 和 prompt 记录
+ * 单条 user 消息展开后与原始字符串完全一致
+ */
+export function flattenLLMMessages(messages: LLMMessage[]): string {
+    if (messages.length === 1 && messages[0].role === 'user' && typeof messages[0].content === 'string') {
+        return messages[0].content;
+    }
+    return messages
+        .map(message => toContentBlocks(message.content).map(formatContentBlockAsText).join('\n\n'))
+        .filter(text => text.length > 0)
+        .join('\n\n');
+}
+
+/**
+ * 合并相邻的同角色消息，并保证对话以 user 消息开始
+ * Anthropic 和 Gemini 要求 user / assistant 交替出现；system 消息原样保留在前面
+ */
+export function normalizeConversation(messages: LLMMessage[]): LLMMessage[] {
+    const system = messages.filter(message => message.role === 'system');
+    const conversation: LLMMessage[] = [];
+
+    for (const message of messages) {
+        if (message.role === 'system') continue;
+        const previous = conversation[conversation.length - 1];
+        if (previous && previous.role === message.role) {
+            previous.content = [...toContentBlocks(previous.content), ...toContentBlocks(message.content)];
+        } else {
+            conversation.push({ role: message.role, content: message.content });
+        }
+    }
+
+    if (conversation.length > 0 && conversation[0].role !== 'user') {
+        conversation.unshift({ role: 'user', content: '(continuing the conversation)' });
+    }
+    return [...system, ...conversation];
+}
@@ -0,0 +1,116 @@
+import { LLMUsage } from "../interfaces/index.js";
+import { ANTHROPIC_MODELS, DEEPSEEK_MODELS, GOOGLE_MODELS, OPENAI_MODELS } from "./models-list.js";
+
+/**
+ * 模型价格，单位：美元 / 百万 token
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+    cachedInput?: number;        // 缓存命中的输入价格，未设置时按 input 计费
+    cacheWriteInput?: number;    // 写入缓存的输入价格，未设置时按 input 计费
+}
+
+/**
+ * 模型能力与价格信息
+ */
+export interface ModelInfo {
+    contextWindow: number;
+    maxOutputTokens: number;
+    pricing: ModelPricing;
+    capabilities?: {
+        tools?: boolean;
+        vision?: boolean;
+        reasoning?: boolean;
+        promptCaching?: boolean;
+    };
+}
+
+const TOOLS_VISION = { tools: true, vision: true };
+
+// 价格参考各厂商公开价格表，如有变动可通过 registerModelInfo 覆盖
+const MODEL_REGISTRY = new Map<string, ModelInfo>([
+    // OpenAI
+    [OPENAI_MODELS.GPT_4O, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10, cachedInput: 1.25 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4O_2024_11_20, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10, cachedInput: 1.25 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4O_2024_08_06, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10, cachedInput: 1.25 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4O_2024_05_13, { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 5, output: 15 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4O_MINI, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4O_MINI_2024_07_18, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.CHATGPT_4O_LATEST, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 5, output: 15 }, capabilities: { vision: true } }],
+    [OPENAI_MODELS.GPT_4_TURBO, { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_TURBO_2024_04_09, { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4, { contextWindow: 8192, maxOutputTokens: 8192, pricing: { input: 30, output: 60 }, capabilities: { tools: true } }],
+    [OPENAI_MODELS.GPT_4_0613, { contextWindow: 8192, maxOutputTokens: 8192, pricing: { input: 30, output: 60 }, capabilities: { tools: true } }],
+    [OPENAI_MODELS.GPT_4_5_PREVIEW, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 75, output: 150, cachedInput: 37.5 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_5_PREVIEW_2025_02_27, { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 75, output: 150, cachedInput: 37.5 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 2, output: 8, cachedInput: 0.5 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1_2025_04_14, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 2, output: 8, cachedInput: 0.5 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1_MINI, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1_MINI_2025_04_14, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1_NANO, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }, capabilities: TOOLS_VISION }],
+    [OPENAI_MODELS.GPT_4_1_NANO_2025_04_14, { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }, capabilities: TOOLS_VISION }],
+    ["o3", { contextWindow: 200000, maxOutputTokens: 100000, pricing: { input: 2, output: 8, cachedInput: 0.5 }, capabilities: { tools: true, vision: true, reasoning: true } }],
+    ["o3-mini", { contextWindow: 200000, maxOutputTokens: 100000, pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 }, capabilities: { tools: true, reasoning: true } }],
+    [OPENAI_MODELS.O3_PRO, { contextWindow: 200000, maxOutputTokens: 100000, pricing: { input: 20, output: 80 }, capabilities: { tools: true, vision: true, reasoning: true } }],
+
+    // Anthropic
+    [ANTHROPIC_MODELS.CLAUDE_OPUS_4_20250514, { contextWindow: 200000, maxOutputTokens: 32000, pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWriteInput: 18.75 }, capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_SONNET_4_20250514, { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_7_SONNET_20250219, { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_7_SONNET_LATEST, { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, reasoning: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_5_SONNET_LATEST, { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_5_SONNET_V2_20241022, { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_5_SONNET_V1_20240620, { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWriteInput: 3.75 }, capabilities: { tools: true, vision: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_5_HAIKU_LATEST, { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 0.8, output: 4, cachedInput: 0.08, cacheWriteInput: 1 }, capabilities: { tools: true, promptCaching: true } }],
+    [ANTHROPIC_MODELS.CLAUDE_3_OPUS_LATEST, { contextWindow: 200000, maxOutputTokens: 4096, pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWriteInput: 18.75 }, capabilities: { tools: true, vision: true, promptCaching: true } }],
+
+    // DeepSeek
+    [DEEPSEEK_MODELS.CHAT, { contextWindow: 65536, maxOutputTokens: 8192, pricing: { input: 0.27, output: 1.1, cachedInput: 0.07 }, capabilities: { tools: true, promptCaching: true } }],
+    [DEEPSEEK_MODELS.REASONER, { contextWindow: 65536, maxOutputTokens: 32768, pricing: { input: 0.55, output: 2.19, cachedInput: 0.14 }, capabilities: { reasoning: true, promptCaching: true } }],
+
+    // Google
+    [GOOGLE_MODELS.GEMINI_2_5_PRO_PREVIEW_05_06, { contextWindow: 1048576, maxOutputTokens: 65536, pricing: { input: 1.25, output: 10, cachedInput: 0.31 }, capabilities: { tools: true, vision: true, reasoning: true } }],
+    [GOOGLE_MODELS.GEMINI_2_5_FLASH_PREVIEW_05_20, { contextWindow: 1048576, maxOutputTokens: 65536, pricing: { input: 0.15, output: 0.6, cachedInput: 0.0375 }, capabilities: { tools: true, vision: true, reasoning: true } }],
+    [GOOGLE_MODELS.GEMINI_2_0_FLASH, { contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }, capabilities: TOOLS_VISION }],
+    [GOOGLE_MODELS.GEMINI_2_0_FLASH_001, { contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }, capabilities: TOOLS_VISION }],
+    [GOOGLE_MODELS.GEMINI_2_0_FLASH_LITE, { contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.075, output: 0.3 }, capabilities: TOOLS_VISION }],
+    [GOOGLE_MODELS.GEMINI_1_5_PRO, { contextWindow: 2097152, maxOutputTokens: 8192, pricing: { input: 1.25, output: 5, cachedInput: 0.3125 }, capabilities: TOOLS_VISION }],
+    [GOOGLE_MODELS.GEMINI_1_5_FLASH, { contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.075, output: 0.3, cachedInput: 0.01875 }, capabilities: TOOLS_VISION }],
+    [GOOGLE_MODELS.GEMINI_1_5_FLASH_8B, { contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.0375, output: 0.15, cachedInput: 0.01 }, capabilities: TOOLS_VISION }],
+]);
+
+/**
+ * 获取模型的能力与价格信息，未登记的模型返回 undefined
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+    return MODEL_REGISTRY.get(model);
+}
+
+/**
+ * 登记或覆盖模型信息（例如自定义价格或私有部署的模型）
+ */
+export function registerModelInfo(model: string, info: ModelInfo): void {
+    MODEL_REGISTRY.set(model, info);
+}
+
+export function listModelInfo(): Array<{ model: string; info: ModelInfo }> {
+    return Array.from(MODEL_REGISTRY.entries()).map(([model, info]) => ({ model, info }));
+}
+
+/**
+ * 按模型价格估算一次调用的费用（美元），未登记价格的模型返回 undefined
+ */
+export function estimateCost(model: string, usage: LLMUsage): number | undefined {
+    const info = MODEL_REGISTRY.get(model);
+    if (!info) {
+        return undefined;
+    }
+
+    const { input, output, cachedInput = input, cacheWriteInput = input } = info.pricing;
+    const cachedTokens = Math.min(usage.cachedTokens || 0, usage.promptTokens);
+    const cacheCreationTokens = Math.min(usage.cacheCreationTokens || 0, usage.promptTokens - cachedTokens);
+    const uncachedTokens = usage.promptTokens - cachedTokens - cacheCreationTokens;
+
+    return (uncachedTokens * input + cachedTokens * cachedInput + cacheCreationTokens * cacheWriteInput + usage.completionTokens * output) / 1_000_000;
+}
@@ -1,10 +1,14 @@
 import openai, { OpenAI } from "openai";
 import { z } from "zod";
-import { ILLM, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { ILLM, LLMCallOptions, LLMMessage, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
 import dotenv from "dotenv";
 import { zodToJsonNostrict, zodToJsonStrict } from "../utils/jsonHelper.js";
 import { DEEPSEEK_MODELS, SupportedModel } from "../models/index.js";
 import { logger } from "../utils/logger.js";
+import { OpenAICompatibleConfig } from "./openai-compatible.js";
+import { formatContentBlockAsText, getMessageText, toContentBlocks } from "./llm-messages.js";
+import { supportsReasoning, ThinkingStream } from "./reasoning.js";
+import { callWithRepair, formatStructuredOutputInstructions, getSchemaName, isObjectSchema } from "./structured-output.js";
 
 dotenv.config();
 
@@ -41,47 +45,136 @@ function convertToOpenaiChatFunction(tool: ToolCallDefinition, strict: boolean =
 	};
 }
 
+type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+/**
+ * 将结构化消息转换为 Chat Completions 消息
+ * nativeTools 为 true 时 tool_use 转为 assistant.tool_calls，tool_result 转为 role: tool 消息；否则以文本表示
+ */
+function convertToOpenaiChatMessages(messages: LLMMessage[], nativeTools: boolean): ChatMessageParam[] {
+	const result: ChatMessageParam[] = [];
+
+	for (const message of messages) {
+		const blocks = toContentBlocks(message.content);
+		if (message.role === 'system') {
+			result.push({ role: 'system', content: getMessageText(message.content) });
+			continue;
+		}
+		if (!nativeTools) {
+			result.push({ role: message.role, content: blocks.map(formatContentBlockAsText).join('\n\n') });
+			continue;
+		}
+
+		if (message.role === 'assistant') {
+			const toolCalls = blocks.flatMap(block => block.type === 'tool_use'
+				? [{ id: block.id, type: 'function' as const, function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } }]
+				: []);
+			result.push({
+				role: 'assistant',
+				content: getMessageText(blocks) || null,
+				...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+			});
+			continue;
+		}
+
+		// tool 消息必须紧跟在对应的 assistant.tool_calls 之后，用户文本放在其后
+		for (const block of blocks) {
+			if (block.type === 'tool_result') {
+				result.push({ role: 'tool', tool_call_id: block.toolUseId, content: block.content });
+			}
+		}
+		const text = getMessageText(blocks);
+		if (text || !blocks.some(block => block.type === 'tool_result')) {
+			result.push({ role: 'user', content: text });
+		}
+	}
+
+	return result;
+}
+
+// DeepSeek 通过 prompt_cache_hit_tokens 返回缓存命中数，OpenAI 使用 prompt_tokens_details.cached_tokens
+function toLLMUsage(usage: OpenAI.CompletionUsage): LLMUsage {
+	return {
+		promptTokens: usage.prompt_tokens || 0,
+		completionTokens: usage.completion_tokens || 0,
+		totalTokens: usage.total_tokens || 0,
+		cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? (usage as any).prompt_cache_hit_tokens ?? 0,
+	};
+}
+
 export class OpenAIChatWrapper implements ILLM {
 	model: SupportedModel;
 	streaming: boolean;
 	parallelToolCall: boolean;
 	temperature: number;
 	maxTokens: number;
+	endpoint?: OpenAICompatibleConfig;
+	reasoning?: ReasoningOptions;
 
+	/**
+	 * @param endpoint OpenAI 兼容端点配置（Ollama、vLLM 等），设置后使用 endpoint.model 作为模型名
+	 */
 	constructor(
 		model: SupportedModel,
 		streaming: boolean = false,
 		temperature: number = 0.7,
 		maxTokens: number = 100000,
-		parallelToolCall: boolean = false
+		parallelToolCall: boolean = false,
+		endpoint?: OpenAICompatibleConfig
 	) {
-		this.model = model;
+		this.model = endpoint ? endpoint.model as SupportedModel : model;
 		this.streaming = streaming;
 		this.parallelToolCall = parallelToolCall;
 		this.temperature = temperature;
 		this.maxTokens = maxTokens;
+		this.endpoint = endpoint;
 	}
 
 	setParallelToolCall(enabled: boolean): void {
 		this.parallelToolCall = enabled;
 	}
 
-	async call(
-		messages: string,
-		tools: ToolCallDefinition[],
-		options?: { stepIndex?: number }
-	): Promise<{ text: string; toolCalls: ToolCallParams[] }> {
-		let client: OpenAI;
-		if (Object.values(DEEPSEEK_MODELS).includes(this.model as DEEPSEEK_MODELS)) {
-			logger.info(`Using DeepSeek model: ${this.model}`);
-			client = new OpenAI({ 
+	/**
+	 * OpenAI o 系列发送 reasoning_effort；deepseek-reasoner 始终推理，只输出 reasoning_content
+	 */
+	setReasoning(reasoning: ReasoningOptions | undefined): void {
+		this.reasoning = reasoning && supportsReasoning(this.model) ? reasoning : undefined;
+	}
+
+	private isDeepSeek(): boolean {
+		return Object.values(DEEPSEEK_MODELS).includes(this.model as DEEPSEEK_MODELS);
+	}
+
+	private createClient(): OpenAI {
+		if (this.endpoint) {
+			logger.debug(`Using OpenAI-compatible endpoint ${this.endpoint.baseURL} with model: ${this.model}`);
+			// OpenAI SDK 要求 apiKey 非空，本地端点一般会忽略它
+			return new OpenAI({
+				baseURL: this.endpoint.baseURL,
+				apiKey: this.endpoint.apiKey || 'not-needed'
+			});
+		}
+		if (this.isDeepSeek()) {
+			logger.debug(`Using DeepSeek model: ${this.model}`);
+			return new OpenAI({ 
 				baseURL: 'https://api.deepseek.com',
 				apiKey: process.env.DEEPSEEK_API_KEY 
 			});
-		} else {
-			logger.info(`Using OpenAI model: ${this.model}`);
-			client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 		}
+		logger.debug(`Using OpenAI model: ${this.model}`);
+		return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+	}
+
+	private createCallId(): string {
+		return `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+	}
+
+	async call(
+		messages: string,
+		tools: ToolCallDefinition[],
+		options?: LLMCallOptions
+	): Promise<{ text: string; toolCalls: ToolCallParams[] }> {
+		const client = this.createClient();
 
 		const functions = tools.map((tool) => convertToOpenaiChatFunction(tool, false));
 
@@ -130,19 +223,9 @@ export class OpenAIChatWrapper implements ILLM {
 	async streamCall(
 		messages: string,
 		tools: ToolCallDefinition[],
-		options?: { stepIndex?: number }
+		options?: LLMCallOptions
 	): Promise<{ text: string; toolCalls: ToolCallParams[] }> {
-		let client: OpenAI;
-		if (Object.values(DEEPSEEK_MODELS).includes(this.model as DEEPSEEK_MODELS)) {
-			logger.info(`Using DeepSeek model: ${this.model}`);
-			client = new OpenAI({ 
-				baseURL: 'https://api.deepseek.com',
-				apiKey: process.env.DEEPSEEK_API_KEY 
-			});
-		} else {
-			logger.info(`Using OpenAI model: ${this.model}`);
-			client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-		}
+		const client = this.createClient();
 
 		const functions = tools.map((tool) => convertToOpenaiChatFunction(tool, false));
 
@@ -221,7 +304,30 @@ export class OpenAIChatWrapper implements ILLM {
 	async* callStream(
 		messages: string,
 		tools: ToolCallDefinition[] = [],
-		options?: { stepIndex?: number }
+		options?: LLMCallOptions
+	): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+		yield* this.streamChat([{ role: "user", content: messages }], false, tools, options);
+	}
+
+	/**
+	 * 结构化消息的流式调用：工具调用使用 tools 参数和原生的 tool_calls / tool 消息配对
+	 */
+	async* callStreamMessages(
+		messages: LLMMessage[],
+		tools: ToolCallDefinition[] = [],
+		options?: LLMCallOptions
+	): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+		yield* this.streamChat(messages, true, tools, options);
+	}
+
+	/**
+	 * @param structured 结构化消息中的 tool 消息需要 tools 参数，字符串 prompt 保持使用 legacy functions 参数
+	 */
+	private async* streamChat(
+		messages: LLMMessage[],
+		structured: boolean,
+		tools: ToolCallDefinition[],
+		options?: LLMCallOptions
 	): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
 		const stepIndex = options?.stepIndex;
 		
@@ -231,43 +337,82 @@ export class OpenAIChatWrapper implements ILLM {
 				yield { type: 'step-start', stepIndex };
 			}
 			
-			let client: OpenAI;
-			if (Object.values(DEEPSEEK_MODELS).includes(this.model as DEEPSEEK_MODELS)) {
-				logger.debug(`Using DeepSeek model: ${this.model}`);
-				client = new OpenAI({ 
-					baseURL: 'https://api.deepseek.com',
-					apiKey: process.env.DEEPSEEK_API_KEY 
-				});
-			} else {
-				logger.debug(`Using OpenAI model: ${this.model}`);
-				client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+			const client = this.createClient();
+			const capabilities = this.endpoint?.capabilities;
+			// 不支持原生工具调用的端点不发送 tools，历史中的工具调用以文本协议表示；工具说明和解析由 TextToolCallLLM 负责
+			const nativeTools = !this.endpoint || capabilities?.nativeToolCalls !== false;
+			if (!nativeTools && tools.length > 0) {
+				logger.warn(`[OpenAIChatWrapper] ${this.model} does not support native tool calls, tools are ignored; wrap it with applyToolCallProtocol`);
 			}
-			
-			const functions = tools.map((tool) => convertToOpenaiChatFunction(tool, false));
+			const functions = nativeTools ? tools.map((tool) => convertToOpenaiChatFunction(tool, false)) : [];
+			const chatMessages = convertToOpenaiChatMessages(messages, nativeTools);
 			
 			logger.debug("Starting stream-based streaming response with OpenAI Chat...");
 			
-			const stream = await client.chat.completions.create({
+			const request: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming = {
 				model: this.model,
-				messages: [{ role: "user", content: messages }],
+				messages: chatMessages,
 				temperature: this.temperature,
 				max_tokens: this.maxTokens,
-				functions: functions.length > 0 ? functions : undefined,
-				parallel_tool_calls: this.parallelToolCall,
 				stream: true,
-			});
+			};
+			if (this.endpoint || structured) {
+				// 兼容端点普遍只实现了 tools 参数，legacy functions 参数多数不支持
+				if (functions.length > 0) {
+					request.tools = functions.map((fn) => ({ type: 'function' as const, function: fn }));
+					if (!this.endpoint || capabilities?.parallelToolCalls) {
+						request.parallel_tool_calls = this.parallelToolCall;
+					}
+				}
+				if (!this.endpoint || capabilities?.streamUsage !== false) {
+					request.stream_options = { include_usage: true };
+				}
+			} else {
+				request.functions = functions.length > 0 ? functions : undefined;
+				request.parallel_tool_calls = this.parallelToolCall;
+				request.stream_options = { include_usage: true };
+			}
+			// o 系列不接受 temperature 和 max_tokens
+			if (this.reasoning?.effort && !this.endpoint && !this.isDeepSeek()) {
+				request.reasoning_effort = this.reasoning.effort;
+				delete request.temperature;
+				delete request.max_tokens;
+				request.max_completion_tokens = this.maxTokens;
+			}
+			
+			const stream = await client.chat.completions.create(request, { signal: options?.signal });
 			
 			let currentText = '';
 			const callBuffer: { name?: string; arguments?: string; id?: string } = {};
+			// tools 参数返回的 tool_calls 增量，按 index 聚合
+			const toolCallBuffers = new Map<number, { name: string; arguments: string; id: string }>();
+			let finishReason: string | undefined;
+			let usage: LLMUsage | undefined;
+			const thinking = new ThinkingStream(stepIndex);
 			
 			for await (const chunk of stream) {
+				// include_usage 时，用量在 finish_reason 之后的最后一个 chunk 中返回（choices 为空）
+				if (chunk.usage) {
+					usage = toLLMUsage(chunk.usage);
+				}
+				
 				const choice = chunk.choices?.[0];
 				if (!choice) continue;
 				
 				const delta = (choice.delta as any) || {};
 				
+				// DeepSeek / vLLM 使用 reasoning_content，Ollama 等使用 reasoning；思考内容在正文和工具调用之前输出
+				const reasoningDelta = delta.reasoning_content ?? delta.reasoning;
+				if (typeof reasoningDelta === 'string') {
+					yield* thinking.delta(reasoningDelta);
+				}
+				if (delta.content || delta.tool_calls || delta.function_call || choice.finish_reason) {
+					yield* thinking.complete();
+				}
+				
 				// Handle text content
 				if (delta.content) {
+					// prompt 工具调用模式下 <tool_call> 块会出现在增量文本中，由 text-done 给出去掉调用块后的文本
 					yield {
 						type: 'text-delta',
 						content: delta.content,
@@ -277,10 +422,30 @@ export class OpenAIChatWrapper implements ILLM {
 					currentText += delta.content;
 				}
 				
+				// Handle tool_calls deltas
+				for (const toolCallDelta of delta.tool_calls || []) {
+					let buffer = toolCallBuffers.get(toolCallDelta.index);
+					if (!buffer) {
+						buffer = { name: '', arguments: '', id: toolCallDelta.id || this.createCallId() };
+						toolCallBuffers.set(toolCallDelta.index, buffer);
+					}
+					if (toolCallDelta.function?.name) {
+						buffer.name += toolCallDelta.function.name;
+						yield {
+							type: 'tool-call-start',
+							toolCall: { type: 'function', call_id: buffer.id, name: buffer.name, parameters: {} },
+							stepIndex
+						};
+					}
+					if (toolCallDelta.function?.arguments) {
+						buffer.arguments += toolCallDelta.function.arguments;
+					}
+				}
+				
 				// Handle function call start
 				if (delta.function_call?.name) {
 					callBuffer.name = delta.function_call.name;
-					callBuffer.id = `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+					callBuffer.id = this.createCallId();
 					callBuffer.arguments = '';
 					
 					// 发出工具调用开始事件
@@ -303,6 +468,8 @@ export class OpenAIChatWrapper implements ILLM {
 				
 				// Handle choice finish
 				if (choice.finish_reason) {
+					const parsedCalls: ToolCallParams[] = [];
+					
 					// 发出完整文本事件
 					if (currentText) {
 						yield {
@@ -313,6 +480,34 @@ export class OpenAIChatWrapper implements ILLM {
 						};
 					}
 					
+					for (const buffer of toolCallBuffers.values()) {
+						try {
+							parsedCalls.push({
+								type: 'function',
+								call_id: buffer.id,
+								name: buffer.name,
+								parameters: buffer.arguments ? JSON.parse(buffer.arguments) : {}
+							});
+						} catch (error) {
+							yield {
+								type: 'tool-call-error',
+								toolCall: { type: 'function', call_id: buffer.id, name: buffer.name, parameters: {} },
+								error: new Error(`Failed to parse tool arguments: ${buffer.arguments}`),
+								stepIndex
+							};
+						}
+					}
+					toolCallBuffers.clear();
+					
+					for (const toolCall of parsedCalls) {
+						yield {
+							type: 'tool-call-done',
+							toolCall,
+							result: { parameters: toolCall.parameters },
+							stepIndex
+						};
+					}
+					
 					// 发出工具调用完成事件
 					if (callBuffer.name && callBuffer.id) {
 						try {
@@ -344,21 +539,27 @@ export class OpenAIChatWrapper implements ILLM {
 						}
 					}
 					
-					// 发出步骤完成事件
-					if (stepIndex !== undefined) {
-						yield {
-							type: 'step-complete',
-							stepIndex,
-							result: {
-								text: currentText,
-								finishReason: choice.finish_reason
-							}
-						};
-					}
-					
-					break;
+					finishReason = choice.finish_reason;
 				}
 			}
+			yield* thinking.complete();
+			
+			if (usage) {
+				yield { type: 'usage', usage, stepIndex };
+			}
+			
+			// 发出步骤完成事件
+			if (finishReason && stepIndex !== undefined) {
+				yield {
+					type: 'step-complete',
+					stepIndex,
+					result: {
+						text: currentText,
+						finishReason,
+						usage
+					}
+				};
+			}
 			
 		} catch (error) {
 			logger.error("[OpenAIChatWrapper] Error in callStream:", error);
@@ -372,18 +573,56 @@ export class OpenAIChatWrapper implements ILLM {
 		}
 	}
 	
+	/**
+	 * 结构化输出：OpenAI 使用 response_format json_schema（strict），DeepSeek 只支持 json_object，
+	 * 未声明 structuredOutputs 的兼容端点只在 prompt 中描述 schema
+	 */
+	async callStructured<T>(
+		prompt: string,
+		schema: z.ZodType<T>,
+		options?: StructuredCallOptions
+	): Promise<StructuredCallResult<T>> {
+		const client = this.createClient();
+		const jsonSchema = isObjectSchema(schema) && (this.endpoint ? !!this.endpoint.capabilities?.structuredOutputs : !this.isDeepSeek());
+		const responseFormat: OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] = jsonSchema
+			? { type: 'json_schema', json_schema: { name: getSchemaName(options), description: options?.description, schema: zodToJsonStrict(schema) as Record<string, unknown>, strict: true } }
+			: this.isDeepSeek() ? { type: 'json_object' } : undefined;
+
+		return callWithRepair(async currentPrompt => {
+			const request: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+				model: this.model,
+				messages: [{ role: 'user', content: jsonSchema ? currentPrompt : currentPrompt + formatStructuredOutputInstructions(schema) }],
+				temperature: this.temperature,
+				max_tokens: this.maxTokens,
+				...(responseFormat ? { response_format: responseFormat } : {}),
+			};
+			if (this.reasoning?.effort && !this.endpoint && !this.isDeepSeek()) {
+				request.reasoning_effort = this.reasoning.effort;
+				delete request.temperature;
+				delete request.max_tokens;
+				request.max_completion_tokens = this.maxTokens;
+			}
+			const completion = await client.chat.completions.create(request, { signal: options?.signal });
+			return {
+				text: completion.choices[0]?.message?.content ?? '',
+				usage: completion.usage ? toLLMUsage(completion.usage) : undefined,
+			};
+		}, prompt, schema, options);
+	}
+
 	/**
 	 * 新的async非流式调用（必须实现）
 	 */
 	async callAsync(
 		messages: string,
 		tools: ToolCallDefinition[] = [],
-		options?: { stepIndex?: number }
-	): Promise<{ text: string; toolCalls?: ToolCallParams[] }> {
+		options?: LLMCallOptions
+	): Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }> {
 		try {
 			// 收集流式响应
 			let text = '';
 			let toolCalls: ToolCallParams[] = [];
+			let usage: LLMUsage | undefined;
 			
 			for await (const chunk of this.callStream(messages, tools, options)) {
 				switch (chunk.type) {
@@ -393,6 +632,9 @@ export class OpenAIChatWrapper implements ILLM {
 					case 'tool-call-done':
 						toolCalls.push(chunk.toolCall);
 						break;
+					case 'usage':
+						usage = chunk.usage;
+						break;
 					case 'error':
 						throw chunk.message;
 				}
@@ -400,7 +642,8 @@ export class OpenAIChatWrapper implements ILLM {
 			
 			return { 
 				text, 
-				toolCalls: toolCalls.length > 0 ? toolCalls : undefined 
+				toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+				usage
 			};
 			
 		} catch (error) {
@@ -0,0 +1,23 @@
+/**
+ * OpenAI 兼容端点（Ollama、vLLM、llama.cpp server 等）的能力开关
+ * 本地模型对 Chat Completions 参数的支持程度各不相同，不支持的参数不会发送
+ */
+export interface OpenAICompatibleCapabilities {
+    nativeToolCalls?: boolean;    // 是否支持 tools 参数，默认 true；false 时不发送 tools，Agent 使用文本工具协议（TextToolCallLLM）
+    parallelToolCalls?: boolean;  // 是否支持 parallel_tool_calls 参数，默认 false
+    streamUsage?: boolean;        // 是否支持 stream_options.include_usage，默认 true
+    structuredOutputs?: boolean;  // 是否支持 response_format json_schema，默认 false；false 时 schema 写入 prompt
+}
+
+/**
+ * OpenAI 兼容端点配置
+ */
+export interface OpenAICompatibleConfig {
+    baseURL: string;              // 例如 http://localhost:11434/v1
+    model: string;                // 端点上的模型名，不要求在 SupportedModel 中
+    apiKey?: string;              // 本地端点通常不需要
+    contextWindow?: number;       // 用于上下文压缩，默认 32768
+    capabilities?: OpenAICompatibleCapabilities;
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONTEXT_WINDOW = 32768;
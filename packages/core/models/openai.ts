@@ -1,10 +1,13 @@
 import openai, { OpenAI } from "openai";
 import { z } from "zod";
-import { ILLM, LLMModel, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { ILLM, LLMCallOptions, LLMMessage, LLMModel, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
 import dotenv from "dotenv";
 import { zodToJsonNostrict, zodToJsonStrict } from "../utils/jsonHelper.js";
 import { SupportedModel } from "../models/index.js";
 import { logger } from "../utils/logger.js";
+import { getMessageText, toContentBlocks } from "./llm-messages.js";
+import { supportsReasoning, ThinkingStream } from "./reasoning.js";
+import { callWithRepair, formatStructuredOutputInstructions, getSchemaName, isObjectSchema } from "./structured-output.js";
 import { response } from "express";
 
 dotenv.config();
@@ -54,12 +57,55 @@ function convertToOpenaiTool(tool: ToolCallDefinition, strict: boolean = false):
     };
 }
 
+/**
+ * 将结构化消息转换为 Responses API 的 input：tool_use 转为 function_call，tool_result 转为 function_call_output
+ */
+function convertToOpenaiInput(messages: LLMMessage[]): OpenAI.Responses.ResponseInputItem[] {
+    const input: OpenAI.Responses.ResponseInputItem[] = [];
+
+    for (const message of messages) {
+        const blocks = toContentBlocks(message.content);
+        const text = getMessageText(blocks);
+
+        if (message.role === 'user') {
+            // function_call_output 紧跟在对应的 function_call 之后
+            for (const block of blocks) {
+                if (block.type === 'tool_result') {
+                    input.push({ type: 'function_call_output', call_id: block.toolUseId, output: block.content });
+                }
+            }
+        }
+        if (text || blocks.every(block => block.type === 'text')) {
+            input.push({ role: message.role, content: text });
+        }
+        if (message.role === 'assistant') {
+            for (const block of blocks) {
+                if (block.type === 'tool_use') {
+                    input.push({ type: 'function_call', call_id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+                }
+            }
+        }
+    }
+
+    return input;
+}
+
+function toLLMUsage(usage: OpenAI.Responses.ResponseUsage): LLMUsage {
+    return {
+        promptTokens: usage.input_tokens || 0,
+        completionTokens: usage.output_tokens || 0,
+        totalTokens: usage.total_tokens || 0,
+        cachedTokens: usage.input_tokens_details?.cached_tokens || 0,
+    };
+}
+
 export class OpenAIWrapper implements ILLM {
     model: SupportedModel;
     streaming: boolean;
     parallelToolCall: boolean;
     temperature: number;
     maxTokens: number;
+    reasoning?: ReasoningOptions;
 
     constructor(model: SupportedModel, streaming: boolean = false, temperature: number = 0.7, maxTokens: number = 100000, parallelToolCall: boolean = false) {
     
@@ -74,13 +120,20 @@ export class OpenAIWrapper implements ILLM {
         this.parallelToolCall = enabled;
     }
 
+    /**
+     * o 系列的 reasoning effort，思考摘要以 thinking-* chunk 输出
+     */
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.reasoning = reasoning && supportsReasoning(this.model) ? reasoning : undefined;
+    }
+
     /**
      * 向后兼容的call方法 - 调用callAsync
      */
     async call(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
+        options?: LLMCallOptions
     ): Promise<{ text: string; toolCalls: ToolCallParams[] }> {
         const result = await this.callAsync(messages, tools, options);
         return {
@@ -95,7 +148,26 @@ export class OpenAIWrapper implements ILLM {
     async* callStream(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
+        options?: LLMCallOptions
+    ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+        yield* this.streamResponse(messages, tools, options);
+    }
+
+    /**
+     * 结构化消息的流式调用：消息作为 Responses API 的 input 列表，工具调用使用 function_call / function_call_output 配对
+     */
+    async* callStreamMessages(
+        messages: LLMMessage[],
+        tools: ToolCallDefinition[] = [],
+        options?: LLMCallOptions
+    ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
+        yield* this.streamResponse(convertToOpenaiInput(messages), tools, options);
+    }
+
+    private async* streamResponse(
+        input: string | OpenAI.Responses.ResponseInputItem[],
+        tools: ToolCallDefinition[],
+        options?: LLMCallOptions
     ): AsyncIterable<import('../interfaces/agent.js').LLMStreamChunk> {
         const stepIndex = options?.stepIndex!;
 
@@ -118,12 +190,13 @@ export class OpenAIWrapper implements ILLM {
             // 创建流式响应
             const stream = await openai.responses.create({
                 model: this.model,
-                input: messages,
+                input,
                 tools: openaiTools,
                 stream: true,
                 store: true,
                 parallel_tool_calls: this.parallelToolCall,
-            });
+                ...(this.reasoning ? { reasoning: { effort: this.reasoning.effort ?? 'medium', summary: 'auto' as const } } : {}),
+            }, { signal: options?.signal });
 
             let currentText = '';
             const toolCalls = new Map<string, {
@@ -131,6 +204,7 @@ export class OpenAIWrapper implements ILLM {
                 name: string;
                 arguments: string;
             }>();
+            const thinking = new ThinkingStream(stepIndex);
 
             // 处理流式响应
             for await (const event of stream) {
@@ -143,6 +217,13 @@ export class OpenAIWrapper implements ILLM {
                     }
                 }
 
+                if (event.type === "response.reasoning_summary_text.delta") {
+                    yield* thinking.delta(event.delta);
+                } else if (event.type === "response.reasoning_summary_part.added" && event.summary_index > 0) {
+                    // 摘要由多个段落组成，段落之间保留空行
+                    yield* thinking.delta('\n\n');
+                }
+
                 if (event.type === "response.output_text.delta") {
                     yield {
                         type: 'text-delta',
@@ -183,6 +264,9 @@ export class OpenAIWrapper implements ILLM {
                 }
                 if (event.type === "response.output_item.done") {
                     const item = event.item;
+                    if (item.type === "reasoning") {
+                        yield* thinking.complete();
+                    }
                     
                  if (item.type === "function_call") {
                         // 处理工具调用
@@ -221,6 +305,10 @@ export class OpenAIWrapper implements ILLM {
 
                 // finish the whole step 
                 if (event.type === "response.completed") {
+                    const usage = event.response.usage ? toLLMUsage(event.response.usage) : undefined;
+                    if (usage) {
+                        yield { type: 'usage', usage, stepIndex };
+                    }
 
                     // 发出步骤完成事件
                     if (stepIndex !== undefined) {
@@ -229,7 +317,8 @@ export class OpenAIWrapper implements ILLM {
                             stepIndex,
                             result: {
                                 text: currentText,
-                                toolCalls: Array.from(toolCalls.values())
+                                toolCalls: Array.from(toolCalls.values()),
+                                usage
                             }
                         };
                     }
@@ -266,18 +355,48 @@ export class OpenAIWrapper implements ILLM {
         }
     }
 
+    /**
+     * 结构化输出：Responses API 的 json_schema strict 模式，非对象 schema 退回 prompt 描述 + 解析
+     */
+    async callStructured<T>(
+        prompt: string,
+        schema: z.ZodType<T>,
+        options?: StructuredCallOptions
+    ): Promise<StructuredCallResult<T>> {
+        const openai = new OpenAI({
+            apiKey: process.env.OPENAI_API_KEY,
+        });
+        const format: OpenAI.Responses.ResponseFormatTextConfig | undefined = isObjectSchema(schema)
+            ? { type: 'json_schema', name: getSchemaName(options), description: options?.description, schema: zodToJsonStrict(schema) as Record<string, unknown>, strict: true }
+            : undefined;
+
+        return callWithRepair(async currentPrompt => {
+            const response = await openai.responses.create({
+                model: this.model,
+                input: format ? currentPrompt : currentPrompt + formatStructuredOutputInstructions(schema),
+                ...(format ? { text: { format } } : {}),
+                ...(this.reasoning ? { reasoning: { effort: this.reasoning.effort ?? 'medium' } } : {}),
+            }, { signal: options?.signal });
+            return {
+                text: response.output_text,
+                usage: response.usage ? toLLMUsage(response.usage) : undefined,
+            };
+        }, prompt, schema, options);
+    }
+
     /**
      * 新的async非流式调用（推荐使用）
      */
     async callAsync(
         messages: string,
         tools: ToolCallDefinition[] = [],
-        options?: { stepIndex?: number }
-    ): Promise<{ text: string; toolCalls?: ToolCallParams[] }> {
+        options?: LLMCallOptions
+    ): Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }> {
         try {
             // 收集流式响应
             let text = '';
             let toolCalls: ToolCallParams[] = [];
+            let usage: LLMUsage | undefined;
             
             for await (const chunk of this.callStream(messages, tools, options)) {
                 switch (chunk.type) {
@@ -287,6 +406,9 @@ export class OpenAIWrapper implements ILLM {
                     case 'tool-call-done':
                         toolCalls.push(chunk.toolCall);
                         break;
+                    case 'usage':
+                        usage = chunk.usage;
+                        break;
                     case 'error':
                         throw chunk.message;
                 }
@@ -294,7 +416,8 @@ export class OpenAIWrapper implements ILLM {
             
             return { 
                 text, 
-                toolCalls: toolCalls.length > 0 ? toolCalls : undefined 
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage
             };
             
         } catch (error) {
@@ -0,0 +1,162 @@
+import { ILLM } from "../interfaces/index.js";
+import { ANTHROPIC_MODELS, DEEPSEEK_MODELS, GOOGLE_IMAGE_MODELS, GOOGLE_MODELS, GOOGLE_VIDEO_MODELS, OPENAI_MODELS, SupportedModel } from "./models-list.js";
+import { getModelInfo, registerModelInfo } from "./model-registry.js";
+import { DEFAULT_OPENAI_COMPATIBLE_CONTEXT_WINDOW, OpenAICompatibleConfig } from "./openai-compatible.js";
+import { OpenAIWrapper } from "./openai.js";
+import { OpenAIChatWrapper } from "./openai-chat.js";
+import { AnthropicWrapper } from "./anthropic.js";
+import { GeminiWrapper } from "./gemini.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * 创建 LLM 时的通用参数，provider 特有的参数通过 providerOptions 传入
+ */
+export interface LLMProviderOptions {
+    temperature: number;
+    maxTokens: number;
+    streaming?: boolean;
+    parallelToolCall?: boolean;
+    providerOptions?: Record<string, any>;
+}
+
+/**
+ * LLM Provider 工厂
+ */
+export interface LLMProviderFactory {
+    name: string;
+    matches: (model: string) => boolean;  // 按模型名自动选择 provider；只能按名称指定的 provider 返回 false
+    create: (model: string, options: LLMProviderOptions) => ILLM;
+}
+
+function isModelIn(models: Record<string, string>, model: string): boolean {
+    return Object.values(models).includes(model);
+}
+
+/**
+ * OpenAI 兼容端点：providerOptions.endpoint 为 OpenAICompatibleConfig
+ * 本地模型没有价格信息，未注册时按上下文窗口和零价格注册，使上下文压缩和预算统计可用
+ */
+function createOpenAICompatibleLLM(model: string, options: LLMProviderOptions): ILLM {
+    const endpoint = options.providerOptions?.endpoint as OpenAICompatibleConfig | undefined;
+    if (!endpoint?.baseURL) {
+        throw new Error('openai-compatible provider requires providerOptions.endpoint with a baseURL');
+    }
+    const config = { ...endpoint, model: endpoint.model || model };
+    if (!getModelInfo(config.model)) {
+        registerModelInfo(config.model, {
+            contextWindow: config.contextWindow ?? DEFAULT_OPENAI_COMPATIBLE_CONTEXT_WINDOW,
+            maxOutputTokens: options.maxTokens,
+            pricing: { input: 0, output: 0 },
+            capabilities: { tools: config.capabilities?.nativeToolCalls !== false },
+        });
+    }
+    return new OpenAIChatWrapper(config.model as SupportedModel, options.streaming, options.temperature, options.maxTokens, options.parallelToolCall, config);
+}
+
+const BUILTIN_PROVIDERS: LLMProviderFactory[] = [
+    {
+        name: 'openai',
+        matches: model => isModelIn(OPENAI_MODELS, model),
+        create: (model, options) => new OpenAIWrapper(model as SupportedModel, options.streaming, options.temperature, options.maxTokens),
+    },
+    {
+        name: 'anthropic',
+        matches: model => isModelIn(ANTHROPIC_MODELS, model),
+        create: (model, options) => new AnthropicWrapper(model as SupportedModel, options.streaming, options.temperature, options.maxTokens),
+    },
+    {
+        name: 'google',
+        matches: model => isModelIn(GOOGLE_MODELS, model) || isModelIn(GOOGLE_IMAGE_MODELS, model) || isModelIn(GOOGLE_VIDEO_MODELS, model),
+        create: (model, options) => new GeminiWrapper(model as SupportedModel, options.streaming ?? false, options.temperature, options.maxTokens),
+    },
+    {
+        name: 'deepseek',
+        matches: model => isModelIn(DEEPSEEK_MODELS, model),
+        create: (model, options) => new OpenAIChatWrapper(model as SupportedModel, options.streaming, options.temperature, options.maxTokens),
+    },
+    {
+        name: 'openai-compatible',
+        matches: () => false,
+        create: createOpenAICompatibleLLM,
+    },
+];
+
+/**
+ * LLM Provider 注册表
+ * 后注册的 provider 优先匹配，便于用代理、缓存层或测试替身覆盖内置 provider
+ */
+export class LLMProviderRegistry {
+    private providers: LLMProviderFactory[] = [];
+
+    constructor() {
+        this.registerBuiltinProviders();
+    }
+
+    /**
+     * 注册内置 provider
+     */
+    private registerBuiltinProviders(): void {
+        BUILTIN_PROVIDERS.forEach(provider => this.register(provider));
+    }
+
+    /**
+     * 注册 provider，同名 provider 会被替换
+     */
+    register(provider: LLMProviderFactory): void {
+        this.unregister(provider.name);
+        this.providers.unshift(provider);
+    }
+
+    unregister(name: string): boolean {
+        const index = this.providers.findIndex(provider => provider.name === name);
+        if (index === -1) return false;
+        this.providers.splice(index, 1);
+        return true;
+    }
+
+    get(name: string): LLMProviderFactory | undefined {
+        return this.providers.find(provider => provider.name === name);
+    }
+
+    list(): string[] {
+        return this.providers.map(provider => provider.name);
+    }
+
+    /**
+     * 查找能处理该模型的 provider
+     */
+    resolve(model: string): LLMProviderFactory | undefined {
+        return this.providers.find(provider => provider.matches(model));
+    }
+
+    /**
+     * 创建 LLM 实例
+     * @param providerName 指定 provider，未指定时按模型名匹配
+     */
+    createLLM(model: string, options: LLMProviderOptions, providerName?: string): ILLM {
+        let provider: LLMProviderFactory | undefined;
+        if (providerName) {
+            provider = this.get(providerName);
+            if (!provider) {
+                throw new Error(`Unknown LLM provider: ${providerName} (registered: ${this.list().join(', ')})`);
+            }
+        } else {
+            provider = this.resolve(model);
+            if (!provider) {
+                // 与 getModelProvider 一致，未知模型按 OpenAI 处理
+                logger.warn(`No LLM provider matches model ${model}, falling back to openai`);
+                provider = this.get('openai');
+            }
+            if (!provider) {
+                throw new Error(`No LLM provider registered for model: ${model}`);
+            }
+        }
+        logger.info(`Using ${provider.name} provider for model: ${model}`);
+        return provider.create(model, options);
+    }
+}
+
+/**
+ * 全局 provider 注册表，BaseAgent 通过它创建 LLM
+ */
+export const llmProviderRegistry = new LLMProviderRegistry();
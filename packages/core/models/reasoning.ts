@@ -0,0 +1,53 @@
+import { LLMStreamChunk, ReasoningOptions } from "../interfaces/index.js";
+import { getModelInfo } from "./model-registry.js";
+
+// 未设置 budgetTokens 时按 effort 估算的思考预算
+const EFFORT_BUDGET_TOKENS: Record<NonNullable<ReasoningOptions['effort']>, number> = {
+    low: 1024,
+    medium: 4096,
+    high: 16384,
+};
+
+export function resolveThinkingBudget(reasoning: ReasoningOptions): number {
+    return reasoning.budgetTokens ?? EFFORT_BUDGET_TOKENS[reasoning.effort ?? 'medium'];
+}
+
+/**
+ * 模型是否接受推理参数：按模型注册表中的 reasoning 能力判断，未登记的模型（自定义端点等）视为支持
+ * 降级链中的非推理模型据此忽略 AgentOptions.reasoning，避免请求被拒绝
+ */
+export function supportsReasoning(model: string): boolean {
+    const info = getModelInfo(model);
+    return info ? !!info.capabilities?.reasoning : true;
+}
+
+/**
+ * 将 provider 的思考增量转换为 thinking-start / thinking-progress / thinking-complete
+ */
+export class ThinkingStream {
+    private thought = '';
+    private started = false;
+
+    constructor(private stepIndex?: number) {}
+
+    *delta(text: string): Iterable<LLMStreamChunk> {
+        if (!text) return;
+        if (!this.started) {
+            this.started = true;
+            yield { type: 'thinking-start', stepIndex: this.stepIndex };
+        }
+        this.thought += text;
+        yield { type: 'thinking-progress', thought: text, stepIndex: this.stepIndex };
+    }
+
+    /**
+     * 思考块结束，没有收到增量时不输出
+     */
+    *complete(): Iterable<LLMStreamChunk> {
+        if (!this.started) return;
+        const finalThought = this.thought;
+        this.thought = '';
+        this.started = false;
+        yield { type: 'thinking-complete', finalThought, stepIndex: this.stepIndex };
+    }
+}
@@ -0,0 +1,353 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { ILLM, LLMCallOptions, LLMMessage, LLMStreamChunk, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { SupportedModel } from "./models-list.js";
+import { flattenLLMMessages } from "./llm-messages.js";
+import { callStructured } from "./structured-output.js";
+import { throwIfAborted } from "../utils/abort.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * 录制/回放 LLM
+ * RecordingLLM 包装任意 ILLM，把每次 callStream/callStreamMessages/callAsync/callStructured 的请求和返回写入 cassette 文件；
+ * ReplayLLM 按 prompt 哈希把录制的结果原样返回，用于离线、可重复的端到端 Agent 测试。
+ */
+
+export type LLMCallResult = { text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage };
+
+export interface CassetteEntry {
+    key: string;                            // hashLLMRequest 计算的请求哈希
+    method: 'callStream' | 'callStreamMessages' | 'callAsync' | 'callStructured';
+    request: {
+        messages: string;                   // callStreamMessages 记录为消息数组的 JSON
+        tools: string[];                    // 只记录工具名，zod schema 无法序列化
+        stepIndex?: number;
+    };
+    chunks?: LLMStreamChunk[];              // callStream 的完整 chunk 序列
+    result?: LLMCallResult;                 // callAsync 的返回值
+    structured?: StructuredCallResult<unknown>; // callStructured 的返回值
+}
+
+export interface Cassette {
+    version: 1;
+    model: string;
+    entries: CassetteEntry[];
+}
+
+/**
+ * 请求归一化函数，用于去掉 prompt 中每次运行都会变化的部分（时间戳、临时路径等）
+ */
+export type PromptNormalizer = (messages: string) => string;
+
+export interface RecordingLLMOptions {
+    normalize?: PromptNormalizer;           // 默认为 normalizePrompt
+}
+
+export interface ReplayLLMOptions {
+    normalize?: PromptNormalizer;           // 必须与录制时一致
+    sequential?: boolean;                   // 哈希未命中时按录制顺序返回下一条，适合 prompt 不稳定的场景
+}
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const ISO_TIMESTAMP_PATTERN = /\b\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?/g;
+
+/**
+ * 默认归一化：聊天历史中的消息 id 和时间戳每次运行都不同，替换为占位符
+ */
+export function normalizePrompt(messages: string): string {
+    return messages
+        .replace(UUID_PATTERN, '<uuid>')
+        .replace(ISO_TIMESTAMP_PATTERN, '<timestamp>');
+}
+
+/**
+ * 计算请求哈希：归一化后的 prompt 文本 + 工具名和描述
+ */
+export function hashLLMRequest(messages: string, tools: ToolCallDefinition[], normalize: PromptNormalizer = normalizePrompt): string {
+    const hash = createHash('sha256');
+    hash.update(normalize(messages));
+    for (const tool of tools) {
+        hash.update(`\u0000${tool.name}\u0000${tool.description}`);
+    }
+    return hash.digest('hex').slice(0, 16);
+}
+
+export function loadCassette(cassettePath: string): Cassette {
+    const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8')) as Cassette;
+    if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+        throw new Error(`Unsupported cassette format: ${cassettePath}`);
+    }
+    return cassette;
+}
+
+export function saveCassette(cassettePath: string, cassette: Cassette): void {
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2), 'utf-8');
+}
+
+/**
+ * Error 对象无法直接 JSON 序列化，tool-call-error 的 error 转为 { name, message }
+ */
+function serializeChunk(chunk: LLMStreamChunk): LLMStreamChunk {
+    if (chunk.type === 'tool-call-error') {
+        return { ...chunk, error: { name: chunk.error.name, message: chunk.error.message } as Error };
+    }
+    return chunk;
+}
+
+function deserializeChunk(chunk: LLMStreamChunk): LLMStreamChunk {
+    if (chunk.type === 'tool-call-error' && !(chunk.error instanceof Error)) {
+        const serialized = chunk.error as { name: string; message: string };
+        const error = new Error(serialized.message);
+        error.name = serialized.name;
+        return { ...chunk, error };
+    }
+    return chunk;
+}
+
+/**
+ * 将 chunk 序列折叠为 callAsync 的返回值
+ */
+export function foldChunks(chunks: LLMStreamChunk[]): LLMCallResult {
+    let deltas = '';
+    let doneText = '';
+    const toolCalls: ToolCallParams[] = [];
+    let usage: LLMUsage | undefined;
+
+    for (const chunk of chunks) {
+        if (chunk.type === 'text-delta') deltas += chunk.content;
+        else if (chunk.type === 'text-done') doneText += chunk.content;
+        else if (chunk.type === 'tool-call-done') toolCalls.push(chunk.toolCall);
+        else if (chunk.type === 'usage') usage = chunk.usage;
+    }
+
+    return {
+        text: doneText || deltas,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage
+    };
+}
+
+/**
+ * 结构化消息按 JSON 参与哈希，保留角色和内容块边界
+ */
+function serializeMessages(messages: LLMMessage[]): string {
+    return JSON.stringify(messages);
+}
+
+/**
+ * 将 callAsync 的返回值展开为 chunk 序列
+ */
+function expandResult(result: LLMCallResult, stepIndex?: number): LLMStreamChunk[] {
+    const chunks: LLMStreamChunk[] = [];
+    if (result.text) {
+        chunks.push({ type: 'text-delta', content: result.text, stepIndex });
+        chunks.push({ type: 'text-done', content: result.text, stepIndex });
+    }
+    for (const toolCall of result.toolCalls || []) {
+        chunks.push({ type: 'tool-call-start', toolCall, stepIndex });
+        chunks.push({ type: 'tool-call-done', toolCall, result: null, stepIndex });
+    }
+    if (result.usage) {
+        chunks.push({ type: 'usage', usage: result.usage, stepIndex });
+    }
+    return chunks;
+}
+
+/**
+ * 录制 LLM：透传所有调用，成功完成的调用追加到 cassette 文件
+ */
+export class RecordingLLM implements ILLM {
+    private cassette: Cassette;
+
+    constructor(
+        private inner: ILLM,
+        private cassettePath: string,
+        private options: RecordingLLMOptions = {}
+    ) {
+        this.cassette = { version: 1, model: inner.model, entries: [] };
+    }
+
+    get model(): SupportedModel { return this.inner.model; }
+    get streaming(): boolean { return this.inner.streaming; }
+    get parallelToolCall(): boolean { return this.inner.parallelToolCall; }
+    get temperature(): number { return this.inner.temperature; }
+    get maxTokens(): number { return this.inner.maxTokens; }
+
+    setParallelToolCall(enabled: boolean): void {
+        if (this.inner.setParallelToolCall) {
+            this.inner.setParallelToolCall(enabled);
+        } else {
+            this.inner.parallelToolCall = enabled;
+        }
+    }
+
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.inner.setReasoning?.(reasoning);
+    }
+
+    get entries(): CassetteEntry[] {
+        return this.cassette.entries;
+    }
+
+    async *callStream(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        const chunks: LLMStreamChunk[] = [];
+        for await (const chunk of this.inner.callStream(messages, tools, options)) {
+            chunks.push(serializeChunk(chunk));
+            yield chunk;
+        }
+        this.record({ ...this.createEntry('callStream', messages, tools, options), chunks });
+    }
+
+    /**
+     * 不支持结构化消息的模型收到展开后的字符串，录制时仍按消息数组记录
+     */
+    async *callStreamMessages(messages: LLMMessage[], tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        const stream = this.inner.callStreamMessages
+            ? this.inner.callStreamMessages(messages, tools, options)
+            : this.inner.callStream(flattenLLMMessages(messages), tools, options);
+        const chunks: LLMStreamChunk[] = [];
+        for await (const chunk of stream) {
+            chunks.push(serializeChunk(chunk));
+            yield chunk;
+        }
+        this.record({ ...this.createEntry('callStreamMessages', serializeMessages(messages), tools, options), chunks });
+    }
+
+    async callAsync(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): Promise<LLMCallResult> {
+        const result = await this.inner.callAsync(messages, tools, options);
+        this.record({ ...this.createEntry('callAsync', messages, tools, options), result });
+        return result;
+    }
+
+    /**
+     * 修复重试在被包装的模型内部完成，只记录最终通过校验的结果
+     */
+    async callStructured<T>(prompt: string, schema: z.ZodType<T>, options?: StructuredCallOptions): Promise<StructuredCallResult<T>> {
+        const structured = await callStructured(this.inner, prompt, schema, options);
+        this.record({ ...this.createEntry('callStructured', prompt, [], options), structured });
+        return structured;
+    }
+
+    private createEntry(method: CassetteEntry['method'], messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): CassetteEntry {
+        return {
+            key: hashLLMRequest(messages, tools, this.options.normalize),
+            method,
+            request: {
+                messages,
+                tools: tools.map(tool => tool.name),
+                stepIndex: options?.stepIndex
+            }
+        };
+    }
+
+    private record(entry: CassetteEntry): void {
+        this.cassette.entries.push(entry);
+        saveCassette(this.cassettePath, this.cassette);
+        logger.debug(`📼 Recorded ${entry.method} ${entry.key} (${this.cassette.entries.length} entries)`);
+    }
+}
+
+/**
+ * 回放 LLM：按请求哈希返回录制的结果，未命中时抛出错误
+ * 同一哈希的多条记录按录制顺序依次返回
+ */
+export class ReplayLLM implements ILLM {
+    model: SupportedModel;
+    streaming = true;
+    parallelToolCall = false;
+    temperature = 0;
+    maxTokens = 0;
+    reasoning?: ReasoningOptions;
+
+    private entries: CassetteEntry[];
+    private queues = new Map<string, CassetteEntry[]>();
+    private used = new Set<CassetteEntry>();
+
+    constructor(cassette: Cassette | string, private options: ReplayLLMOptions = {}) {
+        const loaded = typeof cassette === 'string' ? loadCassette(cassette) : cassette;
+        this.model = loaded.model as SupportedModel;
+        this.entries = loaded.entries;
+        for (const entry of this.entries) {
+            const queue = this.queues.get(entry.key) || [];
+            queue.push(entry);
+            this.queues.set(entry.key, queue);
+        }
+    }
+
+    setParallelToolCall(enabled: boolean): void {
+        this.parallelToolCall = enabled;
+    }
+
+    /**
+     * 录制的返回值已包含推理内容，回放时只记录配置
+     */
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.reasoning = reasoning;
+    }
+
+    /**
+     * 未被回放的记录数
+     */
+    remaining(): number {
+        return this.entries.length - this.used.size;
+    }
+
+    callStream(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        return this.replayStream(messages, tools, options);
+    }
+
+    callStreamMessages(messages: LLMMessage[], tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        return this.replayStream(serializeMessages(messages), tools, options);
+    }
+
+    private async *replayStream(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        throwIfAborted(options?.signal);
+        const entry = this.take(messages, tools);
+        const chunks = entry.chunks || expandResult(entry.result || { text: '' }, options?.stepIndex);
+        for (const chunk of chunks) {
+            throwIfAborted(options?.signal);
+            yield deserializeChunk(chunk);
+        }
+    }
+
+    async callAsync(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): Promise<LLMCallResult> {
+        throwIfAborted(options?.signal);
+        const entry = this.take(messages, tools);
+        return entry.result || foldChunks(entry.chunks || []);
+    }
+
+    /**
+     * 回放的数据重新经过 schema 校验，schema 变化时及时失败
+     */
+    async callStructured<T>(prompt: string, schema: z.ZodType<T>, options?: StructuredCallOptions): Promise<StructuredCallResult<T>> {
+        throwIfAborted(options?.signal);
+        const entry = this.take(prompt, [], candidate => candidate.method === 'callStructured');
+        const structured = entry.structured!;
+        return { ...structured, data: schema.parse(structured.data) };
+    }
+
+    /**
+     * 文本调用之间可以互相回放（chunk 与 callAsync 结果可以互相转换），callStructured 只回放结构化记录
+     */
+    private take(messages: string, tools: ToolCallDefinition[], accept: (entry: CassetteEntry) => boolean = entry => entry.method !== 'callStructured'): CassetteEntry {
+        const key = hashLLMRequest(messages, tools, this.options.normalize);
+        const available = (candidate: CassetteEntry) => !this.used.has(candidate) && accept(candidate);
+        let entry = this.queues.get(key)?.find(available);
+
+        if (!entry && this.options.sequential) {
+            entry = this.entries.find(available);
+        }
+        if (!entry) {
+            throw new Error(
+                `ReplayLLM: no recorded response for request ${key} ` +
+                `(${this.remaining()} of ${this.entries.length} entries unused). Re-record the cassette if the prompt changed.`
+            );
+        }
+
+        this.used.add(entry);
+        return entry;
+    }
+}
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { ILLM, LLMUsage, StructuredCallOptions, StructuredCallResult, addLLMUsage } from "../interfaces/index.js";
+import { zodToJsonNostrict } from "../utils/jsonHelper.js";
+import { logger } from "../utils/logger.js";
+
+const DEFAULT_SCHEMA_NAME = 'response';
+const DEFAULT_REPAIR_RETRIES = 2;
+
+/**
+ * 结构化输出在修复重试后仍无法通过 schema 校验
+ */
+export class StructuredOutputError extends Error {
+    constructor(message: string, public readonly rawText: string, public readonly attempts: number) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+/**
+ * 一次原生结构化调用的原始结果：text 为 JSON 文本，或 data 为 provider 已解析的对象（Anthropic tool_use input）
+ */
+export interface StructuredAttempt {
+    text?: string;
+    data?: unknown;
+    usage?: LLMUsage;
+}
+
+export type StructuredParseResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string };
+
+export function getSchemaName(options?: StructuredCallOptions): string {
+    return options?.schemaName ?? DEFAULT_SCHEMA_NAME;
+}
+
+/**
+ * provider 的原生 JSON schema 模式只接受对象作为顶层类型
+ */
+export function isObjectSchema(schema: z.ZodTypeAny): schema is z.ZodObject<any> {
+    return schema instanceof z.ZodObject;
+}
+
+/**
+ * 从模型输出中取出 JSON：去掉 ```json 代码块，截取第一个对象或数组
+ */
+export function extractJsonText(text: string): string {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const body = (fenced ? fenced[1] : text).trim();
+    const start = body.search(/[{[]/);
+    if (start === -1) return body;
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    return end > start ? body.slice(start, end + 1) : body.slice(start);
+}
+
+/**
+ * 去掉值为 null 的对象字段：strict JSON schema（zodToJsonStrict）把 optional 字段表示为可为 null 的必填字段
+ */
+function stripNullFields(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(stripNullFields);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, field]) => field !== null)
+            .map(([key, field]) => [key, stripNullFields(field)]));
+    }
+    return value;
+}
+
+export function parseStructuredOutput<T>(attempt: StructuredAttempt, schema: z.ZodType<T>): StructuredParseResult<T> {
+    let value = attempt.data;
+    if (value === undefined) {
+        try {
+            value = JSON.parse(extractJsonText(attempt.text ?? ''));
+        } catch (error) {
+            return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+    const result = schema.safeParse(value);
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+    const withoutNulls = schema.safeParse(stripNullFields(value));
+    if (withoutNulls.success) {
+        return { success: true, data: withoutNulls.data };
+    }
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return { success: false, error: `Schema validation failed: ${issues.join('; ')}` };
+}
+
+/**
+ * 没有原生结构化模式时追加在 prompt 末尾的输出要求
+ */
+export function formatStructuredOutputInstructions(schema: z.ZodTypeAny): string {
+    return `
+
+## Output Format
+Respond with a single JSON value that conforms to this JSON schema. Do not include any other text.
+\`\`\`json
+${JSON.stringify(zodToJsonNostrict(schema), null, 2)}
+\`\`\``;
+}
+
+function buildRepairPrompt(prompt: string, attempt: StructuredAttempt, error: string): string {
+    const previous = attempt.text ?? JSON.stringify(attempt.data);
+    return `${prompt}
+
+## Previous Answer
+${previous}
+
+The previous answer was rejected: ${error}
+Return a corrected answer that conforms to the schema.`;
+}
+
+/**
+ * 调用并校验结构化输出，解析或校验失败时带上错误信息重新请求
+ * @param invoke 一次原生结构化调用（JSON schema 模式、强制工具调用等）
+ */
+export async function callWithRepair<T>(
+    invoke: (prompt: string) => Promise<StructuredAttempt>,
+    prompt: string,
+    schema: z.ZodType<T>,
+    options?: StructuredCallOptions
+): Promise<StructuredCallResult<T>> {
+    const maxRetries = options?.maxRetries ?? DEFAULT_REPAIR_RETRIES;
+    let usage: LLMUsage | undefined;
+    let currentPrompt = prompt;
+
+    for (let attempt = 0; ; attempt++) {
+        const result = await invoke(currentPrompt);
+        if (result.usage) {
+            usage = addLLMUsage(usage, result.usage);
+        }
+
+        const parsed = parseStructuredOutput(result, schema);
+        if (parsed.success) {
+            return { data: parsed.data, usage, attempts: attempt + 1 };
+        }
+        if (attempt >= maxRetries) {
+            throw new StructuredOutputError(parsed.error, result.text ?? JSON.stringify(result.data), attempt + 1);
+        }
+
+        logger.warn(`Structured output rejected (${parsed.error}), retrying (${attempt + 1}/${maxRetries})`);
+        currentPrompt = buildRepairPrompt(prompt, result, parsed.error);
+    }
+}
+
+/**
+ * 对任意 ILLM 发起结构化调用：优先使用 callStructured，未实现时通过 prompt 描述 schema 并解析文本
+ */
+export function callStructured<T>(
+    llm: ILLM,
+    prompt: string,
+    schema: z.ZodType<T>,
+    options?: StructuredCallOptions
+): Promise<StructuredCallResult<T>> {
+    if (llm.callStructured) {
+        return llm.callStructured(prompt, schema, options);
+    }
+    return callWithRepair(
+        async currentPrompt => llm.callAsync(currentPrompt + formatStructuredOutputInstructions(schema), [], options),
+        prompt,
+        schema,
+        options
+    );
+}
@@ -0,0 +1,327 @@
+import { z } from "zod";
+import { ILLM, LLMCallOptions, LLMContentBlock, LLMMessage, LLMStreamChunk, LLMUsage, ReasoningOptions, StructuredCallOptions, StructuredCallResult, ToolCallDefinition, ToolCallParams } from "../interfaces/index.js";
+import { zodToJsonNostrict } from "../utils/jsonHelper.js";
+import { XmlExtractor } from "../utils/xml-extractor.js";
+import { SupportedModel } from "./models-list.js";
+import { getModelInfo } from "./model-registry.js";
+import { flattenLLMMessages, formatContentBlockAsText, toContentBlocks } from "./llm-messages.js";
+import { callStructured } from "./structured-output.js";
+
+/**
+ * 工具调用协议：native 使用 provider 的 function calling，text 把工具写入 system prompt 并从文本中解析
+ * auto 按模型注册表的 tools 能力选择
+ */
+export type ToolCallProtocol = 'auto' | 'native' | 'text';
+
+const TOOL_CALL_OPEN = '<tool_call';
+// 不匹配 prompt 中的 <tool_call_result>
+const TOOL_CALL_OPEN_PATTERN = /<tool_call[\s>]/;
+const TOOL_CALL_CLOSE = '</tool_call>';
+const TOOL_CALL_BLOCK_PATTERN = /<tool_call\b[^>]*>[\s\S]*?<\/tool_call>/g;
+
+// 保留空白：参数值可能是代码或文件内容
+const extractor = new XmlExtractor({ preserveWhitespace: true, fallbackToRegex: false });
+
+/**
+ * 模型是否支持原生工具调用：按模型注册表中的 tools 能力判断，未登记的模型视为支持
+ */
+export function supportsNativeToolCalls(model: string): boolean {
+    const info = getModelInfo(model);
+    return info ? !!info.capabilities?.tools : true;
+}
+
+/**
+ * 按协议包装模型，text 协议下返回 TextToolCallLLM
+ */
+export function applyToolCallProtocol(llm: ILLM, protocol: ToolCallProtocol = 'auto'): ILLM {
+    const useText = protocol === 'text' || (protocol === 'auto' && !supportsNativeToolCalls(llm.model));
+    return useText && !(llm instanceof TextToolCallLLM) ? new TextToolCallLLM(llm) : llm;
+}
+
+/**
+ * 写入 system prompt 的工具说明
+ */
+export function formatTextToolInstructions(tools: ToolCallDefinition[]): string {
+    const toolDescriptions = tools.map(tool => [
+        `### ${tool.name}`,
+        tool.description,
+        `Parameters (JSON Schema): ${JSON.stringify(zodToJsonNostrict(tool.paramSchema))}`
+    ].join('\n')).join('\n\n');
+
+    return `## Tool Calling
+To call a tool, write one block per call in exactly this format:
+<tool_call name="tool_name">
+<param name="parameter_name">value</param>
+</tool_call>
+- Write string values as plain text, without quotes or escaping.
+- Write numbers and booleans as literals, and objects or arrays as JSON.
+- Omit optional parameters you do not need.
+The results will be provided in the next step.
+
+${toolDescriptions}`;
+}
+
+/**
+ * 按参数 schema 的类型还原参数值，string 以外的值按 JSON 解析
+ */
+function coerceParamValue(raw: string, schema: Record<string, any> | undefined): any {
+    const type = schema?.type;
+    if (type === 'string') {
+        return raw.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    }
+    const value = raw.trim();
+    if (type === 'number' || type === 'integer') {
+        const num = Number(value);
+        return value === '' || isNaN(num) ? value : num;
+    }
+    if (type === 'boolean') {
+        return value.toLowerCase() === 'true';
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return type === 'object' || type === 'array' ? value : raw.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    }
+}
+
+/**
+ * 解析一个完整的 <tool_call name="..."> 块
+ */
+export function parseTextToolCall(block: string, tools: ToolCallDefinition[], callId: string): ToolCallParams {
+    const node = extractor.parseNode(block, 'tool_call');
+    const name = node?.attributes.name;
+    if (!node || !name) {
+        throw new Error('missing name attribute');
+    }
+
+    const tool = tools.find(candidate => candidate.name === name);
+    const properties: Record<string, any> = tool ? zodToJsonNostrict(tool.paramSchema).properties ?? {} : {};
+    const parameters: Record<string, any> = {};
+    for (const param of extractor.extractAll(node.content, 'param')) {
+        const paramName = param.node?.attributes.name;
+        if (paramName) {
+            parameters[paramName] = coerceParamValue(param.content, properties[paramName]);
+        }
+    }
+
+    return { type: 'function', name, call_id: callId, parameters };
+}
+
+/**
+ * 去掉文本中的工具调用块
+ */
+export function stripTextToolCalls(text: string): string {
+    return text.replace(TOOL_CALL_BLOCK_PATTERN, '').trim();
+}
+
+/**
+ * 从流式文本中解析工具调用：块外的文本原样输出为 text-delta，块闭合时输出 tool-call-start / tool-call-done
+ */
+export class TextToolCallStream {
+    private buffer = '';
+
+    constructor(
+        private tools: ToolCallDefinition[],
+        private createCallId: () => string,
+        private stepIndex?: number
+    ) {}
+
+    *push(delta: string): Iterable<LLMStreamChunk> {
+        this.buffer += delta;
+        while (this.buffer) {
+            const start = this.buffer.search(TOOL_CALL_OPEN_PATTERN);
+            if (start === -1) {
+                // 末尾可能是被截断的 "<tool_c"，留到下一个增量
+                const keep = this.partialOpenLength();
+                yield* this.text(this.buffer.slice(0, this.buffer.length - keep));
+                this.buffer = this.buffer.slice(this.buffer.length - keep);
+                return;
+            }
+            if (start > 0) {
+                yield* this.text(this.buffer.slice(0, start));
+                this.buffer = this.buffer.slice(start);
+            }
+            const end = this.buffer.indexOf(TOOL_CALL_CLOSE);
+            if (end === -1) {
+                return;
+            }
+            const block = this.buffer.slice(0, end + TOOL_CALL_CLOSE.length);
+            this.buffer = this.buffer.slice(block.length);
+            yield* this.toolCall(block);
+        }
+    }
+
+    /**
+     * 流结束时输出剩余文本，未闭合的工具调用块按文本处理
+     */
+    *flush(): Iterable<LLMStreamChunk> {
+        yield* this.text(this.buffer);
+        this.buffer = '';
+    }
+
+    private partialOpenLength(): number {
+        for (let length = Math.min(TOOL_CALL_OPEN.length, this.buffer.length); length > 0; length--) {
+            if (TOOL_CALL_OPEN.startsWith(this.buffer.slice(-length))) {
+                return length;
+            }
+        }
+        return 0;
+    }
+
+    private *text(content: string): Iterable<LLMStreamChunk> {
+        if (content) {
+            yield { type: 'text-delta', content, stepIndex: this.stepIndex };
+        }
+    }
+
+    private *toolCall(block: string): Iterable<LLMStreamChunk> {
+        const callId = this.createCallId();
+        try {
+            const toolCall = parseTextToolCall(block, this.tools, callId);
+            yield { type: 'tool-call-start', toolCall, stepIndex: this.stepIndex };
+            yield { type: 'tool-call-done', toolCall, result: { parameters: toolCall.parameters }, stepIndex: this.stepIndex };
+        } catch (error) {
+            yield {
+                type: 'tool-call-error',
+                toolCall: { type: 'function', call_id: callId, name: 'unknown', parameters: {} },
+                error: new Error(`Failed to parse <tool_call>: ${error instanceof Error ? error.message : String(error)}: ${block}`),
+                stepIndex: this.stepIndex
+            };
+        }
+    }
+}
+
+/**
+ * 工具说明追加到 system 消息的最后一个文本块，保持 cache 断点位置不变；没有 system 消息时插入一条
+ * 历史中的 tool_use / tool_result 块转换为文本协议
+ */
+function toTextToolMessages(messages: LLMMessage[], instructions: string): LLMMessage[] {
+    const converted: LLMMessage[] = messages.map(message => ({
+        role: message.role,
+        content: toContentBlocks(message.content).map((block): LLMContentBlock => block.type === 'text'
+            ? block
+            : { type: 'text', text: formatContentBlockAsText(block) })
+    }));
+
+    const system = converted.find(message => message.role === 'system');
+    const lastText = system && [...(system.content as LLMContentBlock[])].reverse().find(block => block.type === 'text');
+    if (!system || !lastText || lastText.type !== 'text') {
+        return [{ role: 'system', content: instructions }, ...converted];
+    }
+    system.content = (system.content as LLMContentBlock[]).map(block => block === lastText
+        ? { ...lastText, text: `${lastText.text}\n\n${instructions}` }
+        : block);
+    return converted;
+}
+
+/**
+ * 文本工具调用协议：用于没有原生工具调用或工具调用能力较弱的模型（本地模型、deepseek-reasoner 等）
+ * 工具定义写入 system prompt，调用模型时不传 tools，从流式文本中解析 <tool_call name="..."><param> 块
+ */
+export class TextToolCallLLM implements ILLM {
+    constructor(private inner: ILLM) {}
+
+    get model(): SupportedModel { return this.inner.model; }
+    get streaming(): boolean { return this.inner.streaming; }
+    get parallelToolCall(): boolean { return this.inner.parallelToolCall; }
+    set parallelToolCall(enabled: boolean) { this.setParallelToolCall(enabled); }
+    get temperature(): number { return this.inner.temperature; }
+    get maxTokens(): number { return this.inner.maxTokens; }
+
+    setParallelToolCall(enabled: boolean): void {
+        if (this.inner.setParallelToolCall) {
+            this.inner.setParallelToolCall(enabled);
+        } else {
+            this.inner.parallelToolCall = enabled;
+        }
+    }
+
+    setReasoning(reasoning: ReasoningOptions | undefined): void {
+        this.inner.setReasoning?.(reasoning);
+    }
+
+    /**
+     * 字符串 prompt 以 system prompt 开头，工具说明放在最前面，保持稳定的前缀
+     */
+    callStream(messages: string, tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        if (tools.length === 0) {
+            return this.inner.callStream(messages, tools, options);
+        }
+        const prompt = `${formatTextToolInstructions(tools)}\n\n${messages}`;
+        return this.parseToolCalls(this.inner.callStream(prompt, [], options), tools, options);
+    }
+
+    callStreamMessages(messages: LLMMessage[], tools: ToolCallDefinition[], options?: LLMCallOptions): AsyncIterable<LLMStreamChunk> {
+        const converted = tools.length > 0 ? toTextToolMessages(messages, formatTextToolInstructions(tools)) : messages;
+        const stream = this.inner.callStreamMessages
+            ? this.inner.callStreamMessages(converted, [], options)
+            : this.inner.callStream(flattenLLMMessages(converted), [], options);
+        return tools.length > 0 ? this.parseToolCalls(stream, tools, options) : stream;
+    }
+
+    private async *parseToolCalls(
+        stream: AsyncIterable<LLMStreamChunk>,
+        tools: ToolCallDefinition[],
+        options?: LLMCallOptions
+    ): AsyncIterable<LLMStreamChunk> {
+        let callCount = 0;
+        let streamed = false;
+        const parser = new TextToolCallStream(tools, () => `call_${Date.now()}_${callCount++}`, options?.stepIndex);
+
+        for await (const chunk of stream) {
+            switch (chunk.type) {
+                case 'text-delta':
+                    streamed = true;
+                    yield* parser.push(chunk.content);
+                    break;
+                case 'text-done': {
+                    // 只输出 text-done 的模型在这里解析完整文本
+                    if (!streamed) {
+                        yield* parser.push(chunk.content);
+                    }
+                    yield* parser.flush();
+                    const content = stripTextToolCalls(chunk.content);
+                    if (content) {
+                        yield { ...chunk, content };
+                    }
+                    break;
+                }
+                default:
+                    yield chunk;
+            }
+        }
+        yield* parser.flush();
+    }
+
+    async callAsync(
+        messages: string,
+        tools: ToolCallDefinition[],
+        options?: LLMCallOptions
+    ): Promise<{ text: string; toolCalls?: ToolCallParams[]; usage?: LLMUsage }> {
+        let text = '';
+        const toolCalls: ToolCallParams[] = [];
+        let usage: LLMUsage | undefined;
+
+        for await (const chunk of this.callStream(messages, tools, options)) {
+            switch (chunk.type) {
+                case 'text-done':
+                    text += chunk.content;
+                    break;
+                case 'tool-call-done':
+                    toolCalls.push(chunk.toolCall);
+                    break;
+                case 'usage':
+                    usage = chunk.usage;
+                    break;
+                case 'error':
+                    throw new Error(chunk.message);
+            }
+        }
+
+        return { text, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, usage };
+    }
+
+    callStructured<T>(prompt: string, schema: z.ZodType<T>, options?: StructuredCallOptions): Promise<StructuredCallResult<T>> {
+        return callStructured(this.inner, prompt, schema, options);
+    }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { 
     SimpleAgentHub, 
     MultiAgentBase,
@@ -10,6 +10,7 @@ import {
     Task,
     DEFAULT_MULTI_AGENT_CONFIG
 } from '../index';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
 
 describe('Routing Strategies', () => {
     let codingAgent: MultiAgentBase;
@@ -187,6 +188,18 @@ describe('Routing Strategies', () => {
             // 应该回退到关键词策略并返回结果
             expect(result).toBe(codingAgent);
         });
+
+        it('should embed the task and agents in one batch with an injected provider', async () => {
+            const embed = vi.fn(async (texts: string[]) => texts.map(text => text.includes('Research') || text.includes('Python') ? [1, 0] : [0, 1]));
+            const injected = new VectorRoutingStrategy({ strategy: 'vector' }, { model: 'fake', dimensions: 2, embed });
+
+            const result = await injected.selectAgent(testTask, [writingAgent, researchAgent]);
+            await injected.selectAgent(testTask, [writingAgent, researchAgent]);
+
+            expect(result).toBe(researchAgent);
+            expect(embed).toHaveBeenCalledTimes(1);
+            expect(embed.mock.calls[0][0]).toHaveLength(3);
+        });
     });
 
     describe('Integration with SimpleAgentHub', () => {
@@ -263,6 +276,34 @@ describe('Routing Strategies', () => {
         });
     });
 
+    describe('LLMRoutingStrategy', () => {
+        const fakeLLM = (...responses: string[]) => createFakeLLM({
+            streaming: false,
+            maxTokens: 200,
+            callAsync: vi.fn(async () => ({ text: responses.shift() ?? '' })),
+        });
+
+        it('should select the agent returned by the structured call', async () => {
+            const llm = fakeLLM('```json\n{"agentId": "research-agent", "reason": "needs analysis"}\n```');
+            const strategy = new LLMRoutingStrategy({ strategy: 'llm' }, llm);
+
+            const result = await strategy.selectAgent(testTask, [codingAgent, researchAgent]);
+
+            expect(result?.id).toBe('research-agent');
+            expect(vi.mocked(llm.callAsync).mock.calls[0][0]).toContain('"enum"');
+        });
+
+        it('should retry when the returned id is not a candidate', async () => {
+            const llm = fakeLLM('{"agentId": "agent", "reason": "?"}', '{"agentId": "writing-agent", "reason": "content task"}');
+            const strategy = new LLMRoutingStrategy({ strategy: 'llm' }, llm);
+
+            const result = await strategy.selectAgent(testTask, [codingAgent, writingAgent]);
+
+            expect(result?.id).toBe('writing-agent');
+            expect(vi.mocked(llm.callAsync).mock.calls[1][0]).toContain('The previous answer was rejected');
+        });
+    });
+
     describe('Routing Strategy Performance', () => {
         it('should complete routing selection within reasonable time', async () => {
             const strategy = new KeywordRoutingStrategy({ strategy: 'keyword' });
@@ -4,12 +4,16 @@ import {
     RoutingStrategy, 
     RoutingConfig 
 } from '../interfaces/multi-agent.js';
+import { z } from 'zod';
 import { logger } from '../utils/logger.js';
 import { ILLM } from '../interfaces/agent.js';
 import { OpenAIWrapper } from '../models/openai.js';
 import { AnthropicWrapper } from '../models/anthropic.js';
 import { GeminiWrapper } from '../models/gemini.js';
 import { OpenAIChatWrapper } from '../models/openai-chat.js';
+import { callStructured } from '../models/structured-output.js';
+import { CachedEmbeddingProvider, cosineSimilarity, createEmbeddingProvider } from '../models/embeddings.js';
+import { IEmbeddingProvider } from '../interfaces/memory.js';
 
 /**
  * 🎯 智能体路由策略接口
@@ -136,27 +140,23 @@ export class LLMRoutingStrategy implements IRoutingStrategy {
             
             const prompt = this.buildSelectionPrompt(task, agentDescriptions, requiredCapability);
             
-            // 使用 LLM 的 call 方法 (不使用工具)
             if (!this.llm) {
                 throw new Error('LLM not initialized');
             }
-            const llm = this.llm; // TypeScript needs this to understand it's not undefined
             
-            // Handle the case where call method might be undefined
-            const response = llm.call 
-                ? await llm.call(prompt, [])
-                : await llm.callAsync(prompt, []);
-            const selectedAgentId = this.parseAgentSelection(response?.text || '');
+            // agentId 限定为候选ID，结构化输出保证返回值可直接匹配
+            const selectionSchema = z.object({
+                agentId: z.enum(candidates.map(agent => agent.id) as [string, ...string[]]).describe('最合适的智能体ID'),
+                reason: z.string().describe('选择该智能体的简要理由')
+            });
+            const { data } = await callStructured(this.llm, prompt, selectionSchema, {
+                schemaName: 'agent_selection',
+                description: '为任务选择的智能体'
+            });
             
-            const selectedAgent = candidates.find(agent => agent.id === selectedAgentId);
-            
-            if (selectedAgent) {
-                logger.info(`LLM选择智能体: ${selectedAgentId} 执行任务: "${task.description}"`);
-                return selectedAgent;
-            } else {
-                logger.warn(`LLM返回的智能体ID ${selectedAgentId} 不在候选列表中，回退到第一个可用智能体`);
-                return candidates[0];
-            }
+            const selectedAgent = candidates.find(agent => agent.id === data.agentId)!;
+            logger.info(`LLM选择智能体: ${data.agentId} 执行任务: "${task.description}"，理由: ${data.reason}`);
+            return selectedAgent;
             
         } catch (error) {
             logger.error('LLM路由策略失败，回退到简单策略:', error);
@@ -202,32 +202,7 @@ ${agents.map(agent => `
 3. 智能体专业程度
 4. 任务优先级考虑
 
-请分析每个智能体的适合程度，然后只返回最合适的智能体ID (不要包含其他文字)。
-
-选择的智能体ID:`;
-    }
-    
-    private parseAgentSelection(response: string): string {
-        // 提取智能体ID，移除多余的文字
-        const cleaned = response.trim().toLowerCase();
-        
-        // 尝试匹配常见的智能体ID模式
-        const patterns = [
-            /(?:agent[_-]?)?(\w+(?:[_-]\w+)*)/,
-            /^(\w+(?:[_-]\w+)*)$/,
-            /选择[：:]?\s*(\w+(?:[_-]\w+)*)/,
-            /id[：:]?\s*(\w+(?:[_-]\w+)*)/
-        ];
-        
-        for (const pattern of patterns) {
-            const match = cleaned.match(pattern);
-            if (match && match[1]) {
-                return match[1];
-            }
-        }
-        
-        // 如果没有匹配到，返回整个清理后的字符串
-        return cleaned;
+请分析每个智能体的适合程度，返回最合适的智能体ID和简要理由。`;
     }
 }
 
@@ -235,9 +210,16 @@ ${agents.map(agent => `
  * 🎯 向量距离计算策略
  */
 export class VectorRoutingStrategy implements IRoutingStrategy {
-    private embeddingCache = new Map<string, number[]>();
+    private embeddingProvider: IEmbeddingProvider;
     
-    constructor(private config: RoutingConfig) {}
+    constructor(private config: RoutingConfig, embeddingProvider?: IEmbeddingProvider) {
+        // 默认使用本地离线嵌入，可通过 vectorConfig.provider 切换到 OpenAI / Gemini
+        const provider = embeddingProvider ?? createEmbeddingProvider(config.vectorConfig?.provider || 'local', {
+            modelName: config.vectorConfig?.embeddingModel,
+            dimensions: config.vectorConfig?.dimensions
+        });
+        this.embeddingProvider = new CachedEmbeddingProvider(provider);
+    }
 
     async selectAgent(
         task: Task, 
@@ -256,29 +238,28 @@ export class VectorRoutingStrategy implements IRoutingStrategy {
         }
         
         try {
-            // 获取任务描述的向量表示
-            const taskEmbedding = await this.getEmbedding(task.description);
+            // 一次批量获取任务描述与各智能体描述的向量表示
+            const [taskEmbedding, ...agentEmbeddings] = await this.embeddingProvider.embed([
+                task.description,
+                ...candidates.map(agent => this.buildAgentDescription(agent))
+            ]);
             
             // 计算每个智能体的相似度得分
-            const agentScores = await Promise.all(
-                candidates.map(async (agent) => {
-                    const agentDescription = this.buildAgentDescription(agent);
-                    const agentEmbedding = await this.getEmbedding(agentDescription);
-                    const similarity = this.cosineSimilarity(taskEmbedding, agentEmbedding);
-                    
-                    // 考虑负载平衡
-                    const status = agent.getAgentStatus();
-                    const loadFactor = 1 - (status.currentTaskCount / status.maxConcurrentTasks);
-                    const finalScore = similarity * 0.7 + loadFactor * 0.3;
-                    
-                    return {
-                        agent,
-                        similarity,
-                        loadFactor,
-                        finalScore
-                    };
-                })
-            );
+            const agentScores = candidates.map((agent, index) => {
+                const similarity = cosineSimilarity(taskEmbedding, agentEmbeddings[index]);
+                
+                // 考虑负载平衡
+                const status = agent.getAgentStatus();
+                const loadFactor = 1 - (status.currentTaskCount / status.maxConcurrentTasks);
+                const finalScore = similarity * 0.7 + loadFactor * 0.3;
+                
+                return {
+                    agent,
+                    similarity,
+                    loadFactor,
+                    finalScore
+                };
+            });
             
             // 过滤相似度阈值
             const threshold = this.config.vectorConfig?.similarityThreshold || 0.7;
@@ -312,84 +293,6 @@ export class VectorRoutingStrategy implements IRoutingStrategy {
     private buildAgentDescription(agent: IMultiAgent): string {
         return `${agent.name}: ${agent.description}. Capabilities: ${agent.capabilities.join(', ')}.`;
     }
-    
-    private async getEmbedding(text: string): Promise<number[]> {
-        // 检查缓存
-        if (this.embeddingCache.has(text)) {
-            return this.embeddingCache.get(text)!;
-        }
-        
-        try {
-            // 这里应该调用实际的嵌入API (如OpenAI Embeddings)
-            // 为了演示，我们使用简单的文本特征提取
-            const embedding = await this.generateSimpleEmbedding(text);
-            
-            // 缓存结果
-            this.embeddingCache.set(text, embedding);
-            
-            return embedding;
-        } catch (error) {
-            logger.error('生成嵌入向量失败:', error);
-            // 返回随机向量作为后备
-            const dimensions = this.config.vectorConfig?.dimensions || 1536;
-            return Array.from({ length: dimensions }, () => Math.random());
-        }
-    }
-    
-    private async generateSimpleEmbedding(text: string): Promise<number[]> {
-        // 简单的文本特征提取 (实际应用中应该使用真正的嵌入模型)
-        const words = text.toLowerCase().split(/\s+/);
-        const dimensions = this.config.vectorConfig?.dimensions || 1536;
-        
-        // 基于文本特征生成向量
-        const embedding = new Array(dimensions).fill(0);
-        
-        words.forEach((word, index) => {
-            // 简单的哈希函数映射单词到向量维度
-            const hash = this.simpleHash(word);
-            const dim = hash % dimensions;
-            embedding[dim] += 1 / Math.sqrt(words.length);
-        });
-        
-        // 归一化
-        const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-        return embedding.map(val => norm > 0 ? val / norm : 0);
-    }
-    
-    private simpleHash(str: string): number {
-        let hash = 0;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32bit integer
-        }
-        return Math.abs(hash);
-    }
-    
-    private cosineSimilarity(a: number[], b: number[]): number {
-        if (a.length !== b.length) {
-            throw new Error('向量维度不匹配');
-        }
-        
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-        
-        for (let i = 0; i < a.length; i++) {
-            dotProduct += a[i] * b[i];
-            normA += a[i] * a[i];
-            normB += b[i] * b[i];
-        }
-        
-        normA = Math.sqrt(normA);
-        normB = Math.sqrt(normB);
-        
-        if (normA === 0 || normB === 0) {
-            return 0;
-        }
-        
-        return dotProduct / (normA * normB);
-    }
 }
 
 /**
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ContextCompactor } from '../context-compactor';
+import { ChatHistoryManager } from '../chat-history-manager';
+import { MessageType } from '../../interfaces/base';
+import { ILLM } from '../../interfaces/agent';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+function createSummaryLLM(summary: string): ILLM {
+    return createFakeLLM({
+        streaming: false,
+        callAsync: vi.fn(async () => ({
+            text: summary,
+            usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 }
+        })),
+    });
+}
+
+describe('ContextCompactor', () => {
+    let history: ChatHistoryManager;
+
+    beforeEach(() => {
+        history = new ChatHistoryManager();
+        history.addMessage({ role: 'user', type: MessageType.MESSAGE, step: 0, content: 'Fix the parser bug' });
+        for (let step = 0; step < 6; step++) {
+            history.addMessage({ role: 'agent', type: MessageType.TOOL_CALL, step, content: `tool result ${step} ${'x'.repeat(200)}` });
+        }
+    });
+
+    it('should trigger only when the prompt exceeds the threshold', () => {
+        const compactor = new ContextCompactor(createSummaryLLM('summary'), { maxPromptTokens: 100, triggerRatio: 0.5 });
+        expect(compactor.shouldCompact('a'.repeat(100))).toBe(false);
+        expect(compactor.shouldCompact('a'.repeat(400))).toBe(true);
+    });
+
+    it('should keep the defaults for options passed as undefined', () => {
+        const compactor = new ContextCompactor(createSummaryLLM('summary'), { maxPromptTokens: 100, triggerRatio: undefined, keepRecentSteps: undefined });
+        expect(compactor.shouldCompact('a'.repeat(300))).toBe(false);
+        expect(compactor.shouldCompact('a'.repeat(340))).toBe(true);
+    });
+
+    it('should summarize older steps and keep recent tool results and user messages', async () => {
+        const onUsage = vi.fn();
+        const compactor = new ContextCompactor(createSummaryLLM('Earlier steps inspected the parser.'), { maxPromptTokens: 100, keepRecentSteps: 2 }, onUsage);
+
+        expect(await compactor.compact(history, 5)).toBe(true);
+
+        const visible = history.getFilteredChatHistory(5);
+        const summary = visible.find(message => message.type === MessageType.ANALYSIS);
+        expect(summary?.content).toContain('Earlier steps inspected the parser.');
+        expect(summary?.content).toContain('steps="0-2"');
+        expect(summary?.flag).toBe('include');
+
+        // 用户消息保留，较早的工具结果被排除，最近的工具结果保留
+        expect(visible.some(message => message.role === 'user')).toBe(true);
+        expect(visible.filter(message => message.type === MessageType.TOOL_CALL).map(message => message.step)).toEqual([3, 4, 5]);
+        expect(onUsage).toHaveBeenCalledWith({ promptTokens: 100, completionTokens: 20, totalTokens: 120 });
+    });
+
+    it('should keep the summary visible after its step falls out of the step filter', async () => {
+        const compactor = new ContextCompactor(createSummaryLLM('summary'), { maxPromptTokens: 100, keepRecentSteps: 2 });
+        await compactor.compact(history, 5);
+
+        const visible = history.getFilteredChatHistory(50);
+        expect(visible.some(message => message.type === MessageType.ANALYSIS)).toBe(true);
+    });
+
+    it('should do nothing when there are no old steps', async () => {
+        const compactor = new ContextCompactor(createSummaryLLM('summary'), { maxPromptTokens: 100, keepRecentSteps: 10 });
+        expect(await compactor.compact(history, 5)).toBe(false);
+    });
+});
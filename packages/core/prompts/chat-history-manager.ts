@@ -74,6 +74,27 @@ export class ChatHistoryManager implements IChatHistoryManager {
         ids.forEach(id => this.excludeChatHistory(id));
     }
 
+    // Compaction methods
+    compactChatHistory(ids: string[], summary: Omit<ChatMessage, 'id' | 'timestamp'>): ChatMessage {
+        const idSet = new Set(ids);
+        const summaryMessage: ChatMessage = {
+            ...summary,
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            type: summary.type || MessageType.ANALYSIS
+        };
+
+        // Insert the summary where the first compacted message was, so it keeps its place in the timeline
+        const insertIndex = this.chatHistory.findIndex(msg => idSet.has(msg.id));
+        this.excludeChatHistoryBatch(ids);
+        if (insertIndex === -1) {
+            this.chatHistory.push(summaryMessage);
+        } else {
+            this.chatHistory.splice(insertIndex, 0, summaryMessage);
+        }
+        return summaryMessage;
+    }
+
     // Filtering methods
     getFilteredChatHistory(currentStep: number): ChatMessage[] {
         // Stage 1: Filter by step count
@@ -84,6 +105,9 @@ export class ChatHistoryManager implements IChatHistoryManager {
 
     private filterStepChatHistory(currentStep: number): ChatMessage[] {
         return this.chatHistory.filter(message => {
+            // Pinned messages (e.g. compaction summaries) are never dropped by step filtering
+            if (message.flag === 'include') return true;
+
             // Use MESSAGE as default type if not specified
             const messageType = message.type || MessageType.MESSAGE;
             const keepSteps = this.config[messageType];
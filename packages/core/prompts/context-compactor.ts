@@ -0,0 +1,109 @@
+import { ChatMessage, MessageType } from "../interfaces/base.js";
+import { IChatHistoryManager } from "../interfaces/prompt.js";
+import { ILLM, LLMUsage } from "../interfaces/agent.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * 上下文压缩配置
+ */
+export interface ContextCompactionConfig {
+    maxPromptTokens: number;       // prompt 可用的 token 上限（上下文窗口减去输出预留）
+    triggerRatio?: number;         // prompt 估算超过 maxPromptTokens * triggerRatio 时触发压缩，默认 0.8
+    keepRecentSteps?: number;      // 最近 N 步不参与压缩（保留原始工具结果），默认 3
+    maxSummaryInputChars?: number; // 单条消息送入摘要模型的最大字符数，默认 4000
+}
+
+/**
+ * 粗略估算 token 数（约 4 个字符一个 token）
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+const SUMMARY_INSTRUCTIONS = `You are compacting the execution history of an AI agent so it fits in its context window.
+Summarize the history below into a concise but complete record that the agent can continue working from.
+Keep: the user's goals and constraints, decisions made and why, files/paths/identifiers touched, important tool results and errors, and what remains to be done.
+Drop: verbose tool output, repeated attempts and chit-chat.
+Respond with the summary only.`;
+
+/**
+ * 上下文压缩器
+ * 当格式化后的 prompt 接近上下文窗口时，将较早的步骤用 LLM 总结为一条 ANALYSIS 消息
+ */
+export class ContextCompactor {
+    private config: Required<ContextCompactionConfig>;
+
+    constructor(
+        private llm: ILLM,
+        config: ContextCompactionConfig,
+        private onUsage?: (usage: LLMUsage) => void
+    ) {
+        // AgentOptions 未设置的字段以 undefined 传入，不能覆盖默认值
+        this.config = {
+            maxPromptTokens: config.maxPromptTokens,
+            triggerRatio: config.triggerRatio ?? 0.8,
+            keepRecentSteps: config.keepRecentSteps ?? 3,
+            maxSummaryInputChars: config.maxSummaryInputChars ?? 4000
+        };
+    }
+
+    /**
+     * 按模型更新 prompt 上限，每个步骤可能使用上下文窗口不同的模型
+     */
+    setMaxPromptTokens(maxPromptTokens: number): void {
+        this.config.maxPromptTokens = maxPromptTokens;
+    }
+
+    shouldCompact(prompt: string): boolean {
+        return estimateTokens(prompt) > this.config.maxPromptTokens * this.config.triggerRatio;
+    }
+
+    /**
+     * 压缩聊天历史
+     * 用户消息和最近 keepRecentSteps 步的消息保持原样，其余消息（包括之前的摘要）合并为一条新摘要
+     * @returns 是否进行了压缩
+     */
+    async compact(chatHistoryManager: IChatHistoryManager, stepIndex: number): Promise<boolean> {
+        const cutoffStep = stepIndex - this.config.keepRecentSteps;
+        const candidates = chatHistoryManager.getFilteredChatHistory(stepIndex)
+            .filter(message => message.step < cutoffStep && message.role !== 'user');
+
+        if (candidates.length === 0) {
+            logger.debug(`ContextCompactor: Nothing to compact before step ${cutoffStep}`);
+            return false;
+        }
+
+        const fromStep = Math.min(...candidates.map(message => message.step));
+        const toStep = Math.max(...candidates.map(message => message.step));
+        logger.info(`🗜️ Compacting ${candidates.length} messages from steps ${fromStep}-${toStep}`);
+
+        const summary = await this.summarize(candidates);
+        chatHistoryManager.compactChatHistory(candidates.map(message => message.id), {
+            role: 'agent',
+            type: MessageType.ANALYSIS,
+            step: toStep,
+            content: `<context_summary steps="${fromStep}-${toStep}">\n${summary}\n</context_summary>`,
+            flag: 'include'
+        });
+        return true;
+    }
+
+    private async summarize(messages: ChatMessage[]): Promise<string> {
+        const limit = this.config.maxSummaryInputChars;
+        const history = messages.map(message => {
+            const content = message.content.length > limit
+                ? `${message.content.slice(0, limit)}\n...[truncated ${message.content.length - limit} chars]`
+                : message.content;
+            return `<message step="${message.step}" role="${message.role}" type="${message.type}">\n${content}\n</message>`;
+        }).join('\n');
+
+        const result = await this.llm.callAsync(`${SUMMARY_INSTRUCTIONS}\n\n${history}`, []);
+        if (result.usage) {
+            this.onUsage?.(result.usage);
+        }
+        if (!result.text.trim()) {
+            throw new Error('ContextCompactor: summarization returned empty text');
+        }
+        return result.text.trim();
+    }
+}
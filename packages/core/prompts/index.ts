@@ -2,4 +2,6 @@ export { BasePromptProcessor } from '../interfaces/base-prompt-processor.js';
 export { StandardPromptProcessor } from './standard-prompt-processor.js';
 export { EnhancedPromptProcessor } from './enhanced-prompt-processor.js';
 export { ChatHistoryManager } from './chat-history-manager.js';
+export { ContextCompactor, estimateTokens } from './context-compactor.js';
+export type { ContextCompactionConfig } from './context-compactor.js';
 export { createPromptProcessor,createStandardPromptProcessor,createEnhancedPromptProcessor } from './prompt-processor-factory.js';
@@ -6,12 +6,15 @@ import {
   RAGFilter, 
   VectorStoreConfig, 
   EmbeddingConfig,
+  IEmbeddingProvider,
   IndexConfig,
   ChunkingStrategy,
   RAGMetadata
 } from '../interfaces/index.js';
-import { ChromaClient, Collection, OpenAIEmbeddingFunction, IncludeEnum } from 'chromadb';
+import { ChromaClient, Collection, IEmbeddingFunction, IncludeEnum } from 'chromadb';
 import { randomUUID } from 'crypto';
+import { chunkText } from './chunking.js';
+import { OpenAIEmbeddingProvider } from '../models/embeddings.js';
 
 // 默认配置
 const DEFAULT_DIMENSION = 1536; // OpenAI默认嵌入维度
@@ -28,18 +31,37 @@ export class ChromaRAG implements IRAG {
   
   private client: ChromaClient;
   private collection: Collection | null = null;
-  private embeddingFunction: OpenAIEmbeddingFunction | null = null;
+  private embeddingFunction: IEmbeddingFunction;
   private collectionName: string;
   private dimension: number;
   private chunkingStrategy: ChunkingStrategy;
   
   constructor(
-    name: string, 
+    name: string,
+    description: string,
+    embeddingProvider: IEmbeddingProvider,
+    vectorStoreConfig: VectorStoreConfig,
+    indexConfig: IndexConfig,
+    chunkingStrategy: ChunkingStrategy
+  );
+  /**
+   * @deprecated 传入 IEmbeddingProvider；EmbeddingConfig 按 OpenAI 嵌入配置处理
+   */
+  constructor(
+    name: string,
     description: string,
     embeddingConfig: EmbeddingConfig,
     vectorStoreConfig: VectorStoreConfig,
     indexConfig: IndexConfig,
     chunkingStrategy: ChunkingStrategy
+  );
+  constructor(
+    name: string, 
+    description: string,
+    embedding: IEmbeddingProvider | EmbeddingConfig,
+    vectorStoreConfig: VectorStoreConfig,
+    indexConfig: IndexConfig,
+    chunkingStrategy: ChunkingStrategy
   ) {
     this.id = randomUUID();
     this.name = name;
@@ -54,13 +76,13 @@ export class ChromaRAG implements IRAG {
     this.dimension = indexConfig.dimension || DEFAULT_DIMENSION;
     this.chunkingStrategy = chunkingStrategy;
     
-    // 初始化OpenAI嵌入函数 - 使用简化的配置，不指定维度
-    if (embeddingConfig.apiKey) {
-      this.embeddingFunction = new OpenAIEmbeddingFunction({
-        openai_api_key: embeddingConfig.apiKey,
-        openai_model: embeddingConfig.modelName || 'text-embedding-3-small' // 更新为最新的嵌入模型
-      });
-    }
+    // 文档与查询的向量都由嵌入提供者生成，Chroma 不再依赖自带的嵌入函数
+    const embeddingProvider = typeof embedding.embed === 'function'
+      ? embedding as IEmbeddingProvider
+      : new OpenAIEmbeddingProvider(embedding as EmbeddingConfig);
+    this.embeddingFunction = {
+      generate: (texts: string[]) => embeddingProvider.embed(texts)
+    };
   }
   
   /**
@@ -72,15 +94,15 @@ export class ChromaRAG implements IRAG {
       try {
         this.collection = await this.client.getCollection({
           name: this.collectionName,
-          embeddingFunction: this.embeddingFunction || undefined
+          embeddingFunction: this.embeddingFunction
         });
         console.log(`Connected to existing collection: ${this.collectionName}`);
       } catch (error) {
         // 集合不存在，创建新集合 - 不指定维度参数
         this.collection = await this.client.createCollection({
           name: this.collectionName,
-          embeddingFunction: this.embeddingFunction || undefined
-          // 移除维度参数，让OpenAI模型自动确定维度
+          embeddingFunction: this.embeddingFunction
+          // 不指定维度参数，由嵌入提供者决定
         });
         console.log(`Created new collection: ${this.collectionName}`);
       }
@@ -90,27 +112,6 @@ export class ChromaRAG implements IRAG {
     }
   }
   
-  /**
-   * 将文本分块，基于配置的分块策略
-   */
-  private chunkText(text: string): string[] {
-    if (this.chunkingStrategy.method === 'fixed') {
-      const size = this.chunkingStrategy.size || 1000;
-      // 简单的固定大小分块
-      const chunks: string[] = [];
-      for (let i = 0; i < text.length; i += size) {
-        chunks.push(text.slice(i, i + size));
-      }
-      return chunks;
-    } else if (this.chunkingStrategy.method === 'paragraph') {
-      // 基于段落分块
-      return text.split(/\n\s*\n/).filter(chunk => chunk.trim().length > 0);
-    } else {
-      // 默认行为 - 返回整个文本作为一个块
-      return [text];
-    }
-  }
-  
   /**
    * 创建超级简化版的元数据，确保所有值都是字符串
    * 解决ChromaDB的422错误
@@ -178,7 +179,7 @@ export class ChromaRAG implements IRAG {
     try {
       // 处理每个文档，应用分块策略
       for (const doc of documents) {
-        const textChunks = this.chunkText(doc.content);
+        const textChunks = chunkText(doc.content, this.chunkingStrategy);
         
         for (let i = 0; i < textChunks.length; i++) {
           const chunkId = doc.id ? `${doc.id}-chunk-${i}` : randomUUID();
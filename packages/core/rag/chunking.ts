@@ -0,0 +1,24 @@
+import { ChunkingStrategy } from '../interfaces/index.js';
+
+/**
+ * 将文本分块，基于配置的分块策略
+ */
+export function chunkText(text: string, strategy: ChunkingStrategy): string[] {
+  if (strategy.method === 'fixed') {
+    const size = strategy.size || 1000;
+    // 相邻块重叠 overlap 个字符，步长至少为 1
+    const step = Math.max(size - (strategy.overlap || 0), 1);
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += step) {
+      chunks.push(text.slice(i, i + size));
+      if (i + size >= text.length) break;
+    }
+    return chunks;
+  } else if (strategy.method === 'paragraph') {
+    // 基于段落分块
+    return text.split(/\n\s*\n/).filter(chunk => chunk.trim().length > 0);
+  } else {
+    // 默认行为 - 返回整个文本作为一个块
+    return [text];
+  }
+}
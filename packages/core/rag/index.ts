@@ -1,10 +1,13 @@
 // 导出RAG相关类和接口
 export * from './chromaRAG.js';
 export * from './ragBuilder.js';
+export * from './memoryRAG.js';
+export * from './chunking.js';
 
 // 创建包装函数，用于快速创建常用RAG实例
 import { RAGBuilder } from './ragBuilder.js';
-import { IRAGBuilder, IRAG, VectorStoreType, EmbeddingModelType } from '../interfaces/index.js';
+import { IRAGBuilder, IRAG, VectorStoreType, EmbeddingModelType, IEmbeddingProvider } from '../interfaces/index.js';
+import { LocalEmbeddingProvider } from '../models/embeddings.js';
 
 /**
  * 创建基于Chroma的RAG实例的快速方法
@@ -34,6 +37,26 @@ export function createChromaRAG(
     .build();
 }
 
+/**
+ * 创建进程内RAG实例的快速方法，无需外部服务
+ * @param name RAG实例名称
+ * @param description RAG实例描述
+ * @param path 持久化文件路径，不传时只保存在内存中
+ * @param embeddingProvider 嵌入提供者，默认使用本地离线嵌入
+ */
+export function createMemoryRAG(
+  name: string,
+  description: string,
+  path?: string,
+  embeddingProvider: IEmbeddingProvider = new LocalEmbeddingProvider()
+): IRAG {
+  return new RAGBuilder()
+    .setName(name, description)
+    .setVectorStore('memory', { path })
+    .setEmbeddingProvider(embeddingProvider)
+    .build();
+}
+
 /**
  * 创建预配置的RAG Builder以便自定义
  * @param type 向量存储类型
@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  IRAG,
+  IEmbeddingProvider,
+  RAGDocument,
+  RAGResult,
+  QueryOptions,
+  RAGFilter,
+  VectorStoreConfig,
+  IndexConfig,
+  ChunkingStrategy,
+  RAGMetadata
+} from '../interfaces/index.js';
+import { chunkText } from './chunking.js';
+import { cosineSimilarity } from '../models/embeddings.js';
+import { writeFileAtomic } from '../utils/file.js';
+import { logger } from '../utils/logger.js';
+
+const DEFAULT_LIMIT = 10;
+const STORE_VERSION = 1;
+// 持久化时以 ISO 字符串保存，加载时还原为 Date 的元数据字段
+const DATE_FIELDS = ['created', 'lastUpdated'];
+
+interface MemoryRecord {
+  id: string;
+  content: string;
+  metadata: RAGMetadata;
+  embedding: number[];
+}
+
+interface MemoryStoreFile {
+  version: number;
+  model: string;
+  dimensions: number;
+  records: MemoryRecord[];
+}
+
+function dotProduct(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function euclideanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * 单个元数据条件：数组条件表示取值之一；记录值为数组（如 tags）时包含即可
+ */
+function matchesValue(actual: any, expected: any): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some(value => matchesValue(actual, value));
+  }
+  if (Array.isArray(actual)) {
+    return actual.some(value => matchesValue(value, expected));
+  }
+  if (actual instanceof Date || expected instanceof Date) {
+    return new Date(actual).getTime() === new Date(expected).getTime();
+  }
+  return actual === expected;
+}
+
+function matchesFilter(metadata: RAGMetadata, filter: RAGFilter): boolean {
+  for (const [key, expected] of Object.entries(filter.metadata || {})) {
+    if (expected !== undefined && !matchesValue(metadata[key], expected)) {
+      return false;
+    }
+  }
+  if (filter.dateRange) {
+    const created = new Date(metadata.created).getTime();
+    if (created < filter.dateRange.start.getTime() || created > filter.dateRange.end.getTime()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function reviveMetadata(metadata: RAGMetadata): RAGMetadata {
+  const result = { ...metadata };
+  for (const field of DATE_FIELDS) {
+    if (typeof result[field] === 'string') {
+      result[field] = new Date(result[field]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 进程内向量存储：暴力检索，适合本地开发和中小规模知识库
+ * 配置 vectorStoreConfig.path 时持久化为 JSON 文件，每次写操作后整体落盘
+ */
+export class MemoryRAG implements IRAG {
+  id: string;
+  name: string;
+  description: string;
+
+  private records = new Map<string, MemoryRecord>();
+  private filePath?: string;
+  private metric: NonNullable<IndexConfig['metric']>;
+  private dimension: number;
+  private initialized?: Promise<void>;
+  // 串行化落盘，保证文件按写操作顺序更新
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    name: string,
+    description: string,
+    private embeddingProvider: IEmbeddingProvider,
+    vectorStoreConfig: VectorStoreConfig,
+    indexConfig: IndexConfig,
+    private chunkingStrategy: ChunkingStrategy
+  ) {
+    this.id = randomUUID();
+    this.name = name;
+    this.description = description;
+    this.filePath = vectorStoreConfig.path;
+    this.metric = indexConfig.metric || 'cosine';
+    this.dimension = indexConfig.dimension || embeddingProvider.dimensions;
+  }
+
+  /**
+   * 加载持久化文件（如有），重复调用只加载一次
+   */
+  initialize(): Promise<void> {
+    this.initialized ??= this.load();
+    return this.initialized;
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  async upsert(documents: RAGDocument[]): Promise<string[]> {
+    await this.initialize();
+
+    const ids: string[] = [];
+    const docIds: string[] = [];
+    const pending: MemoryRecord[] = [];
+
+    for (const doc of documents) {
+      const docId = doc.id || randomUUID();
+      docIds.push(docId);
+      const chunks = chunkText(doc.content, this.chunkingStrategy);
+      chunks.forEach((chunk, index) => {
+        const id = `${docId}-chunk-${index}`;
+        ids.push(id);
+        pending.push({
+          id,
+          content: chunk,
+          metadata: { ...doc.metadata, originalDocId: docId, chunkIndex: index, totalChunks: chunks.length },
+          // 预先计算的向量只对应未分块的整篇文档
+          embedding: chunks.length === 1 && doc.embedding ? doc.embedding : []
+        });
+      });
+    }
+
+    const missing = pending.filter(record => record.embedding.length === 0);
+    const embeddings = await this.embeddingProvider.embed(missing.map(record => record.content));
+    missing.forEach((record, index) => { record.embedding = embeddings[index]; });
+    // 维度不一致的向量写入后只会在查询时报错，写入前拒绝
+    for (const record of pending) {
+      if (record.embedding.length !== this.dimension) {
+        throw new Error(`Embedding for ${record.id} has ${record.embedding.length} dimensions, but the index expects ${this.dimension}`);
+      }
+    }
+
+    // 替换同一文档之前的全部分块，文档变短时不残留旧分块
+    docIds.forEach(docId => this.removeDocument(docId));
+    for (const record of pending) {
+      this.records.set(record.id, record);
+    }
+    await this.persist();
+    return ids;
+  }
+
+  /**
+   * 删除分块，传入原始文档 ID 时删除该文档的全部分块
+   */
+  async delete(ids: string[]): Promise<boolean> {
+    await this.initialize();
+
+    let deleted = false;
+    for (const id of ids) {
+      deleted = this.records.delete(id) || deleted;
+      deleted = this.removeDocument(id) || deleted;
+    }
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async query(query: string, options?: QueryOptions): Promise<RAGResult[]> {
+    return this.search(query, undefined, options);
+  }
+
+  async queryWithFilter(query: string, filter: RAGFilter, options?: QueryOptions): Promise<RAGResult[]> {
+    return this.search(query, filter, options);
+  }
+
+  private async search(query: string, filter: RAGFilter | undefined, options?: QueryOptions): Promise<RAGResult[]> {
+    await this.initialize();
+
+    const candidates = Array.from(this.records.values())
+      .filter(record => !filter || matchesFilter(record.metadata, filter));
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await this.embeddingProvider.embed([query]);
+    const threshold = options?.similarity_threshold;
+
+    return candidates
+      .map(record => ({ record, score: this.score(queryEmbedding, record.embedding) }))
+      .filter(({ score }) => threshold === undefined || score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options?.limit || DEFAULT_LIMIT)
+      .map(({ record, score }) => ({
+        id: record.id,
+        content: record.content,
+        score,
+        metadata: record.metadata,
+        embedding: options?.includeEmbeddings ? record.embedding : undefined
+      }));
+  }
+
+  /**
+   * 分数越高越相似：cosine 为余弦相似度，dot 为内积，euclidean 为 1 / (1 + 欧氏距离)
+   */
+  private score(a: number[], b: number[]): number {
+    switch (this.metric) {
+      case 'dot':
+        return dotProduct(a, b);
+      case 'euclidean':
+        return 1 / (1 + euclideanDistance(a, b));
+      case 'cosine':
+      default:
+        return cosineSimilarity(a, b);
+    }
+  }
+
+  private removeDocument(docId: string): boolean {
+    let removed = false;
+    for (const [id, record] of this.records) {
+      if (record.metadata.originalDocId === docId) {
+        this.records.delete(id);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.filePath) return;
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return;
+      throw error;
+    }
+
+    const store = JSON.parse(content) as MemoryStoreFile;
+    // 不同嵌入模型的向量不可比较，直接报错而不是返回无意义的结果
+    if (store.model !== this.embeddingProvider.model || store.dimensions !== this.embeddingProvider.dimensions) {
+      throw new Error(`Vector store ${this.filePath} was built with ${store.model} (${store.dimensions} dimensions), but the embedding provider is ${this.embeddingProvider.model} (${this.embeddingProvider.dimensions} dimensions)`);
+    }
+    for (const record of store.records) {
+      this.records.set(record.id, { ...record, metadata: reviveMetadata(record.metadata) });
+    }
+    logger.debug(`Loaded ${this.records.size} records from ${this.filePath}`);
+  }
+
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const store: MemoryStoreFile = {
+      version: STORE_VERSION,
+      model: this.embeddingProvider.model,
+      dimensions: this.embeddingProvider.dimensions,
+      records: Array.from(this.records.values())
+    };
+    const write = this.writeChain.then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, JSON.stringify(store));
+    });
+    this.writeChain = write.catch(() => {});
+    return write;
+  }
+}
@@ -5,10 +5,13 @@ import {
   VectorStoreConfig, 
   EmbeddingModelType, 
   EmbeddingConfig, 
+  IEmbeddingProvider,
   IndexConfig, 
   ChunkingStrategy 
 } from '../interfaces/index.js';
 import { ChromaRAG } from './chromaRAG.js';
+import { MemoryRAG } from './memoryRAG.js';
+import { createEmbeddingProvider } from '../models/embeddings.js';
 
 /**
  * RAG builder implementation
@@ -26,8 +29,9 @@ export class RAGBuilder implements IRAGBuilder {
   private embeddingConfig: EmbeddingConfig = {
     modelName: 'text-embedding-ada-002'
   };
-  private indexConfig: IndexConfig = { 
-    dimension: 1536, 
+  private embeddingProvider?: IEmbeddingProvider;
+  // 未设置 dimension 时使用嵌入提供者的输出维度
+  private indexConfig: Partial<IndexConfig> = { 
     metric: 'cosine' 
   };
   private chunkingStrategy: ChunkingStrategy = { 
@@ -67,6 +71,14 @@ export class RAGBuilder implements IRAGBuilder {
     return this;
   }
 
+  /**
+   * Set a custom embedding provider, overriding setEmbeddingModel
+   */
+  setEmbeddingProvider(provider: IEmbeddingProvider): RAGBuilder {
+    this.embeddingProvider = provider;
+    return this;
+  }
+
   /**
    * Set index configuration
    */
@@ -87,15 +99,30 @@ export class RAGBuilder implements IRAGBuilder {
    * Build RAG instance
    */
   build(): IRAG {
+    const embeddingProvider = this.embeddingProvider ?? createEmbeddingProvider(this.embeddingModel, this.embeddingConfig);
+    const indexConfig: IndexConfig = {
+      ...this.indexConfig,
+      dimension: this.indexConfig.dimension ?? embeddingProvider.dimensions
+    };
+
     // Create corresponding RAG instance based on configured vector store type
     switch (this.vectorStoreType) {
       case 'chroma':
         return new ChromaRAG(
           this.name,
           this.description,
-          this.embeddingConfig,
+          embeddingProvider,
+          this.vectorStoreConfig,
+          indexConfig,
+          this.chunkingStrategy
+        );
+      case 'memory':
+        return new MemoryRAG(
+          this.name,
+          this.description,
+          embeddingProvider,
           this.vectorStoreConfig,
-          this.indexConfig,
+          indexConfig,
           this.chunkingStrategy
         );
       // Support for other vector databases can be added here
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore } from '../file-session-store';
+import { selectSessionsToCleanup } from '../session-store';
+import { AgentStorage } from '../../interfaces/agent';
+
+function makeStorage(sessionId: string, lastActiveTime: number = Date.now()): AgentStorage {
+    return {
+        sessionId,
+        agentId: 'test-agent',
+        currentStep: 1,
+        contexts: [],
+        agentSteps: [],
+        totalTokensUsed: 42,
+        sessionStartTime: lastActiveTime,
+        lastActiveTime,
+    };
+}
+
+describe('FileSessionStore', () => {
+    let storagePath: string;
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should persist sessions across store instances', async () => {
+        const store = new FileSessionStore({ storagePath });
+        await store.save('s1', makeStorage('s1'));
+        await store.save('s2', makeStorage('s2'));
+
+        expect(fs.existsSync(path.join(storagePath, 'index.json'))).toBe(true);
+        expect(fs.existsSync(path.join(storagePath, 's1', 'session.json'))).toBe(true);
+
+        const reopened = new FileSessionStore({ storagePath });
+        const loaded = await reopened.load('s1');
+        expect(loaded?.totalTokensUsed).toBe(42);
+        expect((await reopened.listIndex()).map(e => e.sessionId).sort()).toEqual(['s1', 's2']);
+        expect(await reopened.list()).toHaveLength(2);
+    });
+
+    it('should delete session data and index entry', async () => {
+        const store = new FileSessionStore({ storagePath });
+        await store.save('s1', makeStorage('s1'));
+        await store.delete('s1');
+
+        expect(fs.existsSync(path.join(storagePath, 's1'))).toBe(false);
+        const reopened = new FileSessionStore({ storagePath });
+        expect(await reopened.load('s1')).toBeNull();
+        expect(await reopened.listIndex()).toHaveLength(0);
+    });
+
+    it('should rebuild the index when it is missing', async () => {
+        const store = new FileSessionStore({ storagePath });
+        await store.save('s1', makeStorage('s1'));
+        fs.rmSync(path.join(storagePath, 'index.json'));
+
+        const reopened = new FileSessionStore({ storagePath });
+        expect((await reopened.listIndex()).map(e => e.sessionId)).toEqual(['s1']);
+    });
+
+    it('should defer writes until flush when batch save is enabled', async () => {
+        const store = new FileSessionStore({ storagePath, batchSaveEnabled: true, batchSaveInterval: 60000 });
+        await store.save('s1', makeStorage('s1'));
+
+        // 未刷新前可以读取，但尚未落盘
+        expect(await store.load('s1')).not.toBeNull();
+        expect(fs.existsSync(path.join(storagePath, 's1', 'session.json'))).toBe(false);
+
+        await store.dispose();
+        expect(fs.existsSync(path.join(storagePath, 's1', 'session.json'))).toBe(true);
+    });
+
+    it('should clean up inactive and excess sessions', async () => {
+        const now = Date.now();
+        const store = new FileSessionStore({
+            storagePath,
+            autoCleanup: true,
+            maxInactiveDuration: 60 * 1000,
+            maxSessionCount: 2,
+        });
+        await store.save('expired', makeStorage('expired', now - 10 * 60 * 1000));
+        await store.save('old', makeStorage('old', now - 30 * 1000));
+        await store.save('recent', makeStorage('recent', now - 20 * 1000));
+        await store.save('current', makeStorage('current', now - 50 * 1000));
+
+        const removed = await store.cleanup(['current']);
+        expect(removed.sort()).toEqual(['expired', 'old']);
+        expect((await store.listIndex()).map(e => e.sessionId).sort()).toEqual(['current', 'recent']);
+    });
+});
+
+describe('selectSessionsToCleanup', () => {
+    it('should not remove anything when autoCleanup is disabled', () => {
+        const entries = [makeStorage('a', 0)];
+        expect(selectSessionsToCleanup(entries, { maxInactiveDuration: 1 })).toEqual([]);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SessionManager } from '../sessionManager';
+import { FileSessionStore } from '../file-session-store';
+import { EventBus } from '../../event-bus/event-bus';
+import { AgentStorage } from '../../interfaces/agent';
+import { MessageType } from '../../interfaces/base';
+import { StreamAgent } from '../../stream-agent';
+import { EnhancedPromptProcessor } from '../../prompts/enhanced-prompt-processor';
+import { MCPContext } from '../../contexts/mcp';
+import { ContextHelper } from '../../utils';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+const fakeLLM = createFakeLLM({ maxTokens: 1024 });
+
+function createNotesContext() {
+    return ContextHelper.createContext({
+        id: 'notes-context',
+        description: 'Notes',
+        dataSchema: z.object({ notes: z.array(z.string()) }),
+        initialData: { notes: [] },
+        toolSetFn: () => [],
+    });
+}
+
+function createAgent(storagePath: string) {
+    const notes = createNotesContext();
+    const agent = new StreamAgent('agent', 'Agent', 'Test agent', 5, new EnhancedPromptProcessor(), undefined, {
+        model: fakeLLM,
+        mcpConfigPath: path.join(storagePath, 'mcp.json'),
+        toolOutput: false,
+    }, [MCPContext, notes], new EventBus());
+    return { agent, notes };
+}
+
+describe('SessionManager resume', () => {
+    let storagePath: string;
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'session-resume-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should restore a persisted session snapshot into the agent after restart', async () => {
+        const snapshot: AgentStorage = {
+            sessionId: 'session_resume',
+            agentId: 'agent',
+            currentStep: 3,
+            contexts: [],
+            agentSteps: [],
+            totalTokensUsed: 0,
+            sessionStartTime: Date.now(),
+            lastActiveTime: Date.now(),
+            chatHistory: [{
+                id: 'm1',
+                role: 'user',
+                type: MessageType.MESSAGE,
+                step: 0,
+                content: 'refactor the parser',
+                timestamp: new Date().toISOString(),
+            }],
+            contextData: { 'plan-context': { pendingTasks: ['a'] } },
+            activeToolSets: ['coding'],
+        };
+
+        const first = new SessionManager({ id: 'agent' }, new EventBus(), { storageType: 'file', storagePath });
+        await first.saveSession(snapshot.sessionId, snapshot);
+        first.dispose();
+
+        // 模拟 CLI 重启后新建的 Agent 和 SessionManager
+        const agent = {
+            id: 'agent',
+            isRunning: false,
+            agentStorage: { sessionId: '' },
+            loadAgentStorage: vi.fn(async (state: AgentStorage) => {
+                agent.agentStorage = state;
+            }),
+        };
+        const second = new SessionManager(agent, new EventBus(), { storageType: 'file', storagePath });
+        await second.switchSession(snapshot.sessionId);
+
+        expect(agent.loadAgentStorage).toHaveBeenCalledTimes(1);
+        const restored = agent.loadAgentStorage.mock.calls[0][0];
+        expect(restored.chatHistory).toHaveLength(1);
+        expect(restored.contextData).toEqual(snapshot.contextData);
+        expect(restored.activeToolSets).toEqual(['coding']);
+        expect(second.getCurrentSessionId()).toBe(snapshot.sessionId);
+        second.dispose();
+    });
+
+    it('should round-trip context data through FileSessionStore without live MCP clients', async () => {
+        const liveClient = new Client({ name: 'live', version: '1.0.0' });
+        MCPContext.setData({ clients: [liveClient] });
+        const { agent: first, notes } = createAgent(storagePath);
+        notes.setData({ notes: ['parser uses a recursive descent'] });
+        first.addToolSet({ name: 'github', description: 'GitHub MCP tools', tools: [], active: true });
+        await first.loadAgentStorage({ ...first.agentStorage, sessionId: 'session_mcp' });
+
+        const snapshot = first.captureAgentStorage();
+        notes.data.notes.push('added after the snapshot');
+        const store = new FileSessionStore({ storagePath });
+        await store.save('session_mcp', snapshot);
+
+        expect(snapshot.contextData).toEqual({
+            'mcp-context': {},
+            'notes-context': { notes: ['parser uses a recursive descent'] },
+        });
+
+        // 重启后的 Agent：github 工具集需要重新连接
+        const { agent: second, notes: restoredNotes } = createAgent(storagePath);
+        const reconnect = vi.spyOn(second as any, 'connectConfiguredMcpServers').mockImplementation(async () => {
+            second.addToolSet({ name: 'github', description: 'GitHub MCP tools', tools: [], active: false });
+            return [];
+        });
+        await second.loadAgentStorage((await store.load('session_mcp'))!);
+
+        expect(restoredNotes.getData()).toEqual({ notes: ['parser uses a recursive descent'] });
+        expect(MCPContext.getData().clients).toEqual([liveClient]);
+        expect(reconnect).toHaveBeenCalledWith(['github']);
+        expect(second.listToolSets().find(ts => ts.name === 'github')?.active).toBe(true);
+        MCPContext.setData({ clients: [] });
+    });
+});
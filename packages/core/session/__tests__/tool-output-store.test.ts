@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { ToolOutputStore, formatToolOutput } from '../tool-output-store';
+import { MemorySessionStore } from '../session-store';
+import { SessionManager } from '../sessionManager';
+import { ToolExecutor } from '../../tool-executor';
+import { TaskQueue } from '../../taskQueue';
+import { EventBus } from '../../event-bus/event-bus';
+import { ToolEvent } from '../../interfaces/events';
+import { ReadToolOutputTool } from '../../tools/read-tool-output';
+import { createTool } from '../../utils';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { LogLevel } from '../../utils/logger';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+const testLog = Array.from({ length: 500 }, (_, i) => i % 100 === 42 ? `FAIL test ${i}` : `ok test ${i}`).join('\n');
+
+describe('ToolOutputStore', () => {
+    let storagePath: string;
+    let store: ToolOutputStore;
+
+    beforeEach(() => {
+        storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-output-'));
+        store = new ToolOutputStore({ storagePath, maxResultSize: 1000, previewSize: 100 });
+    });
+
+    afterEach(() => {
+        fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should keep small results and spill large ones to the session directory', async () => {
+        const small = { name: 'Bash', call_id: 'call_1', status: 'succeed' as const, result: { success: true, stdout: 'ok' } };
+        expect(await store.spill(small, 'session-1')).toBe(small);
+
+        const spilled = await store.spill({ ...small, call_id: 'call_2', result: { success: false, stdout: testLog, exitCode: 1 } }, 'session-1');
+
+        expect(spilled.result).toMatchObject({ success: false, truncated: true, totalLines: 503 });
+        expect(spilled.result.preview).toMatch(/^\[success\] false\n\[stdout\]\nok test 0\n.*\n\.\.\. \[\d+ characters omitted\] \.\.\.\n.*\[exitCode\] 1$/s);
+        const files = fs.readdirSync(path.join(storagePath, 'session-1', 'tool-outputs'));
+        expect(files).toEqual([`${spilled.result.handle}.txt`]);
+        expect(await store.read(spilled.result.handle, 'session-1')).toBe(formatToolOutput({ success: false, stdout: testLog, exitCode: 1 }));
+        expect(await store.read('../../etc/passwd', 'session-1')).toBeNull();
+    });
+
+    it('should return the truncated result from ToolExecutor and page through it with ReadToolOutput', async () => {
+        const eventBus = new EventBus();
+        const completed: ToolEvent[] = [];
+        eventBus.subscribe<ToolEvent>('tool.execution.completed', event => { completed.push(event); });
+        const executor = new ToolExecutor(new TaskQueue(2), { outputStore: store });
+        const agent = { id: 'agent', agentStorage: { sessionId: 'session-2' }, toolOutputStore: store };
+        const bash = createTool({
+            name: 'Bash', description: 'Run a command', inputSchema: z.object({}), async: false,
+            execute: async () => ({ success: true, stdout: testLog }),
+        });
+
+        const result = await executor.executeToolCall({ type: 'function', name: 'Bash', call_id: 'call_3', parameters: {} }, bash, agent, eventBus);
+        const handle = result.result.handle;
+
+        expect(JSON.stringify(result.result).length).toBeLessThan(1000);
+        expect(completed[0].data.result.result.stdout).toBe(testLog);
+
+        const page = await ReadToolOutputTool.execute({ handle, offset: 2, limit: 3 }, agent as any);
+        const grep = await ReadToolOutputTool.execute({ handle, pattern: '^FAIL', context: 1, limit: 2 }, agent as any);
+        const missing = await ReadToolOutputTool.execute({ handle: 'unknown' }, agent as any);
+
+        expect(page).toMatchObject({ success: true, totalLines: 502, content: '2: [stdout]\n3: ok test 0\n4: ok test 1', hasMore: true, nextOffset: 5 });
+        expect(grep).toMatchObject({ matchCount: 5, content: '44: ok test 41\n45: FAIL test 42\n46: ok test 43\n144: ok test 141\n145: FAIL test 142\n146: ok test 143', hasMore: true });
+        expect(missing).toMatchObject({ success: false, error: 'No saved output found for handle "unknown"' });
+    });
+
+    it('should follow the session store: session directory for file sessions, memory only for memory sessions', async () => {
+        const large = { name: 'Bash', call_id: 'call_4', status: 'succeed' as const, result: { success: true, stdout: testLog } };
+
+        const memoryOutputs = new ToolOutputStore({ maxResultSize: 1000 });
+        memoryOutputs.useSessionStore(new MemorySessionStore());
+        const inMemory = await memoryOutputs.spill(large, 'session-3');
+        expect(memoryOutputs.getOutputDir('session-3')).toBeUndefined();
+        expect(await memoryOutputs.read(inMemory.result.handle, 'session-3')).toBe(formatToolOutput(large.result));
+        await memoryOutputs.delete('session-3');
+        expect(await memoryOutputs.read(inMemory.result.handle, 'session-3')).toBeNull();
+
+        const fileOutputs = new ToolOutputStore({ maxResultSize: 1000 });
+        const sessionManager = new SessionManager({ toolOutputStore: fileOutputs }, new EventBus(), { storageType: 'file', storagePath });
+        const onDisk = await fileOutputs.spill(large, 'session-4');
+        expect(fs.readdirSync(path.join(storagePath, 'session-4', 'tool-outputs'))).toEqual([`${onDisk.result.handle}.txt`]);
+
+        await sessionManager.deleteSession('session-4');
+        expect(fs.existsSync(path.join(storagePath, 'session-4'))).toBe(false);
+        expect(await fileOutputs.read(onDisk.result.handle, 'session-4')).toBeNull();
+    });
+
+    it('should reject search patterns that are too long or can backtrack exponentially', async () => {
+        const spilled = await store.spill({ name: 'Bash', call_id: 'call_5', status: 'succeed', result: { stdout: testLog } }, 'session-5');
+        const agent = { agentStorage: { sessionId: 'session-5' }, toolOutputStore: store } as any;
+
+        const nested = await ReadToolOutputTool.execute({ handle: spilled.result.handle, pattern: '(a+)+$' }, agent);
+        const long = await ReadToolOutputTool.execute({ handle: spilled.result.handle, pattern: 'x'.repeat(201) }, agent);
+        const simple = await ReadToolOutputTool.execute({ handle: spilled.result.handle, pattern: '(FAIL|ERROR)+ test' }, agent);
+
+        expect(nested).toMatchObject({ success: false, error: expect.stringContaining('nested quantifier') });
+        expect(long).toMatchObject({ success: false, error: 'Pattern is longer than 200 characters' });
+        expect(simple).toMatchObject({ success: true, matchCount: 5 });
+    });
+
+    it('should register ReadToolOutput on agents only when output spilling is on', async () => {
+        const llm = createFakeLLM();
+        const createAgent = (toolOutput: { storagePath: string } | false) => new StreamAgent(
+            'agent', 'Agent', 'Spills large outputs', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, toolOutput, mcpAutoConnect: false }, [], new EventBus()
+        );
+        const spilling = createAgent({ storagePath });
+        const plain = createAgent(false);
+
+        await spilling.setup();
+        await plain.setup();
+
+        expect(spilling.getActiveTools().map(tool => tool.name)).toContain('ReadToolOutput');
+        expect(plain.getActiveTools().map(tool => tool.name)).not.toContain('ReadToolOutput');
+    });
+});
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentStorage, ISessionStore, SessionIndexEntry, SessionManagerConfig } from "../interfaces/index.js";
+import { logger } from "../utils/logger.js";
+import { writeFileAtomic } from "../utils/file.js";
+import { selectSessionsToCleanup, toPersistableStorage, toSessionIndexEntry } from "./session-store.js";
+
+export const DEFAULT_SESSION_STORAGE_PATH = path.join(os.homedir(), '.continue-reasoning', 'sessions');
+const DEFAULT_BATCH_SAVE_INTERVAL = 1000;
+const INDEX_FILE = 'index.json';
+const SESSION_FILE = 'session.json';
+
+interface SessionIndexFile {
+    version: number;
+    sessions: SessionIndexEntry[];
+}
+
+/**
+ * 文件会话存储
+ * 目录结构:
+ *   <storagePath>/index.json              - 会话索引
+ *   <storagePath>/<sessionId>/session.json - 会话数据
+ */
+export class FileSessionStore implements ISessionStore {
+    private readonly rootDir: string;
+    private index: Map<string, SessionIndexEntry> | null = null;
+    private pending: Map<string, AgentStorage> = new Map();
+    private flushTimer?: NodeJS.Timeout;
+    // 串行化所有写操作，保证索引文件按顺序更新
+    private writeChain: Promise<unknown> = Promise.resolve();
+
+    constructor(private config: SessionManagerConfig = {}) {
+        this.rootDir = config.storagePath || DEFAULT_SESSION_STORAGE_PATH;
+    }
+
+    getStoragePath(): string {
+        return this.rootDir;
+    }
+
+    getSessionDir(sessionId: string): string {
+        return path.join(this.rootDir, encodeURIComponent(sessionId));
+    }
+
+    async save(sessionId: string, storage: AgentStorage): Promise<void> {
+        const snapshot = toPersistableStorage({ ...storage, sessionId });
+
+        if (this.config.batchSaveEnabled) {
+            this.pending.set(sessionId, snapshot);
+            this.scheduleFlush();
+            return;
+        }
+
+        await this.enqueue(async () => {
+            await this.writeSession(snapshot);
+            await this.writeIndex();
+        });
+    }
+
+    async load(sessionId: string): Promise<AgentStorage | null> {
+        const pending = this.pending.get(sessionId);
+        if (pending) {
+            return pending;
+        }
+
+        try {
+            const content = await fs.promises.readFile(path.join(this.getSessionDir(sessionId), SESSION_FILE), 'utf-8');
+            const storage = JSON.parse(content) as AgentStorage;
+            return { ...storage, contexts: storage.contexts || [] };
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                logger.error(`FileSessionStore: Failed to load session ${sessionId}:`, error);
+            }
+            return null;
+        }
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        this.pending.delete(sessionId);
+        await this.enqueue(async () => {
+            const index = await this.loadIndex();
+            index.delete(sessionId);
+            await fs.promises.rm(this.getSessionDir(sessionId), { recursive: true, force: true });
+            await this.writeIndex();
+        });
+    }
+
+    async list(): Promise<AgentStorage[]> {
+        const entries = await this.listIndex();
+        const sessions = await Promise.all(entries.map(entry => this.load(entry.sessionId)));
+        return sessions.filter((session): session is AgentStorage => session !== null);
+    }
+
+    async listIndex(): Promise<SessionIndexEntry[]> {
+        const merged = new Map(await this.loadIndex());
+        for (const storage of this.pending.values()) {
+            merged.set(storage.sessionId, toSessionIndexEntry(storage));
+        }
+        return Array.from(merged.values()).sort((a, b) => b.lastActiveTime - a.lastActiveTime);
+    }
+
+    async cleanup(keepSessionIds: string[] = []): Promise<string[]> {
+        const removed = selectSessionsToCleanup(await this.listIndex(), this.config, keepSessionIds);
+        for (const sessionId of removed) {
+            await this.delete(sessionId);
+        }
+        if (removed.length > 0) {
+            logger.info(`FileSessionStore: Cleaned up ${removed.length} session(s)`);
+        }
+        return removed;
+    }
+
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (this.pending.size === 0) {
+            return;
+        }
+
+        const batch = Array.from(this.pending.values());
+        this.pending.clear();
+
+        await this.enqueue(async () => {
+            for (const storage of batch) {
+                await this.writeSession(storage);
+            }
+            await this.writeIndex();
+        });
+        logger.debug(`FileSessionStore: Flushed ${batch.length} session(s)`);
+    }
+
+    async dispose(): Promise<void> {
+        await this.flush();
+        await this.writeChain;
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) {
+            return;
+        }
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            this.flush().catch(error => {
+                logger.error('FileSessionStore: Batch flush failed:', error);
+            });
+        }, this.config.batchSaveInterval ?? DEFAULT_BATCH_SAVE_INTERVAL);
+        // 批量保存定时器不应阻止进程退出
+        this.flushTimer.unref?.();
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.writeChain.then(operation, operation);
+        this.writeChain = result.catch(() => {});
+        return result;
+    }
+
+    private async writeSession(storage: AgentStorage): Promise<void> {
+        const sessionDir = this.getSessionDir(storage.sessionId);
+        await fs.promises.mkdir(sessionDir, { recursive: true });
+        await writeFileAtomic(path.join(sessionDir, SESSION_FILE), JSON.stringify(storage, null, 2));
+
+        const index = await this.loadIndex();
+        index.set(storage.sessionId, toSessionIndexEntry(storage));
+    }
+
+    private async writeIndex(): Promise<void> {
+        const index = await this.loadIndex();
+        const data: SessionIndexFile = {
+            version: 1,
+            sessions: Array.from(index.values()),
+        };
+        await fs.promises.mkdir(this.rootDir, { recursive: true });
+        await writeFileAtomic(path.join(this.rootDir, INDEX_FILE), JSON.stringify(data, null, 2));
+    }
+
+    /**
+     * 加载索引（带内存缓存）；索引缺失或损坏时扫描会话目录重建
+     */
+    private async loadIndex(): Promise<Map<string, SessionIndexEntry>> {
+        if (this.index) {
+            return this.index;
+        }
+
+        const index = new Map<string, SessionIndexEntry>();
+        try {
+            const content = await fs.promises.readFile(path.join(this.rootDir, INDEX_FILE), 'utf-8');
+            const data = JSON.parse(content) as SessionIndexFile;
+            for (const entry of data.sessions || []) {
+                index.set(entry.sessionId, entry);
+            }
+        } catch (error: any) {
+            if (error?.code !== 'ENOENT') {
+                logger.warn('FileSessionStore: Session index unreadable, rebuilding from session directories');
+            }
+            await this.rebuildIndex(index);
+        }
+
+        // 并发调用时只保留第一次加载的结果
+        if (!this.index) {
+            this.index = index;
+        }
+        return this.index;
+    }
+
+    private async rebuildIndex(index: Map<string, SessionIndexEntry>): Promise<void> {
+        let dirents: fs.Dirent[];
+        try {
+            dirents = await fs.promises.readdir(this.rootDir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        for (const dirent of dirents) {
+            if (!dirent.isDirectory()) continue;
+            try {
+                const content = await fs.promises.readFile(path.join(this.rootDir, dirent.name, SESSION_FILE), 'utf-8');
+                const storage = JSON.parse(content) as AgentStorage;
+                if (storage.sessionId) {
+                    index.set(storage.sessionId, toSessionIndexEntry(storage));
+                }
+            } catch {
+                // 忽略不完整的会话目录
+            }
+        }
+    }
+}
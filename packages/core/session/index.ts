@@ -1 +1,4 @@
-export * from './sessionManager.js';
\ No newline at end of file
+export * from './sessionManager.js';
+export * from './session-store.js';
+export * from './file-session-store.js';
+export * from './tool-output-store.js';
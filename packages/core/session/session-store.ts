@@ -0,0 +1,116 @@
+import { AgentStorage, ISessionStore, SessionIndexEntry, SessionManagerConfig } from "../interfaces/index.js";
+
+/**
+ * 提取会话索引条目
+ */
+export function toSessionIndexEntry(storage: AgentStorage): SessionIndexEntry {
+    return {
+        sessionId: storage.sessionId,
+        agentId: storage.agentId,
+        userId: storage.userId,
+        currentStep: storage.currentStep,
+        totalTokensUsed: storage.totalTokensUsed,
+        sessionStartTime: storage.sessionStartTime,
+        lastActiveTime: storage.lastActiveTime,
+    };
+}
+
+/**
+ * 生成可持久化的会话快照
+ * contexts 中保存的是运行时对象，无法序列化，持久化时丢弃，由 Agent 在恢复时重新挂载
+ */
+export function toPersistableStorage(storage: AgentStorage): AgentStorage {
+    return {
+        ...storage,
+        contexts: [],
+    };
+}
+
+/**
+ * 根据 autoCleanup 配置计算需要清理的会话
+ * - 超过 maxInactiveDuration 未活跃的会话
+ * - 超过 maxSessionCount 时，最久未活跃的会话
+ */
+export function selectSessionsToCleanup(
+    entries: SessionIndexEntry[],
+    config: SessionManagerConfig,
+    keepSessionIds: string[] = [],
+    now: number = Date.now()
+): string[] {
+    if (!config.autoCleanup) {
+        return [];
+    }
+
+    const keep = new Set(keepSessionIds.filter(Boolean));
+    const removed = new Set<string>();
+
+    if (config.maxInactiveDuration && config.maxInactiveDuration > 0) {
+        for (const entry of entries) {
+            if (!keep.has(entry.sessionId) && now - entry.lastActiveTime > config.maxInactiveDuration) {
+                removed.add(entry.sessionId);
+            }
+        }
+    }
+
+    if (config.maxSessionCount && config.maxSessionCount > 0) {
+        const remaining = entries.filter(entry => !removed.has(entry.sessionId));
+        let excess = remaining.length - config.maxSessionCount;
+        // 从最久未活跃的会话开始清理
+        const oldestFirst = [...remaining].sort((a, b) => a.lastActiveTime - b.lastActiveTime);
+        for (const entry of oldestFirst) {
+            if (excess <= 0) break;
+            if (keep.has(entry.sessionId)) continue;
+            removed.add(entry.sessionId);
+            excess--;
+        }
+    }
+
+    return Array.from(removed);
+}
+
+/**
+ * 内存会话存储 - storageType 为 'memory' 时使用，进程退出后数据丢失
+ */
+export class MemorySessionStore implements ISessionStore {
+    private sessions: Map<string, AgentStorage> = new Map();
+
+    constructor(private config: SessionManagerConfig = {}) {}
+
+    async save(sessionId: string, storage: AgentStorage): Promise<void> {
+        this.sessions.set(sessionId, storage);
+    }
+
+    async load(sessionId: string): Promise<AgentStorage | null> {
+        return this.sessions.get(sessionId) || null;
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        this.sessions.delete(sessionId);
+    }
+
+    async list(): Promise<AgentStorage[]> {
+        return Array.from(this.sessions.values());
+    }
+
+    async listIndex(): Promise<SessionIndexEntry[]> {
+        return Array.from(this.sessions.values())
+            .map(toSessionIndexEntry)
+            .sort((a, b) => b.lastActiveTime - a.lastActiveTime);
+    }
+
+    async cleanup(keepSessionIds: string[] = []): Promise<string[]> {
+        const removed = selectSessionsToCleanup(await this.listIndex(), this.config, keepSessionIds);
+        for (const sessionId of removed) {
+            this.sessions.delete(sessionId);
+        }
+        return removed;
+    }
+
+    async flush(): Promise<void> {
+        // 内存存储无需刷新
+    }
+
+    async dispose(): Promise<void> {
+        this.sessions.clear();
+    }
+}
@@ -1,4 +1,4 @@
-import { ISessionManager, SessionStats, AgentStorage, IClient } from "../interfaces/index.js";
+import { ISessionManager, SessionStats, AgentStorage, IClient, ISessionStore, SessionManagerConfig } from "../interfaces/index.js";
 import { logger } from "../utils/logger.js";
 import { 
     EventBus, 
@@ -10,6 +10,24 @@ import {
     StorageEvent,
     AppEvent
 } from "../event-bus/index.js";
+import { MemorySessionStore } from "./session-store.js";
+import { FileSessionStore } from "./file-session-store.js";
+
+/**
+ * 根据 storageType 创建会话存储后端
+ */
+export function createSessionStore(config: SessionManagerConfig = {}): ISessionStore {
+    switch (config.storageType) {
+        case 'file':
+            return new FileSessionStore(config);
+        case 'database':
+            logger.warn('SessionManager: Database storage is not supported yet, falling back to memory storage');
+            return new MemorySessionStore(config);
+        case 'memory':
+        default:
+            return new MemorySessionStore(config);
+    }
+}
 
 
 /**
@@ -23,20 +41,27 @@ class SessionManagerEventSubscriber extends EventSubscriber {}
  */
 export class SessionManager implements ISessionManager {
     private eventSubscriber: SessionManagerEventSubscriber;
+    // 内存中的会话缓存，持久化由 store 负责
     private sessions: Map<string, AgentStorage> = new Map();
     private currentSessionId?: string;
+    private store: ISessionStore;
 
     constructor(
         private agent: any, // 支持StreamAgent或AsyncAgent
-        private eventBus: IEventBus
+        private eventBus: IEventBus,
+        private config: SessionManagerConfig = {}
     ) {
+        this.store = createSessionStore(config);
+        // 工具输出跟随会话存储：文件会话保存在会话目录，内存会话不写磁盘
+        this.agent?.toolOutputStore?.useSessionStore(this.store);
+
         // 初始化事件订阅者
         this.eventSubscriber = new SessionManagerEventSubscriber(eventBus, 'SessionManager');
         
         // 设置事件订阅
         this.setupEventSubscriptions();
         
-        logger.info('SessionManager: Initialized with event-driven architecture');
+        logger.info(`SessionManager: Initialized with event-driven architecture (storage: ${config.storageType || 'memory'})`);
     }
 
     /**
@@ -231,11 +256,13 @@ export class SessionManager implements ISessionManager {
             session.currentStep = event.stepIndex || 0;
             session.lastActiveTime = Date.now();
             
-            // 添加步骤到历史
+            // 添加步骤到历史（会话对象可能就是 Agent 的 agentStorage，此时步骤已由 Agent 记录）
             if (!session.agentSteps) {
                 session.agentSteps = [];
             }
-            session.agentSteps.push(event.data.step);
+            if (!session.agentSteps.includes(event.data.step)) {
+                session.agentSteps.push(event.data.step);
+            }
             
             // 保存会话
             await this.saveSession(event.sessionId, session);
@@ -310,10 +337,14 @@ export class SessionManager implements ISessionManager {
             // 更新内存中的会话数据
             this.sessions.set(sessionId, storage);
             
-            // 这里可以实现持久化存储（文件系统、数据库等）
-            // 目前仅保存在内存中
+            // 写入存储后端（开启 batchSaveEnabled 时由存储后端批量落盘）
+            await this.store.save(sessionId, storage);
             
             logger.debug(`SessionManager: Session ${sessionId} saved`);
+
+            if (this.config.autoCleanup) {
+                await this.cleanupSessions(sessionId);
+            }
         } catch (error) {
             logger.error(`SessionManager: Failed to save session ${sessionId}:`, error);
             throw error;
@@ -328,8 +359,12 @@ export class SessionManager implements ISessionManager {
                 return session;
             }
             
-            // 这里可以实现从持久化存储加载
-            // 目前仅从内存加载
+            const stored = await this.store.load(sessionId);
+            if (stored) {
+                this.sessions.set(sessionId, stored);
+                logger.debug(`SessionManager: Session ${sessionId} loaded from store`);
+                return stored;
+            }
             
             logger.debug(`SessionManager: Session ${sessionId} not found`);
             return null;
@@ -347,6 +382,9 @@ export class SessionManager implements ISessionManager {
 
         this.currentSessionId = sessionId;
         
+        // 将会话快照恢复到 Agent 中，下一次 startWithUserInput 将继续该会话
+        await this.restoreAgentSession(session);
+        
         // 通过事件总线通知会话切换
         await this.eventBus.publish({
             type: 'session.switched',
@@ -361,6 +399,8 @@ export class SessionManager implements ISessionManager {
 
     async deleteSession(sessionId: string): Promise<void> {
         this.sessions.delete(sessionId);
+        await this.store.delete(sessionId);
+        await this.agent?.toolOutputStore?.delete(sessionId);
         
         // 清理当前会话ID
         if (this.currentSessionId === sessionId) {
@@ -371,7 +411,13 @@ export class SessionManager implements ISessionManager {
     }
 
     async listSessions(): Promise<AgentStorage[]> {
-        return Array.from(this.sessions.values());
+        // 以内存中的最新状态覆盖存储中的快照
+        const stored = await this.store.list();
+        const merged = new Map(stored.map(session => [session.sessionId, session]));
+        for (const [sessionId, session] of this.sessions) {
+            merged.set(sessionId, session);
+        }
+        return Array.from(merged.values());
     }
 
     getCurrentSessionId(): string | undefined {
@@ -382,12 +428,16 @@ export class SessionManager implements ISessionManager {
         const now = Date.now();
         const fiveMinutesAgo = now - 5 * 60 * 1000; // 5分钟前
         
-        const activeSessions = Array.from(this.sessions.values())
-            .filter(session => session.lastActiveTime > fiveMinutesAgo)
+        const entries = new Map((await this.store.listIndex()).map(entry => [entry.sessionId, entry.lastActiveTime]));
+        for (const [sessionId, session] of this.sessions) {
+            entries.set(sessionId, session.lastActiveTime);
+        }
+        const activeSessions = Array.from(entries.values())
+            .filter(lastActiveTime => lastActiveTime > fiveMinutesAgo)
             .length;
 
         return {
-            totalSessions: this.sessions.size,
+            totalSessions: entries.size,
             activeSessions,
             currentSessionId: this.currentSessionId
         };
@@ -409,11 +459,15 @@ export class SessionManager implements ISessionManager {
             throw new Error('No active session. Please create or select a session first.');
         }
 
-        const session = this.sessions.get(targetSessionId);
+        const session = await this.loadSession(targetSessionId);
         if (!session) {
             throw new Error(`Session ${targetSessionId} not found`);
         }
 
+        if (this.agent?.agentStorage?.sessionId !== targetSessionId) {
+            await this.restoreAgentSession(session);
+        }
+
         // 发布用户消息事件
         await this.eventBus.publish({
             type: 'user.message',
@@ -494,6 +548,57 @@ export class SessionManager implements ISessionManager {
         return false;
     }
 
+    /**
+     * 将会话快照（聊天历史、context 数据、工具集）恢复到 Agent
+     */
+    private async restoreAgentSession(session: AgentStorage): Promise<void> {
+        if (!this.agent || typeof this.agent.loadAgentStorage !== 'function') {
+            logger.warn('SessionManager: Agent does not support loadAgentStorage, session state not restored');
+            return;
+        }
+        if (this.isAgentRunning()) {
+            throw new Error('Cannot restore a session while the agent is running');
+        }
+
+        await this.agent.loadAgentStorage(session);
+        logger.info(`SessionManager: Restored session ${session.sessionId} into agent (${session.chatHistory?.length || 0} messages)`);
+    }
+
+    /**
+     * 按 autoCleanup 配置清理过期会话，当前会话始终保留
+     */
+    private async cleanupSessions(activeSessionId: string): Promise<void> {
+        const keep = [activeSessionId, this.currentSessionId].filter((id): id is string => !!id);
+        const removed = await this.store.cleanup(keep);
+        if (removed.length === 0) {
+            return;
+        }
+
+        for (const sessionId of removed) {
+            this.sessions.delete(sessionId);
+            await this.agent?.toolOutputStore?.delete(sessionId);
+        }
+
+        await this.eventBus.publish({
+            type: 'sessionManager.cleanup.completed',
+            timestamp: Date.now(),
+            source: 'SessionManager',
+            data: {
+                sessionsRemoved: removed.length,
+                storageFreed: 0
+            }
+        } as any);
+
+        logger.info(`SessionManager: Cleaned up ${removed.length} inactive session(s)`);
+    }
+
+    /**
+     * 将批量保存队列中的会话立即写入存储
+     */
+    async flush(): Promise<void> {
+        await this.store.flush();
+    }
+
     /**
      * 清理资源
      */
@@ -501,6 +606,11 @@ export class SessionManager implements ISessionManager {
         // 取消所有事件订阅
         this.eventSubscriber.cleanup();
         
+        // 写出尚未落盘的会话
+        this.store.dispose().catch(error => {
+            logger.error('SessionManager: Failed to dispose session store:', error);
+        });
+        
         // 清理会话数据
         this.sessions.clear();
         this.currentSessionId = undefined;
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISessionStore, IToolOutputStore, ToolExecutionResult } from "../interfaces/index.js";
+import { logger } from "../utils/logger.js";
+import { writeFileAtomic } from "../utils/file.js";
+
+const DEFAULT_MAX_RESULT_SIZE = 20000;
+const DEFAULT_PREVIEW_SIZE = 2000;
+const OUTPUT_DIR = 'tool-outputs';
+
+export interface ToolOutputStoreConfig {
+    storagePath?: string;     // 固定的保存目录，输出保存在 <storagePath>/<sessionId>/tool-outputs/；默认跟随会话存储
+    maxResultSize?: number;   // 结果序列化后超过该字符数时保存到文件，默认 20000
+    previewSize?: number;     // prompt 中保留的预览字符数（头尾各一半），默认 2000
+}
+
+/**
+ * 将工具结果转换为按行浏览的文本：字符串原样保留，对象的多行字符串字段（如 stdout）展开成独立段落，数组每项一行
+ */
+export function formatToolOutput(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => typeof item === 'string' ? item : JSON.stringify(item)).join('\n');
+    }
+    if (value && typeof value === 'object') {
+        return Object.entries(value)
+            .map(([key, field]) => typeof field === 'string' && field.includes('\n')
+                ? `[${key}]\n${field}`
+                : `[${key}] ${JSON.stringify(field)}`)
+            .join('\n');
+    }
+    return JSON.stringify(value) ?? '';
+}
+
+/**
+ * 工具输出存储
+ * 保存位置:
+ *   - 配置了 storagePath: <storagePath>/<sessionId>/tool-outputs/<handle>.txt
+ *   - 会话存储有会话目录（FileSessionStore）: <会话目录>/tool-outputs/<handle>.txt，删除会话时一起删除
+ *   - 其他情况（内存会话、未接入 SessionManager）: 只保存在内存中，不写磁盘
+ */
+export class ToolOutputStore implements IToolOutputStore {
+    readonly maxResultSize: number;
+    private readonly storagePath?: string;
+    private readonly previewSize: number;
+    private sessionStore?: ISessionStore;
+    private memory: Map<string, Map<string, string>> = new Map();
+
+    constructor(config: ToolOutputStoreConfig = {}) {
+        this.storagePath = config.storagePath;
+        this.maxResultSize = config.maxResultSize ?? DEFAULT_MAX_RESULT_SIZE;
+        this.previewSize = config.previewSize ?? DEFAULT_PREVIEW_SIZE;
+    }
+
+    useSessionStore(store: ISessionStore): void {
+        this.sessionStore = store;
+    }
+
+    /**
+     * 输出文件目录，输出只保存在内存中时返回 undefined
+     */
+    getOutputDir(sessionId?: string): string | undefined {
+        const id = sessionId || 'default';
+        if (this.storagePath) {
+            return path.join(this.storagePath, encodeURIComponent(id), OUTPUT_DIR);
+        }
+        const sessionDir = this.sessionStore?.getSessionDir?.(id);
+        return sessionDir ? path.join(sessionDir, OUTPUT_DIR) : undefined;
+    }
+
+    async spill(result: ToolExecutionResult, sessionId?: string): Promise<ToolExecutionResult> {
+        if (result.result === undefined || (JSON.stringify(result.result)?.length ?? 0) <= this.maxResultSize) {
+            return result;
+        }
+
+        const text = formatToolOutput(result.result);
+        const handle = `${result.call_id.replace(/[^\w.-]/g, '_')}-${Date.now().toString(36)}`;
+        let saved = true;
+        try {
+            const dir = this.getOutputDir(sessionId);
+            if (dir) {
+                await fs.promises.mkdir(dir, { recursive: true });
+                await writeFileAtomic(path.join(dir, `${handle}.txt`), text);
+            } else {
+                const outputs = this.memory.get(sessionId || 'default') || new Map<string, string>();
+                outputs.set(handle, text);
+                this.memory.set(sessionId || 'default', outputs);
+            }
+        } catch (error) {
+            saved = false;
+            logger.warn(`[ToolOutputStore] Failed to save output of ${result.name}:`, error);
+        }
+
+        const original = result.result;
+        return {
+            ...result,
+            result: {
+                ...(typeof original?.success === 'boolean' ? { success: original.success } : {}),
+                truncated: true,
+                handle: saved ? handle : undefined,
+                totalChars: text.length,
+                totalLines: text.split('\n').length,
+                preview: this.preview(text),
+                note: saved
+                    ? `Output was too large for the context and has been saved. Use ReadToolOutput with handle "${handle}" to page through or search it.`
+                    : 'Output was too large for the context and could not be saved; only the preview is available.'
+            }
+        };
+    }
+
+    async read(handle: string, sessionId?: string): Promise<string | null> {
+        // handle 只能是 spill 生成的文件名，避免读取会话目录之外的文件
+        if (!/^[\w.-]+$/.test(handle)) {
+            return null;
+        }
+        const dir = this.getOutputDir(sessionId);
+        if (!dir) {
+            return this.memory.get(sessionId || 'default')?.get(handle) ?? null;
+        }
+        try {
+            return await fs.promises.readFile(path.join(dir, `${handle}.txt`), 'utf-8');
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        this.memory.delete(sessionId);
+        const dir = this.getOutputDir(sessionId);
+        if (dir) {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    private preview(text: string): string {
+        if (text.length <= this.previewSize) {
+            return text;
+        }
+        const half = Math.floor(this.previewSize / 2);
+        const omitted = text.length - half * 2;
+        return `${text.slice(0, half)}\n... [${omitted} characters omitted] ...\n${text.slice(-half)}`;
+    }
+}
@@ -1,6 +1,7 @@
 import { BaseAgent } from "./base-agent.js";
-import { AgentStep } from "./interfaces/index.js";
+import { AgentStep, LLMMessage, LLMStreamChunk, ToolCallDefinition } from "./interfaces/index.js";
 import { logger } from "./utils/logger.js";
+import { flattenLLMMessages } from "./models/llm-messages.js";
 import { 
     EventBus, 
     EventPublisher, 
@@ -76,8 +77,16 @@ export class StreamAgent extends BaseAgent {
         // 步骤开始事件由 BaseAgent 统一发布，避免重复
 
         try {
-            // 生成prompt
-            const prompt = await this.promptProcessor.formatPrompt(stepIndex);
+            // 先选择本步骤的模型，prompt 按该模型的上下文窗口压缩
+            const llm = await this.selectStepModel(stepIndex);
+            if (!llm.callStream || typeof llm.callStream !== 'function') {
+                throw new Error('StreamAgentV2 requires LLM with callStream support. Use AsyncAgentV2 for non-streaming LLMs.');
+            }
+
+            // 生成prompt（promptFormat 为 messages 时生成结构化消息）
+            const prompt = this.promptFormat === 'messages'
+                ? await this.promptProcessor.formatMessages(stepIndex)
+                : await this.promptProcessor.formatPrompt(stepIndex);
             logger.debug('Generated prompt', { length: prompt.length });
             // logger.debug('Generated prompt', {prompt});
 
@@ -91,11 +100,6 @@ export class StreamAgent extends BaseAgent {
                 toolDefs: toolDefs.map(t => t.name) 
             });
 
-            // 检查LLM是否支持流式调用
-            if (!this.llm.callStream || typeof this.llm.callStream !== 'function') {
-                throw new Error('StreamAgentV2 requires LLM with callStream support. Use AsyncAgentV2 for non-streaming LLMs.');
-            }
-
             // 执行流式调用
             let agentStep = await this.processStreamResponse(prompt, toolDefs, stepIndex);
             
@@ -111,24 +115,8 @@ export class StreamAgent extends BaseAgent {
         } catch (error) {
             logger.error('Error in StreamAgentV2 step:', error);
 
-            // 步骤失败事件由 BaseAgent 统一发布，避免重复
-
-            // add error to prompt
-            this.promptProcessor.renderErrorToPrompt(
-                error instanceof Error ? error.message : String(error), 
-                stepIndex
-            );
-
-            // 创建错误步骤
-            const errorStep: AgentStep = {
-                stepIndex: stepIndex,
-                error: error instanceof Error ? error.message : String(error)
-            };
-
-            return {
-                continueProcessing: false,
-                agentStep: errorStep
-            };
+            // 步骤失败事件和错误恢复（重试、跳过、中止）由 BaseAgent.stepsLoop 统一处理
+            throw error;
         }
     }
 
@@ -136,7 +124,7 @@ export class StreamAgent extends BaseAgent {
      * 处理流式响应 - 专注于实时事件和增量更新
      */
     private async processStreamResponse(
-        prompt: string,
+        prompt: string | LLMMessage[],
         toolDefs: any[],
         stepIndex: number
     ): Promise<AgentStep<any>> {
@@ -158,28 +146,43 @@ export class StreamAgent extends BaseAgent {
                 rawText: '',
                 toolCalls: [],
                 toolExecutionResults: [],
-                toolExecutionPromises: [],
+                pendingToolCalls: [],
                 isComplete: false
             };
 
             // 调用流式LLM方法
             let chunkIndex = 0;
-            for await (const chunk of this.llm.callStream(prompt, toolDefs, { stepIndex })) {
-                try {
-                    await this.handleStreamChunk(chunk, stepIndex, chunkIndex, llmEvents);
-                    chunkIndex++;
-                } catch (error) {
-                    logger.error(`[StreamAgentV2] 处理流式chunk失败:`, error);
+            this.llmCallInProgress = true;
+            try {
+                for await (const chunk of this.callLLMStream(prompt, toolDefs, stepIndex)) {
+                    try {
+                        await this.handleStreamChunk(chunk, stepIndex, chunkIndex, llmEvents);
+                        chunkIndex++;
+                    } catch (error) {
+                        logger.error(`[StreamAgentV2] 处理流式chunk失败:`, error);
+                    }
                 }
+            } finally {
+                this.llmCallInProgress = false;
             }
 
             // 处理步骤完成
             let currentStep = await this.handleStepCompletion();
+            currentStep.cancelled = this.abortSignal?.aborted || undefined;
 
             logger.debug(`[StreamAgentV2] 流式处理完成步骤 ${stepIndex}`);
             return currentStep;
 
         } catch (error) {
+            // 被 stop() 中断：记录已收到的部分输出和已取消的工具结果
+            if (this.abortSignal?.aborted && this.currentStepData) {
+                logger.info(`🛑 [StreamAgentV2] 步骤 ${stepIndex} 流式输出被中断，记录部分输出`);
+                const partialStep = await this.handleStepCompletion();
+                partialStep.cancelled = true;
+                return partialStep;
+            }
+
+
             logger.error(`[StreamAgentV2] 流式处理失败步骤 ${stepIndex}:`, error);
             
             await this.eventPublisher.publishErrorEvent(
@@ -192,6 +195,20 @@ export class StreamAgent extends BaseAgent {
         }
     }
 
+    /**
+     * 结构化消息优先使用 callStreamMessages，LLM 未实现时展开为字符串
+     */
+    private callLLMStream(prompt: string | LLMMessage[], toolDefs: ToolCallDefinition[], stepIndex: number): AsyncIterable<LLMStreamChunk> {
+        const options = { stepIndex, signal: this.abortSignal };
+        if (typeof prompt === 'string') {
+            return this.stepLLM.callStream(prompt, toolDefs, options);
+        }
+        if (this.stepLLM.callStreamMessages) {
+            return this.stepLLM.callStreamMessages(prompt, toolDefs, options);
+        }
+        return this.stepLLM.callStream(flattenLLMMessages(prompt), toolDefs, options);
+    }
+
     /**
      * 处理流式数据块
      */
@@ -206,6 +223,10 @@ export class StreamAgent extends BaseAgent {
             return;
         }
 
+        if (chunk?.type === 'usage' && chunk.usage) {
+            this.recordTokenUsage(chunk.usage, stepIndex, this.stepLLM.model);
+        }
+
         // 使用LLMEventMapper转换chunk为事件
         const events = LLMEventMapper.convertChunkToEvents(chunk, stepIndex, this.currentSessionId, 'StreamAgentV2');
         
@@ -215,9 +236,10 @@ export class StreamAgent extends BaseAgent {
             // 处理不同类型的事件
             switch (event.type) {
                 case 'llm.text.delta':
-                    // if (event.data?.content) {
-                    //     this.currentStepData.rawText += event.data.content;
-                    // }
+                    // 累积增量文本，流被中断时作为部分输出；llm.text.completed 会用完整文本覆盖
+                    if (event.data?.content) {
+                        this.currentStepData.rawText += event.data.content;
+                    }
                     break;
                     
                 case 'llm.tool.call.started':
@@ -225,16 +247,21 @@ export class StreamAgent extends BaseAgent {
                 
                 case 'llm.tool.call.completed':
                     if (event.data?.toolCall) {
-                        // 添加工具调用到当前步骤
+                        // 添加工具调用到当前步骤，流式输出结束后统一调度执行
                         this.currentStepData.toolCalls!.push({
                             call_id: event.data.toolCall.call_id,
                             name: event.data.toolCall.name,
                             params: event.data.toolCall.parameters
                         });
-                        
-                        // 执行工具调用
-                        const toolPromise = this.handleToolCallExecution(event.data.toolCall, stepIndex);
-                        this.currentStepData.toolExecutionPromises.push(toolPromise);
+                        this.currentStepData.pendingToolCalls.push(event.data.toolCall);
+                    }
+                    break;
+
+                case 'llm.thinking.completed':
+                    // 推理模型的思考内容，一个步骤中可能有多个思考块
+                    if (event.data?.finalThought) {
+                        const previous = this.currentStepData.reasoning;
+                        this.currentStepData.reasoning = previous ? `${previous}\n\n${event.data.finalThought}` : event.data.finalThought;
                     }
                     break;
 
@@ -257,10 +284,9 @@ export class StreamAgent extends BaseAgent {
 
         const { stepIndex, rawText, toolCalls } = this.currentStepData;
         
-        // 等待所有工具调用完成
-        if (this.currentStepData.toolExecutionPromises.length > 0) {
-            logger.debug(`[StreamAgentV2] 等待 ${this.currentStepData.toolExecutionPromises.length} 个工具调用完成...`);
-            await Promise.all(this.currentStepData.toolExecutionPromises);
+        // 执行本步骤的所有工具调用，结果按调用顺序保存
+        if (this.currentStepData.pendingToolCalls.length > 0) {
+            this.currentStepData.toolExecutionResults = await this.executeStepToolCalls(this.currentStepData.pendingToolCalls, stepIndex);
             logger.debug(`[StreamAgentV2] 所有工具调用已完成`);
         }
         
@@ -275,7 +301,8 @@ export class StreamAgent extends BaseAgent {
                 call_id: call.call_id,
                 params: call.params
             })) || [],
-            toolExecutionResults: this.currentStepData.toolExecutionResults || []
+            toolExecutionResults: this.currentStepData.toolExecutionResults || [],
+            ...(this.currentStepData.reasoning ? { reasoning: this.currentStepData.reasoning } : {})
         };
         
         // 提取结果并处理文本内容
@@ -295,66 +322,6 @@ export class StreamAgent extends BaseAgent {
         return currentStep;
     }
 
-    /**
-     * 执行工具调用并发布相关事件
-     */
-    private async handleToolCallExecution(
-        toolCall: any,
-        stepIndex: number
-    ): Promise<void> {
-        try {
-            // 工具执行事件由 BaseAgent 统一发布，避免重复
-
-            // 找到对应的工具
-            const tool = this.getActiveTools().find(t => t.name === toolCall.name);
-            if (!tool) {
-                throw new Error(`Tool not found: ${toolCall.name}`);
-            }
-
-            // 执行工具调用（使用父类的工具执行器）
-            const result = await this.toolExecutor.executeToolCall(
-                toolCall,
-                tool,
-                this,
-                this.eventBus,
-                this.toolExecutionPriority
-            );
-
-            // 保存结果到当前步骤数据
-            if (this.currentStepData) {
-                if (!this.currentStepData.toolExecutionResults) {
-                    this.currentStepData.toolExecutionResults = [];
-                }
-                this.currentStepData.toolExecutionResults.push(result);
-            }
-
-            // 工具执行完成和失败事件由 BaseAgent 统一发布，避免重复
-
-        } catch (error) {
-            // 工具执行失败事件由 BaseAgent 统一发布，避免重复
-
-            // 重新抛出错误以保持原有的错误处理逻辑
-            throw error;
-        }
-    }
-
-    /**
-     * 停止Agent并发布相关事件
-     */
-    stop(): void {
-        super.stop();
-        
-        // 发布Agent停止事件
-        this.eventPublisher.publishAgentEvent(
-            'agent.stopped',
-            this.currentStep || 0,
-            this.currentSessionId,
-            { reason: 'Manual stop requested' }
-        ).catch(error => {
-            logger.error('Failed to publish agent stopped event:', error);
-        });
-    }
-
     /**
      * 获取事件总线实例（用于外部订阅）
      */
@@ -1,11 +1,13 @@
 import { randomUUID } from 'crypto';
 import { ITaskQueue } from './interfaces/tool.js';
+import { AbortError, getAbortReason } from './utils/abort.js';
 
 export interface ITask{
     id: string;
     execute: () => Promise<any>;
     priority: number;
     type: 'processStep' | 'toolCall' | 'custom';
+    group?: string;
     resolve: (value: any) => void;
     reject: (reason: any) => void;
     createdAt: number;
@@ -19,6 +21,9 @@ export class TaskQueue implements ITaskQueue{
     runningTasks: Set<string>;
     concurrency: number;
     isRunning: boolean;
+    // 并发组：同组任务在全局并发之外另有上限，未配置的组默认串行
+    private groupConcurrency: Map<string, number> = new Map();
+    private runningGroups: Map<string, number> = new Map();
     constructor(concurrency: number){
         this.tasks = [];
         this.runningTasks = new Set();
@@ -30,6 +35,17 @@ export class TaskQueue implements ITaskQueue{
         this.concurrency = concurrency;
     }
 
+    setGroupConcurrency(group: string, concurrency: number){
+        this.groupConcurrency.set(group, concurrency);
+    }
+
+    private hasGroupCapacity(group?: string): boolean {
+        if (!group) {
+            return true;
+        }
+        return (this.runningGroups.get(group) || 0) < (this.groupConcurrency.get(group) ?? 1);
+    }
+
     taskCount(): number{
         return this.tasks.length;
     }
@@ -50,20 +66,39 @@ export class TaskQueue implements ITaskQueue{
         }
     }
 
-    addTask<T>(taskFn: () => Promise<T>, priority: number, type?: 'processStep' | 'toolCall' | 'custom', id?: string): Promise<T> {
+    addTask<T>(taskFn: () => Promise<T>, priority: number, type?: 'processStep' | 'toolCall' | 'custom', id?: string, signal?: AbortSignal, group?: string): Promise<T> {
         return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new AbortError(getAbortReason(signal)));
+                return;
+            }
 
             let taskId = id? id : randomUUID();
             const addTask = {
                 id: taskId,
-                execute: taskFn,
+                // 任务开始后不再需要监听取消，避免长期存在的 signal 上累积监听器
+                execute: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    return taskFn();
+                },
                 priority: priority,
                 type: type || 'custom',
+                group,
                 resolve: resolve,
                 reject: reject,
                 createdAt: Date.now()
             }
 
+            // 排队中的任务在取消时移出队列；已开始的任务由 taskFn 自行响应 signal
+            const onAbort = () => {
+                const index = this.tasks.indexOf(addTask);
+                if (index !== -1) {
+                    this.tasks.splice(index, 1);
+                    reject(new AbortError(getAbortReason(signal!)));
+                }
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
             this.tasks.push(addTask);
             setTimeout(() => {
                 this.run();
@@ -80,11 +115,16 @@ export class TaskQueue implements ITaskQueue{
             while (this.tasks.length > 0 && this.runningTasks.size < this.concurrency) {
 
             this.tasks.sort((a, b) => b.priority - a.priority);
-            const task = this.tasks.shift();
-            if (!task) {
+            // 跳过所在并发组已满的任务
+            const index = this.tasks.findIndex((task) => this.hasGroupCapacity(task.group));
+            if (index === -1) {
                 break;
             }
+            const [task] = this.tasks.splice(index, 1);
             this.runningTasks.add(task.id);
+            if (task.group) {
+                this.runningGroups.set(task.group, (this.runningGroups.get(task.group) || 0) + 1);
+            }
 
             task.execute().then((result) => {
                 task.resolve(result);
@@ -94,6 +134,9 @@ export class TaskQueue implements ITaskQueue{
                 this.runningTasks.delete(task.id);
             }).finally(() => {
                     this.runningTasks.delete(task.id);
+                    if (task.group) {
+                        this.runningGroups.set(task.group, (this.runningGroups.get(task.group) || 1) - 1);
+                    }
                     // Try to process more tasks after one completes
                     this.run();
                 });
@@ -105,12 +148,12 @@ export class TaskQueue implements ITaskQueue{
         }
     } 
 
-    addProcessStepTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string): Promise<T> {
-        return this.addTask(taskFn, priority || 0, 'processStep', id);
+    addProcessStepTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string, signal?: AbortSignal): Promise<T> {
+        return this.addTask(taskFn, priority || 0, 'processStep', id, signal);
     }
 
-    addToolCallTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string): Promise<T> {
-        return this.addTask(taskFn, priority || 0, 'toolCall', id);
+    addToolCallTask<T>(taskFn: () => Promise<T>, priority?: number, id?: string, signal?: AbortSignal, group?: string): Promise<T> {
+        return this.addTask(taskFn, priority || 0, 'toolCall', id, signal, group);
     }
 
     getTasksByType(type: 'processStep' | 'toolCall' | 'custom'): ITask[] {
@@ -1,7 +1,11 @@
 import { ITaskQueue } from './interfaces/tool.js';
-import { AnyTool, ToolCallParams, ToolExecutionResult } from './interfaces/index.js';
-import { IEventBus } from './event-bus/index.js';
-import { logger } from './utils/logger.js';
+import { AnyTool, IToolOutputStore, ToolCallParams, ToolExecutionResult } from './interfaces/index.js';
+import { IEventBus, ApprovalEvent, ApprovalDecision } from './event-bus/index.js';
+import { z } from 'zod';
+import { LogLevel, Logger, logger } from './utils/logger.js';
+import { AbortError, abortable, getAbortReason, sleep, throwIfAborted } from './utils/abort.js';
+import { ToolValidationError, formatToolParamIssues, validateToolParams } from './utils/tool-params.js';
+import { getToolCallAccess, planToolCallDependencies } from './utils/tool-scheduling.js';
 
 export interface ToolExecutionTask {
     id: string;
@@ -10,12 +14,64 @@ export interface ToolExecutionTask {
     agent: any; // BaseAgent reference
     startTime: number;
     eventBus?: IEventBus;
+    signal?: AbortSignal;
 }
 
 export interface ToolExecutorOptions {
     maxConcurrency?: number;
     defaultPriority?: number;
     enableParallelExecution?: boolean;
+    approvalTimeout?: number; // 等待审批的超时时间（毫秒），超时视为拒绝；0 表示一直等待
+    validateResults?: boolean | 'debug'; // 按工具的 outputSchema 校验返回值，不一致时只记录警告；默认 'debug'，仅在 DEBUG 日志级别下校验
+    concurrencyGroups?: Record<string, number>; // 工具并发组的并发上限，未配置的组默认 1
+    outputStore?: IToolOutputStore | null; // 超过阈值的结果保存到会话目录，返回结果中只保留预览和 handle；null 表示不截断
+}
+
+const DEFAULT_RETRY_BACKOFF = 500;
+const DEFAULT_MAX_RETRY_BACKOFF = 10000;
+
+/**
+ * 工具执行超过 ITool.timeout
+ */
+export class ToolTimeoutError extends Error {
+    constructor(public readonly toolName: string, public readonly timeout: number) {
+        super(`Tool ${toolName} timed out after ${timeout}ms`);
+        this.name = 'ToolTimeoutError';
+    }
+}
+
+/**
+ * 判断工具能否安全重试：显式声明 idempotent，或未声明时为 read-only
+ */
+export function isIdempotentTool(tool: AnyTool): boolean {
+    return tool.idempotent ?? tool.riskLevel === 'read-only';
+}
+
+/**
+ * 被拒绝的工具调用结果 message 的前缀，用于区分用户拒绝和执行失败
+ */
+export const DENIED_RESULT_PREFIX = 'Tool call denied by user';
+
+export interface ApprovalResponse {
+    decision: ApprovalDecision;
+    reason?: string;
+    parameters?: any;
+}
+
+/**
+ * 判断工具调用是否需要用户审批
+ * - auto: 不需要审批
+ * - supervised: 非 read-only 的工具需要审批（未声明风险等级按 write 处理）
+ * - manual: 所有工具调用都需要审批
+ */
+export function requiresApproval(executionMode: 'auto' | 'manual' | 'supervised' | undefined, tool: AnyTool): boolean {
+    if (executionMode === 'manual') {
+        return true;
+    }
+    if (executionMode === 'supervised') {
+        return (tool.riskLevel ?? 'write') !== 'read-only';
+    }
+    return false;
 }
 
 export class ToolExecutor {
@@ -29,8 +85,19 @@ export class ToolExecutor {
         this.options = {
             maxConcurrency: options.maxConcurrency || 5,
             defaultPriority: options.defaultPriority || 5,
-            enableParallelExecution: options.enableParallelExecution ?? true
+            enableParallelExecution: options.enableParallelExecution ?? true,
+            approvalTimeout: options.approvalTimeout ?? 0,
+            validateResults: options.validateResults ?? 'debug',
+            concurrencyGroups: options.concurrencyGroups ?? {},
+            outputStore: options.outputStore ?? null
         };
+        this.applyConcurrencyGroups(this.options.concurrencyGroups);
+    }
+
+    private applyConcurrencyGroups(groups: Record<string, number>): void {
+        for (const [group, concurrency] of Object.entries(groups)) {
+            this.taskQueue.setGroupConcurrency(group, concurrency);
+        }
     }
 
     /**
@@ -39,7 +106,8 @@ export class ToolExecutor {
     async execute(
         toolCall: ToolCallParams,
         agent: any,
-        priority?: number
+        priority?: number,
+        signal?: AbortSignal
     ): Promise<ToolExecutionResult> {
         const taskId = toolCall.call_id || `${toolCall.name}_${Date.now()}`;
         
@@ -57,17 +125,11 @@ export class ToolExecutor {
             tool,
             agent,
             startTime: Date.now(),
-            eventBus: agent.eventBus
+            eventBus: agent.eventBus,
+            signal
         };
 
-        // 将工具执行任务添加到任务队列
-        const result = await this.taskQueue.addToolCallTask(
-            () => this.executeToolInternal(executionTask),
-            priority || this.options.defaultPriority,
-            taskId
-        );
-
-        return result;
+        return this.enqueue(executionTask, priority);
     }
 
     /**
@@ -78,7 +140,8 @@ export class ToolExecutor {
         tool: AnyTool,
         agent: any,
         eventBus?: IEventBus,
-        priority?: number
+        priority?: number,
+        signal?: AbortSignal
     ): Promise<ToolExecutionResult> {
         const taskId = toolCall.call_id || `${tool.name}_${Date.now()}`;
         
@@ -90,17 +153,32 @@ export class ToolExecutor {
             tool,
             agent,
             startTime: Date.now(),
-            eventBus
+            eventBus,
+            signal
         };
 
-        // 将工具执行任务添加到任务队列
-        const result = await this.taskQueue.addToolCallTask(
-            () => this.executeToolInternal(executionTask),
-            priority || this.options.defaultPriority,
-            taskId
-        );
+        return this.enqueue(executionTask, priority);
+    }
 
-        return result;
+    /**
+     * 将工具执行任务添加到任务队列，排队中被取消的任务返回失败结果
+     */
+    private async enqueue(executionTask: ToolExecutionTask, priority?: number): Promise<ToolExecutionResult> {
+        try {
+            return await this.taskQueue.addToolCallTask(
+                () => this.executeToolInternal(executionTask),
+                priority || this.options.defaultPriority,
+                executionTask.id,
+                executionTask.signal,
+                executionTask.tool.concurrencyGroup
+            );
+        } catch (error) {
+            if (error instanceof AbortError) {
+                logger.info(`🛑 Tool ${executionTask.tool.name} cancelled before it started`);
+                return this.createErrorResult(executionTask.toolCall, `Tool execution cancelled: ${error.message}`);
+            }
+            throw error;
+        }
     }
 
     /**
@@ -111,7 +189,8 @@ export class ToolExecutor {
         tools: AnyTool[],
         agent: any,
         eventBus?: IEventBus,
-        priority?: number
+        priority?: number,
+        signal?: AbortSignal
     ): Promise<ToolExecutionResult[]> {
         if (!this.options.enableParallelExecution) {
             // 串行执行
@@ -119,7 +198,7 @@ export class ToolExecutor {
             for (const toolCall of toolCalls) {
                 const tool = tools.find(t => t.name === toolCall.name);
                 if (tool) {
-                    const result = await this.executeToolCall(toolCall, tool, agent, eventBus, priority);
+                    const result = await this.executeToolCall(toolCall, tool, agent, eventBus, priority, signal);
                     results.push(result);
                 } else {
                     results.push(this.createErrorResult(toolCall, `Tool ${toolCall.name} not found`));
@@ -128,25 +207,33 @@ export class ToolExecutor {
             return results;
         }
 
-        // 并行执行
+        // 并行执行：只读调用并发，写同一路径或同一副作用组的调用按原始顺序串行
+        const accesses = toolCalls.map(toolCall => {
+            const tool = tools.find(t => t.name === toolCall.name);
+            return tool ? getToolCallAccess(tool, toolCall.parameters) : undefined;
+        });
+        const dependencies = planToolCallDependencies(accesses.map(access => access ?? { mode: 'read', paths: [], exclusive: false }));
         const executionPromises: Promise<ToolExecutionResult>[] = [];
-        
-        for (const toolCall of toolCalls) {
+
+        toolCalls.forEach((toolCall, index) => {
             const tool = tools.find(t => t.name === toolCall.name);
-            if (tool) {
-                const promise = this.executeToolCall(toolCall, tool, agent, eventBus, priority);
-                executionPromises.push(promise);
-            } else {
+            if (!tool) {
                 // 立即返回错误结果
-                executionPromises.push(
-                    Promise.resolve(this.createErrorResult(toolCall, `Tool ${toolCall.name} not found`))
-                );
+                executionPromises.push(Promise.resolve(this.createErrorResult(toolCall, `Tool ${toolCall.name} not found`)));
+                return;
             }
-        }
+            const waitFor = dependencies[index].map(dependency => executionPromises[dependency]);
+            if (waitFor.length > 0) {
+                logger.debug(`[ToolExecutor] Tool call ${toolCall.name} (#${index}) waits for #${dependencies[index].join(', #')}`);
+            }
+            executionPromises.push(
+                Promise.allSettled(waitFor).then(() => this.executeToolCall(toolCall, tool, agent, eventBus, priority, signal))
+            );
+        });
 
         logger.debug(`[ToolExecutor] Executing ${executionPromises.length} tool calls in parallel`);
         
-        // 等待所有工具执行完成
+        // 等待所有工具执行完成，结果保持原始调用顺序
         const results = await Promise.allSettled(executionPromises);
         
         return results.map((result, index) => {
@@ -166,12 +253,28 @@ export class ToolExecutor {
      * 内部工具执行方法
      */
     private async executeToolInternal(executionTask: ToolExecutionTask): Promise<ToolExecutionResult> {
-        const { toolCall, tool, agent, eventBus, startTime } = executionTask;
+        const { tool, agent, eventBus, startTime, signal } = executionTask;
+        let toolCall = executionTask.toolCall;
         
         console.log('[[[toolCall:]]]', toolCall);
         try {
             // 标记任务开始执行
             this.runningTasks.set(executionTask.id, executionTask);
+            throwIfAborted(signal);
+
+            // 先校验参数，不让用户审批注定失败的调用
+            toolCall = this.validateParams(tool, toolCall);
+
+            // supervised/manual 模式下等待用户审批
+            if (requiresApproval(agent.executionMode, tool)) {
+                const response = await this.requestApproval(executionTask);
+                if (response.decision === 'deny') {
+                    return this.createDeniedResult(executionTask, response.reason);
+                }
+                if (response.decision === 'edit' && response.parameters !== undefined) {
+                    toolCall = this.validateParams(tool, { ...toolCall, parameters: response.parameters });
+                }
+            }
             
             // 发布工具执行开始事件
             if (eventBus) {
@@ -189,9 +292,12 @@ export class ToolExecutor {
             
             logger.debug(`[ToolExecutor] Executing tool: ${tool.name} with params:`, toolCall.parameters);
             
-            // 执行工具
-            const result = await tool.execute(toolCall.parameters, agent);
+            const result = await this.executeWithRetry(tool, toolCall.parameters, agent, signal);
             const executionTime = Date.now() - startTime;
+
+            if (this.shouldValidateResults()) {
+                this.validateResult(tool, result);
+            }
             
             const toolCallResult: ToolExecutionResult = {
                 name: tool.name,
@@ -223,16 +329,24 @@ export class ToolExecutor {
             
             logger.debug(`[ToolExecutor] Tool ${tool.name} completed successfully in ${executionTime}ms`);
             
-            return toolCallResult;
+            // 事件中保留完整结果，返回给 Agent 写入 prompt 的结果按大小截断
+            return this.options.outputStore
+                ? await this.options.outputStore.spill(toolCallResult, agent.agentStorage?.sessionId || agent.sessionId)
+                : toolCallResult;
             
         } catch (error) {
             const executionTime = Date.now() - startTime;
+            const cancelled = signal?.aborted === true;
             const errorResult: ToolExecutionResult = {
                 name: tool.name,
                 call_id: toolCall.call_id || executionTask.id,
                 params: toolCall.parameters,
                 status: 'failed',
-                message: error instanceof Error ? error.message : String(error),
+                // 参数校验失败时附上逐字段的错误，方便模型修正后重试
+                result: error instanceof ToolValidationError ? { validationErrors: error.issues } : undefined,
+                message: cancelled
+                    ? `Tool execution cancelled: ${getAbortReason(signal!)}`
+                    : error instanceof Error ? error.message : String(error),
                 executionTime
             };
             
@@ -256,7 +370,11 @@ export class ToolExecutor {
                 });
             }
             
-            logger.error(`[ToolExecutor] Tool ${tool.name} failed:`, errorResult.message);
+            if (cancelled) {
+                logger.info(`🛑 Tool ${tool.name} cancelled after ${executionTime}ms`);
+            } else {
+                logger.error(`[ToolExecutor] Tool ${tool.name} failed:`, errorResult.message);
+            }
             
             return errorResult;
             
@@ -266,6 +384,208 @@ export class ToolExecutor {
         }
     }
 
+    /**
+     * 按工具的重试策略执行，幂等工具抛出异常或超时后按指数退避重试
+     */
+    private async executeWithRetry(tool: AnyTool, parameters: any, agent: any, signal?: AbortSignal): Promise<any> {
+        const retry = tool.retry;
+        const maxRetries = retry && isIdempotentTool(tool) ? retry.maxRetries : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.runTool(tool, parameters, agent, signal);
+            } catch (error) {
+                if (attempt >= maxRetries || signal?.aborted) {
+                    throw error;
+                }
+                const delay = Math.min(
+                    (retry!.backoffMs ?? DEFAULT_RETRY_BACKOFF) * 2 ** attempt,
+                    retry!.maxBackoffMs ?? DEFAULT_MAX_RETRY_BACKOFF
+                );
+                logger.warn(`[ToolExecutor] Tool ${tool.name} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+                await sleep(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * 执行一次工具；不响应 signal 的工具在取消或超时时也会立即返回，避免阻塞 Agent 停止
+     */
+    private async runTool(tool: AnyTool, parameters: any, agent: any, signal?: AbortSignal): Promise<any> {
+        if (!tool.timeout) {
+            return abortable(Promise.resolve(tool.execute(parameters, agent, { signal })), signal);
+        }
+
+        // 超时通过子信号传给工具，Agent 停止时同样会取消子信号
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal!.reason);
+        if (signal?.aborted) {
+            onAbort();
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const timeoutError = new ToolTimeoutError(tool.name, tool.timeout);
+        const timer = setTimeout(() => controller.abort(timeoutError), tool.timeout);
+
+        try {
+            return await abortable(Promise.resolve(tool.execute(parameters, agent, { signal: controller.signal })), controller.signal);
+        } catch (error) {
+            throw controller.signal.reason === timeoutError ? timeoutError : error;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * 按工具的参数 schema 修正并校验参数，返回使用解析后参数的 toolCall
+     */
+    private validateParams(tool: AnyTool, toolCall: ToolCallParams): ToolCallParams {
+        if (!(tool.params instanceof z.ZodType)) {
+            return toolCall;
+        }
+        const validation = validateToolParams(tool.params, toolCall.parameters);
+        if (!validation.success) {
+            throw new ToolValidationError(tool.name, validation.issues);
+        }
+        return { ...toolCall, parameters: validation.data };
+    }
+
+    private shouldValidateResults(): boolean {
+        const { validateResults } = this.options;
+        return validateResults === 'debug' ? Logger.getLevel() === LogLevel.DEBUG : validateResults;
+    }
+
+    /**
+     * 返回值与 outputSchema 不一致时记录警告，帮助工具作者发现问题，不影响调用结果
+     */
+    private validateResult(tool: AnyTool, result: unknown): void {
+        const resultSchema = tool.toCallParams?.().resultSchema;
+        if (!(resultSchema instanceof z.ZodType)) {
+            return;
+        }
+        const validation = resultSchema.safeParse(result);
+        if (!validation.success) {
+            const issues = validation.error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+            logger.warn(`[ToolExecutor] Tool ${tool.name} returned a result that does not match its output schema: ${formatToolParamIssues(issues)}`);
+        }
+    }
+
+    /**
+     * 发布 approval.requested 并等待客户端响应
+     * 没有客户端订阅 approval.requested 时（无界面或 SDK 调用）直接拒绝，不等待
+     */
+    private requestApproval(executionTask: ToolExecutionTask): Promise<ApprovalResponse> {
+        const { toolCall, tool, agent, signal } = executionTask;
+        const eventBus: IEventBus | undefined = executionTask.eventBus || agent.eventBus;
+        if (!eventBus) {
+            logger.warn(`[ToolExecutor] No event bus to request approval for ${tool.name}, denying`);
+            return Promise.resolve({ decision: 'deny', reason: 'No client available to approve the tool call' });
+        }
+        if (eventBus.hasSubscribers && !eventBus.hasSubscribers('approval.requested')) {
+            logger.warn(`[ToolExecutor] No client is listening for approval of ${tool.name}, denying`);
+            return Promise.resolve({ decision: 'deny', reason: 'No client is listening for approval requests' });
+        }
+
+        const requestId = `approval_${executionTask.id}_${Date.now()}`;
+        logger.info(`⏸️ Waiting for approval of ${tool.name} (${requestId})`);
+
+        return new Promise<ApprovalResponse>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+
+            // Agent 停止时不再等待审批
+            const onAbort = () => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                eventBus.unsubscribe(subscriptionId);
+                reject(new AbortError(getAbortReason(signal!)));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            const subscriptionId = eventBus.subscribe<ApprovalEvent>('approval.responded', (event) => {
+                if (event.data.requestId !== requestId) {
+                    return;
+                }
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                signal?.removeEventListener('abort', onAbort);
+                eventBus.unsubscribe(subscriptionId);
+                resolve({
+                    decision: event.data.decision ?? 'deny',
+                    reason: event.data.reason,
+                    parameters: event.data.parameters
+                });
+            });
+
+            // 超时视为拒绝，并发布 approval.responded 通知客户端该请求已失效
+            if (this.options.approvalTimeout > 0) {
+                timer = setTimeout(() => {
+                    signal?.removeEventListener('abort', onAbort);
+                    eventBus.unsubscribe(subscriptionId);
+                    const reason = `No approval response within ${this.options.approvalTimeout}ms`;
+                    eventBus.publish({
+                        type: 'approval.responded',
+                        timestamp: Date.now(),
+                        source: 'ToolExecutor',
+                        sessionId: agent.sessionId,
+                        data: { requestId, toolCall, decision: 'deny', reason }
+                    });
+                    resolve({ decision: 'deny', reason });
+                }, this.options.approvalTimeout);
+            }
+
+            eventBus.publish({
+                type: 'approval.requested',
+                timestamp: Date.now(),
+                source: `tool.${tool.name}`,
+                sessionId: agent.sessionId,
+                data: {
+                    requestId,
+                    toolCall,
+                    riskLevel: tool.riskLevel ?? 'write',
+                    agentId: agent.id
+                }
+            });
+        });
+    }
+
+    /**
+     * 创建被拒绝的结果，拒绝原因会作为失败的工具结果反馈给模型
+     */
+    private createDeniedResult(executionTask: ToolExecutionTask, reason?: string): ToolExecutionResult {
+        const { toolCall, tool, agent } = executionTask;
+        const eventBus: IEventBus | undefined = executionTask.eventBus || agent.eventBus;
+        const deniedResult: ToolExecutionResult = {
+            name: tool.name,
+            call_id: toolCall.call_id || executionTask.id,
+            params: toolCall.parameters,
+            status: 'failed',
+            message: `${DENIED_RESULT_PREFIX}${reason ? `: ${reason}` : ''}`,
+            executionTime: Date.now() - executionTask.startTime
+        };
+
+        this.completedTasks.set(executionTask.id, deniedResult);
+
+        if (eventBus) {
+            eventBus.publish({
+                type: 'tool.execution.failed',
+                timestamp: Date.now(),
+                source: `tool.${tool.name}`,
+                data: {
+                    toolCall,
+                    result: deniedResult,
+                    error: deniedResult.message,
+                    agentId: agent.id,
+                    sessionId: agent.sessionId
+                }
+            });
+        }
+
+        logger.info(`🚫 Tool ${tool.name} denied by user${reason ? `: ${reason}` : ''}`);
+        return deniedResult;
+    }
+
     /**
      * 创建错误结果
      */
@@ -293,6 +613,13 @@ export class ToolExecutor {
         return 'not_found';
     }
 
+    /**
+     * 获取正在执行的工具调用
+     */
+    getRunningToolCalls(): ToolCallParams[] {
+        return Array.from(this.runningTasks.values()).map(task => task.toolCall);
+    }
+
     /**
      * 获取正在运行的任务数量
      */
@@ -319,6 +646,9 @@ export class ToolExecutor {
      */
     setOptions(options: Partial<ToolExecutorOptions>): void {
         this.options = { ...this.options, ...options };
+        if (options.concurrencyGroups) {
+            this.applyConcurrencyGroups(options.concurrencyGroups);
+        }
     }
 
     /**
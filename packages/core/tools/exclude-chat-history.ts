@@ -20,6 +20,7 @@ export const ExcludeChatHistoryTool = createTool({
     reason: z.string().optional().describe('Optional reason for excluding these messages')
   }),
   async: false,
+  riskLevel: 'read-only',
   execute: async (args, agent) => {
     const { messageIds, reason } = args;
     
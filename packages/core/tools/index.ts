@@ -1 +1,2 @@
-export { ExcludeChatHistoryTool } from './exclude-chat-history.js';
\ No newline at end of file
+export { ExcludeChatHistoryTool } from './exclude-chat-history.js';
+export { ReadToolOutputTool } from './read-tool-output.js';
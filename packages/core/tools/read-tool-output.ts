@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { createTool } from '../utils.js';
+
+const DEFAULT_LINE_LIMIT = 200;
+const MAX_PATTERN_LENGTH = 200;
+// 量词作用于本身带量词的分组，例如 (a+)+、(\w*)*，可能造成灾难性回溯
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+const ReadToolOutputParamsSchema = z.object({
+  handle: z.string().describe('Handle of the saved output, from the "handle" field of a truncated tool result'),
+  offset: z.number().int().min(1).optional().describe('One-indexed line to start reading from (default 1)'),
+  limit: z.number().int().min(1).max(1000).optional().describe(`Maximum number of lines (or matches) to return (default ${DEFAULT_LINE_LIMIT})`),
+  pattern: z.string().optional().describe(`Regular expression (at most ${MAX_PATTERN_LENGTH} characters, no nested quantifiers such as (a+)+); when set, only matching lines (with their line numbers) are returned`),
+  context: z.number().int().min(0).max(20).optional().describe('Number of lines to include before and after each match (default 0)'),
+});
+
+/**
+ * 会话中工具输出的 sessionId，与 ToolExecutor 保存输出时使用的一致
+ */
+function outputSessionId(agent: any): string | undefined {
+  return agent?.agentStorage?.sessionId || agent?.sessionId;
+}
+
+/**
+ * 正则在工具进程内同步执行，拒绝可能导致回溯失控的模式
+ */
+function compilePattern(pattern: string): RegExp | string {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    return 'Pattern contains a nested quantifier such as (a+)+, which can take exponential time; use a simpler pattern';
+  }
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    return `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Tool for paging through or searching tool outputs that were too large for the context
+ */
+export const ReadToolOutputTool = createTool({
+  id: 'ReadToolOutput',
+  name: 'ReadToolOutput',
+  description: `
+  Read a tool output that was too large for the context. Large results are replaced by a head/tail preview
+  with "truncated": true and a "handle"; pass that handle here to read the full output.
+
+  Usage:
+  - **Page**: read lines [offset, offset + limit); continue from "nextOffset" while "hasMore" is true
+  - **Search**: set "pattern" (regular expression) to get only matching lines, optionally with surrounding context lines
+  `,
+  inputSchema: ReadToolOutputParamsSchema,
+  async: false,
+  riskLevel: 'read-only',
+  execute: async (params, agent) => {
+    const store = agent?.toolOutputStore;
+    if (!store) {
+      return { success: false, error: 'Tool output storage is not enabled for this agent' };
+    }
+
+    const text = await store.read(params.handle, outputSessionId(agent));
+    if (text === null) {
+      return { success: false, error: `No saved output found for handle "${params.handle}"` };
+    }
+
+    const lines = text.split('\n');
+    const offset = params.offset ?? 1;
+    const limit = params.limit ?? DEFAULT_LINE_LIMIT;
+    // 返回内容不超过存储阈值的一半，避免读取结果本身再被截断
+    const maxChars = Math.floor(store.maxResultSize / 2);
+
+    let selected: number[];
+    let matchCount: number | undefined;
+    if (params.pattern !== undefined) {
+      const regex = compilePattern(params.pattern);
+      if (typeof regex === 'string') {
+        return { success: false, error: regex };
+      }
+      const context = params.context ?? 0;
+      const matched = lines
+        .map((line, index) => regex.test(line) ? index : -1)
+        .filter(index => index >= offset - 1);
+      matchCount = matched.length;
+      const included = new Set<number>();
+      for (const index of matched.slice(0, limit)) {
+        for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+          included.add(i);
+        }
+      }
+      selected = [...included].sort((a, b) => a - b);
+    } else {
+      selected = [];
+      for (let i = offset - 1; i < Math.min(lines.length, offset - 1 + limit); i++) {
+        selected.push(i);
+      }
+    }
+
+    const output: string[] = [];
+    let size = 0;
+    for (const index of selected) {
+      const line = `${index + 1}: ${lines[index]}`.slice(0, maxChars);
+      if (output.length > 0 && size + line.length > maxChars) break;
+      output.push(line);
+      size += line.length + 1;
+    }
+    const lastLine = output.length > 0 ? selected[output.length - 1] + 1 : offset - 1;
+    const hasMore = params.pattern !== undefined
+      ? output.length < selected.length || (matchCount ?? 0) > limit
+      : lastLine < lines.length;
+
+    return {
+      success: true,
+      handle: params.handle,
+      totalLines: lines.length,
+      ...(matchCount !== undefined ? { matchCount } : {}),
+      content: output.join('\n'),
+      hasMore,
+      nextOffset: hasMore ? lastLine + 1 : undefined,
+    };
+  }
+});
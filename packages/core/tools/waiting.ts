@@ -29,6 +29,7 @@ export const WaitingTool = createTool({
   inputSchema: WaitingToolParamsSchema,
   outputSchema: WaitingToolReturnsSchema,
   async: false,
+  riskLevel: 'read-only',
   execute: async (params) => {
     const { seconds, reason } = params;
     
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { ITool, IAgent, IContext, IRAGEnabledContext, IRAG, RAGResult, QueryOptions } from "./interfaces/index.js";
+import { ITool, ToolRiskLevel, ToolRetryPolicy, ToolExecuteOptions, IAgent, IContext, IRAGEnabledContext, IRAG, RAGResult, QueryOptions, MCPServerConfig } from "./interfaces/index.js";
 import { randomUUID } from "crypto";
 import { logger } from "./utils/logger.js";
+import { connectMcpServers } from "./contexts/mcp-config.js";
 import { PromptCtx, ToolSet} from "./interfaces/index.js";
 
 /** Utility type to preserve type information */
@@ -255,9 +256,15 @@ export function createTool<
   inputSchema: InputSchema;
   outputSchema?: OutputSchema; // Still optional in options
   async: boolean;
+  riskLevel?: ToolRiskLevel;
+  timeout?: number;
+  retry?: ToolRetryPolicy;
+  idempotent?: boolean;
+  concurrencyGroup?: string;
   execute: (
     params: z.infer<InputSchema>,
-    agent?: IAgent
+    agent?: IAgent,
+    options?: ToolExecuteOptions
     // Return type should correctly infer based on provided/defaulted schema
   ) => Promise<z.infer<OutputSchema>> | z.infer<OutputSchema>; 
 }): ITool<InputSchema, OutputSchema, IAgent> {
@@ -272,6 +279,11 @@ export function createTool<
       error: z.string().optional()
     }) as unknown as OutputSchema,
     async, 
+    riskLevel,
+    timeout,
+    retry,
+    idempotent,
+    concurrencyGroup,
     execute 
   } = options;
 
@@ -282,6 +294,11 @@ export function createTool<
     description,
     params: inputSchema,
     async,
+    riskLevel,
+    timeout,
+    retry,
+    idempotent,
+    concurrencyGroup,
     execute,
     toCallParams: () => ({
       type: "function",
@@ -341,21 +358,10 @@ export const ContextHelper = {
     toolSetFn: () => ToolSet | ToolSet[];
     handleToolCall?: (toolCallResult: any) => void;
     install?: (agent: IAgent) => Promise<void>;
-    mcpServers?: {
-        name: string;
-        type?: "stdio" | "sse" | "streamableHttp";
-        // stdio specific
-        command?: string;
-        args?: string[];
-        cwd?: string;
-        env?: Record<string, string>;
-        // sse/http specific
-        url?: string;
-        // General options
-        autoActivate?: boolean;
-    }[];
+    mcpServers?: MCPServerConfig[];
+    runtimeDataKeys?: string[];
   }): IRAGEnabledContext<T> {
-    const { id, description, dataSchema, initialData, promptCtx, renderPromptFn, toolSetFn, handleToolCall, install, mcpServers } = options;
+    const { id, description, dataSchema, initialData, promptCtx, renderPromptFn, toolSetFn, handleToolCall, install, mcpServers, runtimeDataKeys } = options;
     
     const context: IRAGEnabledContext<T> = {
       id,
@@ -366,6 +372,8 @@ export const ContextHelper = {
       
       // Add mcpServers if provided
       mcpServers,
+
+      runtimeDataKeys,
       
       // Add install method - supports both custom install and MCP server connections
       async install(agent: IAgent): Promise<void> {
@@ -380,134 +388,11 @@ export const ContextHelper = {
           }
         }
         
-        // Then handle MCP servers if configured
+        // Then connect MCP servers if configured; failures are reported per server
         if (!this.mcpServers || this.mcpServers.length === 0) {
           return; // No MCP servers to connect
         }
-        
-        try {
-          // 获取MCP context (仍然需要MCPContext提供的工具)
-          const mcpContext = agent.contextManager.findContextById("mcp-context");
-          if (!mcpContext) {
-            logger.error(`MCP context not found. Cannot connect MCP servers for ${this.id}.`);
-            return;
-          }
-          
-          // 找到可用的MCP工具
-          const allTools = agent.listToolSets()
-            .filter(ts => ts.active)
-            .flatMap(ts => ts.tools);
-          
-          const addStdioMcpServer = allTools.find(t => t.name === 'add_stdio_mcp_server');
-          const addSseOrHttpMcpServer = allTools.find(t => t.name === 'add_sse_or_http_mcp_client');
-          
-          if (!addStdioMcpServer && !addSseOrHttpMcpServer) {
-            logger.error(`MCP tools not found. Cannot connect MCP servers for ${this.id}.`);
-            return;
-          }
-          
-          // 处理每个MCP服务器配置
-          for (const serverConfig of this.mcpServers) {
-            try {
-              // 确保服务器有name属性
-              if (!serverConfig.name) {
-                serverConfig.name = this.id; // 默认使用context ID作为服务器名称
-              }
-              
-              // 处理cwd中的${workspaceRoot}变量
-              if (serverConfig.cwd && typeof serverConfig.cwd === 'string') {
-                if (serverConfig.cwd.includes('${workspaceRoot}')) {
-                  serverConfig.cwd = serverConfig.cwd.replace('${workspaceRoot}', process.cwd());
-                  logger.info(`Resolved cwd for ${serverConfig.name}: ${serverConfig.cwd}`);
-                }
-              }
-              
-              // 确定服务器类型
-              let serverType = serverConfig.type;
-              if (!serverType) {
-                if (serverConfig.url) {
-                  serverType = 'sse';
-                } else if (serverConfig.command) {
-                  serverType = 'stdio';
-                } else {
-                  logger.error(`Unknown MCP server type for ${serverConfig.name} in context ${this.id}.`);
-                  continue;
-                }
-              }
-              
-              // 自动解析命令的绝对路径（仅针对stdio类型）
-              if (serverType === 'stdio' && serverConfig.command) {
-                const command = serverConfig.command;
-                
-                // 常见需要解析路径的命令
-                const commonCommands = ['npx', 'uvx', 'node', 'python', 'python3'];
-                
-                // 如果是常见命令，尝试获取绝对路径
-                if (commonCommands.includes(command)) {
-                  try {
-                    // 使用which或where命令获取绝对路径
-                    const { execSync } = require('child_process');
-                    // 使用适用于不同平台的命令组合
-                    const resolvedPath = execSync(`which ${command} || where ${command} 2>/dev/null || echo ${command}`)
-                      .toString()
-                      .trim();
-                    
-                    if (resolvedPath && resolvedPath !== command) {
-                      logger.info(`Resolved command ${command} to absolute path: ${resolvedPath}`);
-                      serverConfig.command = resolvedPath;
-                    }
-                  } catch (error) {
-                    logger.warn(`Failed to resolve absolute path for ${command}, using as-is: ${error}`);
-                    // 继续使用原始命令
-                  }
-                }
-              }
-              
-              // 连接服务器
-              let result;
-              logger.info(`Context ${this.id} connecting to MCP server: ${serverConfig.name}...`);
-              
-              if (serverType === 'stdio' && addStdioMcpServer) {
-                result = await addStdioMcpServer.execute({
-                  name: serverConfig.name,
-                  command: serverConfig.command,
-                  args: serverConfig.args || [],
-                  cwd: serverConfig.cwd || process.cwd(),
-                  env: serverConfig.env || {}
-                }, agent);
-              } 
-              else if ((serverType === 'sse' || serverType === 'streamableHttp') && addSseOrHttpMcpServer) {
-                result = await addSseOrHttpMcpServer.execute({
-                  name: serverConfig.name,
-                  type: serverType,
-                  url: serverConfig.url
-                }, agent);
-              }
-              else {
-                logger.error(`Cannot connect MCP server ${serverConfig.name}: Missing tool or unsupported type ${serverType}`);
-                continue;
-              }
-              
-              if (result && result.success) {
-                logger.info(`Context ${this.id} successfully connected to MCP server: ${serverConfig.name}`);
-                logger.info(`Added ${result.toolCount} tools from server in ${result.categories?.length || 0} categories`);
-                
-                // 处理自动激活设置
-                if (serverConfig.autoActivate === false) {
-                  agent.deactivateToolSets([this.id]);
-                  logger.info(`Deactivated tool set ${this.id} as per configuration`);
-                }
-              } else {
-                logger.error(`Failed to connect MCP server ${serverConfig.name} for context ${this.id}:`, 
-                  result?.error || 'Unknown error');
-              }
-            } catch (error) {
-              logger.error(`Error connecting MCP server ${serverConfig.name} for context ${this.id}:`, error);
-            }
-          }
-        } catch (error) {
-          logger.error(`Error setting up MCP servers for context ${this.id}:`, error);
-        }
+        await connectMcpServers(agent, this.mcpServers.map(server => ({ ...server, name: server.name || this.id })));
       },
       
       setData(data: Partial<z.infer<T>>): void {
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ClaudeErrorHandler, ErrorType, RecoveryStrategy } from '../error-handler';
+import { EventBus } from '../../event-bus/event-bus';
+import { ErrorRecoveryEvent } from '../../interfaces/events';
+import { LLMStreamChunk } from '../../interfaces/agent';
+import { StreamAgent } from '../../stream-agent';
+import { StandardPromptProcessor } from '../../prompts/standard-prompt-processor';
+import { LogLevel } from '../logger';
+import { AbortError } from '../abort';
+import { createTool } from '../../utils';
+import { createFakeLLM } from '../../__tests__/helpers/fake-llm';
+
+function collectRecoveryEvents(eventBus: EventBus): ErrorRecoveryEvent[] {
+    const events: ErrorRecoveryEvent[] = [];
+    eventBus.subscribe<ErrorRecoveryEvent>('error.recovery.decided', event => { events.push(event); });
+    return events;
+}
+
+const stepContext = { component: 'agent', operation: 'processStep', stepIndex: 0, sessionId: 'session-1' };
+
+describe('ClaudeErrorHandler recovery', () => {
+    it('should retry rate limits with exponential backoff and publish the attempt', async () => {
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const handler = new ClaudeErrorHandler(eventBus, { baseDelayMs: 1 });
+
+        const first = await handler.handleError(new Error('429 Too Many Requests'), stepContext);
+        const second = await handler.handleError(new Error('429 Too Many Requests'), stepContext);
+
+        expect(first.type).toBe(ErrorType.LLM_RATE_LIMIT);
+        expect(first.recovery.strategy).toBe(RecoveryStrategy.RETRY);
+        expect(second.recovery.strategy).toBe(RecoveryStrategy.RETRY);
+        expect(events.map(event => [event.data.attempt, event.data.maxRetries, event.data.delayMs])).toEqual([[1, 3, 1], [2, 3, 2]]);
+        expect(events[0]).toMatchObject({ sessionId: 'session-1', stepIndex: 0, data: { strategy: 'retry', component: 'agent' } });
+    });
+
+    it('should abort once retries are exhausted and start over after a reset', async () => {
+        const handler = new ClaudeErrorHandler(undefined, { maxRetries: 2, baseDelayMs: 1 });
+
+        const strategies: RecoveryStrategy[] = [];
+        for (let i = 0; i < 3; i++) {
+            strategies.push((await handler.handleError('Request timed out', stepContext)).recovery.strategy);
+        }
+        expect(strategies).toEqual([RecoveryStrategy.RETRY, RecoveryStrategy.RETRY, RecoveryStrategy.ABORT]);
+
+        handler.resetRetryCounter('agent', 'processStep');
+        expect((await handler.handleError('Request timed out', stepContext)).recovery.strategy).toBe(RecoveryStrategy.RETRY);
+    });
+
+    it('should skip and report tool failures', async () => {
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const handler = new ClaudeErrorHandler(eventBus);
+
+        const result = await handler.handleError('ENOENT: no such file or directory', { component: 'tool', operation: 'ReadFile' });
+
+        expect(result.recovery.strategy).toBe(RecoveryStrategy.SKIP);
+        expect(events[0].data).toMatchObject({ strategy: 'skip', component: 'tool', operation: 'ReadFile', errorType: ErrorType.FILE_NOT_FOUND });
+    });
+
+    it('should abort on configuration errors', async () => {
+        const handler = new ClaudeErrorHandler(new EventBus());
+
+        const result = await handler.handleError(new Error('401 Unauthorized: invalid API key'), stepContext);
+
+        expect(result.type).toBe(ErrorType.CONFIG_INVALID);
+        expect(result.recovery.strategy).toBe(RecoveryStrategy.ABORT);
+    });
+
+    it('should wait for the client decision on manual recovery', async () => {
+        const eventBus = new EventBus();
+        eventBus.subscribe<ErrorRecoveryEvent>('error.recovery.decided', event => {
+            if (event.data.strategy !== 'manual') return;
+            eventBus.publish({
+                type: 'error.recovery.responded',
+                timestamp: Date.now(),
+                source: 'test',
+                data: { errorId: event.data.errorId, decision: 'skip' }
+            });
+        });
+        const handler = new ClaudeErrorHandler(eventBus);
+
+        const result = await handler.handleError('EACCES: permission denied', stepContext);
+
+        expect(result.type).toBe(ErrorType.FILE_PERMISSION_DENIED);
+        expect(result.recovery.strategy).toBe(RecoveryStrategy.SKIP);
+    });
+
+    it('should abort manual recovery without an event bus and reject when cancelled', async () => {
+        const withoutBus = new ClaudeErrorHandler();
+        expect((await withoutBus.handleError('EACCES: permission denied', stepContext)).recovery.strategy).toBe(RecoveryStrategy.ABORT);
+
+        const controller = new AbortController();
+        const eventBus = new EventBus();
+        collectRecoveryEvents(eventBus);
+        const handler = new ClaudeErrorHandler(eventBus);
+        const pending = handler.handleError('EACCES: permission denied', { ...stepContext, signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('should skip manual recovery when no client listens or the decision times out', async () => {
+        const unattended = new ClaudeErrorHandler(new EventBus());
+        expect((await unattended.handleError('EACCES: permission denied', stepContext)).recovery.strategy).toBe(RecoveryStrategy.SKIP);
+
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const handler = new ClaudeErrorHandler(eventBus, { manualTimeout: 10 });
+        const result = await handler.handleError('ENOENT: no such file or directory', stepContext);
+
+        expect(events[0].data).toMatchObject({ strategy: 'manual', errorType: ErrorType.FILE_NOT_FOUND });
+        expect(result.recovery.strategy).toBe(RecoveryStrategy.SKIP);
+    });
+
+    it('should retry a rate-limited step in the agent loop', async () => {
+        let calls = 0;
+        const llm = createFakeLLM({
+            callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+                if (calls++ === 0) {
+                    throw new Error('429 rate limit exceeded');
+                }
+                yield { type: 'text-done', content: '<interactive><response>Done</response></interactive>' };
+            },
+        });
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const agent = new StreamAgent(
+            'retry-agent', 'Retry Agent', 'Retries rate limits', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, errorRecovery: { baseDelayMs: 1 } }, [], eventBus
+        );
+
+        await agent.startWithUserInput('Hello', 1, 'session-1');
+
+        expect(calls).toBe(2);
+        expect(events).toHaveLength(1);
+        expect(events[0].data).toMatchObject({ strategy: 'retry', attempt: 1, maxRetries: 3 });
+    });
+
+    it('should start each run with a fresh retry budget after the previous run aborted', async () => {
+        let failures = 2;
+        const llm = createFakeLLM({
+            callStream: async function* (): AsyncIterable<LLMStreamChunk> {
+                if (failures > 0) {
+                    failures--;
+                    throw new Error('429 rate limit exceeded');
+                }
+                yield { type: 'text-done', content: '<interactive><response>Done</response></interactive>' };
+            },
+        });
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const agent = new StreamAgent(
+            'retry-agent', 'Retry Agent', 'Retries rate limits', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, errorRecovery: { baseDelayMs: 1, maxRetries: 1 } }, [], eventBus
+        );
+
+        await expect(agent.startWithUserInput('Hello', 1, 'session-1')).rejects.toThrow('429');
+        failures = 1;
+        await agent.startWithUserInput('Again', 1, 'session-1');
+
+        expect(events.map(event => event.data.strategy)).toEqual(['retry', 'abort', 'retry']);
+    });
+
+    it('should classify failed tool results of a StreamAgent step and stop on unrecoverable errors', async () => {
+        const llm = createFakeLLM({
+            callStream: vi.fn(async function* (): AsyncIterable<LLMStreamChunk> {
+                yield { type: 'tool-call-done', toolCall: { type: 'function', name: 'SaveReport', call_id: 'call_1', parameters: {} }, result: {} };
+            }),
+        });
+        const saveReport = createTool({
+            name: 'SaveReport', description: 'Save the report', inputSchema: z.object({}), async: false,
+            execute: async () => { throw new Error('ENOSPC: no space left on device'); },
+        });
+        const eventBus = new EventBus();
+        const events = collectRecoveryEvents(eventBus);
+        const agent = new StreamAgent(
+            'tool-error-agent', 'Tool Error Agent', 'Stops on disk errors', 5,
+            new StandardPromptProcessor('You are a test assistant.'),
+            LogLevel.NONE, { model: llm, toolOutput: false }, [], eventBus
+        );
+        agent.addToolSet({ name: 'reports', description: 'Report tools', tools: [saveReport], active: true });
+
+        await agent.startWithUserInput('Write the report', 3, 'session-1');
+
+        expect(llm.callStream).toHaveBeenCalledTimes(1);
+        expect(events).toHaveLength(1);
+        expect(events[0].data).toMatchObject({ component: 'tool', operation: 'SaveReport', strategy: 'abort' });
+        expect(agent.agentStorage.agentSteps[0].toolExecutionResults?.[0]).toMatchObject({ call_id: 'call_1', status: 'failed' });
+    });
+
+    it('should fail the run when a step error aborts, including after repeated skipped failures', async () => {
+        const createFailingAgent = (message: string) => {
+            const llm = createFakeLLM({
+                callStream: vi.fn(async function* (): AsyncIterable<LLMStreamChunk> {
+                    throw new Error(message);
+                }),
+            });
+            const eventBus = new EventBus();
+            const states: string[] = [];
+            eventBus.subscribe('agent.state.changed', event => { states.push(event.data.newState); });
+            const agent = new StreamAgent(
+                'abort-agent', 'Abort Agent', 'Fails', 10,
+                new StandardPromptProcessor('You are a test assistant.'),
+                LogLevel.NONE, { model: llm, toolOutput: false }, [], eventBus
+            );
+            return { agent, llm, states };
+        };
+
+        const invalidKey = createFailingAgent('401 Unauthorized: invalid API key');
+        await expect(invalidKey.agent.startWithUserInput('Hello', 10, 'session-1')).rejects.toThrow('401 Unauthorized: invalid API key');
+        expect(invalidKey.llm.callStream).toHaveBeenCalledTimes(1);
+        expect(invalidKey.agent.currentState).toBe('error');
+
+        const unknown = createFailingAgent('unexpected parser state');
+        await expect(unknown.agent.startWithUserInput('Hello', 10, 'session-2')).rejects.toThrow('unexpected parser state');
+        expect(unknown.llm.callStream).toHaveBeenCalledTimes(3);
+        expect(unknown.states).toContain('error');
+    });
+});
@@ -160,6 +160,14 @@ describe('XmlExtractor', () => {
       expect(results[1].content).toBe('第二个');
       expect(results[2].content).toBe('第三个');
     });
+
+    it('应该返回每个标签各自的属性', () => {
+      const text = '<param name="path">a.ts</param><param name="mode">644</param>';
+
+      const results = extractor.extractAll(text, 'param');
+
+      expect(results.map(result => result.node?.attributes.name)).toEqual(['path', 'mode']);
+    });
   });
 
   describe('统计信息', () => {
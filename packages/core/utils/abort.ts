@@ -0,0 +1,80 @@
+/**
+ * 取消相关的辅助函数
+ * Agent.stop() 通过 AbortSignal 将取消传递给 LLM 调用、任务队列和工具执行
+ */
+
+export class AbortError extends Error {
+    constructor(message: string = 'Operation cancelled') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * 获取取消原因的文本描述
+ */
+export function getAbortReason(signal: AbortSignal): string {
+    const reason = signal.reason;
+    if (typeof reason === 'string') {
+        return reason;
+    }
+    if (reason instanceof Error && reason.name !== 'AbortError') {
+        return reason.message;
+    }
+    return 'Operation cancelled';
+}
+
+/**
+ * 如果信号已取消则抛出 AbortError
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new AbortError(getAbortReason(signal));
+    }
+}
+
+/**
+ * 让 promise 在信号取消时立即以 AbortError 拒绝
+ * 用于不支持 AbortSignal 的操作，底层操作本身不会被中断
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(new AbortError(getAbortReason(signal)));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new AbortError(getAbortReason(signal)));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * 等待指定时间，信号取消时以 AbortError 拒绝
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(getAbortReason(signal!)));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
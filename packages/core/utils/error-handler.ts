@@ -4,7 +4,8 @@
  */
 
 import { logger } from './logger.js';
-// Removed eventBus dependency as it's not effectively used
+import { AbortError, getAbortReason, sleep, throwIfAborted } from './abort.js';
+import { IEventBus, ErrorRecoveryEvent, RecoveryDecision } from '../interfaces/events.js';
 
 // 错误类型枚举
 export enum ErrorType {
@@ -112,10 +113,11 @@ export interface StructuredError {
 export class ErrorPatternMatcher {
   private static patterns: Map<RegExp, { type: ErrorType; severity: ErrorSeverity }> = new Map([
     // LLM API 错误模式
-    [/rate.limit/i, { type: ErrorType.LLM_RATE_LIMIT, severity: ErrorSeverity.MEDIUM }],
-    [/timeout/i, { type: ErrorType.LLM_TIMEOUT, severity: ErrorSeverity.MEDIUM }],
-    [/network.error|connection.failed/i, { type: ErrorType.NETWORK_ERROR, severity: ErrorSeverity.HIGH }],
-    [/invalid.api.key|unauthorized/i, { type: ErrorType.CONFIG_INVALID, severity: ErrorSeverity.CRITICAL }],
+    [/rate.limit|too many requests|\b429\b|overloaded/i, { type: ErrorType.LLM_RATE_LIMIT, severity: ErrorSeverity.MEDIUM }],
+    [/timeout|timed out|ETIMEDOUT/i, { type: ErrorType.LLM_TIMEOUT, severity: ErrorSeverity.MEDIUM }],
+    [/network.error|connection.failed|ECONNRESET|socket hang up|fetch failed/i, { type: ErrorType.NETWORK_ERROR, severity: ErrorSeverity.HIGH }],
+    [/ECONNREFUSED/i, { type: ErrorType.CONNECTION_REFUSED, severity: ErrorSeverity.HIGH }],
+    [/invalid.api.key|unauthorized|\b401\b|api key .*(missing|not set)/i, { type: ErrorType.CONFIG_INVALID, severity: ErrorSeverity.CRITICAL }],
     
     // 文件系统错误模式
     [/ENOENT|no such file/i, { type: ErrorType.FILE_NOT_FOUND, severity: ErrorSeverity.MEDIUM }],
@@ -150,6 +152,13 @@ export class ErrorPatternMatcher {
 export class RecoveryStrategyDecider {
   static decide(error: StructuredError): RecoveryStrategy {
     const { type, severity } = error;
+
+    // 工具失败作为结果反馈给模型，由模型调整做法；只有系统性错误才中止
+    if (error.context.component === 'tool') {
+      return severity === ErrorSeverity.CRITICAL
+        ? RecoveryStrategy.ABORT
+        : RecoveryStrategy.SKIP;
+    }
     
     switch (type) {
       case ErrorType.LLM_RATE_LIMIT:
@@ -157,6 +166,7 @@ export class RecoveryStrategyDecider {
       
       case ErrorType.LLM_TIMEOUT:
       case ErrorType.NETWORK_ERROR:
+      case ErrorType.CONNECTION_REFUSED:
         return RecoveryStrategy.RETRY;
       
       case ErrorType.TOOL_NOT_FOUND:
@@ -173,7 +183,8 @@ export class RecoveryStrategyDecider {
         return RecoveryStrategy.ABORT;
       
       case ErrorType.CONFIG_INVALID:
-        return RecoveryStrategy.MANUAL;
+      case ErrorType.CONFIG_MISSING:
+        return RecoveryStrategy.ABORT;
       
       default:
         return severity === ErrorSeverity.CRITICAL 
@@ -247,28 +258,59 @@ export class RecoveryStrategyDecider {
   }
 }
 
+// 错误恢复配置
+export interface ErrorRecoveryOptions {
+  maxRetries?: number;      // 最大重试次数，默认 3
+  baseDelayMs?: number;     // 指数退避的初始等待时间，默认 1000
+  maxDelayMs?: number;      // 单次等待上限，默认 30000
+  manualTimeout?: number;   // MANUAL 策略等待用户决定的超时（毫秒），默认 300000，0 表示一直等待；超时按 SKIP 处理
+}
+
+export const DEFAULT_MANUAL_TIMEOUT = 300000;
+
+// 错误处理上下文
+export interface ErrorHandlingContext {
+  component: string;
+  operation: string;
+  stepIndex?: number;
+  sessionId?: string;
+  agentId?: string;
+  parameters?: any;
+  signal?: AbortSignal;     // 取消时中断重试等待和人工决定等待
+}
+
+const MANUAL_DECISION_STRATEGIES: Record<RecoveryDecision, RecoveryStrategy> = {
+  retry: RecoveryStrategy.RETRY,
+  skip: RecoveryStrategy.SKIP,
+  abort: RecoveryStrategy.ABORT
+};
+
 // Claude 风格错误处理器
 export class ClaudeErrorHandler {
-  // Removed eventBus as it's not effectively used
   private errorHistory: StructuredError[] = [];
   private retryTracker: Map<string, number> = new Map();
+  private options: Required<Omit<ErrorRecoveryOptions, 'manualTimeout'>> & { manualTimeout: number };
 
-  constructor() {
-    // Simplified constructor - eventBus removed
+  /**
+   * @param eventBus 设置后发布 error.recovery.decided 事件，并通过 error.recovery.responded 接收 MANUAL 决定
+   */
+  constructor(private eventBus?: IEventBus, options: ErrorRecoveryOptions = {}) {
+    this.options = {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 30000,
+      manualTimeout: options.manualTimeout ?? DEFAULT_MANUAL_TIMEOUT
+    };
   }
 
   /**
    * 处理错误的主要入口点
+   * 执行恢复策略后，返回值的 recovery.strategy 为最终应采取的动作：
+   * RETRY（已完成退避等待）、SKIP/FALLBACK（继续执行）、ABORT（重试耗尽、用户选择中止或不可恢复）
    */
   async handleError(
     error: Error | string,
-    context: {
-      component: string;
-      operation: string;
-      stepIndex?: number;
-      sessionId?: string;
-      parameters?: any;
-    }
+    context: ErrorHandlingContext
   ): Promise<StructuredError> {
     const structuredError = this.createStructuredError(error, context);
     
@@ -280,11 +322,8 @@ export class ClaudeErrorHandler {
       severity: structuredError.severity
     });
 
-    // 发布错误事件
-    await this.publishErrorEvent(structuredError);
-
-    // 执行恢复策略
-    await this.executeRecoveryStrategy(structuredError);
+    // 执行恢复策略并发布决定
+    await this.executeRecoveryStrategy(structuredError, context);
 
     return structuredError;
   }
@@ -294,13 +333,7 @@ export class ClaudeErrorHandler {
    */
   private createStructuredError(
     error: Error | string,
-    context: {
-      component: string;
-      operation: string;
-      stepIndex?: number;
-      sessionId?: string;
-      parameters?: any;
-    }
+    context: ErrorHandlingContext
   ): StructuredError {
     const errorId = `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const originalError = error instanceof Error ? error : new Error(error);
@@ -332,7 +365,7 @@ export class ClaudeErrorHandler {
         strategy: RecoveryStrategy.NONE,
         suggestions: [],
         retryCount: 0,
-        maxRetries: 3
+        maxRetries: this.options.maxRetries
       },
       userFriendly: {
         title: 'An error occurred',
@@ -404,62 +437,148 @@ export class ClaudeErrorHandler {
   }
 
   /**
-   * 发布错误事件 - 简化版，仅记录日志
+   * 发布恢复决定事件
    */
-  private async publishErrorEvent(error: StructuredError): Promise<void> {
-    // EventBus removed - only log errors now
-    logger.error(`Error event: ${error.type} - ${error.message}`, {
-      errorId: error.id,
-      context: error.context,
-      userFriendly: error.userFriendly
+  private async publishRecoveryEvent(
+    error: StructuredError,
+    context: ErrorHandlingContext,
+    extra: Partial<ErrorRecoveryEvent['data']> = {}
+  ): Promise<void> {
+    logger.info(`🩹 Recovery for ${error.type} in ${error.context.component}/${error.context.operation}: ${error.recovery.strategy}`);
+    if (!this.eventBus) return;
+
+    await this.eventBus.publish({
+      type: 'error.recovery.decided',
+      timestamp: Date.now(),
+      source: 'error-handler',
+      sessionId: context.sessionId,
+      stepIndex: context.stepIndex,
+      data: {
+        errorId: error.id,
+        errorType: error.type,
+        severity: error.severity,
+        strategy: error.recovery.strategy,
+        message: error.message,
+        component: error.context.component,
+        operation: error.context.operation,
+        title: error.userFriendly.title,
+        description: error.userFriendly.description,
+        suggestions: error.recovery.suggestions,
+        agentId: context.agentId,
+        ...extra
+      }
     });
   }
 
   /**
-   * 执行恢复策略
+   * 执行恢复策略，结果写回 error.recovery.strategy
    */
-  private async executeRecoveryStrategy(error: StructuredError): Promise<void> {
+  private async executeRecoveryStrategy(error: StructuredError, context: ErrorHandlingContext): Promise<void> {
     const retryKey = `${error.context.component}_${error.context.operation}`;
     
     switch (error.recovery.strategy) {
-      case RecoveryStrategy.RETRY:
+      case RecoveryStrategy.RETRY: {
         const currentRetries = this.retryTracker.get(retryKey) || 0;
-        if (currentRetries < (error.recovery.maxRetries || 3)) {
-          this.retryTracker.set(retryKey, currentRetries + 1);
-          error.recovery.retryCount = currentRetries + 1;
-          
-          // 指数退避
-          const delay = Math.pow(2, currentRetries) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          
-          logger.info(`Retrying operation (attempt ${currentRetries + 1}/${error.recovery.maxRetries})`);
+        const maxRetries = error.recovery.maxRetries ?? this.options.maxRetries;
+        if (currentRetries >= maxRetries) {
+          logger.error(`Retries exhausted for ${retryKey} (${currentRetries}/${maxRetries}), aborting`);
+          error.recovery.strategy = RecoveryStrategy.ABORT;
+          error.recovery.retryCount = currentRetries;
+          await this.publishRecoveryEvent(error, context, { attempt: currentRetries, maxRetries });
+          break;
         }
+
+        this.retryTracker.set(retryKey, currentRetries + 1);
+        error.recovery.retryCount = currentRetries + 1;
+        
+        // 指数退避
+        const delay = Math.min(Math.pow(2, currentRetries) * this.options.baseDelayMs, this.options.maxDelayMs);
+        await this.publishRecoveryEvent(error, context, { attempt: currentRetries + 1, maxRetries, delayMs: delay });
+        await sleep(delay, context.signal);
+        
+        logger.info(`Retrying operation (attempt ${currentRetries + 1}/${maxRetries})`);
+        break;
+      }
+
+      case RecoveryStrategy.MANUAL: {
+        logger.warn('Manual intervention required', {
+          errorId: error.id,
+          message: error.message,
+          suggestedActions: error.recovery.suggestions,
+          context: error.context
+        });
+        // 先订阅再发布，客户端同步回复时也不会错过
+        const pendingDecision = this.waitForManualDecision(error, context.signal);
+        await this.publishRecoveryEvent(error, context);
+        const decision = await pendingDecision;
+        logger.info(`Manual recovery decision for ${error.id}: ${decision}`);
+        error.recovery.strategy = MANUAL_DECISION_STRATEGIES[decision];
         break;
+      }
 
       case RecoveryStrategy.FALLBACK:
         logger.info('Attempting fallback strategy');
-        // 这里可以实现具体的降级逻辑
+        await this.publishRecoveryEvent(error, context);
         break;
 
       case RecoveryStrategy.SKIP:
         logger.info('Skipping failed operation and continuing');
+        await this.publishRecoveryEvent(error, context);
         break;
 
       case RecoveryStrategy.ABORT:
         logger.error('Critical error detected, aborting execution');
+        await this.publishRecoveryEvent(error, context);
         break;
+    }
+  }
 
-      case RecoveryStrategy.MANUAL:
-        logger.warn('Manual intervention required', {
-          errorId: error.id,
-          message: error.message,
-          suggestedActions: error.recovery.suggestions,
-          context: error.context
-        });
-        break;
+  /**
+   * 等待客户端发布 error.recovery.responded
+   * 没有事件总线时无法询问用户，直接中止；没有客户端订阅 error.recovery.decided 时跳过，不等待
+   */
+  private waitForManualDecision(error: StructuredError, signal?: AbortSignal): Promise<RecoveryDecision> {
+    const eventBus = this.eventBus;
+    if (!eventBus) {
+      logger.warn(`No event bus to ask for a manual recovery decision on ${error.id}, aborting`);
+      return Promise.resolve('abort');
+    }
+    if (eventBus.hasSubscribers && !eventBus.hasSubscribers('error.recovery.decided')) {
+      logger.warn(`No client is listening for a manual recovery decision on ${error.id}, skipping`);
+      return Promise.resolve('skip');
     }
+    throwIfAborted(signal);
+
+    return new Promise<RecoveryDecision>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const cleanup = () => {
+        eventBus.unsubscribe(subscriptionId);
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new AbortError(getAbortReason(signal!)));
+      };
+
+      const subscriptionId = eventBus.subscribe<ErrorRecoveryEvent>('error.recovery.responded', (event) => {
+        if (event.data.errorId !== error.id) return;
+        cleanup();
+        resolve(event.data.decision || 'abort');
+      });
+
+      if (this.options.manualTimeout > 0) {
+        timer = setTimeout(() => {
+          cleanup();
+          logger.warn(`No manual recovery decision for ${error.id} within ${this.options.manualTimeout}ms, skipping`);
+          resolve('skip');
+        }, this.options.manualTimeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
+
   /**
    * 获取错误历史
    */
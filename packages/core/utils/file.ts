@@ -0,0 +1,16 @@
+import * as fs from 'fs';
+import { randomUUID } from 'crypto';
+
+/**
+ * 原子写入：先写临时文件再重命名，避免进程中断时留下半截文件
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+        await fs.promises.writeFile(tmpPath, content, 'utf-8');
+        await fs.promises.rename(tmpPath, filePath);
+    } catch (error) {
+        await fs.promises.rm(tmpPath, { force: true }).catch(() => {});
+        throw error;
+    }
+}
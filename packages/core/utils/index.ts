@@ -1,7 +1,11 @@
 // Re-export all utilities
+export * from './abort.js';
 export * from './error-handler.js';
+export * from './file.js';
 export * from './jsonHelper.js';
 export * from './logger.js';
+export * from './tool-params.js';
+export * from './tool-scheduling.js';
 export * from './xml-extractor.js';
 
 // Re-export from the parent utils.ts
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+
+export interface ToolParamIssue {
+    path: string;
+    message: string;
+}
+
+export type ToolParamsValidation<T = any> =
+    | { success: true; data: T }
+    | { success: false; issues: ToolParamIssue[] };
+
+/**
+ * 工具参数未通过 schema 校验，issues 会作为失败结果返回给模型
+ */
+export class ToolValidationError extends Error {
+    constructor(public readonly toolName: string, public readonly issues: ToolParamIssue[]) {
+        super(`Invalid parameters for ${toolName}: ${formatToolParamIssues(issues)}`);
+        this.name = 'ToolValidationError';
+    }
+}
+
+export function formatToolParamIssues(issues: ToolParamIssue[]): string {
+    return issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+function parseJsonLike(value: string, open: string): unknown {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith(open)) return value;
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * 按参数 schema 修正模型常见的输出错误：数字/布尔写成字符串、对象或数组被序列化成 JSON 字符串、
+ * strict 模式下可选字段传 null、枚举大小写不一致。无法修正的值原样返回，交给 schema 校验报错
+ */
+export function coerceToolParams(schema: z.ZodTypeAny, value: unknown): unknown {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+        if (value === null && !schema.isNullable()) return undefined;
+        if (value === null || value === undefined) return value;
+        const inner = schema instanceof z.ZodDefault ? schema._def.innerType : schema.unwrap();
+        return coerceToolParams(inner, value);
+    }
+    if (schema instanceof z.ZodEffects) {
+        return coerceToolParams(schema.innerType(), value);
+    }
+    if (schema instanceof z.ZodNumber) {
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+            return Number(value);
+        }
+        return value;
+    }
+    if (schema instanceof z.ZodBoolean) {
+        if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+            return value.trim().toLowerCase() === 'true';
+        }
+        return value;
+    }
+    if (schema instanceof z.ZodString) {
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+    }
+    if (schema instanceof z.ZodNull) {
+        return value === 'null' ? null : value;
+    }
+    if (schema instanceof z.ZodEnum) {
+        if (typeof value !== 'string' || schema.options.includes(value)) return value;
+        return schema.options.find((option: string) => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+    }
+    if (schema instanceof z.ZodArray) {
+        const parsed = typeof value === 'string' ? parseJsonLike(value, '[') : value;
+        return Array.isArray(parsed) ? parsed.map(item => coerceToolParams(schema.element, item)) : parsed;
+    }
+    if (schema instanceof z.ZodObject) {
+        const parsed = typeof value === 'string' ? parseJsonLike(value, '{') : value;
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return parsed;
+        const shape = schema.shape as Record<string, z.ZodTypeAny>;
+        const result: Record<string, unknown> = { ...parsed };
+        for (const [key, field] of Object.entries(shape)) {
+            if (key in result) {
+                const coerced = coerceToolParams(field, result[key]);
+                if (coerced === undefined) {
+                    delete result[key];
+                } else {
+                    result[key] = coerced;
+                }
+            }
+        }
+        return result;
+    }
+    if (schema instanceof z.ZodRecord) {
+        return typeof value === 'string' ? parseJsonLike(value, '{') : value;
+    }
+    if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+        if (schema.safeParse(value).success) return value;
+        for (const option of schema.options as z.ZodTypeAny[]) {
+            const coerced = coerceToolParams(option, value);
+            if (option.safeParse(coerced).success) return coerced;
+        }
+        return value;
+    }
+    return value;
+}
+
+/**
+ * 修正并校验工具参数，失败时返回带字段路径的错误列表
+ */
+export function validateToolParams<T>(schema: z.ZodType<T>, params: unknown): ToolParamsValidation<T> {
+    const result = schema.safeParse(coerceToolParams(schema as z.ZodTypeAny, params ?? {}));
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+    return {
+        success: false,
+        issues: result.error.issues.map(issue => ({
+            path: issue.path.join('.') || '(root)',
+            message: issue.message
+        }))
+    };
+}
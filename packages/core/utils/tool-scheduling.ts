@@ -0,0 +1,98 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { ITool } from '../interfaces/tool.js';
+import { coerceToolParams } from './tool-params.js';
+
+/**
+ * 一次工具调用访问的资源。paths 为 undefined 表示无法确定，按可能访问任意文件处理
+ */
+export interface ToolCallAccess {
+    mode: 'read' | 'write';
+    paths?: string[];
+    group?: string;
+    exclusive: boolean; // shell 等无法分析副作用的调用，与同一步中的其他调用全部串行
+}
+
+const PATH_PARAM_KEYS = new Set(['path', 'paths', 'file', 'files', 'filePath', 'file_path', 'filePaths', 'file_paths']);
+
+function normalizePath(value: string): string {
+    const normalized = path.posix.normalize(value.replace(/\\/g, '/'));
+    return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+function extractPaths(params: unknown): string[] | undefined {
+    if (!params || typeof params !== 'object') {
+        return undefined;
+    }
+    const paths: string[] = [];
+    for (const [key, value] of Object.entries(params)) {
+        if (!PATH_PARAM_KEYS.has(key)) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (typeof item === 'string' && item.trim() !== '') {
+                paths.push(normalizePath(item.trim()));
+            }
+        }
+    }
+    return paths.length > 0 ? paths : undefined;
+}
+
+/**
+ * 根据工具的 riskLevel、concurrencyGroup 和参数中的文件路径推断调用访问的资源
+ */
+export function getToolCallAccess(tool: ITool<any, any, any>, parameters: unknown): ToolCallAccess {
+    const params = tool.params instanceof z.ZodType ? coerceToolParams(tool.params, parameters ?? {}) : parameters;
+    const paths = extractPaths(params);
+
+    switch (tool.riskLevel) {
+        case 'read-only':
+            return { mode: 'read', paths, group: tool.concurrencyGroup, exclusive: false };
+        case 'network':
+            // 网络副作用不涉及本地文件，同类调用之间保持顺序
+            return { mode: 'write', paths: paths ?? [], group: tool.concurrencyGroup ?? 'network', exclusive: false };
+        case 'shell':
+            return { mode: 'write', paths, group: tool.concurrencyGroup, exclusive: true };
+        default:
+            return { mode: 'write', paths, group: tool.concurrencyGroup, exclusive: false };
+    }
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+    if (a === b || a === '.' || b === '.' || path.posix.isAbsolute(a) !== path.posix.isAbsolute(b)) {
+        return true;
+    }
+    return a.startsWith(`${b}/`) || b.startsWith(`${a}/`) || a === '/' || b === '/';
+}
+
+/**
+ * 两个调用是否必须按原始顺序执行：读读可并行，涉及写入时同一路径（含父子目录）或同一副作用组需串行
+ */
+export function toolCallsConflict(a: ToolCallAccess, b: ToolCallAccess): boolean {
+    if (a.exclusive || b.exclusive) {
+        return true;
+    }
+    if (a.mode === 'read' && b.mode === 'read') {
+        return false;
+    }
+    if (a.group && a.group === b.group) {
+        return true;
+    }
+    // 空路径表示不访问本地文件
+    if (a.paths?.length === 0 || b.paths?.length === 0) {
+        return false;
+    }
+    if (!a.paths || !b.paths) {
+        return true;
+    }
+    return a.paths.some(pathA => b.paths!.some(pathB => pathsOverlap(pathA, pathB)));
+}
+
+/**
+ * 为同一步中的工具调用计算依赖：每个调用依赖排在它前面且与之冲突的调用
+ */
+export function planToolCallDependencies(accesses: ToolCallAccess[]): number[][] {
+    return accesses.map((access, index) =>
+        accesses.slice(0, index)
+            .map((previous, previousIndex) => toolCallsConflict(previous, access) ? previousIndex : -1)
+            .filter(previousIndex => previousIndex !== -1)
+    );
+}
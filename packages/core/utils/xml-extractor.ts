@@ -151,9 +151,17 @@ export class XmlExtractor {
       let match;
       
       while ((match = regex.exec(text)) !== null) {
+        const content = this.processContent(match[1], opts);
         results.push({
           success: true,
-          content: this.processContent(match[1], opts)
+          content,
+          node: {
+            tag: tagName,
+            content,
+            attributes: this.extractAttributes(match[0], tagName),
+            children: [],
+            raw: match[0]
+          }
         });
       }
       
@@ -15,6 +15,10 @@ import {
   AgentEvent,
   LLMEvent,
   ToolEvent,
+  ApprovalEvent,
+  ApprovalDecision,
+  ErrorRecoveryEvent,
+  RecoveryDecision,
   UIEvent,
   ErrorEvent,
   EventHandler,
@@ -43,6 +47,12 @@ export class ReactCLIClient implements IClient {
   // 事件订阅管理
   private eventSubscriptionIds: string[] = [];
 
+  // 等待用户审批的工具调用（按请求顺序逐个处理）
+  private pendingApprovals: ApprovalEvent[] = [];
+
+  // 等待用户决定的错误恢复（MANUAL 策略），与审批相同按顺序逐个处理
+  private pendingRecoveries: ErrorRecoveryEvent[] = [];
+
   // ReactCLI 特有属性
   private config: ReactCLIConfig;
   private messages: ClientMessage[] = [];
@@ -112,6 +122,7 @@ export class ReactCLIClient implements IClient {
       showStepCompleted: false,  // 默认不显示步骤完成
       showStepDetails: false,     // 默认不显示步骤详情
       showReasoning: false,       // 默认不显示推理过程
+      showModelThinking: true,    // 默认显示推理模型的思考内容（只在配置了 reasoning 时产生）
       showResponse: true,         // 默认显示响应内容
       showStopped: true,
       ...this.config.eventDisplay.agent
@@ -328,7 +339,8 @@ export class ReactCLIClient implements IClient {
   private createSessionManagerIfReady(): void {
     if (this.agent && this.eventBus && !this.sessionManager) {
       try {
-        this.sessionManager = new SessionManager(this.agent, this.eventBus);
+        // 默认使用内存存储；配置 sessionStorage: { storageType: 'file' } 后会话写入磁盘，支持跨重启恢复
+        this.sessionManager = new SessionManager(this.agent, this.eventBus, this.config.sessionStorage);
         
         // 在UI中显示调试信息
         this.addMessage({
@@ -365,6 +377,7 @@ export class ReactCLIClient implements IClient {
     this.subscribeToAgentEvents();
     this.subscribeToLLMEvents();
     this.subscribeToToolEvents();
+    this.subscribeToApprovalEvents();
     this.subscribeToErrorEvents();
   }
 
@@ -427,6 +440,13 @@ export class ReactCLIClient implements IClient {
     
     // 可以在这里添加其他 LLM 事件，比如 llm.call.started, llm.call.completed 等
     // 但是文本相关的事件暂时不处理
+
+    const modelFallbackId = this.eventBus.subscribe(
+      'llm.model.fallback',
+      this.handleModelFallback.bind(this)
+    );
+
+    this.eventSubscriptionIds.push(modelFallbackId);
   }
 
   /**
@@ -456,6 +476,26 @@ export class ReactCLIClient implements IClient {
     this.eventSubscriptionIds.push(toolStartId, toolCompletedId, toolFailedId);
   }
 
+  /**
+   * 订阅审批事件
+   */
+  private subscribeToApprovalEvents(): void {
+    if (!this.eventBus) return;
+    
+    const approvalRequestedId = this.eventBus.subscribe(
+      'approval.requested',
+      this.handleApprovalRequested.bind(this)
+    );
+    
+    // 审批超时或被其他方拒绝后，清除失效的请求，避免吞掉用户的下一条输入
+    const approvalRespondedId = this.eventBus.subscribe(
+      'approval.responded',
+      this.handleApprovalResponded.bind(this)
+    );
+    
+    this.eventSubscriptionIds.push(approvalRequestedId, approvalRespondedId);
+  }
+
   /**
    * 订阅错误事件
    */
@@ -467,8 +507,13 @@ export class ReactCLIClient implements IClient {
       this.handleError.bind(this),
       { sessionId: this.currentSessionId } // 只处理当前会话的错误
     );
+
+    const recoveryId = this.eventBus.subscribe(
+      'error.recovery.decided',
+      this.handleErrorRecoveryDecided.bind(this)
+    );
     
-    this.eventSubscriptionIds.push(errorId);
+    this.eventSubscriptionIds.push(errorId, recoveryId);
   }
 
   /**
@@ -874,6 +919,18 @@ export class ReactCLIClient implements IClient {
       return;
     }
     
+    // 有等待审批的工具调用时，输入作为审批回复
+    if (this.pendingApprovals.length > 0) {
+      this.handleApprovalInput(message);
+      return;
+    }
+
+    // 有等待决定的错误恢复时，输入作为恢复决定
+    if (this.pendingRecoveries.length > 0) {
+      this.handleRecoveryInput(message);
+      return;
+    }
+    
     // 发布用户消息事件
     if (this.eventBus) {
       this.eventBus.publish({
@@ -951,6 +1008,8 @@ export class ReactCLIClient implements IClient {
 • Use triple backticks to enter multiline mode
 • Press Ctrl+C to cancel current input
 • Press ESC to stop running agent
+• When a tool call needs approval, answer y (approve), n [reason] (deny) or e {json} (edit params)
+• When an error needs your decision, answer r (retry), s (skip) or a (abort)
 
 ⌨️ Keyboard Shortcuts:
 • ESC             Stop running agent
@@ -1172,6 +1231,17 @@ export class ReactCLIClient implements IClient {
   private handleAgentStepCompleted(event: AgentEvent): void {
     if (event.type === 'agent.step.completed' && event.data?.step) {
       let agentStep = event.data.step;
+
+      // 显示推理模型的思考内容，与 <think> 中提取的推理分开
+      if (this.config.eventDisplay?.agent?.showModelThinking && agentStep.reasoning) {
+        this.addMessage({
+          id: `thinking_${event.stepIndex}_${Date.now()}`,
+          content: agentStep.reasoning,
+          type: 'agent.thinking',
+          timestamp: Date.now(),
+          stepIndex: event.stepIndex,
+        });
+      }
       
       // 显示推理过程 - 保持原始格式
       if (this.config.eventDisplay?.agent?.showReasoning && agentStep.extractorResult?.reasoning) {
@@ -1218,15 +1288,24 @@ export class ReactCLIClient implements IClient {
     if (event.type === 'agent.stopped') {
       // 只在配置允许时显示停止消息
       if (this.config.eventDisplay?.agent?.showStopped) {
+        const cancelled = event.data?.cancelled;
+        const cancelledWork = [
+          cancelled?.llmCall ? 'LLM response' : '',
+          ...(cancelled?.toolCalls || []).map(toolCall => toolCall.name)
+        ].filter(Boolean);
         this.addMessage({
           id: `agent_stopped_${Date.now()}`,
-          content: `🛑 Agent stopped: ${event.data?.reason || 'Unknown reason'}`,
+          content: `🛑 Agent stopped: ${event.data?.reason || 'Unknown reason'}` +
+            (cancelledWork.length > 0 ? `\n✂️ Cancelled: ${cancelledWork.join(', ')}` : ''),
           type: 'system',
           timestamp: Date.now()
         });
       }
+      // 停止后等待中的审批请求和恢复决定已失效
+      this.pendingApprovals = [];
+      this.pendingRecoveries = [];
       // 更新UI状态
-      this.updateUIState({ isProcessing: false });
+      this.updateUIState({ isProcessing: false, awaitingApproval: false });
     }
   }
 
@@ -1482,6 +1561,275 @@ export class ReactCLIClient implements IClient {
     }
   }
 
+  /**
+   * 处理模型降级事件
+   */
+  private handleModelFallback(event: LLMEvent): void {
+    if (event.type !== 'llm.model.fallback') return;
+    const reason = event.data.error instanceof Error ? event.data.error.message : String(event.data.error ?? '');
+
+    this.addMessage({
+      id: `model_fallback_${Date.now()}`,
+      content: `🔀 ${event.data.fromModel} unavailable${reason ? ` (${reason})` : ''}, continuing with ${event.data.toModel}`,
+      type: 'system',
+      timestamp: Date.now(),
+      stepIndex: event.stepIndex
+    });
+  }
+
+  /**
+   * 处理工具调用审批请求
+   */
+  private handleApprovalRequested(event: ApprovalEvent): void {
+    if (event.type !== 'approval.requested') return;
+    
+    this.pendingApprovals.push(event);
+    // 同一时间只提示一个审批请求，其余排队
+    if (this.pendingApprovals.length === 1) {
+      this.showApprovalPrompt(event);
+    }
+    this.updateUIState({ awaitingApproval: true });
+  }
+
+  /**
+   * 处理其他方给出的审批结果（如 Agent 等待超时）：移除对应的等待请求，提示下一个
+   * 本客户端的回复在发布前已出队，这里找不到对应请求
+   */
+  private handleApprovalResponded(event: ApprovalEvent): void {
+    if (event.type !== 'approval.responded') return;
+    
+    const index = this.pendingApprovals.findIndex(request => request.data.requestId === event.data.requestId);
+    if (index === -1) return;
+    const [request] = this.pendingApprovals.splice(index, 1);
+    
+    const toolName = request.data.toolCall?.name;
+    const reason = event.data.reason ? `: ${event.data.reason}` : '';
+    this.addMessage({
+      id: `approval_closed_${request.data.requestId}`,
+      content: event.data.decision === 'deny'
+        ? `⌛ Approval request for ${toolName} was denied${reason}`
+        : `ℹ️ Approval request for ${toolName} was answered elsewhere${reason}`,
+      type: 'system',
+      timestamp: Date.now()
+    });
+    
+    if (this.pendingApprovals.length === 0) {
+      this.updateUIState({ awaitingApproval: false });
+    } else if (index === 0) {
+      this.showApprovalPrompt(this.pendingApprovals[0]);
+    }
+  }
+
+  /**
+   * 显示审批提示
+   */
+  private showApprovalPrompt(event: ApprovalEvent): void {
+    const { toolCall, riskLevel, requestId } = event.data;
+    const params = JSON.stringify(toolCall?.parameters ?? {}, null, 2);
+    const queued = this.pendingApprovals.length > 1
+      ? `\n⏳ ${this.pendingApprovals.length - 1} more request(s) waiting`
+      : '';
+    
+    this.addMessage({
+      id: `approval_${requestId}`,
+      content: `⚠️ **Approval required** (${riskLevel || 'write'})\n` +
+        `🔧 **${toolCall?.name}**\n📋 Call ID: ${toolCall?.call_id}\n` +
+        `\`\`\`json\n${params}\n\`\`\`\n` +
+        `Reply y to approve, n [reason] to deny, e {json} to run with edited parameters${queued}`,
+      type: 'system',
+      timestamp: Date.now(),
+      metadata: { approvalRequest: event.data }
+    });
+  }
+
+  /**
+   * 解析用户的审批回复
+   */
+  private handleApprovalInput(input: string): void {
+    const trimmed = input.trim();
+    const [word] = trimmed.split(/\s+/, 1);
+    const rest = trimmed.slice(word.length).trim();
+    
+    switch (word.toLowerCase()) {
+      case 'y':
+      case 'yes':
+      case 'approve':
+        this.respondToApproval('approve');
+        return;
+      case 'n':
+      case 'no':
+      case 'deny':
+        this.respondToApproval('deny', rest || undefined);
+        return;
+      case 'e':
+      case 'edit':
+        try {
+          this.respondToApproval('edit', undefined, JSON.parse(rest));
+        } catch (error) {
+          this.addMessage({
+            id: `approval_error_${Date.now()}`,
+            content: `❌ Invalid JSON parameters: ${error instanceof Error ? error.message : String(error)}`,
+            type: 'error',
+            timestamp: Date.now()
+          });
+        }
+        return;
+      default:
+        this.addMessage({
+          id: `approval_hint_${Date.now()}`,
+          content: '❓ A tool call is waiting for approval. Reply y, n [reason] or e {json}.',
+          type: 'system',
+          timestamp: Date.now()
+        });
+    }
+  }
+
+  /**
+   * 回复当前的审批请求，并提示下一个
+   */
+  private respondToApproval(decision: ApprovalDecision, reason?: string, parameters?: any): void {
+    const request = this.pendingApprovals.shift();
+    if (!request) return;
+    
+    this.eventBus?.publish({
+      type: 'approval.responded',
+      timestamp: Date.now(),
+      source: 'ReactCLIClient',
+      sessionId: request.sessionId,
+      data: {
+        requestId: request.data.requestId,
+        toolCall: request.data.toolCall,
+        decision,
+        reason,
+        parameters
+      }
+    } as ApprovalEvent);
+    
+    const toolName = request.data.toolCall?.name;
+    const summary = decision === 'approve'
+      ? `✅ Approved ${toolName}`
+      : decision === 'edit'
+        ? `✏️ Approved ${toolName} with edited parameters`
+        : `🚫 Denied ${toolName}${reason ? `: ${reason}` : ''}`;
+    this.addMessage({
+      id: `approval_response_${request.data.requestId}`,
+      content: summary,
+      type: 'system',
+      timestamp: Date.now()
+    });
+    
+    if (this.pendingApprovals.length > 0) {
+      this.showApprovalPrompt(this.pendingApprovals[0]);
+    } else {
+      this.updateUIState({ awaitingApproval: false });
+    }
+  }
+
+  /**
+   * 处理错误恢复决定：显示重试进度、跳过和中止通知，MANUAL 策略时提示用户选择
+   */
+  private handleErrorRecoveryDecided(event: ErrorRecoveryEvent): void {
+    if (event.type !== 'error.recovery.decided') return;
+    const { errorId, strategy, attempt, maxRetries, delayMs, component, operation, message } = event.data;
+    const where = component === 'tool' ? `Tool ${operation}` : `Step ${event.stepIndex ?? ''}`.trim();
+
+    let content: string;
+    switch (strategy) {
+      case 'retry':
+        content = `🔁 ${where} failed: ${message}\nRetrying (${attempt}/${maxRetries}) in ${((delayMs ?? 0) / 1000).toFixed(1)}s…`;
+        break;
+      case 'skip':
+      case 'fallback':
+        content = `⏭️ ${where} failed, skipping and continuing: ${message}`;
+        break;
+      case 'abort':
+        content = `🛑 ${where} failed, aborting: ${message}` +
+          (attempt && maxRetries && attempt >= maxRetries ? `\n(gave up after ${attempt} retries)` : '');
+        break;
+      case 'manual':
+        this.pendingRecoveries.push(event);
+        if (this.pendingRecoveries.length === 1) {
+          this.showRecoveryPrompt(event);
+        }
+        return;
+      default:
+        return;
+    }
+
+    this.addMessage({
+      id: `recovery_${errorId}`,
+      content,
+      type: strategy === 'abort' ? 'error' : 'system',
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * 显示错误恢复决定提示
+   */
+  private showRecoveryPrompt(event: ErrorRecoveryEvent): void {
+    const { errorId, title, message, description, suggestions } = event.data;
+    const hints = suggestions && suggestions.length > 0
+      ? `\n💡 ${suggestions.join('\n💡 ')}`
+      : '';
+
+    this.addMessage({
+      id: `recovery_prompt_${errorId}`,
+      content: `⚠️ **${title || 'An error occurred'}**\n${description || message}${hints}\n` +
+        'Reply r to retry, s to skip and continue, a to abort',
+      type: 'system',
+      timestamp: Date.now(),
+      metadata: { recoveryRequest: event.data }
+    });
+  }
+
+  /**
+   * 解析用户的错误恢复决定
+   */
+  private handleRecoveryInput(input: string): void {
+    const decisions: Record<string, RecoveryDecision> = {
+      r: 'retry', retry: 'retry',
+      s: 'skip', skip: 'skip',
+      a: 'abort', abort: 'abort'
+    };
+    const decision = decisions[input.trim().toLowerCase()];
+    if (!decision) {
+      this.addMessage({
+        id: `recovery_hint_${Date.now()}`,
+        content: '❓ An error is waiting for your decision. Reply r (retry), s (skip) or a (abort).',
+        type: 'system',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const request = this.pendingRecoveries.shift();
+    if (!request) return;
+
+    this.eventBus?.publish({
+      type: 'error.recovery.responded',
+      timestamp: Date.now(),
+      source: 'ReactCLIClient',
+      sessionId: request.sessionId,
+      stepIndex: request.stepIndex,
+      data: {
+        errorId: request.data.errorId,
+        decision
+      }
+    } as ErrorRecoveryEvent);
+
+    this.addMessage({
+      id: `recovery_response_${request.data.errorId}`,
+      content: decision === 'retry' ? '🔁 Retrying' : decision === 'skip' ? '⏭️ Skipping and continuing' : '🛑 Aborting',
+      type: 'system',
+      timestamp: Date.now()
+    });
+
+    if (this.pendingRecoveries.length > 0) {
+      this.showRecoveryPrompt(this.pendingRecoveries[0]);
+    }
+  }
+
   /**
    * 处理错误事件
    */
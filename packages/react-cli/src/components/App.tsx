@@ -156,8 +156,10 @@ const App: React.FC<AppProps> = ({
         <Box marginTop={1}>
           <CustomInputArea
             value={uiState.currentInput}
-            placeholder={uiState.isProcessing ? 'Processing...' : 'Type your message...'}
-            disabled={uiState.isProcessing}
+            placeholder={uiState.awaitingApproval
+              ? 'Approve? y / n [reason] / e {json}'
+              : uiState.isProcessing ? 'Processing...' : 'Type your message...'}
+            disabled={uiState.isProcessing && !uiState.awaitingApproval}
             onSubmit={onSubmit}
             onChange={(value) => onUIStateChange({ currentInput: value })}
             theme={uiState.theme}
@@ -36,6 +36,7 @@ const MessageList: React.FC<MessageListProps> = ({
       case 'user': return theme === 'dark' ? 'cyan' : 'blue';
       case 'agent': return theme === 'dark' ? 'green' : 'darkgreen';
       case 'agent.reasoning': return theme === 'dark' ? 'magenta' : 'purple';
+      case 'agent.thinking': return 'gray';
       case 'agent.response': return theme === 'dark' ? 'green' : 'darkgreen';
       case 'system': return theme === 'dark' ? 'yellow' : 'orange';
       case 'tool': return theme === 'dark' ? 'magenta' : 'purple';
@@ -51,6 +52,7 @@ const MessageList: React.FC<MessageListProps> = ({
       case 'user': return '👤';
       case 'agent': return '🤖';
       case 'agent.reasoning': return '💭';
+      case 'agent.thinking': return '🧠';
       case 'agent.response': return '💬';
       case 'system': return '⚙️';
       case 'tool': return '🔧';
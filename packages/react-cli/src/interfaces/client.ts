@@ -2,6 +2,7 @@ import {
   IClient, 
   ClientConfig, 
   ClientMessage, 
+  SessionManagerConfig,
 } from '@continue-reasoning/core';
 
 /**
@@ -23,6 +24,9 @@ export interface ReactCLIConfig extends ClientConfig {
   enableFileImport?: boolean;
   maxFileSize?: number;
   
+  // 会话存储配置（默认使用内存存储；storageType 为 'file' 时写入磁盘，支持跨重启恢复会话）
+  sessionStorage?: SessionManagerConfig;
+  
   // 调试配置
   debug?: boolean;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
@@ -39,6 +43,7 @@ export interface ReactCLIConfig extends ClientConfig {
       showStepCompleted?: boolean;
       showStepDetails?: boolean; // 控制是否显示步骤的详细内容
       showReasoning?: boolean;   // 控制是否显示推理过程
+      showModelThinking?: boolean; // 控制是否显示推理模型的思考内容（thinking 块）
       showResponse?: boolean;    // 控制是否显示响应内容
       showStopped?: boolean;
     };
@@ -73,6 +78,7 @@ export interface ReactCLIEventHandlers {
  */
 export interface UIState {
   isProcessing: boolean;
+  awaitingApproval?: boolean;  // 有工具调用等待用户审批
   currentInput: string;
   selectedMessageId?: string;
   showHelp: boolean;